@@ -0,0 +1,80 @@
+// Load the markdown species / technique guides into knowledge_chunks.
+//
+//   deno run --allow-read --allow-env --allow-net \
+//     --import-map supabase/functions/import_map.json \
+//     scripts/ingest_knowledge.ts [guides dir = knowledge] [--prune]
+//
+// Needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, plus OPENAI_API_KEY (or LLM_PROVIDER=stub).
+// Chunks are upserted by slug ("<file>#<section>"); only new or changed chunks are embedded
+// again. --prune deletes guide chunks whose section no longer exists (entries added on the Admin
+// page are never pruned).
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { embeddingInput, parseKnowledgeMarkdown, type ParsedKnowledgeChunk } from '../supabase/functions/_shared/knowledge.ts'
+import { createEmbedder } from '../supabase/functions/_shared/llm/index.ts'
+
+async function* markdownFiles(dir: string, prefix = ''): AsyncGenerator<string> {
+  for await (const entry of Deno.readDir(dir)) {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name
+    if (entry.isDirectory) yield* markdownFiles(`${dir}/${entry.name}`, path)
+    else if (entry.isFile && entry.name.endsWith('.md') && entry.name !== 'README.md') yield path
+  }
+}
+
+const args = Deno.args.filter((a) => !a.startsWith('--'))
+const prune = Deno.args.includes('--prune')
+const dir = args[0] ?? 'knowledge'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+  Deno.exit(1)
+}
+const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+const embedder = createEmbedder()
+
+const chunks: ParsedKnowledgeChunk[] = []
+for await (const path of markdownFiles(dir)) {
+  chunks.push(...parseKnowledgeMarkdown(path, await Deno.readTextFile(`${dir}/${path}`)))
+}
+const slugs = new Set<string>()
+for (const chunk of chunks) {
+  if (slugs.has(chunk.slug)) throw new Error(`Duplicate section ${chunk.slug} – section headings must be unique within a guide`)
+  slugs.add(chunk.slug)
+}
+
+// Skip the embedding call for chunks whose text, tags and model are unchanged
+const { data: existing, error: existingError } = await supabase
+  .from('knowledge_chunks')
+  .select('slug, title, content, species, regions, seasons, platforms, styles, embedding_model, embedded_at')
+  .not('source', 'is', null)
+if (existingError) throw existingError
+const previous = new Map((existing ?? []).map((row: any) => [row.slug, row]))
+const changed = chunks.filter((chunk) => {
+  const row = previous.get(chunk.slug)
+  return !row || !row.embedded_at || row.embedding_model !== embedder.model || embeddingInput(row) !== embeddingInput(chunk)
+})
+
+const vectors = await embedder.embed(changed.map(embeddingInput))
+const now = new Date().toISOString()
+const rows = changed.map((chunk, i) => ({
+  ...chunk,
+  embedding: JSON.stringify(vectors[i]),
+  embedding_model: embedder.model,
+  embedded_at: now,
+  updated_at: now
+}))
+if (rows.length > 0) {
+  const { error } = await supabase.from('knowledge_chunks').upsert(rows, { onConflict: 'slug' })
+  if (error) throw error
+}
+console.log(`${chunks.length} chunks in ${dir}: ${rows.length} embedded (${embedder.model}), ${chunks.length - rows.length} unchanged`)
+
+if (prune) {
+  const stale = [...previous.keys()].filter((slug) => !slugs.has(slug))
+  if (stale.length > 0) {
+    const { error } = await supabase.from('knowledge_chunks').delete().in('slug', stale)
+    if (error) throw error
+  }
+  console.log(`Pruned ${stale.length} chunks`)
+}
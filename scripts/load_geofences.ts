@@ -0,0 +1,83 @@
+// Load closure / protected-area polygons or the land / water mask from GeoJSON.
+//
+//   deno run --allow-read --allow-env --allow-net \
+//     --import-map supabase/functions/import_map.json \
+//     scripts/load_geofences.ts areas <file.geojson> --kind=marine_reserve [--restriction=closed] \
+//       [--source-url=https://...] [--name-property=NAME] [--starts-on=YYYY-MM-DD] [--ends-on=YYYY-MM-DD]
+//   ... scripts/load_geofences.ts land|water <file.geojson> [--shore-tolerance=150]
+//
+// Needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY. Areas are upserted by "<file>#<feature id or
+// index>", and per-feature properties (name, kind, restriction, notes, starts_on, ends_on,
+// source_url) override the flags. A mask load replaces everything previously loaded from the same
+// file. Only load land where the lakes and rivers are loaded as water too, or every freshwater
+// spot there counts as dry land.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { restrictedAreaKindSchema } from '../supabase/functions/_shared/contract.ts'
+
+// Features per RPC call; mask polygons can be large
+const BATCH_SIZE = 200
+
+// Kinds that close an area to fishing unless --restriction says otherwise
+const CLOSED_KINDS = new Set(['marine_reserve', 'no_take', 'closure', 'private_land'])
+
+const [mode, file] = Deno.args.filter((a) => !a.startsWith('--'))
+const flags = Object.fromEntries(
+  Deno.args.filter((a) => a.startsWith('--')).map((a) => {
+    const [key, ...value] = a.slice(2).split('=')
+    return [key, value.join('=')]
+  })
+)
+if (!['areas', 'land', 'water'].includes(mode) || !file) {
+  console.error('Usage: load_geofences.ts areas|land|water <file.geojson> [--flags]')
+  Deno.exit(1)
+}
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+  Deno.exit(1)
+}
+const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+
+const geojson = JSON.parse(await Deno.readTextFile(file))
+const features: any[] = (geojson.type === 'FeatureCollection' ? geojson.features : [geojson]).filter((f: any) =>
+  ['Polygon', 'MultiPolygon'].includes(f?.geometry?.type)
+)
+const source = file.split('/').pop()!
+
+let loaded = 0
+for (let i = 0; i < features.length; i += BATCH_SIZE) {
+  const batch = features.slice(i, i + BATCH_SIZE)
+  const { data, error } =
+    mode === 'areas'
+      ? await supabase.rpc('load_restricted_areas', {
+          p_source: source,
+          p_features: batch.map((f, j) => {
+            const props = f.properties ?? {}
+            const kind = restrictedAreaKindSchema.parse(props.kind ?? flags.kind)
+            return {
+              slug: `${source}#${f.id ?? props.id ?? i + j}`,
+              name: props.name ?? props[flags['name-property'] ?? 'NAME'] ?? `${source} ${i + j + 1}`,
+              kind,
+              restriction: props.restriction ?? flags.restriction ?? (CLOSED_KINDS.has(kind) ? 'closed' : 'restricted'),
+              notes: props.notes ?? null,
+              starts_on: props.starts_on ?? flags['starts-on'] ?? null,
+              ends_on: props.ends_on ?? flags['ends-on'] ?? null,
+              source_url: props.source_url ?? flags['source-url'] ?? null,
+              geometry: f.geometry
+            }
+          })
+        })
+      : await supabase.rpc('load_surface_mask', {
+          p_kind: mode,
+          p_source: source,
+          p_geometries: batch.map((f) => f.geometry),
+          p_replace: i === 0,
+          p_shore_tolerance_m: Number(flags['shore-tolerance'] ?? 150)
+        })
+  if (error) throw error
+  loaded += data as number
+  console.log(`${Math.min(i + BATCH_SIZE, features.length)} / ${features.length} features`)
+}
+console.log(`${source}: ${loaded} ${mode === 'areas' ? 'areas upserted' : `${mode} mask polygons loaded`}`)
@@ -1,13 +1,17 @@
 import React, { useState } from 'react'
 import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import TripPlanningWizard from './components/TripPlanningWizard'
+import DiscoverWaters from './components/DiscoverWaters'
 import { Header } from './components/Header'
 import type { TripFormData } from './schemas/trip'
-import { planTrip } from './api/planTrip'
+import { streamTripPlan, watchTripJob, type PlanTripResponse } from './api/planTrip'
 import { MapView } from './components/MapView'
 import { ItineraryDetails } from './components/ItineraryDetails'
+import { HazardBanner } from './components/HazardBanner'
+import { TripJobTimeline, type TripJobProgress } from './components/TripJobTimeline'
 import { ChatGuide } from './components/ChatGuide'
 import { saveTrip, loadTrip } from './lib/storage'
+import { collectWaypoints } from './lib/itinerary'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
 import { Login } from './components/Login'
 import { PricingModal } from './components/PricingModal'
@@ -17,29 +21,94 @@ import SharedTrip from './pages/SharedTrip'
 import ProfilePage from './pages/ProfilePage'
 import BackToTop from './components/BackToTop'
 import { getUserUsage } from './api/subscription'
+import type { TripItinerary } from './types/trip'
 
 const PENDING_TRIP_KEY = 'pendingTripData'
+// Job id of an in-flight generation, so a reload (or coming back later) picks the job back up
+const ACTIVE_JOB_KEY = 'active_trip_job_id'
 
 function AppContent() {
   const [isLoading, setIsLoading] = useState(false)
-  const [plan, setPlan] = useState<any | null>(null)
+  const [plan, setPlan] = useState<PlanTripResponse | null>(null)
+  const [job, setJob] = useState<TripJobProgress | null>(null)
+  const stopWatchingJob = React.useRef<(() => void) | null>(null)
+  // Sections of the itinerary streamed so far (null when nothing is streaming)
+  const [streamingItinerary, setStreamingItinerary] = useState<Partial<TripItinerary> | null>(null)
+  const streamingJobId = React.useRef<string | null>(null)
   const [pendingTrip, setPendingTrip] = useState<TripFormData | null>(null)
   // Show sign-in modal by default when the user is not authenticated
   const { session } = useAuth()
   const [showLogin, setShowLogin] = useState(() => !session)
   const [showPricing, setShowPricing] = useState(false)
+  // Set when plan_trip answers 429; the wizard counts down to it from the server's Retry-After
+  const [generateRetryAt, setGenerateRetryAt] = useState<number | null>(null)
   const [usage, setUsage] = useState<any>(null)
+  // "I know where" (wizard) or "Where should I go?" (discover_waters)
+  const [mode, setMode] = useState<'plan' | 'discover'>('plan')
+  // Memoised so the map isn't re-initialised on every render
+  const mapWaypoints = React.useMemo(() => collectWaypoints(plan?.itinerary), [plan])
 
   // Restore previously generated plan if available
   React.useEffect(() => {
     const id = localStorage.getItem('current_plan_id')
     if (id && !plan) {
       loadTrip(id).then((data) => {
-        if (data) setPlan(data)
+        if (data) setPlan(data as PlanTripResponse)
       }).catch(console.warn)
     }
   }, [])
 
+  const showGenerationError = (message: string | null | undefined, code?: string | null, retryAfter?: number) => {
+    // Check if it's a usage limit error
+    if (message?.includes('free generation limit')) {
+      setShowPricing(true)
+    } else if (code === 'RATE_LIMITED') {
+      setGenerateRetryAt(Date.now() + (retryAfter ?? 60) * 1000)
+    } else if (code === 'UNAUTHORIZED') {
+      // Session expired or was rejected server-side – ask the user to sign in again
+      setShowLogin(true)
+    } else if (code === 'ITINERARY_INVALID' || code === 'SPECIES_UNSUITABLE' || code === 'JOB_STALE') {
+      alert(message)
+    } else {
+      alert('Failed to generate trip plan.')
+    }
+  }
+
+  const finishPlan = (res: PlanTripResponse) => {
+    console.log('Received plan:', res)
+    setPlan(res)
+    setJob(null)
+    saveTrip(res.plan_id, res)
+    localStorage.setItem('current_plan_id', res.plan_id)
+    // Refresh usage data after successful generation
+    getUserUsage().then(setUsage).catch(console.error)
+  }
+
+  const followJob = (jobId: string) => {
+    stopWatchingJob.current?.()
+    setIsLoading(true)
+    stopWatchingJob.current = watchTripJob(jobId, (update) => {
+      setJob(update)
+      if (update.status === 'pending' || update.status === 'running') return
+
+      localStorage.removeItem(ACTIVE_JOB_KEY)
+      setIsLoading(false)
+      if (update.status === 'succeeded' && update.result) {
+        finishPlan(update.result)
+      } else {
+        showGenerationError(update.error, update.error_code)
+      }
+    })
+  }
+
+  // Resume a generation that was still running when the user left
+  React.useEffect(() => {
+    const jobId = localStorage.getItem(ACTIVE_JOB_KEY)
+    // A job this tab is streaming is already being followed
+    if (session && jobId && jobId !== streamingJobId.current) followJob(jobId)
+    return () => stopWatchingJob.current?.()
+  }, [session])
+
   // Hide the modal automatically after the user signs in
   React.useEffect(() => {
     if (session) {
@@ -74,25 +143,34 @@ function AppContent() {
       return
     }
 
-    // Otherwise execute request immediately
+    // Otherwise stream the plan immediately; sections render as the model writes them
     setIsLoading(true)
+    setJob(null)
+    setStreamingItinerary(null)
+    const createdAt = new Date().toISOString()
+    const progress: TripJobProgress['progress'] = [{ stage: 'queued', at: createdAt }]
     try {
-      const res = await planTrip(data)
-      console.log('Received plan:', res)
-      setPlan(res)
-      saveTrip(res.plan_id, res)
-      localStorage.setItem('current_plan_id', res.plan_id)
-      // Refresh usage data after successful generation
-      getUserUsage().then(setUsage).catch(console.error)
+      const res = await streamTripPlan(data, {
+        onJob: (jobId) => {
+          streamingJobId.current = jobId
+          localStorage.setItem(ACTIVE_JOB_KEY, jobId)
+          setJob({ status: 'running', progress: [...progress], created_at: createdAt, error: null })
+        },
+        onStage: (stage) => {
+          progress.push({ stage, at: new Date().toISOString() })
+          setJob({ status: 'running', progress: [...progress], created_at: createdAt, error: null })
+        },
+        onSections: setStreamingItinerary
+      })
+      finishPlan(res)
     } catch (err: any) {
       console.error(err)
-      // Check if it's a usage limit error
-      if (err.message?.includes('free generation limit')) {
-        setShowPricing(true)
-      } else {
-        alert('Failed to generate trip plan.')
-      }
+      setJob((prev) => prev && { ...prev, status: 'failed', error: err.message })
+      showGenerationError(err.message, err.code, err.retryAfter)
     } finally {
+      localStorage.removeItem(ACTIVE_JOB_KEY)
+      streamingJobId.current = null
+      setStreamingItinerary(null)
       setIsLoading(false)
     }
   }
@@ -157,7 +235,44 @@ function AppContent() {
           <p className="text-gray-600">Your AI-powered fishing trip planner</p>
         </header>
         
-        {!plan && <TripPlanningWizard onSubmit={handleSubmit} isLoading={isLoading} />}
+        {!plan && streamingItinerary && Object.keys(streamingItinerary).length > 0 ? (
+          <div className="mx-auto max-w-3xl">
+            <TripJobTimeline job={job} />
+            <div className="mt-6">
+              <ItineraryDetails itinerary={streamingItinerary} streaming />
+            </div>
+          </div>
+        ) : (
+          !plan && (
+            <>
+              <div className="flex justify-center gap-2 mb-6">
+                {([['plan', 'I know where'], ['discover', 'Where should I go?']] as const).map(([value, label]) => (
+                  <button key={value} onClick={() => setMode(value)}
+                    className={`px-4 py-2 rounded-full text-sm font-medium ${mode === value ? 'bg-accent text-white' : 'bg-white text-gray-700 border border-gray-300'}`}>
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {mode === 'plan' ? (
+                <TripPlanningWizard
+                  onSubmit={handleSubmit}
+                  isLoading={isLoading}
+                  job={job}
+                  retryAt={generateRetryAt}
+                  onRetryAvailable={() => setGenerateRetryAt(null)}
+                />
+              ) : (
+                <DiscoverWaters
+                  onPlan={handleSubmit}
+                  isPlanning={isLoading}
+                  planRetryAt={generateRetryAt}
+                  onPlanRetryAvailable={() => setGenerateRetryAt(null)}
+                  onSignInRequired={() => setShowLogin(true)}
+                />
+              )}
+            </>
+          )
+        )}
 
         {plan && (
           <>
@@ -167,12 +282,19 @@ function AppContent() {
               </button>
             </div>
 
+            {/* Active alerts – re-checked when a saved plan is restored */}
+            {plan.itinerary.hazards && (
+              <div className="mt-6">
+                <HazardBanner hazards={plan.itinerary.hazards} />
+              </div>
+            )}
+
             {/* New responsive grid: Map | Itinerary | Chat */}
             <div className="mt-6 grid lg:grid-cols-[1fr_2fr_1fr] gap-8">
               {/* Map */}
               <div>
                 <h2 className="text-2xl font-bold mb-4">Map Preview</h2>
-                <MapView waypoints={(plan.itinerary.pointsOfInterest ?? plan.itinerary.waypoints) || []} enableSummary />
+                <MapView waypoints={mapWaypoints} enableSummary />
               </div>
 
               {/* Itinerary Details */}
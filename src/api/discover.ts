@@ -0,0 +1,22 @@
+import { supabase } from '../lib/supabaseClient'
+import { toPlanTripError } from './planTrip'
+import {
+  discoverWatersResponseSchema,
+  type DiscoverWatersRequest,
+  type DiscoverWatersResponse
+} from '../../supabase/functions/_shared/contract'
+
+export type { DiscoverWatersResponse }
+
+/** Rank the waters within reach of home; errors carry plan_trip's codes (RATE_LIMITED, SPECIES_UNSUITABLE…) */
+export async function discoverWaters(request: DiscoverWatersRequest): Promise<DiscoverWatersResponse> {
+  const { data, error } = await supabase.functions.invoke<DiscoverWatersResponse>('discover_waters', { body: request })
+  if (error) throw await toPlanTripError(error)
+
+  const parsed = discoverWatersResponseSchema.safeParse(data)
+  if (!parsed.success) {
+    console.error('discover_waters response violates contract', parsed.error.issues)
+    throw new Error('Received an invalid search result. Please try again.')
+  }
+  return parsed.data
+}
@@ -0,0 +1,34 @@
+import { supabase } from '../lib/supabaseClient'
+import type { RestrictedAreaKind } from '../../supabase/functions/_shared/contract'
+
+export interface RestrictedArea {
+  id: string
+  name: string
+  kind: RestrictedAreaKind
+  restriction: 'closed' | 'restricted'
+  notes: string | null
+  source_url: string | null
+  starts_on: string | null
+  ends_on: string | null
+  geometry: { type: 'Polygon' | 'MultiPolygon'; coordinates: unknown } // GeoJSON, simplified for the view
+}
+
+/** Closures and protected areas in force today that overlap the map view */
+export async function fetchRestrictedAreas([minLon, minLat, maxLon, maxLat]: [number, number, number, number]): Promise<RestrictedArea[]> {
+  const { data, error } = await supabase.rpc('restricted_areas_in_bbox', {
+    p_min_lon: minLon,
+    p_min_lat: minLat,
+    p_max_lon: maxLon,
+    p_max_lat: maxLat
+  })
+  if (error) throw error
+  return (data ?? []) as RestrictedArea[]
+}
+
+/** GeoJSON for the map's restricted-areas source; properties drive the layer colours and popups */
+export function restrictedAreasGeoJson(areas: RestrictedArea[]) {
+  return {
+    type: 'FeatureCollection' as const,
+    features: areas.map(({ geometry, ...area }) => ({ type: 'Feature' as const, id: area.id, geometry, properties: area }))
+  }
+}
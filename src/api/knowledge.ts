@@ -0,0 +1,31 @@
+import { supabase } from '../lib/supabaseClient'
+import type { KnowledgeAdminRequest, KnowledgeChunk, KnowledgeChunkInput } from '../../supabase/functions/_shared/contract'
+
+const CHUNK_FIELDS = 'id, slug, title, content, species, regions, seasons, platforms, styles, source, embedding_model, embedded_at, updated_at'
+
+export async function fetchKnowledgeChunks(): Promise<KnowledgeChunk[]> {
+  const { data, error } = await supabase.from('knowledge_chunks').select(CHUNK_FIELDS).order('title')
+  if (error) throw error
+  return data as KnowledgeChunk[]
+}
+
+async function invokeKnowledgeAdmin<T>(body: KnowledgeAdminRequest): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>('knowledge_admin', { body })
+  if (error) throw error
+  return data as T
+}
+
+/** Insert (no id) or update a chunk; the function re-embeds it before saving */
+export async function saveKnowledgeChunk(chunk: KnowledgeChunkInput, id?: string): Promise<KnowledgeChunk> {
+  const { chunk: saved } = await invokeKnowledgeAdmin<{ chunk: KnowledgeChunk }>({ action: 'save', id, chunk })
+  return saved
+}
+
+export async function deleteKnowledgeChunk(id: string): Promise<void> {
+  await invokeKnowledgeAdmin({ action: 'delete', id })
+}
+
+/** Re-embed the given chunks, or every chunk (e.g. after changing EMBEDDING_MODEL) */
+export async function reembedKnowledge(ids?: string[]): Promise<{ reembedded: number; model: string }> {
+  return invokeKnowledgeAdmin({ action: 'reembed', ids })
+}
@@ -1,19 +1,256 @@
+import { createParser, type EventSourceMessage } from 'eventsource-parser'
 import { supabase } from '../lib/supabaseClient'
-import type { TripFormData } from '../schemas/trip'
+import { parseCompletedMembers } from '../lib/partialJson'
+import { parseRetryAfter } from '../lib/rateLimit'
+import {
+  STALE_TRIP_JOB_MINUTES,
+  generatedItinerarySchema,
+  planTripResponseSchema,
+  tripJobSchema,
+  tripStreamDoneSchema,
+  type FunctionError,
+  type PlanTripRequest,
+  type PlanTripResponse,
+  type TripItinerary,
+  type TripJob,
+  type TripJobStage
+} from '../../supabase/functions/_shared/contract'
 
-export interface PlanTripResponse {
-  plan_id: string
-  itinerary: any
-  generated_at: string
+export type { PlanTripResponse, TripJob }
+
+// Realtime normally delivers every update; polling only covers dropped sockets
+const JOB_POLL_INTERVAL_MS = 5000
+// Longest a dropped stream waits on its job row before giving up
+const JOB_WAIT_TIMEOUT_MS = 15 * 60 * 1000
+const STALE_JOB_ERROR = 'Trip generation stopped responding. Please try again.'
+
+/**
+ * Error returned by plan_trip, carrying its message and (when present) a machine-readable code.
+ * Rate-limited requests (code RATE_LIMITED) also carry the server's Retry-After in seconds.
+ */
+export class PlanTripError extends Error {
+  constructor(message: string, readonly code?: string, readonly status?: number, readonly retryAfter?: number) {
+    super(message)
+    this.name = 'PlanTripError'
+  }
+}
+
+// Non-2xx responses keep the function's JSON body on `context`; prefer its message over the generic one
+export async function toPlanTripError(error: Error): Promise<PlanTripError> {
+  const response: Response | undefined = (error as any).context
+  const body = await response?.json?.().catch(() => null)
+  return new PlanTripError(body?.error ?? error.message, body?.code, response?.status, parseRetryAfter(response?.headers) ?? undefined)
+}
+
+export async function getTripJob(jobId: string): Promise<TripJob | null> {
+  const { data, error } = await supabase.from('trip_jobs').select('*').eq('id', jobId).maybeSingle()
+  if (error) throw error
+  if (!data) return null
+
+  const parsed = tripJobSchema.safeParse(data)
+  if (!parsed.success) {
+    console.error('trip_jobs row violates contract', parsed.error.issues)
+    throw new PlanTripError('Received an invalid trip job. Please try again.')
+  }
+  return parsed.data
+}
+
+function isStaleJob(job: TripJob) {
+  const active = job.status === 'pending' || job.status === 'running'
+  return active && Date.now() - Date.parse(job.updated_at) > STALE_TRIP_JOB_MINUTES * 60_000
+}
+
+/** A job that stopped moving (or is no longer visible), reported as failed so callers stop waiting */
+function staleJob(jobId: string, job: TripJob | null): TripJob {
+  const now = new Date().toISOString()
+  return {
+    id: jobId,
+    stage: 'queued',
+    progress: [],
+    plan_id: null,
+    result: null,
+    created_at: now,
+    updated_at: now,
+    ...job,
+    status: 'failed',
+    error: STALE_JOB_ERROR,
+    error_code: 'JOB_STALE'
+  }
+}
+
+/**
+ * Follow a job until it finishes: Realtime updates plus a slow poll as a safety net.
+ * `onUpdate` receives the current row immediately; returns an unsubscribe function.
+ * Stale or missing jobs end as failed, and stale rows are failed on the server too.
+ */
+export function watchTripJob(jobId: string, onUpdate: (job: TripJob) => void): () => void {
+  let stopped = false
+  let lastUpdatedAt = ''
+
+  const emit = (job: TripJob | null) => {
+    if (stopped || !job || job.updated_at < lastUpdatedAt) return
+    lastUpdatedAt = job.updated_at
+    onUpdate(job)
+    if (job.status === 'succeeded' || job.status === 'failed') stop()
+  }
+
+  const refresh = () =>
+    getTripJob(jobId)
+      .then((job) => {
+        if (job && !isStaleJob(job)) return emit(job)
+        if (job) supabase.rpc('fail_stale_trip_jobs').then(({ error }) => error && console.warn(error))
+        emit(staleJob(jobId, job))
+      })
+      .catch(console.warn)
+
+  const channel = supabase
+    .channel(`trip_job_${jobId}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'trip_jobs', filter: `id=eq.${jobId}` },
+      // Realtime payloads can omit large columns – re-read the row when the result lands
+      ({ new: row }) => {
+        const parsed = tripJobSchema.safeParse(row)
+        if (parsed.success && parsed.data.status !== 'succeeded') emit(parsed.data)
+        else refresh()
+      }
+    )
+    .subscribe()
+
+  const timer = setInterval(refresh, JOB_POLL_INTERVAL_MS)
+  refresh()
+
+  function stop() {
+    stopped = true
+    clearInterval(timer)
+    supabase.removeChannel(channel)
+  }
+
+  return stop
 }
 
-export async function planTrip(payload: TripFormData): Promise<PlanTripResponse> {
-  const { data, error } = await supabase.functions.invoke<PlanTripResponse>('plan_trip', {
-    body: payload
+/** Resolve once a job finishes (used when a stream drops before its final event) */
+function waitForTripJob(jobId: string): Promise<PlanTripResponse> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      stop()
+      reject(new PlanTripError(STALE_JOB_ERROR, 'JOB_STALE'))
+    }, JOB_WAIT_TIMEOUT_MS)
+    const stop = watchTripJob(jobId, (job) => {
+      if (job.status === 'succeeded' && job.result) resolve(job.result)
+      else if (job.status === 'failed') reject(new PlanTripError(job.error ?? 'Failed to generate trip plan.', job.error_code ?? undefined))
+      else return
+      clearTimeout(timeout)
+    })
   })
+}
 
-  if (error) {
-    throw error
+/** Sections of the streamed itinerary that are complete and individually valid */
+function completedSections(text: string): Partial<TripItinerary> {
+  const sections: Record<string, unknown> = {}
+  const shape = generatedItinerarySchema.shape as Record<string, { safeParse: (v: unknown) => { success: boolean } }>
+  for (const [key, value] of Object.entries(parseCompletedMembers(text))) {
+    if (shape[key]?.safeParse(value).success) sections[key] = value
   }
-  return data as PlanTripResponse
-} 
\ No newline at end of file
+  return sections as Partial<TripItinerary>
+}
+
+export interface TripStreamHandlers {
+  /** The background job backing this stream – persist it to resume after a reload */
+  onJob?: (jobId: string) => void
+  onStage?: (stage: TripJobStage) => void
+  /** Itinerary sections received so far; starts over if plan_trip had to repair the output */
+  onSections?: (sections: Partial<TripItinerary>) => void
+}
+
+/**
+ * Generate a plan in stream mode, surfacing itinerary sections as the model writes them. The
+ * final itinerary is assembled from the streamed sections plus plan_trip's conditions overlay.
+ */
+export async function streamTripPlan(payload: PlanTripRequest, handlers: TripStreamHandlers = {}): Promise<PlanTripResponse> {
+  const { data } = await supabase.auth.getSession()
+  const functionsUrl = (import.meta.env.VITE_FUNCTIONS_URL as string) || `${import.meta.env.VITE_SUPABASE_URL as string}/functions/v1`
+
+  const res = await fetch(`${functionsUrl}/plan_trip`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: import.meta.env.VITE_SUPABASE_ANON_KEY as string,
+      ...(data.session ? { Authorization: `Bearer ${data.session.access_token}` } : {})
+    },
+    body: JSON.stringify({ ...payload, mode: 'stream' })
+  })
+
+  if (!res.ok || !res.body) {
+    const body: Partial<FunctionError> | null = await res.json().catch(() => null)
+    throw new PlanTripError(body?.error ?? 'Failed to generate trip plan.', body?.code, res.status, parseRetryAfter(res.headers) ?? undefined)
+  }
+
+  let jobId: string | null = null
+  let text = ''
+  let sectionCount = 0
+  let result: PlanTripResponse | null = null
+  let failure: PlanTripError | null = null
+
+  const updateSections = (reset: boolean) => {
+    const sections = completedSections(text)
+    const count = Object.keys(sections).length
+    if (reset || count !== sectionCount) handlers.onSections?.(sections)
+    sectionCount = count
+  }
+
+  const parser = createParser({
+    onEvent(event: EventSourceMessage) {
+      const eventData = JSON.parse(event.data)
+      switch (event.event) {
+        case 'job':
+          jobId = eventData.job_id
+          handlers.onJob?.(eventData.job_id)
+          break
+        case 'stage':
+          handlers.onStage?.(eventData.stage)
+          break
+        case 'delta':
+          text += eventData.text
+          updateSections(false)
+          break
+        case 'replace':
+          text = eventData.text
+          updateSections(true)
+          break
+        case 'done': {
+          const done = tripStreamDoneSchema.parse(eventData)
+          const assembled = planTripResponseSchema.safeParse({
+            plan_id: done.plan_id,
+            generated_at: done.generated_at,
+            itinerary: { ...completedSections(text), ...done.overlay }
+          })
+          if (assembled.success) result = assembled.data
+          else console.error('Streamed itinerary violates contract', assembled.error.issues)
+          break
+        }
+        case 'error':
+          failure = new PlanTripError(eventData.error, eventData.code)
+          break
+      }
+    }
+  })
+
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder('utf-8')
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      parser.feed(decoder.decode(value, { stream: true }))
+    }
+  } catch (err) {
+    console.warn('plan_trip stream interrupted', err)
+  }
+
+  if (failure) throw failure
+  if (result) return result
+  // Dropped connection or an assembly mismatch – the job row has the authoritative result
+  if (jobId) return waitForTripJob(jobId)
+  throw new PlanTripError('Failed to generate trip plan.')
+}
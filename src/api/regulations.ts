@@ -0,0 +1,40 @@
+import { supabase } from '../lib/supabaseClient'
+import type { RegulationRow } from '../../supabase/functions/_shared/contract'
+
+export interface JurisdictionSummary {
+  jurisdiction: string
+  rules: number
+  /** Oldest last_verified date among the jurisdiction's rules (YYYY-MM-DD) */
+  oldestVerified: string
+  newestVerified: string
+}
+
+/** Rule counts and verification dates per jurisdiction, for the Admin page */
+export async function fetchRegulationSummary(): Promise<JurisdictionSummary[]> {
+  const { data, error } = await supabase.from('regulations').select('jurisdiction, last_verified').order('jurisdiction')
+  if (error) throw error
+  const byJurisdiction = new Map<string, JurisdictionSummary>()
+  for (const row of data ?? []) {
+    const current = byJurisdiction.get(row.jurisdiction)
+    if (!current) {
+      byJurisdiction.set(row.jurisdiction, { jurisdiction: row.jurisdiction, rules: 1, oldestVerified: row.last_verified, newestVerified: row.last_verified })
+      continue
+    }
+    current.rules++
+    if (row.last_verified < current.oldestVerified) current.oldestVerified = row.last_verified
+    if (row.last_verified > current.newestVerified) current.newestVerified = row.last_verified
+  }
+  return [...byJurisdiction.values()]
+}
+
+/** Insert or update rules (admins only, enforced by RLS); a rule is identified by jurisdiction, waterbody, species and season */
+export async function importRegulations(rows: RegulationRow[]): Promise<void> {
+  const updatedAt = new Date().toISOString()
+  const { error } = await supabase
+    .from('regulations')
+    .upsert(
+      rows.map((row) => ({ ...row, updated_at: updatedAt })),
+      { onConflict: 'jurisdiction,waterbody,species,season_start,season_end' }
+    )
+  if (error) throw error
+}
@@ -1,9 +1,20 @@
 import { supabase } from '../lib/supabaseClient'
+import { toPlanTripError } from './planTrip'
+import type {
+  BestDayRequest,
+  BestDayResponse,
+  HazardInfo,
+  PlanTripRequest,
+  PlanTripResponse,
+  RescheduleRequest,
+  TripItinerary
+} from '../../supabase/functions/_shared/contract'
 
 export interface TripRecord {
   id: string
   plan_id: string
-  itinerary: any
+  itinerary: TripItinerary
+  preferences?: PlanTripRequest | null
   generated_at: string
   visibility: 'private' | 'public'
 }
@@ -26,6 +37,26 @@ export async function toggleTripVisibility(id: string, newVisibility: 'private'
   if (error) throw error
 }
 
+export async function rescheduleTrip(request: RescheduleRequest): Promise<PlanTripResponse> {
+  const { data, error } = await supabase.functions.invoke<PlanTripResponse>('reschedule', { body: request })
+  if (error) throw error
+  return data as PlanTripResponse
+}
+
+/** Score every day of a window for a saved trip (best_day) to pick a date to reschedule to */
+export async function findBestDays(request: BestDayRequest): Promise<BestDayResponse> {
+  const { data, error } = await supabase.functions.invoke<BestDayResponse>('best_day', { body: request })
+  if (error) throw await toPlanTripError(error)
+  return data as BestDayResponse
+}
+
+/** Current NWS alerts for a trip's location (trip_alerts), to refresh `itinerary.hazards` on reopen */
+export async function checkTripAlerts(lat: number, lon: number): Promise<HazardInfo> {
+  const { data, error } = await supabase.functions.invoke<HazardInfo>('trip_alerts', { body: { lat, lon } })
+  if (error) throw error
+  return data as HazardInfo
+}
+
 export async function fetchTripByPlanId(planId: string): Promise<TripRecord | null> {
   const { data, error } = await supabase.from('trips').select('*').eq('plan_id', planId).single()
   if (error && error.code !== 'PGRST116') throw error // row not found is ok
@@ -0,0 +1,115 @@
+import React, { useState } from 'react'
+import { findBestDays } from '../api/trips'
+import { FACTOR_LABELS, addDays, formatDay, scoreClass } from '../lib/dayScore'
+import { MAX_BEST_DAY_WINDOW, type BestDayResponse } from '../../supabase/functions/_shared/contract'
+
+interface BestDayFinderProps {
+  planId: string
+  /** Regenerate the trip for the chosen date (reschedule) */
+  onReschedule: (date: string) => Promise<void>
+  onClose: () => void
+}
+
+/** Ranked calendar of the days in a window for a saved trip, with the reasons behind each score */
+export function BestDayFinder({ planId, onReschedule, onClose }: BestDayFinderProps) {
+  const today = new Date().toLocaleDateString('en-CA')
+  const [startDate, setStartDate] = useState(today)
+  const [endDate, setEndDate] = useState(addDays(today, 6))
+  const [result, setResult] = useState<BestDayResponse | null>(null)
+  const [selected, setSelected] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [rescheduling, setRescheduling] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const search = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await findBestDays({ plan_id: planId, startDate, endDate })
+      setResult(data)
+      setSelected(data.best)
+    } catch (err: any) {
+      console.error(err)
+      setError(err.message || 'Failed to score the days')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const reschedule = async (date: string) => {
+    setRescheduling(true)
+    try {
+      await onReschedule(date)
+    } finally {
+      setRescheduling(false)
+    }
+  }
+
+  const day = result?.days.find((d) => d.date === selected)
+
+  return (
+    <div className="mt-4 border-t border-gray-200 pt-4 space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium mb-1">From</label>
+          <input type="date" value={startDate} min={today}
+            onChange={(e) => {
+              setStartDate(e.target.value)
+              if (endDate < e.target.value) setEndDate(e.target.value)
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm" />
+        </div>
+        <div>
+          <label className="block text-xs font-medium mb-1">To (up to {MAX_BEST_DAY_WINDOW} days)</label>
+          <input type="date" value={endDate} min={startDate} max={addDays(startDate, MAX_BEST_DAY_WINDOW - 1)}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm" />
+        </div>
+        <button onClick={search} disabled={loading}
+          className="px-4 py-2 bg-accent hover:bg-accent-dark text-white rounded-lg text-sm disabled:opacity-50">
+          {loading ? 'Scoring…' : 'Find the best day'}
+        </button>
+        <button onClick={onClose} className="px-2 py-2 text-sm underline text-gray-600">Cancel</button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <>
+          <p className="text-xs text-gray-500">Conditions at {result.location}, for the trip's time window and species.</p>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+            {result.days.map((d) => (
+              <button key={d.date} onClick={() => setSelected(d.date)}
+                className={`rounded-lg border p-2 text-left ${selected === d.date ? 'border-accent ring-1 ring-accent' : 'border-gray-200'}`}>
+                <p className="text-xs font-medium">{formatDay(d.date)}</p>
+                <div className="flex items-center justify-between mt-1">
+                  <span className={`text-xs font-semibold px-1.5 py-0.5 rounded ${scoreClass(d.score)}`}>{d.score}</span>
+                  <span className="text-[10px] text-gray-500">{d.rank === 1 ? '★ Best' : `#${d.rank}`}</span>
+                </div>
+                {!d.forecast && <p className="text-[10px] text-gray-400 mt-1">Past the forecast</p>}
+              </button>
+            ))}
+          </div>
+          {day && (
+            <div className="rounded-lg bg-slate-50 p-3">
+              <p className="text-sm font-medium">{formatDay(day.date)} – {day.score}/100</p>
+              <ul className="text-xs text-gray-700 mt-1 space-y-0.5">
+                {day.factors.map((f) => (
+                  <li key={f.factor}>
+                    <span className="font-medium">{FACTOR_LABELS[f.factor]}:</span> {f.reason}
+                  </li>
+                ))}
+                {!day.forecast && <li className="text-gray-500">Wind and rain are not forecast this far out.</li>}
+              </ul>
+              <div className="mt-3 flex justify-end">
+                <button onClick={() => reschedule(day.date)} disabled={rescheduling}
+                  className="px-4 py-2 bg-accent hover:bg-accent-dark text-white rounded-lg text-sm disabled:opacity-50">
+                  {rescheduling ? 'Rescheduling…' : `Reschedule to ${formatDay(day.date)}`}
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
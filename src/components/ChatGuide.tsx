@@ -1,27 +1,23 @@
 import React, { useState, useRef, useEffect } from 'react'
 import { createParser, type EventSourceMessage } from 'eventsource-parser'
-import { sanitizeHtml, sanitizePromptInput, ClientRateLimit } from '../lib/security'
+import { sanitizeHtml, sanitizePromptInput } from '../lib/security'
+import { parseRateLimit, parseRetryAfter, type RateLimitInfo } from '../lib/rateLimit'
+import { RateLimitCountdown } from './RateLimitCountdown'
+import type { ChatGuideRequest, ChatMessage } from '../../supabase/functions/_shared/contract'
 
 interface ChatGuideProps {
   planId: string
 }
 
-interface Message {
-  role: 'user' | 'assistant'
-  content: string
-}
-
-// Rate limiting: 10 messages per 5 minutes
-const chatRateLimit = new ClientRateLimit('chat', {
-  maxRequests: 10,
-  windowMs: 5 * 60 * 1000
-});
+type Message = ChatMessage
 
 export function ChatGuide({ planId }: ChatGuideProps) {
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
-  const [rateLimitError, setRateLimitError] = useState<string | null>(null)
+  // Enforced by chat_guide; these mirror its RateLimit-* / Retry-After headers
+  const [rateLimit, setRateLimit] = useState<RateLimitInfo | null>(null)
+  const [retryAt, setRetryAt] = useState<number | null>(null)
   const containerRef = useRef<HTMLDivElement | null>(null)
 
   const scrollToBottom = () => {
@@ -32,18 +28,7 @@ export function ChatGuide({ planId }: ChatGuideProps) {
 
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!input.trim()) return
-
-    // Clear any previous rate limit errors
-    setRateLimitError(null)
-
-    // Check rate limit
-    const rateCheck = chatRateLimit.checkLimit()
-    if (!rateCheck.allowed) {
-      const resetDate = new Date(rateCheck.resetTime)
-      setRateLimitError(`Rate limit exceeded. Try again after ${resetDate.toLocaleTimeString()}`)
-      return
-    }
+    if (!input.trim() || retryAt !== null) return
 
     // Sanitize user input to prevent prompt injection
     const sanitizedInput = sanitizePromptInput(input.trim())
@@ -87,9 +72,19 @@ export function ChatGuide({ planId }: ChatGuideProps) {
       const res = await fetch(`${import.meta.env.VITE_FUNCTIONS_URL}/chat_guide`, {
         method: 'POST',
         headers,
-        body: JSON.stringify({ plan_id: planId, messages: newMessages })
+        body: JSON.stringify({ plan_id: planId, messages: newMessages } satisfies ChatGuideRequest)
       })
 
+      setRateLimit(parseRateLimit(res.headers))
+
+      if (res.status === 429) {
+        // Nothing was sent – put the message back so it can be resent once the countdown ends
+        setMessages(messages)
+        setInput(input)
+        setRetryAt(Date.now() + (parseRetryAfter(res.headers) ?? 60) * 1000)
+        return
+      }
+
       if (!res.ok || !res.body) {
         throw new Error('Failed to connect to chat function')
       }
@@ -169,10 +164,8 @@ export function ChatGuide({ planId }: ChatGuideProps) {
             {renderMessageContent(m.content)}
           </div>
         ))}
-        {rateLimitError && (
-          <div className="p-3 rounded-lg bg-red-100 text-red-700 text-sm">
-            {rateLimitError}
-          </div>
+        {retryAt !== null && (
+          <RateLimitCountdown until={retryAt} action="send another message" onExpire={() => setRetryAt(null)} />
         )}
       </div>
       <form onSubmit={sendMessage} className="mt-auto flex gap-2">
@@ -186,15 +179,17 @@ export function ChatGuide({ planId }: ChatGuideProps) {
         />
         <button
           type="submit"
-          disabled={isLoading || !input.trim()}
+          disabled={isLoading || !input.trim() || retryAt !== null}
           className="bg-brand text-white px-4 py-2 rounded-lg disabled:opacity-50"
         >
           {isLoading ? 'Sending...' : 'Send'}
         </button>
       </form>
-      <div className="text-xs text-gray-500 mt-1">
-        Remaining messages: {chatRateLimit.getStatus().remaining}/10 per 5 minutes
-      </div>
+      {rateLimit && (
+        <div className="text-xs text-gray-500 mt-1">
+          Remaining messages: {rateLimit.remaining}/{rateLimit.limit}
+        </div>
+      )}
     </div>
   )
 } 
\ No newline at end of file
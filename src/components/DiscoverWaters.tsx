@@ -0,0 +1,295 @@
+import React, { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { discoverFormSchema, commonSpecies, type DiscoverFormData, type TripFormData } from '../schemas/trip'
+import { discoverWaters, type DiscoverWatersResponse } from '../api/discover'
+import { MapView, type Waypoint } from './MapView'
+import { RateLimitCountdown } from './RateLimitCountdown'
+import { FACTOR_LABELS, addDays, formatDay, scoreClass } from '../lib/dayScore'
+import type { CandidateWater } from '../../supabase/functions/_shared/contract'
+
+interface Props {
+  /** Turn a candidate into a full plan (same path as the wizard's Generate Plan) */
+  onPlan: (data: TripFormData) => Promise<void>
+  isPlanning?: boolean
+  /** Epoch ms until which plan_trip is rate limited */
+  planRetryAt?: number | null
+  onPlanRetryAvailable?: () => void
+  onSignInRequired: () => void
+}
+
+/** "Where should I go?" – rank the waters within a drive of home for a date range */
+export default function DiscoverWaters({ onPlan, isPlanning = false, planRetryAt = null, onPlanRetryAvailable, onSignInRequired }: Props) {
+  const today = new Date().toLocaleDateString('en-CA')
+  const { register, handleSubmit, setValue, watch, getValues, formState: { errors } } = useForm<DiscoverFormData>({
+    resolver: zodResolver(discoverFormSchema),
+    mode: 'onTouched',
+    defaultValues: {
+      home: '',
+      radiusMiles: 40,
+      targetSpecies: [],
+      startDate: today,
+      endDate: addDays(today, 2),
+      startTime: '06:00',
+      endTime: '12:00',
+      experience: 'intermediate',
+      styles: ['spin'],
+      platform: 'shore'
+    }
+  })
+  const [searching, setSearching] = useState(false)
+  const [result, setResult] = useState<DiscoverWatersResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Set when discover_waters answers 429
+  const [retryAt, setRetryAt] = useState<number | null>(null)
+  const [locating, setLocating] = useState(false)
+
+  const selectedSpecies = watch('targetSpecies')
+  const radius = watch('radiusMiles')
+  const toggleSpecies = (sp: string) =>
+    setValue(
+      'targetSpecies',
+      selectedSpecies.includes(sp) ? selectedSpecies.filter((s) => s !== sp) : [...selectedSpecies, sp],
+      { shouldValidate: true }
+    )
+
+  const useMyLocation = () => {
+    if (!navigator.geolocation) return
+    setLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      async ({ coords }) => {
+        let label = `${coords.latitude.toFixed(4)}, ${coords.longitude.toFixed(4)}`
+        try {
+          const resp = await fetch(`https://nominatim.openstreetmap.org/reverse?lat=${coords.latitude}&lon=${coords.longitude}&format=json&zoom=10`)
+          label = (await resp.json()).display_name ?? label
+        } catch {
+          /* keep the coordinates */
+        }
+        setValue('home', label, { shouldValidate: true })
+        setLocating(false)
+      },
+      () => setLocating(false)
+    )
+  }
+
+  const search = async (data: DiscoverFormData) => {
+    setSearching(true)
+    setError(null)
+    try {
+      const { home, radiusMiles, targetSpecies, startDate, endDate, startTime, endTime, platform } = data
+      setResult(await discoverWaters({ home, radiusMiles, targetSpecies, startDate, endDate, startTime, endTime, platform }))
+    } catch (err: any) {
+      console.error(err)
+      if (err.code === 'RATE_LIMITED') setRetryAt(Date.now() + (err.retryAfter ?? 60) * 1000)
+      else if (err.code === 'UNAUTHORIZED') onSignInRequired()
+      else setError(err.message || 'Search failed. Please try again.')
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const planCandidate = (candidate: CandidateWater) => {
+    const { targetSpecies, startTime, endTime, platform, experience, styles } = getValues()
+    onPlan({
+      location: candidate.location,
+      date: candidate.best.date,
+      targetSpecies,
+      duration: 'custom',
+      startTime,
+      endTime,
+      platform,
+      experience,
+      styles
+    })
+  }
+
+  // Memoised so the map isn't re-initialised on every render
+  const waypoints = React.useMemo<Waypoint[]>(
+    () =>
+      (result?.candidates ?? []).map((c, i) => ({
+        id: c.id,
+        name: c.name,
+        coordinates: c.coordinates,
+        description: `${c.best.score}/100 on ${formatDay(c.best.date)} · ${c.distanceMiles} mi`,
+        flags: c.flags,
+        rank: i + 1
+      })),
+    [result]
+  )
+
+  return (
+    <div className="mx-auto p-6 bg-white rounded-lg shadow-lg max-w-full md:max-w-3xl lg:max-w-5xl">
+      <h2 className="text-3xl font-bold text-brand mb-4 text-center">Where should I go?</h2>
+      <form onSubmit={handleSubmit(search)} className="space-y-6">
+        {/* home + radius */}
+        <div className="grid md:grid-cols-[2fr_1fr] gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Starting from</label>
+            <div className="flex gap-2">
+              <input {...register('home')} placeholder="Town or address"
+                className="flex-1 px-4 py-3 border border-gray-300 rounded-lg" />
+              <button type="button" onClick={useMyLocation} disabled={locating}
+                className="px-3 py-3 text-sm bg-gray-100 border border-gray-300 rounded-lg hover:bg-gray-200 disabled:opacity-50">
+                {locating ? 'Locating…' : 'Use my location'}
+              </button>
+            </div>
+            {errors.home && <p className="text-sm text-red-600">{errors.home.message}</p>}
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Within {radius} miles</label>
+            <input type="range" min={5} max={150} step={5} {...register('radiusMiles', { valueAsNumber: true })}
+              className="w-full mt-3 accent-accent" />
+          </div>
+        </div>
+        {/* dates + times */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {(['startDate', 'endDate', 'startTime', 'endTime'] as const).map((field) => (
+            <div key={field}>
+              <label className="block text-sm font-medium mb-2">
+                {{ startDate: 'From', endDate: 'To', startTime: 'Start', endTime: 'End' }[field]}
+              </label>
+              <input type={field.endsWith('Date') ? 'date' : 'time'} {...register(field)}
+                min={field.endsWith('Date') ? today : undefined}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg" />
+              {errors[field] && <p className="text-sm text-red-600">{errors[field]!.message}</p>}
+            </div>
+          ))}
+        </div>
+        {/* platform, experience, styles */}
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Fishing From</label>
+            <select {...register('platform')} className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+              <option value="shore">Shore / Wading</option>
+              <option value="boat">Boat / Kayak</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Experience Level</label>
+            <select {...register('experience')} className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+              <option value="beginner">Beginner</option>
+              <option value="intermediate">Intermediate</option>
+              <option value="expert">Expert</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Preferred Style(s)</label>
+            <div className="flex gap-4 flex-wrap mt-3">
+              {['fly', 'spin', 'cast'].map((s) => (
+                <label key={s} className="flex items-center space-x-2">
+                  <input type="checkbox" value={s} {...register('styles')} className="rounded border-gray-300 text-accent" />
+                  <span className="capitalize text-sm">{s}</span>
+                </label>
+              ))}
+            </div>
+            {errors.styles && <p className="text-sm text-red-600">{errors.styles.message}</p>}
+          </div>
+        </div>
+        {/* species */}
+        <div>
+          <label className="block text-sm font-medium mb-2">Target Species (1-5)</label>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 max-h-48 overflow-y-auto border border-gray-300 rounded-lg p-4">
+            {commonSpecies.map((sp) => (
+              <label key={sp} className="flex items-center space-x-2 cursor-pointer">
+                <input type="checkbox" checked={selectedSpecies.includes(sp)} onChange={() => toggleSpecies(sp)}
+                  className="rounded border-gray-300 text-accent" />
+                <span className="text-sm">{sp}</span>
+              </label>
+            ))}
+          </div>
+          {errors.targetSpecies && <p className="text-sm text-red-600">{errors.targetSpecies.message}</p>}
+        </div>
+        <div className="flex justify-end">
+          <button type="submit" disabled={searching || retryAt !== null}
+            className="px-6 py-3 bg-accent hover:bg-accent-dark text-white rounded-lg disabled:opacity-50">
+            {searching ? 'Searching…' : 'Find waters'}
+          </button>
+        </div>
+      </form>
+      {retryAt !== null && (
+        <div className="mt-4">
+          <RateLimitCountdown until={retryAt} action="search again" onExpire={() => setRetryAt(null)} />
+        </div>
+      )}
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <div className="mt-8 space-y-6">
+          {result.candidates.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No fishable waters found within {result.radiusMiles} miles of {result.home.displayName}. Try a wider radius or other species.
+            </p>
+          ) : (
+            <div className="grid lg:grid-cols-[2fr_3fr] gap-6">
+              <div className="lg:sticky lg:top-24 self-start">
+                <MapView key={result.generatedAt} waypoints={waypoints} height="420px" />
+              </div>
+              <ol className="space-y-4">
+                {result.candidates.map((c, i) => (
+                  <li key={c.id} className="rounded-lg border border-gray-200 p-4 shadow-soft">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <h3 className="font-semibold text-brand">{i + 1}. {c.name}</h3>
+                        <p className="text-xs text-gray-500">
+                          {c.waterType} · {c.salinity} water · {c.distanceMiles} mi · {c.access}
+                        </p>
+                      </div>
+                      <span className={`text-sm font-semibold px-2 py-1 rounded-full whitespace-nowrap ${scoreClass(c.best.score)}`}>
+                        {c.best.score}/100
+                      </span>
+                    </div>
+                    <p className="text-sm mt-2">{c.why}</p>
+                    <p className="text-sm font-medium mt-3">Best: {formatDay(c.best.date)}</p>
+                    <ul className="text-xs text-gray-700 mt-1 space-y-0.5">
+                      {c.best.factors.map((f) => (
+                        <li key={f.factor}>
+                          <span className="font-medium">{FACTOR_LABELS[f.factor]}:</span> {f.reason}
+                        </li>
+                      ))}
+                    </ul>
+                    {c.days.length > 1 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {c.days.map((d) => (
+                          <span key={d.date} className={`text-[10px] px-1.5 py-0.5 rounded ${scoreClass(d.score)}`}>
+                            {formatDay(d.date)} {d.score}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {c.speciesOutlook.filter((s) => s.verdict === 'long_shot' || s.verdict === 'impossible').map((s) => (
+                      <p key={s.species} className="text-xs text-amber-700 mt-1">
+                        {s.species}{s.verdict === 'impossible' ? ' not found here' : ' is a long shot'}: {s.reasons.join('; ')}
+                      </p>
+                    ))}
+                    {c.flags?.map((f, j) => (
+                      <p key={j} className="text-xs text-amber-700 mt-1">⚠️ {f.message}</p>
+                    ))}
+                    <div className="mt-3 flex justify-end">
+                      <button type="button" onClick={() => planCandidate(c)} disabled={isPlanning || planRetryAt !== null}
+                        className="px-4 py-2 text-sm bg-accent hover:bg-accent-dark text-white rounded-lg disabled:opacity-50">
+                        {isPlanning ? 'Generating…' : `Plan this trip for ${formatDay(c.best.date)}`}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+          {planRetryAt !== null && (
+            <RateLimitCountdown until={planRetryAt} action="generate another plan" onExpire={onPlanRetryAvailable} />
+          )}
+          {result.excluded.length > 0 && (
+            <details className="text-sm text-gray-600">
+              <summary className="cursor-pointer">Also considered ({result.excluded.length})</summary>
+              <ul className="mt-2 space-y-1">
+                {result.excluded.map((x, j) => (
+                  <li key={j}><span className="font-medium">{x.name}</span> – {x.reason}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
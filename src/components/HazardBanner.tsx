@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react'
+import { checkTripAlerts } from '../api/trips'
+import type { HazardInfo, WeatherAlert } from '../types/trip'
+
+interface HazardBannerProps {
+  hazards: HazardInfo
+}
+
+// Alerts stored with the trip older than this are re-checked when it is opened
+const RECHECK_AFTER_MS = 15 * 60 * 1000
+
+const SEVERITY_STYLE: Record<WeatherAlert['severity'], string> = {
+  Extreme: 'bg-red-50 border-red-400 text-red-900',
+  Severe: 'bg-red-50 border-red-300 text-red-900',
+  Moderate: 'bg-amber-50 border-amber-300 text-amber-900',
+  Minor: 'bg-yellow-50 border-yellow-200 text-yellow-900',
+  Unknown: 'bg-yellow-50 border-yellow-200 text-yellow-900'
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+/** Active watches/warnings for the trip location, re-checked against NWS when a saved trip is reopened */
+export function HazardBanner({ hazards }: HazardBannerProps) {
+  const [current, setCurrent] = useState(hazards)
+  const [rechecking, setRechecking] = useState(false)
+
+  useEffect(() => {
+    setCurrent(hazards)
+    if (Date.now() - Date.parse(hazards.checkedAt) < RECHECK_AFTER_MS) return
+    let cancelled = false
+    setRechecking(true)
+    checkTripAlerts(hazards.lat, hazards.lon)
+      .then((fresh) => {
+        if (!cancelled) setCurrent(fresh)
+      })
+      .catch((err) => console.warn('Alert re-check failed', err))
+      .finally(() => {
+        if (!cancelled) setRechecking(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [hazards])
+
+  const planned = new Set(hazards.alerts.map((a) => a.id))
+  const checked = `Checked ${formatTime(current.checkedAt)}${rechecking ? ' · re-checking…' : ''}`
+
+  if (current.alerts.length === 0) {
+    return (
+      <p className="mb-6 px-4 py-2 rounded-lg bg-green-50 border border-green-200 text-sm text-green-800">
+        ✅ No active weather alerts for this location. <span className="opacity-70">{checked}</span>
+      </p>
+    )
+  }
+
+  return (
+    <section role="alert" className="mb-6 space-y-3">
+      {current.alerts.map((alert) => (
+        <div key={alert.id} className={`rounded-xl border-2 p-4 ${SEVERITY_STYLE[alert.severity]}`}>
+          <p className="font-bold">
+            ⚠️ {alert.event} <span className="text-xs font-semibold uppercase tracking-wide opacity-70">{alert.severity}</span>
+          </p>
+          {alert.headline && <p className="text-sm">{alert.headline}</p>}
+          {(alert.onset || alert.ends) && (
+            <p className="text-sm">
+              {alert.onset && `From ${formatTime(alert.onset)}`}
+              {alert.onset && alert.ends && ' '}
+              {alert.ends && `until ${formatTime(alert.ends)}`}
+            </p>
+          )}
+          {alert.instruction && <p className="text-sm italic mt-1">{alert.instruction}</p>}
+          {!planned.has(alert.id) && (
+            <p className="text-sm font-semibold mt-1">Issued after this plan was generated – the plan does not account for it.</p>
+          )}
+        </div>
+      ))}
+      <p className="text-xs text-gray-500">National Weather Service alerts. {checked}</p>
+    </section>
+  )
+}
@@ -0,0 +1,123 @@
+import React from 'react'
+import type { HourlyWeather, SolunarInfo } from '../types/trip'
+
+interface HourlyWeatherChartProps {
+  hours: HourlyWeather[]
+  /** Marks solunar periods and sunrise/sunset on the hours they fall in */
+  solunar?: SolunarInfo
+}
+
+const COLUMN = 48
+const TEMP_TOP = 20
+const TEMP_BOTTOM = 90
+const RAIN_TOP = 104
+const RAIN_BOTTOM = 144
+
+/** "2025-06-07T13:00:00-04:00" → "1 PM" (the forecast's own local time, not the viewer's) */
+function formatHour(time: string): string {
+  const hour = Number(time.slice(11, 13))
+  if (Number.isNaN(hour)) return time
+  const suffix = hour < 12 ? 'AM' : 'PM'
+  return `${hour % 12 === 0 ? 12 : hour % 12} ${suffix}`
+}
+
+function skyIcon(skyCover: number | null, precipitationChance: number | null): string {
+  if ((precipitationChance ?? 0) >= 50) return '🌧️'
+  if (skyCover == null) return '·'
+  if (skyCover < 25) return '☀️'
+  if (skyCover < 60) return '⛅'
+  return '☁️'
+}
+
+/** Solunar period and sun event inside an hour; compares local "YYYY-MM-DD HH:mm" strings */
+function solunarForHour(time: string, solunar: SolunarInfo | undefined) {
+  if (!solunar) return { period: null, sun: null }
+  const date = time.slice(0, 10)
+  const hour = Number(time.slice(11, 13))
+  const from = `${date} ${time.slice(11, 16)}`
+  const to = `${date} ${String(hour + 1).padStart(2, '0')}:00` // "24:00" still sorts before the next day
+  const overlaps = (p: { start: string; end: string }) => p.start < to && p.end > from
+  const within = (t: string | null) => t != null && t >= from && t < to
+  return {
+    period: solunar.majorPeriods.some(overlaps) ? 'major' : solunar.minorPeriods.some(overlaps) ? 'minor' : null,
+    sun: within(solunar.sunrise) ? '🌅' : within(solunar.sunset) ? '🌇' : null
+  }
+}
+
+/** Temperature line over rain-chance bars, with wind, gusts and sky cover per hour of the trip window */
+export function HourlyWeatherChart({ hours, solunar }: HourlyWeatherChartProps) {
+  if (hours.length === 0) return null
+
+  const width = hours.length * COLUMN
+  const temps = hours.map((h) => h.temperatureF).filter((t): t is number => t != null)
+  const minTemp = Math.min(...temps)
+  const maxTemp = Math.max(...temps)
+  const tempY = (t: number) =>
+    maxTemp === minTemp ? (TEMP_TOP + TEMP_BOTTOM) / 2 : TEMP_BOTTOM - ((t - minTemp) / (maxTemp - minTemp)) * (TEMP_BOTTOM - TEMP_TOP)
+  const x = (i: number) => i * COLUMN + COLUMN / 2
+
+  const tempPoints = hours
+    .map((h, i) => (h.temperatureF != null ? `${x(i)},${tempY(h.temperatureF)}` : null))
+    .filter(Boolean)
+    .join(' ')
+
+  return (
+    <div className="overflow-x-auto">
+      <div style={{ width }} className="min-w-full">
+        <svg viewBox={`0 0 ${width} ${RAIN_BOTTOM + 4}`} width={width} height={RAIN_BOTTOM + 4} role="img" aria-label="Hourly temperature and chance of rain">
+          <line x1={0} x2={width} y1={RAIN_BOTTOM} y2={RAIN_BOTTOM} className="stroke-gray-200" />
+          {hours.map((h, i) => {
+            const chance = h.precipitationChance ?? 0
+            const barHeight = (chance / 100) * (RAIN_BOTTOM - RAIN_TOP)
+            return (
+              <g key={h.time}>
+                <rect x={x(i) - 10} y={RAIN_BOTTOM - barHeight} width={20} height={barHeight} rx={2} className="fill-blue-300" />
+                {chance > 0 && (
+                  <text x={x(i)} y={RAIN_BOTTOM - barHeight - 3} textAnchor="middle" className="fill-blue-700 text-[10px]">
+                    {chance}%
+                  </text>
+                )}
+              </g>
+            )
+          })}
+          {temps.length > 0 && <polyline points={tempPoints} fill="none" strokeWidth={2} className="stroke-orange-500" />}
+          {hours.map((h, i) =>
+            h.temperatureF != null ? (
+              <g key={h.time}>
+                <circle cx={x(i)} cy={tempY(h.temperatureF)} r={3} className="fill-orange-500" />
+                <text x={x(i)} y={tempY(h.temperatureF) - 7} textAnchor="middle" className="fill-gray-700 text-[11px] font-medium">
+                  {h.temperatureF}°
+                </text>
+              </g>
+            ) : null
+          )}
+        </svg>
+        <div className="grid text-center text-xs text-gray-600" style={{ gridTemplateColumns: `repeat(${hours.length}, ${COLUMN}px)` }}>
+          {hours.map((h) => {
+            const { period, sun } = solunarForHour(h.time, solunar)
+            return (
+              <div key={h.time} className="py-1 space-y-0.5" title={h.shortForecast ?? undefined}>
+                {solunar && (
+                  <div
+                    className={`h-1.5 mx-1 rounded ${period === 'major' ? 'bg-amber-400' : period === 'minor' ? 'bg-amber-200' : 'bg-transparent'}`}
+                    title={period ? `Solunar ${period} period` : undefined}
+                  />
+                )}
+                <div className="text-base leading-none">{sun ?? skyIcon(h.skyCover, h.precipitationChance)}</div>
+                <div className="font-medium text-gray-800">{h.windMph ?? '–'}</div>
+                <div className="text-[10px] text-gray-500">{h.windGustMph != null ? `G${h.windGustMph}` : ' '}</div>
+                <div className="text-[10px] text-gray-500">{h.windDirection ?? ''}</div>
+                <div className="text-[10px] font-semibold text-gray-700 pt-1">{formatHour(h.time)}</div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+      <p className="mt-3 text-xs text-gray-500">
+        <span className="text-orange-600 font-medium">Temperature (°F)</span> ·{' '}
+        <span className="text-blue-600 font-medium">Chance of rain</span> · Wind mph, G = gusts · Sky: ☀️ clear, ⛅ partly, ☁️ cloudy
+        {solunar ? ' · 🌅/🌇 sunrise/sunset · bars: major (dark) / minor (light) solunar periods' : ''}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import React from 'react'
+import type { GaugeInfo } from '../types/trip'
+
+interface HydrographSparklineProps {
+  gauge: GaugeInfo
+}
+
+const WIDTH = 320
+const HEIGHT = 72
+const PAD = 4
+
+/** 7-day discharge line over the normal (25th–75th percentile) band for today, median dashed */
+export function HydrographSparkline({ gauge }: HydrographSparklineProps) {
+  const { history, normalRange } = gauge
+  if (history.length < 2) return null
+
+  const values = [
+    ...history.map((p) => p.dischargeCfs),
+    ...(normalRange ? [normalRange.p25, normalRange.p75] : [])
+  ]
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const start = Date.parse(history[0].time)
+  const span = Date.parse(history[history.length - 1].time) - start || 1
+  const x = (time: string) => PAD + ((Date.parse(time) - start) / span) * (WIDTH - 2 * PAD)
+  const y = (cfs: number) => PAD + (max === min ? 0.5 : (max - cfs) / (max - min)) * (HEIGHT - 2 * PAD)
+
+  const line = history.map((p) => `${x(p.time)},${y(p.dischargeCfs)}`).join(' ')
+  const last = history[history.length - 1]
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full max-w-md h-auto" role="img" aria-label="Discharge over the last 7 days">
+      {normalRange && (
+        <>
+          <rect
+            x={PAD}
+            y={y(normalRange.p75)}
+            width={WIDTH - 2 * PAD}
+            height={y(normalRange.p25) - y(normalRange.p75)}
+            className="fill-green-100"
+          />
+          <line
+            x1={PAD}
+            x2={WIDTH - PAD}
+            y1={y(normalRange.p50)}
+            y2={y(normalRange.p50)}
+            strokeDasharray="4 3"
+            className="stroke-green-600"
+          />
+        </>
+      )}
+      <polyline points={line} fill="none" strokeWidth={2} strokeLinejoin="round" className="stroke-blue-600" />
+      <circle cx={x(last.time)} cy={y(last.dischargeCfs)} r={3} className="fill-blue-700" />
+    </svg>
+  )
+}
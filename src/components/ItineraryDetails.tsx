@@ -1,14 +1,45 @@
-import React from 'react'
+import React, { useState } from 'react'
 import type { TripItinerary } from '../types/trip'
+import { dayColor } from '../lib/itinerary'
+import { HourlyWeatherChart } from './HourlyWeatherChart'
+import { PressureTrendIndicator } from './PressureTrendIndicator'
+import { TideChart, TideTable } from './TideChart'
+import { SolunarSummary } from './SolunarSummary'
+import { HydrographSparkline } from './HydrographSparkline'
+import { SourceLabel } from './SourceLabel'
+import { MarineSafetyBanner } from './MarineSafetyBanner'
+import { RegulationRuleList } from './RegulationRuleList'
 
 interface ItineraryDetailsProps {
-  itinerary: TripItinerary
+  // Partial while a streamed plan is still arriving; every section renders once it is present
+  itinerary: TripItinerary | Partial<TripItinerary>
+  streaming?: boolean
 }
 
-export function ItineraryDetails({ itinerary }: ItineraryDetailsProps) {
+/** 83 → "83rd" */
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'
+  return `${n}${suffix}`
+}
+
+export function ItineraryDetails({ itinerary, streaming = false }: ItineraryDetailsProps) {
+  const [selectedDay, setSelectedDay] = useState(0)
   if (!itinerary) return null
 
-  const { pointsOfInterest, waypoints, weather, regulations, tips, tides, moonPhase, gear, checklist, decisionTree, summary } = itinerary
+  // Multi-day trips: the selected day's conditions and spots override the trip-wide ones
+  const days = itinerary.days ?? []
+  const activeDay = days.length > 0 ? days[Math.min(selectedDay, days.length - 1)] : undefined
+
+  const { waypoints, regulations, tips, gear, checklist, summary, pressure, gauge, marine, water, tripWindow, sources, geofence, speciesOutlook } = itinerary
+  const pointsOfInterest = activeDay?.pointsOfInterest?.length ? activeDay.pointsOfInterest : itinerary.pointsOfInterest
+  const decisionTree = activeDay?.decisionTree?.length ? activeDay.decisionTree : itinerary.decisionTree
+  const weather = activeDay?.weather ?? itinerary.weather
+  const hourlyWeather = (activeDay ? activeDay.hourlyWeather : itinerary.hourlyWeather) ?? []
+  const tides = activeDay?.tides ?? itinerary.tides
+  const moonPhase = activeDay?.moonPhase ?? itinerary.moonPhase
+  const solunar = activeDay ? activeDay.solunar : itinerary.solunar
+  const speciesCaveats = (speciesOutlook ?? []).filter((o) => o.verdict === 'long_shot' || o.verdict === 'impossible')
+  const droppedPoints = (geofence?.dropped ?? []).filter((d) => (activeDay ? d.day === activeDay.day : d.day == null))
 
   // Create a concise weather summary fallback in case of varied structures
   const weatherSummary = (() => {
@@ -57,7 +88,10 @@ export function ItineraryDetails({ itinerary }: ItineraryDetailsProps) {
 
   return (
     <div className="space-y-12 animate-fade-in">
-      {/* Trip Summary – placed first */}
+      {/* Boat trips: marine alerts and seas above everything else */}
+      {marine && <MarineSafetyBanner marine={marine} />}
+
+      {/* Trip Summary */}
       {summary && (
         <section>
           <h2 className="text-3xl font-bold mb-6 text-brand-900 flex items-center gap-2">
@@ -65,10 +99,48 @@ export function ItineraryDetails({ itinerary }: ItineraryDetailsProps) {
           </h2>
           <div className="bg-gradient-to-br from-white to-gray-50/50 rounded-xl shadow-soft border border-gray-100 p-8">
             <p className="text-base text-gray-700 whitespace-pre-line leading-relaxed">{summary}</p>
+            {speciesCaveats.length > 0 && (
+              <ul className="mt-4 space-y-1">
+                {speciesCaveats.map((o) => (
+                  <li key={o.species} className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+                    <span className="font-semibold">{o.species}</span>
+                    {o.verdict === 'impossible' ? ' – left out of this plan' : ' – a long shot'}
+                    {o.reasons.length > 0 && `: ${o.reasons.join('; ')}`}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </section>
       )}
 
+      {/* Day selector – multi-day trips only */}
+      {days.length > 1 && (
+        <section>
+          <div className="flex flex-wrap gap-2">
+            {days.map((d, idx) => {
+              const isActive = d === activeDay
+              return (
+                <button
+                  key={d.day}
+                  type="button"
+                  onClick={() => setSelectedDay(idx)}
+                  className={`px-4 py-2 rounded-full text-sm font-semibold border transition-colors ${
+                    isActive ? 'text-white border-transparent shadow-soft' : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+                  }`}
+                  style={isActive ? { backgroundColor: dayColor(d.day) } : undefined}
+                >
+                  Day {d.day} · {new Date(`${d.date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                </button>
+              )
+            })}
+          </div>
+          {activeDay?.summary && (
+            <p className="mt-4 text-base text-gray-700 leading-relaxed">{activeDay.summary}</p>
+          )}
+        </section>
+      )}
+
       {/* Points of Interest / Waypoints */}
       {(pointsOfInterest && pointsOfInterest.length > 0) || (waypoints && waypoints.length > 0) ? (
         <section>
@@ -86,6 +158,20 @@ export function ItineraryDetails({ itinerary }: ItineraryDetailsProps) {
                     {wp.name}
                   </h3>
                   <p className="text-base text-gray-700 mt-2 leading-relaxed">{wp.description}</p>
+                  {wp.flags && wp.flags.length > 0 && (
+                    <ul className="mt-3 space-y-1">
+                      {wp.flags.map((flag, flagIdx) => (
+                        <li key={flagIdx} className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+                          ⚠️ {flag.message}
+                          {flag.area?.sourceUrl && (
+                            <a href={flag.area.sourceUrl} target="_blank" rel="noopener noreferrer" className="ml-2 underline">
+                              Rules
+                            </a>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                   {wp.techniques?.length > 0 && (
                     <div className="mt-4">
                       <span className="text-sm font-semibold text-gray-800 mb-2 block">🎣 Techniques:</span>
@@ -102,6 +188,18 @@ export function ItineraryDetails({ itinerary }: ItineraryDetailsProps) {
               </li>
             ))}
           </ol>
+          {droppedPoints.length > 0 && (
+            <div className="ml-8 text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <p className="font-medium text-gray-800 mb-1">Spots removed from this plan:</p>
+              <ul className="space-y-1">
+                {droppedPoints.map((d, dIdx) => (
+                  <li key={dIdx}>
+                    {d.name} – {d.flags.map((f) => f.message).join('; ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </section>
       ) : null}
 
@@ -113,7 +211,17 @@ export function ItineraryDetails({ itinerary }: ItineraryDetailsProps) {
           </h2>
           <ul className="space-y-3">
             {decisionTree.map((step, idx) => (
-              <li key={idx} className="bg-gradient-to-br from-white to-gray-50/30 rounded-xl shadow-soft border border-gray-100 p-5">
+              <li
+                key={idx}
+                className={
+                  step.goNoGo
+                    ? 'bg-red-50 rounded-xl shadow-soft border-2 border-red-200 p-5'
+                    : 'bg-gradient-to-br from-white to-gray-50/30 rounded-xl shadow-soft border border-gray-100 p-5'
+                }
+              >
+                {step.goNoGo && (
+                  <span className="inline-block mb-2 px-2 py-0.5 rounded bg-red-600 text-white text-xs font-bold tracking-wide">GO / NO-GO</span>
+                )}
                 <p className="text-base text-gray-700 leading-relaxed">
                   <span className="font-semibold text-gray-800">{step.condition}</span>, then <span className="font-medium text-accent-700">{step.action}</span>
                 </p>
@@ -123,14 +231,68 @@ export function ItineraryDetails({ itinerary }: ItineraryDetailsProps) {
         </section>
       )}
 
-      {/* Weather Summary */}
-      {weatherSummary && (
+      {/* Weather: hourly timeline for the trip window, with the forecast text beneath */}
+      {(hourlyWeather.length > 0 || weatherSummary || pressure) && (
         <section>
           <h2 className="text-3xl font-bold mb-6 text-brand-900 flex items-center gap-2">
-            ☁️ Weather Summary
+            ☁️ Weather
           </h2>
-          <div className="bg-gradient-to-br from-blue-50 to-white rounded-xl shadow-soft border border-blue-100 p-8">
-            <p className="text-base text-gray-700 whitespace-pre-line leading-relaxed">{weatherSummary}</p>
+          <div className="bg-gradient-to-br from-blue-50 to-white rounded-xl shadow-soft border border-blue-100 p-8 space-y-6">
+            {pressure && <PressureTrendIndicator pressure={pressure} />}
+            {hourlyWeather.length > 0 && <HourlyWeatherChart hours={hourlyWeather} solunar={solunar} />}
+            {weatherSummary && (
+              <p className="text-base text-gray-700 whitespace-pre-line leading-relaxed">{weatherSummary}</p>
+            )}
+            <SourceLabel source={sources?.weather} />
+          </div>
+        </section>
+      )}
+
+      {/* Water: the nearest stream gauge's flow against its normal range for the date */}
+      {(gauge || water?.summary) && (
+        <section>
+          <h2 className="text-3xl font-bold mb-6 text-brand-900 flex items-center gap-2">
+            💧 Water
+          </h2>
+          <div className="bg-gradient-to-br from-sky-50 to-white rounded-xl shadow-soft border border-sky-100 p-8 space-y-4">
+            {gauge && (
+              <>
+                <div className="flex flex-wrap items-baseline gap-x-4 gap-y-2">
+                  {gauge.dischargeCfs != null && (
+                    <span className="text-2xl font-bold text-gray-900 tabular-nums">{gauge.dischargeCfs} cfs</span>
+                  )}
+                  <span className="text-sm font-medium text-gray-700">
+                    {gauge.trend === 'rising' ? '↗ Rising' : gauge.trend === 'falling' ? '↘ Falling' : gauge.trend === 'steady' ? '→ Steady' : 'Trend unknown'}
+                    {gauge.change7dPct != null && ` · ${gauge.change7dPct > 0 ? '+' : ''}${gauge.change7dPct}% over 7 days`}
+                  </span>
+                  {gauge.percentile != null && gauge.flowCategory && (
+                    <span
+                      className={`px-3 py-1 rounded-full border text-sm font-medium ${
+                        gauge.flowCategory === 'normal'
+                          ? 'bg-green-100 text-green-800 border-green-200'
+                          : gauge.flowCategory.startsWith('much')
+                            ? 'bg-red-100 text-red-800 border-red-200'
+                            : 'bg-amber-100 text-amber-800 border-amber-200'
+                      }`}
+                    >
+                      {ordinal(gauge.percentile)} percentile · {gauge.flowCategory === 'normal' ? 'normal' : `${gauge.flowCategory.replace('_', ' ')} normal`}
+                    </span>
+                  )}
+                  {gauge.waterTempC != null && (
+                    <span className="text-sm text-gray-700">
+                      🌡️ {gauge.waterTempC} °C ({Math.round(gauge.waterTempC * 1.8 + 32)} °F)
+                    </span>
+                  )}
+                </div>
+                <HydrographSparkline gauge={gauge} />
+                <p className="text-xs text-gray-500">
+                  {gauge.site.name} (USGS {gauge.site.id}), {gauge.site.distanceKm} km away · last 7 days
+                  {gauge.normalRange ? ` · green: normal range for the date (${gauge.normalRange.p25}–${gauge.normalRange.p75} cfs), dashed: median` : ''}
+                </p>
+              </>
+            )}
+            {water?.summary && <p className="text-base text-gray-700 leading-relaxed">{water.summary}</p>}
+            <SourceLabel source={sources?.water} />
           </div>
         </section>
       )}
@@ -142,16 +304,28 @@ export function ItineraryDetails({ itinerary }: ItineraryDetailsProps) {
             ⚖️ Regulations
           </h2>
           <div className="bg-gradient-to-br from-red-50 to-white rounded-xl shadow-soft border border-red-100 p-8 space-y-6">
-            <div className="flex items-center gap-2">
-              <span className="text-base font-semibold text-gray-800">License Required:</span>
-              <span className={`px-3 py-1 rounded-full text-sm font-medium ${
-                regulations.licenseRequired 
-                  ? 'bg-red-100 text-red-800 border border-red-200' 
-                  : 'bg-green-100 text-green-800 border border-green-200'
-              }`}>
-                {regulations.licenseRequired ? 'Yes' : 'No'}
-              </span>
-            </div>
+            {/* Table rules only settle the license question when one of them says so */}
+            {(!regulations.rules || regulations.rules.some((r) => r.licenseRequired != null)) && (
+              <div className="flex items-center gap-2">
+                <span className="text-base font-semibold text-gray-800">License Required:</span>
+                <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                  regulations.licenseRequired 
+                    ? 'bg-red-100 text-red-800 border border-red-200' 
+                    : 'bg-green-100 text-green-800 border border-green-200'
+                }`}>
+                  {regulations.licenseRequired ? 'Yes' : 'No'}
+                </span>
+              </div>
+            )}
+            {regulations.rules && regulations.rules.length > 0 && (
+              <div>
+                <p className="text-base font-semibold text-gray-800 mb-3">
+                  🎣 Limits &amp; Seasons{regulations.jurisdiction && <span className="ml-2 text-sm font-normal text-gray-500 uppercase">{regulations.jurisdiction}</span>}
+                </p>
+                <RegulationRuleList rules={regulations.rules} />
+                <p className="mt-3 text-xs text-gray-500">Regulations change – confirm with the agency before keeping fish.</p>
+              </div>
+            )}
             {regulations.catchLimits && Object.keys(regulations.catchLimits).length > 0 && (
               <div>
                 <p className="text-base font-semibold text-gray-800 mb-3">🎣 Catch Limits:</p>
@@ -212,25 +386,46 @@ export function ItineraryDetails({ itinerary }: ItineraryDetailsProps) {
       )}
 
       {/* Tides & Moon Phase */}
-      {(tides || moonPhase) && (
+      {(tides || moonPhase || solunar) && (
         <section>
           <h2 className="text-3xl font-bold mb-6 text-brand-900 flex items-center gap-2">
             🌊 Tides & Moon
           </h2>
           <div className="bg-gradient-to-br from-blue-50 to-purple-50 rounded-xl shadow-soft border border-blue-200 p-6">
-            {tides && (
+            {(tides?.curve?.length || solunar) && (
               <div className="mb-4">
-                <p className="text-base text-gray-700 mb-2">
-                  <span className="font-semibold text-blue-700">🔴 Next High:</span> {tides.nextHigh} • 
-                  <span className="font-semibold text-blue-700">🔵 Next Low:</span> {tides.nextLow}
-                </p>
+                <TideChart tides={tides} solunar={solunar} fishingWindow={tripWindow} />
               </div>
             )}
-            {moonPhase && (
+            {tides && (
+              <div className="mb-4 space-y-4">
+                {!tides.curve?.length && (
+                  <p className="text-base text-gray-700 mb-2">
+                    <span className="font-semibold text-blue-700">🔴 Next High:</span> {tides.nextHigh} • 
+                    <span className="font-semibold text-blue-700">🔵 Next Low:</span> {tides.nextLow}
+                  </p>
+                )}
+                {/* Every high/low of the trip – one row per day on multi-day trips */}
+                <TideTable
+                  rows={
+                    days.length > 1
+                      ? days.map((d) => ({ label: `Day ${d.day}`, tides: d.tides }))
+                      : [{ label: 'High / Low', tides }]
+                  }
+                />
+              </div>
+            )}
+            {solunar ? (
+              <SolunarSummary solunar={solunar} />
+            ) : moonPhase && (
               <p className="text-base text-gray-700">
                 <span className="font-semibold text-purple-700">🌙 Moon Phase:</span> {moonPhase}
               </p>
             )}
+            <div className="mt-4 space-y-1">
+              {tides && <SourceLabel source={sources?.tides} label="Tides" />}
+              <SourceLabel source={sources?.solunar} label="Sun & moon" />
+            </div>
           </div>
         </section>
       )}
@@ -273,6 +468,13 @@ export function ItineraryDetails({ itinerary }: ItineraryDetailsProps) {
           )}
         </section>
       ) : null}
+
+      {streaming && (
+        <div className="flex items-center gap-3 p-4 text-sm text-gray-500 border border-dashed border-gray-300 rounded-lg">
+          <span className="w-4 h-4 rounded-full border-2 border-accent border-t-transparent animate-spin" />
+          More of your plan is on the way…
+        </div>
+      )}
     </div>
   )
-} 
\ No newline at end of file
+}
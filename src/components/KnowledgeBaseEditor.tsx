@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { deleteKnowledgeChunk, fetchKnowledgeChunks, reembedKnowledge, saveKnowledgeChunk } from '../api/knowledge'
+import type { KnowledgeChunk, KnowledgeChunkInput } from '../../supabase/functions/_shared/contract'
+
+const SEASONS = ['spring', 'summer', 'fall', 'winter'] as const
+const PLATFORMS = ['shore', 'boat'] as const
+const STYLES = ['fly', 'spin', 'cast'] as const
+
+// Form state: free-text tags are edited as comma-separated strings
+interface Draft {
+  id?: string
+  title: string
+  content: string
+  species: string
+  regions: string
+  seasons: KnowledgeChunkInput['seasons']
+  platforms: KnowledgeChunkInput['platforms']
+  styles: KnowledgeChunkInput['styles']
+  source: string | null
+}
+
+const EMPTY_DRAFT: Draft = { title: '', content: '', species: '', regions: '', seasons: [], platforms: [], styles: [], source: null }
+
+const toDraft = (chunk: KnowledgeChunk): Draft => ({
+  ...chunk,
+  species: chunk.species.join(', '),
+  regions: chunk.regions.join(', ')
+})
+
+const splitTags = (text: string) => text.split(',').map((s) => s.trim()).filter(Boolean)
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value]
+}
+
+function TagChips({ chunk }: { chunk: KnowledgeChunk }) {
+  const tags = [...chunk.species, ...chunk.regions, ...chunk.seasons, ...chunk.platforms, ...chunk.styles]
+  if (tags.length === 0) return <span className="text-gray-400">all trips</span>
+  return (
+    <span className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <span key={tag} className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700 text-xs">{tag}</span>
+      ))}
+    </span>
+  )
+}
+
+function CheckboxGroup<T extends string>({ label, options, value, onChange }: { label: string; options: readonly T[]; value: T[]; onChange: (v: T[]) => void }) {
+  return (
+    <fieldset>
+      <legend className="text-sm font-medium text-gray-700 mb-1">{label}</legend>
+      <div className="flex flex-wrap gap-3">
+        {options.map((option) => (
+          <label key={option} className="flex items-center gap-1 text-sm">
+            <input type="checkbox" checked={value.includes(option)} onChange={() => onChange(toggle(value, option))} className="rounded" />
+            {option}
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  )
+}
+
+/** Admin editor for knowledge_chunks: list, add, edit (re-embedded on save), delete and re-embed */
+export function KnowledgeBaseEditor() {
+  const [chunks, setChunks] = useState<KnowledgeChunk[]>([])
+  const [filter, setFilter] = useState('')
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchKnowledgeChunks().then(setChunks).catch((err) => setMessage(`Failed to load knowledge: ${err.message}`))
+  }, [])
+
+  const visible = useMemo(() => {
+    const q = filter.trim().toLowerCase()
+    if (!q) return chunks
+    return chunks.filter((c) => [c.title, c.slug, ...c.species, ...c.regions].some((s) => s.toLowerCase().includes(q)))
+  }, [chunks, filter])
+
+  const run = async (task: () => Promise<string>) => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      setMessage(await task())
+    } catch (err) {
+      setMessage(`Failed: ${(err as Error).message}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const save = (d: Draft) =>
+    run(async () => {
+      const saved = await saveKnowledgeChunk(
+        {
+          title: d.title,
+          content: d.content,
+          species: splitTags(d.species),
+          regions: splitTags(d.regions),
+          seasons: d.seasons,
+          platforms: d.platforms,
+          styles: d.styles
+        },
+        d.id
+      )
+      setChunks((prev) => [...prev.filter((c) => c.id !== saved.id), saved].sort((a, b) => a.title.localeCompare(b.title)))
+      setDraft(null)
+      return `Saved "${saved.title}" (embedded with ${saved.embedding_model})`
+    })
+
+  const remove = (d: Draft) => {
+    if (!d.id || !confirm(`Delete "${d.title}"?`)) return
+    const id = d.id
+    run(async () => {
+      await deleteKnowledgeChunk(id)
+      setChunks((prev) => prev.filter((c) => c.id !== id))
+      setDraft(null)
+      return 'Deleted'
+    })
+  }
+
+  const reembedAll = () =>
+    run(async () => {
+      const { reembedded, model } = await reembedKnowledge()
+      setChunks(await fetchKnowledgeChunks())
+      return `Re-embedded ${reembedded} chunks with ${model}`
+    })
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter by title, species or region"
+          className="flex-1 min-w-[12rem] rounded-md border-gray-300 text-sm"
+        />
+        <button onClick={() => setDraft({ ...EMPTY_DRAFT })} disabled={busy} className="px-3 py-2 rounded-md bg-brand text-white text-sm disabled:opacity-50">
+          Add entry
+        </button>
+        <button onClick={reembedAll} disabled={busy} className="px-3 py-2 rounded-md border border-gray-300 text-sm disabled:opacity-50">
+          Re-embed all
+        </button>
+      </div>
+      {message && <p className="text-sm text-gray-700">{message}</p>}
+
+      {draft && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            save(draft)
+          }}
+          className="bg-white rounded-lg shadow p-4 space-y-3"
+        >
+          {draft.source && (
+            <p className="text-xs text-amber-700">
+              From the guide <span className="font-mono">{draft.source}</span> – edits are overwritten the next time guides are ingested unless the guide changes too.
+            </p>
+          )}
+          <input
+            required
+            value={draft.title}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            placeholder="Title, e.g. Snook: Fall"
+            className="w-full rounded-md border-gray-300 text-sm"
+          />
+          <textarea
+            required
+            rows={6}
+            value={draft.content}
+            onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+            placeholder="Advice the planner should see for matching trips"
+            className="w-full rounded-md border-gray-300 text-sm"
+          />
+          <div className="grid gap-3 md:grid-cols-2">
+            <label className="text-sm font-medium text-gray-700">
+              Species <span className="font-normal text-gray-500">(wizard names, comma-separated)</span>
+              <input value={draft.species} onChange={(e) => setDraft({ ...draft, species: e.target.value })} className="mt-1 w-full rounded-md border-gray-300 text-sm font-normal" />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Regions <span className="font-normal text-gray-500">(ISO codes, e.g. us, us-fl)</span>
+              <input value={draft.regions} onChange={(e) => setDraft({ ...draft, regions: e.target.value })} className="mt-1 w-full rounded-md border-gray-300 text-sm font-normal" />
+            </label>
+          </div>
+          <div className="grid gap-3 md:grid-cols-3">
+            <CheckboxGroup label="Seasons" options={SEASONS} value={draft.seasons} onChange={(seasons) => setDraft({ ...draft, seasons })} />
+            <CheckboxGroup label="Platforms" options={PLATFORMS} value={draft.platforms} onChange={(platforms) => setDraft({ ...draft, platforms })} />
+            <CheckboxGroup label="Styles" options={STYLES} value={draft.styles} onChange={(styles) => setDraft({ ...draft, styles })} />
+          </div>
+          <p className="text-xs text-gray-500">Leave a tag group empty to match every trip.</p>
+          <div className="flex gap-2">
+            <button type="submit" disabled={busy} className="px-3 py-2 rounded-md bg-brand text-white text-sm disabled:opacity-50">
+              {busy ? 'Saving…' : 'Save & embed'}
+            </button>
+            <button type="button" onClick={() => setDraft(null)} className="px-3 py-2 rounded-md border border-gray-300 text-sm">
+              Cancel
+            </button>
+            {draft.id && (
+              <button type="button" onClick={() => remove(draft)} disabled={busy} className="ml-auto px-3 py-2 rounded-md text-red-700 text-sm disabled:opacity-50">
+                Delete
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden max-h-96 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="p-3 text-left font-medium text-gray-700">Title</th>
+              <th className="p-3 text-left font-medium text-gray-700">Applies to</th>
+              <th className="p-3 text-left font-medium text-gray-700">Embedded</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.length > 0 ? (
+              visible.map((chunk) => (
+                <tr key={chunk.id} className="border-t cursor-pointer hover:bg-gray-50" onClick={() => setDraft(toDraft(chunk))}>
+                  <td className="p-3">
+                    <div className="font-medium">{chunk.title}</div>
+                    <div className="text-xs text-gray-500 font-mono">{chunk.slug}</div>
+                  </td>
+                  <td className="p-3">
+                    <TagChips chunk={chunk} />
+                  </td>
+                  <td className="p-3 text-gray-500 whitespace-nowrap">
+                    {chunk.embedded_at ? (
+                      <span title={chunk.embedding_model ?? undefined}>{new Date(chunk.embedded_at).toLocaleDateString()}</span>
+                    ) : (
+                      <span className="text-amber-600">not embedded</span>
+                    )}
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={3} className="p-4 text-center text-gray-500">
+                  No knowledge entries – run scripts/ingest_knowledge.ts or add one
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
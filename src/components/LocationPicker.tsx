@@ -60,7 +60,7 @@ export function LocationPicker({ onSelect, onClose }: LocationPickerProps) {
           <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
         </div>
         <div className="flex justify-between items-center px-4 py-2 border-b">
-          <p className="text-sm text-gray-600 mt-1">Tap the map to drop a pin. Currently only U.S. locations are supported.</p>
+          <p className="text-sm text-gray-600 mt-1">Tap the map to drop a pin. Outside the U.S., weather, tides and river flow come from global models.</p>
         </div>
         <div ref={mapContainer} className="flex-1" />
         <div className="p-4 border-t space-y-2">
@@ -1,15 +1,24 @@
-import React, { useEffect, useRef } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import mapboxgl from 'mapbox-gl'
 import 'mapbox-gl/dist/mapbox-gl.css'
+import { dayColor } from '../lib/itinerary'
+import { fetchRestrictedAreas, restrictedAreasGeoJson } from '../api/geofence'
+import type { Waypoint as ItineraryWaypoint } from '../types/trip'
 
 mapboxgl.accessToken = import.meta.env.VITE_MAPBOX_TOKEN as string
 
-export interface Waypoint {
-  id: string
-  name: string
-  coordinates: [number, number]
-  type: 'launch' | 'fishing' | 'landing'
-  description: string
+export type Waypoint = Pick<ItineraryWaypoint, 'id' | 'name' | 'coordinates' | 'description' | 'flags'> & {
+  day?: number // set for multi-day trips – markers are coloured per day
+  rank?: number // set for discovery results – the marker shows the number
+}
+
+const AREA_KIND_LABELS: Record<string, string> = {
+  marine_reserve: 'Marine reserve',
+  no_take: 'No-take zone',
+  no_wake: 'No-wake zone',
+  closure: 'Closure',
+  private_land: 'Private land',
+  other: 'Restricted area'
 }
 
 interface MapViewProps {
@@ -21,6 +30,7 @@ interface MapViewProps {
 export function MapView({ waypoints, height = '500px', enableSummary = false }: MapViewProps) {
   const mapContainer = useRef<HTMLDivElement | null>(null)
   const mapRef = useRef<any>(null)
+  const [showAreaLegend, setShowAreaLegend] = useState(false)
 
   useEffect(() => {
     if (!mapContainer.current || mapRef.current) return
@@ -39,13 +49,68 @@ export function MapView({ waypoints, height = '500px', enableSummary = false }:
     mapRef.current.addControl(new mapboxgl.NavigationControl())
 
     mapRef.current.on('load', () => {
+      // Closures and protected areas, reloaded for the view after every pan / zoom
+      const map = mapRef.current
+      map.addSource('restricted-areas', { type: 'geojson', data: restrictedAreasGeoJson([]) })
+      map.addLayer({
+        id: 'restricted-areas-fill',
+        type: 'fill',
+        source: 'restricted-areas',
+        paint: {
+          'fill-color': ['match', ['get', 'restriction'], 'closed', '#dc2626', '#f59e0b'],
+          'fill-opacity': 0.2
+        }
+      })
+      map.addLayer({
+        id: 'restricted-areas-outline',
+        type: 'line',
+        source: 'restricted-areas',
+        paint: {
+          'line-color': ['match', ['get', 'restriction'], 'closed', '#dc2626', '#f59e0b'],
+          'line-width': 1.5
+        }
+      })
+      const loadAreas = () => {
+        const b = map.getBounds()
+        fetchRestrictedAreas([b.getWest(), b.getSouth(), b.getEast(), b.getNorth()])
+          .then((areas) => {
+            map.getSource('restricted-areas')?.setData(restrictedAreasGeoJson(areas))
+            if (areas.length > 0) setShowAreaLegend(true)
+          })
+          .catch((err) => console.warn('Restricted areas unavailable:', err.message))
+      }
+      map.on('moveend', loadAreas)
+      loadAreas()
+
+      map.on('click', 'restricted-areas-fill', (e: any) => {
+        if (e.originalEvent.metaKey || e.originalEvent.ctrlKey) return // summary click
+        const area = e.features?.[0]?.properties
+        if (!area) return
+        const until = area.ends_on ? `<p class="text-xs">Until ${area.ends_on}</p>` : ''
+        const source = area.source_url ? `<a class="text-xs underline" href="${area.source_url}" target="_blank" rel="noopener noreferrer">Source</a>` : ''
+        new mapboxgl.Popup()
+          .setLngLat(e.lngLat)
+          .setHTML(
+            `<h3 class="font-semibold">${area.name}</h3><p class="text-sm">${AREA_KIND_LABELS[area.kind] ?? area.kind} – ${area.restriction === 'closed' ? 'closed to fishing' : 'restrictions apply'}</p>${area.notes ? `<p class="text-sm">${area.notes}</p>` : ''}${until}${source}`
+          )
+          .addTo(map)
+      })
+
       // Add markers
       waypoints.forEach((wp) => {
         const el = document.createElement('div')
-        el.className = 'marker bg-accent rounded-full w-3 h-3 border-2 border-white'
+        el.className = wp.rank
+          ? 'marker bg-brand text-white text-xs font-bold rounded-full w-6 h-6 border-2 border-white flex items-center justify-center'
+          : 'marker bg-accent rounded-full w-3 h-3 border-2 border-white'
+        if (wp.rank) el.textContent = String(wp.rank)
+        if (wp.day) el.style.backgroundColor = dayColor(wp.day)
+        // Kept in a restricted area (e.g. a no-wake zone) – the popup says why
+        if (wp.flags?.length) el.style.borderColor = '#f59e0b'
+        const dayLabel = wp.day ? `<p class="text-xs font-semibold" style="color:${dayColor(wp.day)}">Day ${wp.day}</p>` : ''
+        const flags = (wp.flags ?? []).map((f) => `<p class="text-xs text-amber-700">⚠️ ${f.message}</p>`).join('')
         new mapboxgl.Marker(el).setLngLat(wp.coordinates as [number, number]).setPopup(
           new mapboxgl.Popup({ offset: 24 }).setHTML(
-            `<h3 class="font-semibold">${wp.name}</h3><p class="text-sm">${wp.description}</p>`
+            `${dayLabel}<h3 class="font-semibold">${wp.name}</h3><p class="text-sm">${wp.description}</p>${flags}`
           )
         ).addTo(mapRef.current as any)
       })
@@ -115,5 +180,33 @@ export function MapView({ waypoints, height = '500px', enableSummary = false }:
     }
   }, [waypoints, enableSummary])
 
-  return <div ref={mapContainer} style={{ width: '100%', height }} />
+  const days = Array.from(new Set(waypoints.map((wp) => wp.day).filter((d): d is number => !!d))).sort((a, b) => a - b)
+
+  return (
+    <>
+      <div ref={mapContainer} style={{ width: '100%', height }} />
+      {showAreaLegend && (
+        <div className="mt-2 flex flex-wrap gap-3 text-xs text-gray-600">
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm border border-red-600 bg-red-600/20" />
+            Closed to fishing
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm border border-amber-500 bg-amber-500/20" />
+            Restrictions apply
+          </span>
+        </div>
+      )}
+      {days.length > 1 && (
+        <div className="mt-2 flex flex-wrap gap-3 text-xs text-gray-600">
+          {days.map((d) => (
+            <span key={d} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-full border border-white shadow" style={{ backgroundColor: dayColor(d) }} />
+              Day {d}
+            </span>
+          ))}
+        </div>
+      )}
+    </>
+  )
 } 
\ No newline at end of file
@@ -0,0 +1,89 @@
+import React from 'react'
+import type { MarineForecast, MarinePeriod } from '../types/trip'
+
+interface MarineSafetyBannerProps {
+  marine: MarineForecast
+}
+
+// Seas / wind in the first period that call for caution even without an advisory
+const CAUTION_SEAS_FT = 4
+const CAUTION_WIND_KT = 20
+
+type Level = 'warning' | 'advisory' | 'caution' | 'ok'
+
+const LEVEL_STYLE: Record<Level, { icon: string; className: string }> = {
+  warning: { icon: '⛔', className: 'bg-red-50 border-red-300 text-red-900' },
+  advisory: { icon: '⚠️', className: 'bg-amber-50 border-amber-300 text-amber-900' },
+  caution: { icon: '⚠️', className: 'bg-amber-50 border-amber-200 text-amber-900' },
+  ok: { icon: '🚤', className: 'bg-sky-50 border-sky-200 text-sky-900' }
+}
+
+function levelOf(marine: MarineForecast): Level {
+  const { alerts, periods } = marine
+  if (alerts.some((a) => /warning/i.test(a.event) || a.severity === 'Severe' || a.severity === 'Extreme')) return 'warning'
+  if (alerts.length > 0) return 'advisory'
+  const first = periods[0]
+  if ((first?.waveHeightFt?.max ?? 0) >= CAUTION_SEAS_FT || (first?.windKt?.max ?? 0) >= CAUTION_WIND_KT) return 'caution'
+  return 'ok'
+}
+
+const range = (r: { min: number; max: number } | null, unit: string) =>
+  r == null ? '–' : r.min === r.max ? `${r.max} ${unit}` : `${r.min}–${r.max} ${unit}`
+
+function PeriodCell({ period }: { period: MarinePeriod }) {
+  return (
+    <div className="p-3 bg-white/70 rounded-lg border border-gray-200" title={period.forecast}>
+      <p className="text-xs font-semibold uppercase tracking-wide opacity-70">{period.name}</p>
+      <p className="text-sm font-medium tabular-nums">💨 {range(period.windKt, 'kt')}</p>
+      <p className="text-sm font-medium tabular-nums">
+        🌊 {range(period.waveHeightFt, 'ft')}
+        {period.wavePeriodSec != null && <span className="font-normal opacity-80"> @ {period.wavePeriodSec}s</span>}
+      </p>
+    </div>
+  )
+}
+
+/** Boat-trip safety banner: active marine alerts first, then winds and seas for the next periods */
+export function MarineSafetyBanner({ marine }: MarineSafetyBannerProps) {
+  const level = levelOf(marine)
+  const style = LEVEL_STYLE[level]
+  const title =
+    marine.alerts.length > 0
+      ? [...new Set(marine.alerts.map((a) => a.event))].join(' · ')
+      : level === 'caution'
+        ? 'Rough conditions forecast'
+        : 'Marine forecast'
+
+  return (
+    <section role={level === 'ok' ? undefined : 'alert'} className={`rounded-xl border-2 p-6 space-y-4 ${style.className}`}>
+      <div>
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <span aria-hidden>{style.icon}</span> {title}
+        </h2>
+        <p className="text-sm opacity-80">
+          {marine.zone ? `NWS marine zone ${marine.zone.name} (${marine.zone.id})` : 'Global wave model – check local marine warnings before launching'}
+        </p>
+      </div>
+
+      {marine.alerts.map((alert) => (
+        <div key={alert.id} className="space-y-1">
+          <p className="font-semibold">
+            {alert.event}
+            {alert.ends && <span className="font-normal"> until {new Date(alert.ends).toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit' })}</span>}
+          </p>
+          {alert.headline && <p className="text-sm">{alert.headline}</p>}
+          {alert.instruction && <p className="text-sm italic">{alert.instruction}</p>}
+        </div>
+      ))}
+
+      {marine.periods.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {marine.periods.slice(0, 4).map((p) => (
+            <PeriodCell key={p.name} period={p} />
+          ))}
+        </div>
+      )}
+      <p className="text-xs opacity-70">The go / no-go rule in the Decision Guide is based on this forecast.</p>
+    </section>
+  )
+}
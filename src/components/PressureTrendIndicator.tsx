@@ -0,0 +1,73 @@
+import React from 'react'
+import type { PressureInfo, PressureTrend } from '../types/trip'
+
+interface PressureTrendIndicatorProps {
+  pressure: PressureInfo
+}
+
+const HPA_TO_INHG = 0.02953
+
+const TREND_STYLE: Record<PressureTrend, { arrow: string; label: string; className: string }> = {
+  rising: { arrow: '↗', label: 'Rising', className: 'text-green-700 bg-green-100 border-green-200' },
+  falling: { arrow: '↘', label: 'Falling', className: 'text-amber-800 bg-amber-100 border-amber-200' },
+  steady: { arrow: '→', label: 'Steady', className: 'text-gray-700 bg-gray-100 border-gray-200' },
+  unknown: { arrow: '?', label: 'Unknown', className: 'text-gray-500 bg-gray-50 border-gray-200' }
+}
+
+function formatChange(change: number | null): string {
+  if (change == null) return '–'
+  return `${change > 0 ? '+' : ''}${change} hPa`
+}
+
+/** Barometric pressure when the plan was made, its 3h/24h/48h change and any front inferred from it (observed, not forecast) */
+export function PressureTrendIndicator({ pressure }: PressureTrendIndicatorProps) {
+  const trend = TREND_STYLE[pressure.trend24h]
+  const changes: Array<[string, number | null]> = [
+    ['3h', pressure.change3hHpa],
+    ['24h', pressure.change24hHpa],
+    ['48h', pressure.change48hHpa]
+  ]
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span
+          className={`inline-flex items-center gap-2 px-3 py-1 rounded-full border text-sm font-semibold ${trend.className}`}
+          title="Observed trend over the 24 hours before the plan was made – not a forecast for the trip"
+        >
+          <span className="text-lg leading-none" aria-hidden>{trend.arrow}</span>
+          Current trend: {trend.label}
+        </span>
+        {pressure.currentHpa != null && (
+          <span className="text-base font-medium text-gray-800">
+            {pressure.currentHpa} hPa <span className="text-gray-500">({(pressure.currentHpa * HPA_TO_INHG).toFixed(2)} inHg)</span>
+          </span>
+        )}
+        {pressure.front && (
+          <span className="px-3 py-1 rounded-full bg-red-100 text-red-800 border border-red-200 text-sm font-medium">
+            {pressure.front === 'approaching' ? '⚠️ Front approaching' : 'Front just passed'}
+          </span>
+        )}
+      </div>
+
+      {pressure.currentHpa != null ? (
+        <dl className="grid grid-cols-3 gap-3 text-center">
+          {changes.map(([window, change]) => (
+            <div key={window} className="p-2 bg-white rounded-lg border border-gray-200">
+              <dt className="text-xs text-gray-500">{window} change</dt>
+              <dd className="text-sm font-semibold text-gray-800 tabular-nums">{formatChange(change)}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-sm text-gray-500">{pressure.summary}</p>
+      )}
+
+      {pressure.station && pressure.observedAt && (
+        <p className="text-xs text-gray-500">
+          Observed at {pressure.station}, {new Date(pressure.observedAt).toLocaleString()} – conditions on the trip days may differ
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import React, { useEffect, useState } from 'react'
+import { formatCountdown } from '../lib/rateLimit'
+
+interface RateLimitCountdownProps {
+  /** Epoch ms when requests are allowed again */
+  until: number
+  /** What the user is waiting to do, e.g. "generate another plan" */
+  action: string
+  onExpire?: () => void
+}
+
+/** Live "try again in m:ss" notice driven by the server's Retry-After */
+export function RateLimitCountdown({ until, action, onExpire }: RateLimitCountdownProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const secondsLeft = Math.max(0, Math.ceil((until - now) / 1000))
+
+  const expired = secondsLeft === 0
+
+  useEffect(() => {
+    if (expired) {
+      onExpire?.()
+      return
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [expired])
+
+  if (expired) return null
+
+  return (
+    <div className="p-3 rounded-lg bg-red-100 text-red-700 text-sm">
+      Rate limit reached. You can {action} in <span className="font-semibold tabular-nums">{formatCountdown(secondsLeft)}</span>.
+    </div>
+  )
+}
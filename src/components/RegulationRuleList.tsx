@@ -0,0 +1,44 @@
+import React from 'react'
+import type { RegulationRule } from '../types/trip'
+
+/** "28–33 in", "at least 12 in" */
+function sizeLimit(rule: RegulationRule): string | null {
+  const { minLengthIn: min, maxLengthIn: max } = rule
+  if (min != null && max != null) return `${min}–${max} in`
+  if (min != null) return `at least ${min} in`
+  if (max != null) return `at most ${max} in`
+  return null
+}
+
+/** Rules attached from the regulations table, each with the agency page and the date it was last checked */
+export function RegulationRuleList({ rules }: { rules: RegulationRule[] }) {
+  return (
+    <ul className="space-y-2">
+      {rules.map((rule, idx) => {
+        const size = sizeLimit(rule)
+        const scope = [rule.waterbody, rule.season ? `${rule.season.start} to ${rule.season.end}` : null].filter(Boolean).join(' · ')
+        return (
+          <li key={idx} className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium text-gray-700">{rule.species ?? 'All species'}</span>
+              {scope && <span className="text-sm text-gray-500">{scope}</span>}
+              <span className="ml-auto flex flex-wrap gap-2">
+                {rule.closed && <span className="px-2 py-1 bg-red-100 text-red-800 text-sm font-medium rounded">Closed – catch and release</span>}
+                {rule.bagLimit != null && <span className="px-2 py-1 bg-accent-100 text-accent-800 text-sm font-medium rounded">{rule.bagLimit} per day</span>}
+                {size && <span className="px-2 py-1 bg-blue-100 text-blue-800 text-sm font-medium rounded">{size}</span>}
+                {rule.licenseRequired && <span className="px-2 py-1 bg-gray-200 text-gray-800 text-sm font-medium rounded">License required</span>}
+              </span>
+            </div>
+            {rule.notes && <p className="text-sm text-gray-700">{rule.notes}</p>}
+            <p className="text-xs text-gray-500">
+              <a href={rule.sourceUrl} target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-700">
+                Source
+              </a>{' '}
+              · verified {new Date(`${rule.lastVerified}T00:00:00`).toLocaleDateString()}
+            </p>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
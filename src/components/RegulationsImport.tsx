@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react'
+import { fetchRegulationSummary, importRegulations, type JurisdictionSummary } from '../api/regulations'
+import { parseCsv } from '../lib/csv'
+import { regulationCsvRowSchema, type RegulationRow } from '../../supabase/functions/_shared/contract'
+
+const COLUMNS = 'jurisdiction, waterbody, species, season_start, season_end, bag_limit, min_length_in, max_length_in, closed, license_required, notes, source_url, last_verified'
+
+interface ParsedFile {
+  name: string
+  rows: RegulationRow[]
+  errors: string[]
+}
+
+/** Validate every line before anything is written; line numbers count the header as line 1 */
+function validate(name: string, text: string): ParsedFile {
+  const rows: RegulationRow[] = []
+  const errors: string[] = []
+  const keys = new Map<string, number>()
+  parseCsv(text).forEach((record, i) => {
+    const line = i + 2
+    const parsed = regulationCsvRowSchema.safeParse(record)
+    if (!parsed.success) {
+      errors.push(`Line ${line}: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`)
+      return
+    }
+    const row = parsed.data
+    const key = [row.jurisdiction, row.waterbody, row.species, row.season_start, row.season_end].join('|')
+    if (keys.has(key)) {
+      errors.push(`Line ${line}: same jurisdiction, waterbody, species and season as line ${keys.get(key)}`)
+      return
+    }
+    keys.set(key, line)
+    rows.push(row)
+  })
+  if (rows.length === 0 && errors.length === 0) errors.push('No rows found')
+  return { name, rows, errors }
+}
+
+/** Admin CSV import for the regulations table, with the verification dates per jurisdiction */
+export function RegulationsImport() {
+  const [summary, setSummary] = useState<JurisdictionSummary[]>([])
+  const [file, setFile] = useState<ParsedFile | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchRegulationSummary().then(setSummary).catch((err) => setMessage(`Failed to load regulations: ${err.message}`))
+  }, [])
+
+  const onFile = async (selected: File | undefined) => {
+    setMessage(null)
+    setFile(selected ? validate(selected.name, await selected.text()) : null)
+  }
+
+  const runImport = async () => {
+    if (!file || file.errors.length > 0) return
+    setBusy(true)
+    setMessage(null)
+    try {
+      await importRegulations(file.rows)
+      setSummary(await fetchRegulationSummary())
+      setMessage(`Imported ${file.rows.length} rules from ${file.name}`)
+      setFile(null)
+    } catch (err) {
+      setMessage(`Import failed: ${(err as Error).message}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <input type="file" accept=".csv,text/csv" onChange={(e) => onFile(e.target.files?.[0])} className="text-sm" />
+        <button
+          onClick={runImport}
+          disabled={busy || !file || file.errors.length > 0}
+          className="px-3 py-2 rounded-md bg-brand text-white text-sm disabled:opacity-50"
+        >
+          {busy ? 'Importing…' : file && file.errors.length === 0 ? `Import ${file.rows.length} rules` : 'Import'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Columns: <span className="font-mono">{COLUMNS}</span>. Rows with the same jurisdiction, waterbody, species and season replace the stored rule.
+      </p>
+      {message && <p className="text-sm text-gray-700">{message}</p>}
+      {file && file.errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
+          <p className="font-medium mb-1">{file.name} was not imported:</p>
+          <ul className="list-disc pl-5 space-y-0.5 max-h-48 overflow-y-auto">
+            {file.errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="p-3 text-left font-medium text-gray-700">Jurisdiction</th>
+              <th className="p-3 text-right font-medium text-gray-700">Rules</th>
+              <th className="p-3 text-left font-medium text-gray-700">Last verified</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.length > 0 ? (
+              summary.map((s) => (
+                <tr key={s.jurisdiction} className="border-t">
+                  <td className="p-3 font-mono">{s.jurisdiction}</td>
+                  <td className="p-3 text-right">{s.rules}</td>
+                  <td className="p-3 text-gray-500">
+                    {s.oldestVerified === s.newestVerified ? s.oldestVerified : `${s.oldestVerified} – ${s.newestVerified}`}
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={3} className="p-4 text-center text-gray-500">
+                  No regulations on file – plans tell anglers to check with the state agency
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import React from 'react'
+import type { SolunarInfo, SolunarPeriod } from '../types/trip'
+
+interface SolunarSummaryProps {
+  solunar: SolunarInfo
+}
+
+/** "2025-06-07 13:05" → "1:05 PM" */
+function formatClock(time: string | null): string {
+  if (!time) return '—'
+  const h = Number(time.slice(11, 13))
+  return `${h % 12 === 0 ? 12 : h % 12}:${time.slice(14, 16)} ${h < 12 ? 'AM' : 'PM'}`
+}
+
+function PeriodList({ periods }: { periods: SolunarPeriod[] }) {
+  if (periods.length === 0) return <span className="text-gray-500">None today</span>
+  return (
+    <>
+      {periods.map((p, i) => (
+        <span key={p.start}>
+          {i > 0 && ', '}
+          {formatClock(p.start)} – {formatClock(p.end)}
+        </span>
+      ))}
+    </>
+  )
+}
+
+/** Sun and moon times, illumination and the day's major/minor feeding periods */
+export function SolunarSummary({ solunar }: SolunarSummaryProps) {
+  return (
+    <div className="space-y-3 text-base text-gray-700">
+      <p>
+        <span className="font-semibold text-purple-700">🌙 Moon Phase:</span> {solunar.moonPhase} ({solunar.illumination}% illuminated)
+      </p>
+      <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+        {[
+          ['🌅 Sunrise', solunar.sunrise],
+          ['🌇 Sunset', solunar.sunset],
+          ['🌙 Moonrise', solunar.moonrise],
+          ['🌘 Moonset', solunar.moonset]
+        ].map(([label, time]) => (
+          <div key={label} className="p-2 bg-white rounded-lg border border-gray-200 text-center">
+            <dt className="text-xs text-gray-500">{label}</dt>
+            <dd className="font-semibold text-gray-800 tabular-nums">{formatClock(time)}</dd>
+          </div>
+        ))}
+      </dl>
+      <p className="text-sm">
+        <span className="inline-block w-3 h-3 rounded-sm bg-amber-400 align-middle mr-1" />
+        <span className="font-semibold">Major periods:</span> <PeriodList periods={solunar.majorPeriods} />
+      </p>
+      <p className="text-sm">
+        <span className="inline-block w-3 h-3 rounded-sm bg-amber-200 align-middle mr-1" />
+        <span className="font-semibold">Minor periods:</span> <PeriodList periods={solunar.minorPeriods} />
+      </p>
+      <p className="text-xs text-gray-500">Local time (UTC{solunar.utcOffset}), computed for the trip location.</p>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import React from 'react'
+import type { DataSource } from '../types/trip'
+
+interface SourceLabelProps {
+  source?: DataSource
+  /** Prefix when a section shows more than one source, e.g. "Tides" */
+  label?: string
+}
+
+/** Caption naming where a block of conditions came from (linked when the source has a URL) */
+export function SourceLabel({ source, label }: SourceLabelProps) {
+  if (!source) return null
+  return (
+    <p className="text-xs text-gray-500">
+      {label ? `${label} source` : 'Source'}:{' '}
+      {source.url ? (
+        <a href={source.url} target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-700">
+          {source.name}
+        </a>
+      ) : (
+        source.name
+      )}
+    </p>
+  )
+}
@@ -0,0 +1,200 @@
+import React from 'react'
+import type { SolunarInfo, TideInfo, TripWindow } from '../types/trip'
+
+interface TideChartProps {
+  tides?: TideInfo
+  /** Night shading and major/minor feeding bands along the top */
+  solunar?: SolunarInfo
+  /** Shaded on the chart; omitted for trips planned without start/end times */
+  fishingWindow?: TripWindow
+}
+
+const WIDTH = 720
+const HEIGHT = 180
+const PAD_X = 32
+const PAD_TOP = 28
+const BAND_Y = 4
+const BAND_HEIGHT = 10
+const PAD_BOTTOM = 24
+const DAY_MINUTES = 24 * 60
+
+/** Minutes since local midnight from "YYYY-MM-DD HH:mm" (CO-OPS) or "HH:mm" */
+function minuteOfDay(time: string): number {
+  const clock = time.length > 5 ? time.slice(11, 16) : time
+  return Number(clock.slice(0, 2)) * 60 + Number(clock.slice(3, 5))
+}
+
+/** Minute of `date` for a local timestamp, clamped to the day for periods spilling past midnight */
+function minuteOn(time: string, date: string): number {
+  const day = time.slice(0, 10)
+  if (day < date) return 0
+  if (day > date) return DAY_MINUTES
+  return minuteOfDay(time)
+}
+
+/** "2025-06-07 13:05" → "1:05 PM" (station local time) */
+function formatClock(time: string): string {
+  const minutes = minuteOfDay(time)
+  const h = Math.floor(minutes / 60)
+  return `${h % 12 === 0 ? 12 : h % 12}:${String(minutes % 60).padStart(2, '0')} ${h < 12 ? 'AM' : 'PM'}`
+}
+
+/**
+ * One local day: water level with hi/lo marks, night shading and solunar periods, with the
+ * fishing window shaded – plus tidal currents below. Either the tide curve or the solunar table
+ * alone is enough to draw it (inland trips have no tides).
+ */
+export function TideChart({ tides, solunar, fishingWindow }: TideChartProps) {
+  const curve = tides?.curve ?? []
+  const extremes = curve.length > 1 ? tides?.extremes ?? [] : []
+  if (curve.length < 2 && !solunar) return null
+
+  const heights = curve.length > 0 ? curve.map((p) => p.height) : [0]
+  const min = Math.min(...heights)
+  const max = Math.max(...heights)
+  const x = (minute: number) => PAD_X + (minute / DAY_MINUTES) * (WIDTH - 2 * PAD_X)
+  const y = (height: number) =>
+    PAD_TOP + (max === min ? 0.5 : (max - height) / (max - min)) * (HEIGHT - PAD_TOP - PAD_BOTTOM)
+
+  const line = curve.map((p) => `${x(minuteOfDay(p.time))},${y(p.height)}`).join(' ')
+  const area = curve.length > 1
+    ? `${x(minuteOfDay(curve[0].time))},${HEIGHT - PAD_BOTTOM} ${line} ${x(minuteOfDay(curve[curve.length - 1].time))},${HEIGHT - PAD_BOTTOM}`
+    : ''
+
+  // Dark before sunrise and after sunset (polar day/night leave the sun times null)
+  const night: Array<[number, number]> = []
+  if (solunar?.sunrise) night.push([0, minuteOn(solunar.sunrise, solunar.date)])
+  if (solunar?.sunset) night.push([minuteOn(solunar.sunset, solunar.date), DAY_MINUTES])
+
+  // A window that ends before it starts runs past midnight: shade both ends of the day
+  const shaded: Array<[number, number]> = []
+  if (fishingWindow) {
+    const start = minuteOfDay(fishingWindow.startTime)
+    const end = minuteOfDay(fishingWindow.endTime)
+    if (end > start) shaded.push([start, end])
+    else shaded.push([start, DAY_MINUTES], [0, end])
+  }
+
+  const currents = tides?.currents
+  const band = (period: { start: string; end: string }) => {
+    const from = minuteOn(period.start, solunar!.date)
+    return { x: x(from), width: x(minuteOn(period.end, solunar!.date)) - x(from) }
+  }
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Tide height, daylight and solunar periods through the day">
+        {night.map(([from, to]) => (
+          <rect key={`night-${from}`} x={x(from)} y={PAD_TOP / 2} width={x(to) - x(from)} height={HEIGHT - PAD_BOTTOM - PAD_TOP / 2} className="fill-slate-200/70" />
+        ))}
+        {shaded.map(([from, to]) => (
+          <rect
+            key={from}
+            x={x(from)}
+            y={PAD_TOP / 2}
+            width={x(to) - x(from)}
+            height={HEIGHT - PAD_BOTTOM - PAD_TOP / 2}
+            className="fill-accent-100"
+          />
+        ))}
+        {solunar?.majorPeriods.map((p) => (
+          <rect key={`major-${p.start}`} {...band(p)} y={BAND_Y} height={BAND_HEIGHT} rx={2} className="fill-amber-400" />
+        ))}
+        {solunar?.minorPeriods.map((p) => (
+          <rect key={`minor-${p.start}`} {...band(p)} y={BAND_Y} height={BAND_HEIGHT} rx={2} className="fill-amber-200" />
+        ))}
+        {area && <polygon points={area} className="fill-blue-100" />}
+        {line && <polyline points={line} fill="none" strokeWidth={2} className="stroke-blue-600" />}
+        {[0, 3, 6, 9, 12, 15, 18, 21, 24].map((h) => (
+          <g key={h}>
+            <line x1={x(h * 60)} x2={x(h * 60)} y1={HEIGHT - PAD_BOTTOM} y2={HEIGHT - PAD_BOTTOM + 4} className="stroke-gray-400" />
+            <text x={x(h * 60)} y={HEIGHT - 6} textAnchor="middle" className="fill-gray-500 text-[10px]">
+              {h === 0 || h === 24 ? '12a' : h === 12 ? '12p' : h < 12 ? `${h}a` : `${h - 12}p`}
+            </text>
+          </g>
+        ))}
+        {extremes.map((e) => (
+          <g key={e.time}>
+            <circle cx={x(minuteOfDay(e.time))} cy={y(e.height)} r={4} className={e.type === 'High' ? 'fill-blue-700' : 'fill-blue-400'} />
+            <text
+              x={x(minuteOfDay(e.time))}
+              y={e.type === 'High' ? y(e.height) - 8 : y(e.height) + 14}
+              textAnchor="middle"
+              className="fill-gray-700 text-[10px] font-medium"
+            >
+              {e.type === 'High' ? 'H' : 'L'} {e.height.toFixed(1)} ft
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      {currents && currents.predictions.length > 0 && (
+        <div>
+          <p className="text-sm font-semibold text-gray-800 mb-2">
+            Currents at {currents.station.name} <span className="font-normal text-gray-500">({currents.station.distanceKm} km)</span>
+          </p>
+          <ul className="flex flex-wrap gap-2">
+            {currents.predictions.map((c) => (
+              <li
+                key={c.time}
+                className={`px-2 py-1 rounded text-xs border ${
+                  c.type === 'slack'
+                    ? 'bg-gray-50 text-gray-600 border-gray-200'
+                    : c.type === 'flood'
+                      ? 'bg-blue-50 text-blue-800 border-blue-200'
+                      : 'bg-indigo-50 text-indigo-800 border-indigo-200'
+                }`}
+              >
+                {formatClock(c.time)} ·{' '}
+                {c.type === 'slack' ? 'Slack' : `Max ${c.type} ${Math.abs(c.velocityKnots).toFixed(1)} kt`}
+                {c.direction != null && c.type !== 'slack' ? ` → ${Math.round(c.direction)}°` : ''}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        {tides?.station && curve.length > 1
+          ? `Predictions for ${tides.station.name} (${tides.station.id}), ${tides.station.distanceKm} km away · heights in ft above ${tides.datum ?? 'MLLW'}`
+          : 'Local time'}
+        {fishingWindow ? ' · teal: your fishing window' : ''}
+        {solunar ? ' · gray: night · bars: major (dark) / minor (light) solunar periods' : ''}
+      </p>
+    </div>
+  )
+}
+
+interface TideTableProps {
+  rows: Array<{ label: string; tides?: TideInfo }>
+}
+
+/** High/low times and heights, one row per trip day */
+export function TideTable({ rows }: TideTableProps) {
+  const withExtremes = rows.filter((r) => r.tides?.extremes?.length)
+  if (withExtremes.length === 0) return null
+
+  return (
+    <table className="w-full text-sm">
+      <tbody className="divide-y divide-blue-100">
+        {withExtremes.map(({ label, tides }) => (
+          <tr key={label}>
+            <th scope="row" className="py-2 pr-4 text-left font-semibold text-gray-800 whitespace-nowrap align-top">{label}</th>
+            <td className="py-2">
+              <div className="flex flex-wrap gap-2">
+                {tides!.extremes!.map((e) => (
+                  <span
+                    key={e.time}
+                    className={`px-2 py-1 rounded text-xs font-medium ${e.type === 'High' ? 'bg-blue-100 text-blue-800' : 'bg-sky-50 text-sky-700'}`}
+                  >
+                    {e.type} {formatClock(e.time)} · {e.height.toFixed(1)} ft
+                  </span>
+                ))}
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
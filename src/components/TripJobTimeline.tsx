@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react'
+import { TRIP_JOB_STAGES, type TripJob, type TripJobStage } from '../types/trip'
+
+const STAGE_LABELS: Record<TripJobStage, string> = {
+  queued: 'Queued',
+  geocoded: 'Location found',
+  weather_fetched: 'Weather forecast fetched',
+  tides_fetched: 'Tides fetched',
+  generating: 'Writing your itinerary',
+  validating: 'Checking the plan',
+  completed: 'Plan ready'
+}
+
+// Stream mode builds this from SSE events; job mode passes the trip_jobs row itself
+export type TripJobProgress = Pick<TripJob, 'status' | 'progress' | 'created_at' | 'error'>
+
+interface TripJobTimelineProps {
+  job: TripJobProgress | null
+}
+
+/** Live progress for a trip-generation job (stages arrive via Realtime/polling) */
+export function TripJobTimeline({ job }: TripJobTimelineProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  // Tick the elapsed-time counter while the job is running
+  useEffect(() => {
+    if (job?.status === 'succeeded' || job?.status === 'failed') return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [job?.status])
+
+  const reached = new Map((job?.progress ?? []).map((p) => [p.stage, p.at] as const))
+  const nextStage = TRIP_JOB_STAGES.find((stage) => !reached.has(stage))
+  const startedAt = job ? new Date(job.created_at).getTime() : now
+  const elapsed = Math.max(0, Math.round((now - startedAt) / 1000))
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg p-4 bg-gray-50/50">
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-800">Building your trip plan</h3>
+        <span className="text-xs text-gray-500">{elapsed}s</span>
+      </div>
+      <ol className="space-y-2">
+        {TRIP_JOB_STAGES.map((stage) => {
+          const at = reached.get(stage)
+          const active = !at && stage === nextStage && job?.status !== 'failed'
+          return (
+            <li key={stage} className="flex items-center gap-3 text-sm">
+              {at ? (
+                <span className="w-5 h-5 rounded-full bg-green-500 text-white flex items-center justify-center text-xs">✓</span>
+              ) : active ? (
+                <span className="w-5 h-5 rounded-full border-2 border-accent border-t-transparent animate-spin" />
+              ) : (
+                <span className="w-5 h-5 rounded-full border-2 border-gray-300" />
+              )}
+              <span className={at ? 'text-gray-800' : active ? 'text-gray-800 font-medium' : 'text-gray-400'}>
+                {STAGE_LABELS[stage]}
+              </span>
+              {at && <span className="ml-auto text-xs text-gray-400">{new Date(at).toLocaleTimeString()}</span>}
+            </li>
+          )
+        })}
+      </ol>
+      {job?.status === 'failed' ? (
+        <p className="mt-3 text-sm text-red-600">{job.error ?? 'Failed to generate trip plan.'}</p>
+      ) : (
+        <p className="mt-3 text-xs text-gray-500">
+          You can leave this page – generation keeps running and your plan will be here when you come back.
+        </p>
+      )}
+    </div>
+  )
+}
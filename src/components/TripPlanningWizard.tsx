@@ -5,13 +5,32 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import mapboxgl from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
 import { tripFormSchema, type TripFormData, commonSpecies } from '../schemas/trip';
+import { TripJobTimeline, type TripJobProgress } from './TripJobTimeline';
+import { RateLimitCountdown } from './RateLimitCountdown';
+import { rankSpecies, type SpeciesVerdict } from '../../supabase/functions/_shared/species';
 mapboxgl.accessToken = import.meta.env.VITE_MAPBOX_TOKEN as string;
+const VERDICT_BADGES: Partial<Record<SpeciesVerdict, { label: string; className: string }>> = {
+    good: { label: 'In season', className: 'bg-green-100 text-green-800' },
+    fair: { label: 'Fair', className: 'bg-blue-100 text-blue-800' },
+    long_shot: { label: 'Long shot', className: 'bg-amber-100 text-amber-800' },
+    impossible: { label: 'Not found here', className: 'bg-gray-200 text-gray-600' }
+};
 interface Props {
     onSubmit: (data: TripFormData) => Promise<void>;
     isLoading?: boolean;
+    /** In-flight generation job – shown as a progress timeline under the form */
+    job?: TripJobProgress | null;
+    /** Epoch ms until which plan_trip is rate limited (from Retry-After) */
+    retryAt?: number | null;
+    onRetryAvailable?: () => void;
 }
+/* A cleared or out-of-range day count would otherwise reach the schema as NaN; fall back to 2–14 */
+const toNumDays = (value: string | number) => {
+    const n = Math.round(Number(value));
+    return Number.isFinite(n) && value !== '' ? Math.min(14, Math.max(2, n)) : 2;
+};
 /* 0 = location, 1 = details, 2 = species */
-export default function TripPlanningWizard({ onSubmit, isLoading = false }: Props) {
+export default function TripPlanningWizard({ onSubmit, isLoading = false, job = null, retryAt = null, onRetryAvailable }: Props) {
     const [step, setStep] = useState<0 | 1 | 2>(0);
     /* ───────── shared form state ───────── */
     const methods = useForm<TripFormData>({
@@ -33,6 +52,8 @@ export default function TripPlanningWizard({ onSubmit, isLoading = false }: Prop
     const mapRef = useRef<any>(null);
     const markerRef = useRef<any>(null);
     const [locationLabel, setLocationLabel] = useState('');
+    /* ISO codes of the picked location, for ranking species */
+    const [place, setPlace] = useState<{ regionCode?: string; countryCode?: string }>({});
     useEffect(() => {
         /* set up MapBox only while on step 0 */
         if (step !== 0 || !mapDiv.current || mapRef.current) return;
@@ -91,13 +112,15 @@ export default function TripPlanningWizard({ onSubmit, isLoading = false }: Prop
                 markerRef.current = new mapboxgl.Marker({ color: '#f43f5e' }).setLngLat([lng, lat]).addTo(mapRef.current!);
                 try {
                     const resp = await fetch(`https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lng}&format=json`);
-                    const { display_name } = await resp.json();
+                    const { display_name, address } = await resp.json();
                     const label = display_name ?? `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
                     setLocationLabel(label);
+                    setPlace({ regionCode: address?.['ISO3166-2-lvl4'], countryCode: address?.country_code });
                     setValue('location', label, { shouldValidate: true });
                 } catch {
                     const label = `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
                     setLocationLabel(label);
+                    setPlace({});
                     setValue('location', label, { shouldValidate: true });
                 }
         };
@@ -112,7 +135,7 @@ export default function TripPlanningWizard({ onSubmit, isLoading = false }: Prop
     /* ───────── navigation helpers ───────── */
     const validateStep = async () => {
         if (step === 0) return trigger(['location']);
-        if (step === 1) return trigger(['date', 'startTime', 'endTime', 'styles', 'platform', 'experience']);
+        if (step === 1) return trigger(['date', 'duration', 'numDays', 'startTime', 'endTime', 'styles', 'platform', 'experience']);
         return true;
     };
     // scroll to top when step changes
@@ -140,10 +163,19 @@ export default function TripPlanningWizard({ onSubmit, isLoading = false }: Prop
     const startVal = watch('startTime');
     const endVal = watch('endTime');
     const stylesVal = watch('styles');
+    const durationVal = watch('duration');
+    /* species ranked by range and season for the picked location and month; unranked without a location */
+    const rankedSpecies = React.useMemo(
+        () => rankSpecies(commonSpecies, { ...place, month: dateVal ? Number(dateVal.slice(5, 7)) : new Date().getMonth() + 1 }),
+        [place, dateVal]
+    );
+    const speciesWarnings = rankedSpecies.filter(
+        (a) => selectedSpecies.includes(a.species) && (a.verdict === 'long_shot' || a.verdict === 'impossible')
+    );
     const isNextDisabled = (() => {
         if (isLoading) return true;
         if (step === 0) return !locationVal;
-        if (step === 1) return !dateVal || !startVal || !endVal || !(stylesVal?.length);
+        if (step === 1) return !dateVal || !startVal || !endVal || !(stylesVal?.length) || (durationVal === 'multi-day' && !watch('numDays'));
         return false;
     })();
     return (
@@ -166,7 +198,7 @@ export default function TripPlanningWizard({ onSubmit, isLoading = false }: Prop
                         {/* Map container with overlay instructions */}
                         <div className="relative mb-4" style={{ width: '100%', height: '24rem' }}>
                             <div className="absolute top-2 left-2 bg-white bg-opacity-90 text-xs md:text-sm text-gray-800 rounded px-2 py-1 shadow">
-                                Tap the map to drop a red pin (U.S. only). Hold ⌘/Ctrl&nbsp;+ click for an AI fishing summary.
+                                Tap the map to drop a red pin. Hold ⌘/Ctrl&nbsp;+ click for an AI fishing summary.
                             </div>
                             <div
                                 ref={mapDiv}
@@ -187,6 +219,25 @@ export default function TripPlanningWizard({ onSubmit, isLoading = false }: Prop
                                 className="w-full px-4 py-3 border border-gray-300 rounded-lg" />
                             {errors.date && <p className="text-sm text-red-600">{errors.date.message}</p>}
                         </div>
+                        {/* trip length */}
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium mb-2">Trip Length</label>
+                                <select {...register('duration')}
+                                    className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+                                    <option value="custom">Single day</option>
+                                    <option value="multi-day">Multi-day</option>
+                                </select>
+                            </div>
+                            {durationVal === 'multi-day' && (
+                                <div>
+                                    <label className="block text-sm font-medium mb-2">Number of Days</label>
+                                    <input type="number" min={2} max={14} step={1} {...register('numDays', { setValueAs: toNumDays })}
+                                        className="w-full px-4 py-3 border border-gray-300 rounded-lg" />
+                                    {errors.numDays && <p className="text-sm text-red-600">{errors.numDays.message}</p>}
+                                </div>
+                            )}
+                        </div>
                         {/* time */}
                         <div className="grid grid-cols-2 gap-4">
                             {['startTime', 'endTime'].map((field, i) => (
@@ -236,17 +287,31 @@ export default function TripPlanningWizard({ onSubmit, isLoading = false }: Prop
                 {step === 2 && (
                     <section className="space-y-6">
                         <h2 className="text-2xl font-bold text-brand mb-2">Target Species (1-5)</h2>
-                        {/* TODO: dynamic filtering based on location */}
                         <div className="grid grid-cols-2 md:grid-cols-3 gap-3 max-h-60 overflow-y-auto border border-gray-300 rounded-lg p-4">
-                            {commonSpecies.map(sp => (
-                                <label key={sp} className="flex items-center space-x-2 cursor-pointer">
+                            {rankedSpecies.map(({ species: sp, verdict, reasons }) => (
+                                <label key={sp} title={reasons.join('\n') || undefined}
+                                    className={`flex items-center space-x-2 cursor-pointer ${verdict === 'impossible' ? 'opacity-50' : ''}`}>
                                     <input type="checkbox" checked={selectedSpecies.includes(sp)} onChange={() => toggle(sp)}
                                         className="rounded border-gray-300 text-accent" />
                                     <span className="text-sm">{sp}</span>
+                                    {VERDICT_BADGES[verdict] && (
+                                        <span className={`text-[10px] px-1.5 py-0.5 rounded-full whitespace-nowrap ${VERDICT_BADGES[verdict]!.className}`}>
+                                            {VERDICT_BADGES[verdict]!.label}
+                                        </span>
+                                    )}
                                 </label>
                             ))}
                         </div>
                         {errors.targetSpecies && <p className="text-sm text-red-600">{errors.targetSpecies.message}</p>}
+                        {speciesWarnings.length > 0 && (
+                            <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 space-y-1">
+                                {speciesWarnings.map((a) => (
+                                    <p key={a.species}>
+                                        <strong>{a.species}</strong>{a.verdict === 'impossible' ? ' will be left out of the plan' : ' is a long shot'}: {a.reasons.join('; ')}.
+                                    </p>
+                                ))}
+                            </div>
+                        )}
                     </section>
                 )}
                 {/* navigation */}
@@ -259,7 +324,7 @@ export default function TripPlanningWizard({ onSubmit, isLoading = false }: Prop
                         <button type="button" onClick={next} disabled={isNextDisabled}
                             className="px-6 py-3 bg-accent text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed">Next</button>
                     ) : (
-                        <button type="button" disabled={isLoading} onClick={methods.handleSubmit(onSubmit)}
+                        <button type="button" disabled={isLoading || retryAt !== null} onClick={methods.handleSubmit(onSubmit)}
                             className="px-6 py-3 bg-accent hover:bg-accent-dark text-white rounded-lg disabled:opacity-50 flex items-center">
                             {isLoading ? (
                                 <>
@@ -270,6 +335,12 @@ export default function TripPlanningWizard({ onSubmit, isLoading = false }: Prop
                         </button>
                     )}
                 </div>
+                {retryAt !== null && (
+                    <div className="mt-4">
+                        <RateLimitCountdown until={retryAt} action="generate another plan" onExpire={onRetryAvailable} />
+                    </div>
+                )}
+                {(isLoading || job?.status === 'failed') && job && <TripJobTimeline job={job} />}
             </div>
         </FormProvider >
     );
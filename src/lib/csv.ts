@@ -0,0 +1,49 @@
+// Minimal RFC 4180 reader for admin imports: quoted fields may contain commas, newlines and
+// doubled quotes. The first row is the header; blank lines are skipped.
+
+function parseRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''))
+}
+
+/** Records keyed by the (trimmed) header names; missing trailing cells are '' */
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseRows(text.replace(/^﻿/, ''))
+  if (!header) return []
+  const keys = header.map((h) => h.trim())
+  return rows.map((cells) => Object.fromEntries(keys.map((key, i) => [key, cells[i] ?? ''])))
+}
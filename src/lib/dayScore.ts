@@ -0,0 +1,28 @@
+import type { ScoreFactor } from '../../supabase/functions/_shared/contract'
+
+// Display helpers for the conditions scores from _shared/scoring.ts (discovery and best-day search)
+
+export const FACTOR_LABELS: Record<ScoreFactor['factor'], string> = {
+  wind: 'Wind',
+  rain: 'Rain',
+  pressure: 'Pressure',
+  tide: 'Tide',
+  flow: 'Flow',
+  solunar: 'Solunar',
+  season: 'Season'
+}
+
+/** Badge colours for a 0–100 score */
+export const scoreClass = (score: number) =>
+  score >= 70 ? 'bg-green-100 text-green-800' : score >= 45 ? 'bg-amber-100 text-amber-800' : 'bg-red-100 text-red-800'
+
+/** "Tue, Oct 20" for a YYYY-MM-DD date */
+export const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
+
+/** YYYY-MM-DD a number of days after another */
+export const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00`)
+  d.setDate(d.getDate() + days)
+  return d.toLocaleDateString('en-CA')
+}
@@ -0,0 +1,21 @@
+import type { TripItinerary, Waypoint } from '../types/trip'
+
+// Marker/tab colours for multi-day trips (cycled when a trip is longer than the palette)
+const DAY_COLORS = ['#0ea5e9', '#f97316', '#22c55e', '#a855f7', '#ef4444', '#eab308', '#14b8a6']
+
+export function dayColor(day: number): string {
+  return DAY_COLORS[(Math.max(1, day) - 1) % DAY_COLORS.length]
+}
+
+/**
+ * Collect every point of interest for the map. Multi-day trips contribute each day's
+ * spots tagged with their day number; single-day trips fall back to the flat list.
+ */
+export function collectWaypoints(itinerary: TripItinerary | null | undefined): Array<Waypoint & { day?: number }> {
+  if (!itinerary) return []
+  const dayPoints = (itinerary.days ?? []).flatMap((d) =>
+    (d.pointsOfInterest ?? []).map((wp) => ({ ...wp, day: d.day }))
+  )
+  if (dayPoints.length > 0) return dayPoints
+  return (itinerary.pointsOfInterest ?? itinerary.waypoints) || []
+}
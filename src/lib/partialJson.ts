@@ -0,0 +1,79 @@
+// Incremental reader for a streamed JSON object. The model writes the itinerary top-level key by
+// key; every member whose value has been fully received is returned, everything after it ignored.
+
+/** Index just past the JSON value starting at `start`, or -1 if it is not complete yet */
+function scanValue(text: string, start: number): number {
+  const first = text[start]
+
+  if (first === '"') {
+    for (let i = start + 1; i < text.length; i++) {
+      if (text[i] === '\\') i++
+      else if (text[i] === '"') return i + 1
+    }
+    return -1
+  }
+
+  if (first === '{' || first === '[') {
+    let depth = 0
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i]
+      if (ch === '"') {
+        const end = scanValue(text, i)
+        if (end === -1) return -1
+        i = end - 1
+      } else if (ch === '{' || ch === '[') {
+        depth++
+      } else if (ch === '}' || ch === ']') {
+        depth--
+        if (depth === 0) return i + 1
+      }
+    }
+    return -1
+  }
+
+  // Literals (numbers, true/false/null) end at the next delimiter – which must have arrived
+  const match = /^[^,}\]\s]+/.exec(text.slice(start))
+  if (!match) return -1
+  const end = start + match[0].length
+  return end < text.length ? end : -1
+}
+
+function skipWhitespace(text: string, i: number): number {
+  while (i < text.length && /\s/.test(text[i])) i++
+  return i
+}
+
+/**
+ * Parse the complete top-level members of a (possibly truncated) JSON object. A leading
+ * ```json fence is tolerated. Members that fail to parse stop the scan.
+ */
+export function parseCompletedMembers(text: string): Record<string, unknown> {
+  const members: Record<string, unknown> = {}
+  let i = text.indexOf('{')
+  if (i === -1) return members
+  i++
+
+  while (i < text.length) {
+    i = skipWhitespace(text, i)
+    if (text[i] === ',') i = skipWhitespace(text, i + 1)
+    if (text[i] !== '"') break
+
+    const keyEnd = scanValue(text, i)
+    if (keyEnd === -1) break
+    const colon = skipWhitespace(text, keyEnd)
+    if (text[colon] !== ':') break
+    const valueStart = skipWhitespace(text, colon + 1)
+    if (valueStart >= text.length) break
+    const valueEnd = scanValue(text, valueStart)
+    if (valueEnd === -1) break
+
+    try {
+      members[JSON.parse(text.slice(i, keyEnd))] = JSON.parse(text.slice(valueStart, valueEnd))
+    } catch {
+      break
+    }
+    i = valueEnd
+  }
+
+  return members
+}
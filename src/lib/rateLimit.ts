@@ -0,0 +1,35 @@
+// Server-side rate-limit state, read from the RateLimit-* / Retry-After headers edge functions send
+
+export interface RateLimitInfo {
+  limit: number
+  remaining: number
+  /** Epoch ms when the bucket is full again */
+  resetAt: number
+}
+
+/** Seconds to wait from a Retry-After header (delta-seconds or HTTP date), or null if absent */
+export function parseRetryAfter(headers: Headers | undefined | null): number | null {
+  const value = headers?.get('Retry-After')
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds))
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - Date.now()) / 1000))
+}
+
+export function parseRateLimit(headers: Headers | undefined | null): RateLimitInfo | null {
+  const limit = Number(headers?.get('RateLimit-Limit'))
+  const remaining = Number(headers?.get('RateLimit-Remaining'))
+  const reset = Number(headers?.get('RateLimit-Reset') ?? 0)
+  if (!headers?.has('RateLimit-Limit') || !Number.isFinite(limit) || !Number.isFinite(remaining)) return null
+  return { limit, remaining, resetAt: Date.now() + (Number.isFinite(reset) ? reset : 0) * 1000 }
+}
+
+/** "4:05" / "1:02:09" */
+export function formatCountdown(seconds: number): string {
+  const s = Math.max(0, Math.ceil(seconds))
+  const h = Math.floor(s / 3600)
+  const m = Math.floor((s % 3600) / 60)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return h > 0 ? `${h}:${pad(m)}:${pad(s % 60)}` : `${m}:${pad(s % 60)}`
+}
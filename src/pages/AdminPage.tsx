@@ -1,12 +1,145 @@
 import React, { useEffect, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Header } from '../components/Header'
+import { KnowledgeBaseEditor } from '../components/KnowledgeBaseEditor'
+import { RegulationsImport } from '../components/RegulationsImport'
 import { supabase } from '../lib/supabaseClient'
 import { useAuth } from '../contexts/AuthContext'
 
-interface TokenSpend {
-  date: string
+// One row of the admin_llm_spend view (token_usage grouped by day, user and function)
+interface SpendRow {
+  day: string
+  user_id: string
+  email: string | null
+  function_name: string
+  calls: number
+  total_tokens: number
+  cost_usd: number | null
+  unpriced_calls: number
+}
+
+interface SpendTotal {
+  key: string
+  label: string
+  calls: number
   tokens: number
+  cost: number
+  unpriced: number
+}
+
+function aggregateSpend(rows: SpendRow[], keyOf: (row: SpendRow) => string, labelOf: (row: SpendRow) => string): SpendTotal[] {
+  const totals = new Map<string, SpendTotal>()
+  rows.forEach((row) => {
+    const key = keyOf(row)
+    const total = totals.get(key) ?? { key, label: labelOf(row), calls: 0, tokens: 0, cost: 0, unpriced: 0 }
+    total.calls += Number(row.calls) || 0
+    total.tokens += Number(row.total_tokens) || 0
+    total.cost += Number(row.cost_usd) || 0
+    total.unpriced += Number(row.unpriced_calls) || 0
+    totals.set(key, total)
+  })
+  return Array.from(totals.values()).sort((a, b) => b.cost - a.cost)
+}
+
+const formatUsd = (value: number) =>
+  value.toLocaleString(undefined, { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 4 })
+
+function SpendTable({ title, keyHeader, rows }: { title: string; keyHeader: string; rows: SpendTotal[] }) {
+  return (
+    <div>
+      <h3 className="text-base font-semibold mb-2">{title}</h3>
+      <div className="bg-white rounded-lg shadow overflow-hidden max-h-96 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="p-3 text-left font-medium text-gray-700">{keyHeader}</th>
+              <th className="p-3 text-right font-medium text-gray-700">Calls</th>
+              <th className="p-3 text-right font-medium text-gray-700">Tokens</th>
+              <th className="p-3 text-right font-medium text-gray-700">Spend</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length > 0 ? (
+              rows.map((row) => (
+                <tr key={row.key} className="border-t">
+                  <td className="p-3 truncate max-w-[12rem]" title={row.label}>{row.label}</td>
+                  <td className="p-3 text-right">{row.calls.toLocaleString()}</td>
+                  <td className="p-3 text-right">{row.tokens.toLocaleString()}</td>
+                  <td className="p-3 text-right font-medium">
+                    {formatUsd(row.cost)}
+                    {row.unpriced > 0 && (
+                      <span className="ml-1 text-amber-600" title={`${row.unpriced} call(s) used a model with no pricing row`}>*</span>
+                    )}
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={4} className="p-4 text-center text-gray-500">
+                  No LLM spend recorded
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+// One row of api_cache_stats (upstream API cache lookups per day and source)
+interface CacheStatRow {
+  day: string
+  source: string
+  hits: number
+  misses: number
+}
+
+const formatHitRate = (hits: number, misses: number) =>
+  hits + misses > 0 ? `${Math.round((hits / (hits + misses)) * 100)}%` : '–'
+
+function CacheStatsTable({ rows }: { rows: CacheStatRow[] }) {
+  const totals = new Map<string, { hits: number; misses: number }>()
+  rows.forEach((row) => {
+    const total = totals.get(row.source) ?? { hits: 0, misses: 0 }
+    total.hits += Number(row.hits) || 0
+    total.misses += Number(row.misses) || 0
+    totals.set(row.source, total)
+  })
+  const sources = Array.from(totals.entries()).sort((a, b) => b[1].hits + b[1].misses - (a[1].hits + a[1].misses))
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="p-3 text-left font-medium text-gray-700">Source</th>
+            <th className="p-3 text-right font-medium text-gray-700">Hits</th>
+            <th className="p-3 text-right font-medium text-gray-700">Misses</th>
+            <th className="p-3 text-right font-medium text-gray-700">Hit Rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sources.length > 0 ? (
+            sources.map(([source, { hits, misses }]) => (
+              <tr key={source} className="border-t">
+                <td className="p-3 font-mono">{source}</td>
+                <td className="p-3 text-right">{hits.toLocaleString()}</td>
+                <td className="p-3 text-right">{misses.toLocaleString()}</td>
+                <td className="p-3 text-right font-medium">{formatHitRate(hits, misses)}</td>
+              </tr>
+            ))
+          ) : (
+            <tr>
+              <td colSpan={4} className="p-4 text-center text-gray-500">
+                No cache lookups recorded
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  )
 }
 
 interface UserSummary {
@@ -26,7 +159,8 @@ interface ErrorLog {
 export default function AdminPage() {
   const { session } = useAuth()
   const navigate = useNavigate()
-  const [tokenSpend, setTokenSpend] = useState<TokenSpend[]>([])
+  const [spendRows, setSpendRows] = useState<SpendRow[]>([])
+  const [cacheStats, setCacheStats] = useState<CacheStatRow[]>([])
   const [logs, setLogs] = useState<ErrorLog[]>([])
   const [users, setUsers] = useState<UserSummary[]>([])
   const [loading, setLoading] = useState(true)
@@ -85,13 +219,14 @@ export default function AdminPage() {
       
       try {
         // Run all queries in parallel with error handling for each
-        const [usageResult, logResult, userResult] = await Promise.allSettled([
-          // 1) Token usage (raw rows → aggregate per day)
+        const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+        const [usageResult, logResult, userResult, cacheResult] = await Promise.allSettled([
+          // 1) LLM spend (last 30 days, pre-grouped by day/user/function)
           supabase
-            .from('token_usage')
-            .select('id, created_at, total_tokens')
-            .order('created_at', { ascending: false })
-            .limit(1000),
+            .from('admin_llm_spend')
+            .select('*')
+            .gte('day', since)
+            .order('day', { ascending: false }),
           
           // 2) Error logs
           supabase
@@ -104,26 +239,20 @@ export default function AdminPage() {
           supabase
             .from('admin_user_list')
             .select('*')
-            .order('created_at', { ascending: false })
+            .order('created_at', { ascending: false }),
+
+          // 4) Upstream API cache hits/misses (last 30 days)
+          supabase
+            .from('api_cache_stats')
+            .select('day, source, hits, misses')
+            .gte('day', since)
         ])
 
-        // Process token usage data
+        // Process LLM spend data
         if (usageResult.status === 'fulfilled' && !usageResult.value.error) {
-          const usageRows = usageResult.value.data || []
-          const aggregate: Record<string, number> = {}
-          
-          usageRows.forEach((row: any) => {
-            const day = row.created_at.slice(0, 10) // YYYY-MM-DD
-            aggregate[day] = (aggregate[day] || 0) + (row.total_tokens || 0)
-          })
-          
-          const tokenRows: TokenSpend[] = Object.entries(aggregate)
-            .map(([date, tokens]) => ({ date, tokens }))
-            .sort((a, b) => (a.date < b.date ? 1 : -1))
-          
-          setTokenSpend(tokenRows)
+          setSpendRows((usageResult.value.data as SpendRow[]) || [])
         } else {
-          console.error('Failed to fetch token usage:', usageResult.status === 'rejected' ? usageResult.reason : usageResult.value.error)
+          console.error('Failed to fetch LLM spend:', usageResult.status === 'rejected' ? usageResult.reason : usageResult.value.error)
         }
 
         // Process error logs
@@ -140,6 +269,13 @@ export default function AdminPage() {
           console.error('Failed to fetch users:', userResult.status === 'rejected' ? userResult.reason : userResult.value.error)
         }
 
+        // Process cache stats
+        if (cacheResult.status === 'fulfilled' && !cacheResult.value.error) {
+          setCacheStats((cacheResult.value.data as CacheStatRow[]) || [])
+        } else {
+          console.error('Failed to fetch cache stats:', cacheResult.status === 'rejected' ? cacheResult.reason : cacheResult.value.error)
+        }
+
       } catch (err) {
         console.error('Admin data fetch failed', err)
         setError('Failed to load admin data. Some information may be unavailable.')
@@ -187,35 +323,71 @@ export default function AdminPage() {
           </div>
         )}
 
-        {/* Token Usage */}
+        {/* LLM Spend */}
         <section className="mb-10">
-          <h2 className="text-xl font-semibold mb-4">Token Usage (Daily Aggregates)</h2>
-          <div className="bg-white rounded-lg shadow overflow-hidden">
-            <table className="w-full text-sm">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="p-4 text-left font-medium text-gray-700">Date</th>
-                  <th className="p-4 text-left font-medium text-gray-700">Total Tokens</th>
-                </tr>
-              </thead>
-              <tbody>
-                {tokenSpend.length > 0 ? (
-                  tokenSpend.map((row) => (
-                    <tr key={row.date} className="border-t">
-                      <td className="p-4">{row.date}</td>
-                      <td className="p-4">{row.tokens.toLocaleString()}</td>
-                    </tr>
-                  ))
-                ) : (
-                  <tr>
-                    <td colSpan={2} className="p-4 text-center text-gray-500">
-                      No token usage data available
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
+          <div className="flex items-baseline justify-between mb-4">
+            <h2 className="text-xl font-semibold">LLM Spend (Last 30 Days)</h2>
+            <span className="text-lg font-semibold text-brand-900">
+              {formatUsd(spendRows.reduce((sum, row) => sum + (Number(row.cost_usd) || 0), 0))}
+            </span>
           </div>
+          <div className="grid gap-6 md:grid-cols-2">
+            <SpendTable
+              title="By Day"
+              keyHeader="Date"
+              rows={aggregateSpend(spendRows, (r) => r.day, (r) => r.day).sort((a, b) => (a.key < b.key ? 1 : -1))}
+            />
+            <SpendTable
+              title="By Function"
+              keyHeader="Function"
+              rows={aggregateSpend(spendRows, (r) => r.function_name, (r) => r.function_name)}
+            />
+            <div className="md:col-span-2">
+              <SpendTable
+                title="By User"
+                keyHeader="User"
+                rows={aggregateSpend(spendRows, (r) => r.user_id, (r) => r.email || r.user_id)}
+              />
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Costs use the model_pricing rate in effect on the day of each call. * marks calls to models without a pricing row.
+          </p>
+        </section>
+
+        {/* Upstream API Cache */}
+        <section className="mb-10">
+          <div className="flex items-baseline justify-between mb-4">
+            <h2 className="text-xl font-semibold">Upstream API Cache (Last 30 Days)</h2>
+            <span className="text-lg font-semibold text-brand-900">
+              {formatHitRate(
+                cacheStats.reduce((sum, row) => sum + (Number(row.hits) || 0), 0),
+                cacheStats.reduce((sum, row) => sum + (Number(row.misses) || 0), 0)
+              )}
+            </span>
+          </div>
+          <CacheStatsTable rows={cacheStats} />
+          <p className="mt-2 text-xs text-gray-500">
+            Geocoding, weather.gov, USGS, CO-OPS and Open-Meteo lookups served from api_cache. Only the postgres cache backend reports here.
+          </p>
+        </section>
+
+        {/* Knowledge Base */}
+        <section className="mb-10">
+          <h2 className="text-xl font-semibold mb-4">Knowledge Base</h2>
+          <KnowledgeBaseEditor />
+          <p className="mt-2 text-xs text-gray-500">
+            Species and technique advice plan_trip retrieves by similarity, filtered by species, region, season, platform and style. The ids used for each plan are stored in trips.knowledge_chunk_ids.
+          </p>
+        </section>
+
+        {/* Regulations */}
+        <section className="mb-10">
+          <h2 className="text-xl font-semibold mb-4">Fishing Regulations</h2>
+          <RegulationsImport />
+          <p className="mt-2 text-xs text-gray-500">
+            plan_trip attaches the rules matching a trip's state, waterbody, species and dates; the model never writes limits. Re-verify rules against their source page and re-import with a new last_verified date.
+          </p>
         </section>
 
         {/* Error Logs */}
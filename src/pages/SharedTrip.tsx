@@ -1,15 +1,18 @@
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
 import { useParams } from 'react-router-dom'
 import { fetchTripByPlanId, TripRecord } from '../api/trips'
 import { MapView } from '../components/MapView'
 import { ItineraryDetails } from '../components/ItineraryDetails'
+import { HazardBanner } from '../components/HazardBanner'
 import { Header } from '../components/Header'
 import { ChatGuide } from '../components/ChatGuide'
+import { collectWaypoints } from '../lib/itinerary'
 
 export default function SharedTrip() {
   const { planId } = useParams<{ planId: string }>()
   const [trip, setTrip] = useState<TripRecord | null>(null)
   const [loading, setLoading] = useState(true)
+  const mapWaypoints = useMemo(() => collectWaypoints(trip?.itinerary), [trip])
 
   useEffect(() => {
     if (!planId) return
@@ -37,13 +40,15 @@ export default function SharedTrip() {
         <h1 className="text-3xl font-bold mb-4">Trip {trip.plan_id}</h1>
         <p className="text-gray-500 mb-6">Generated {new Date(trip.generated_at).toLocaleString()}</p>
 
+        {trip.itinerary?.hazards && <HazardBanner hazards={trip.itinerary.hazards} />}
+
         {/* Map & Itinerary – responsive grid */}
         {trip.itinerary && (
           <div className="grid lg:grid-cols-[1fr_2fr_1fr] gap-8 mb-12 mt-6">
             {/* Map */}
             <div>
-               { (trip.itinerary.pointsOfInterest || trip.itinerary.waypoints) && (
-                 <MapView waypoints={(trip.itinerary.pointsOfInterest ?? trip.itinerary.waypoints) || []} height="400px" enableSummary />
+               { mapWaypoints.length > 0 && (
+                 <MapView waypoints={mapWaypoints} height="400px" enableSummary />
                )}
             </div>
 
@@ -1,12 +1,14 @@
 import React, { useEffect, useState } from 'react'
-import { fetchTrips, toggleTripVisibility, TripRecord } from '../api/trips'
+import { fetchTrips, rescheduleTrip, toggleTripVisibility, TripRecord } from '../api/trips'
 import { Link } from 'react-router-dom'
 import { Header } from '../components/Header'
-import { supabase } from '../lib/supabaseClient'
+import { BestDayFinder } from '../components/BestDayFinder'
 
 export default function TripHistory() {
   const [trips, setTrips] = useState<TripRecord[]>([])
   const [loading, setLoading] = useState(true)
+  // Trip whose best-day calendar is open
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null)
 
   const loadTrips = async () => {
     setLoading(true)
@@ -36,15 +38,11 @@ export default function TripHistory() {
     }
   }
 
-  const handleReschedule = async (trip: TripRecord) => {
-    const input = prompt('Enter new date (YYYY-MM-DD) or leave blank for today:') || ''
-    const date = input.trim()
+  const handleReschedule = async (trip: TripRecord, date: string) => {
     try {
-      const { data, error } = await supabase.functions.invoke<any>('reschedule', {
-        body: { plan_id: trip.plan_id, date }
-      })
-      if (error) throw error
+      const data = await rescheduleTrip({ plan_id: trip.plan_id, date })
       alert('Trip rescheduled! New Plan ID: ' + data.plan_id)
+      setReschedulingId(null)
       loadTrips()
     } catch (err) {
       console.error(err)
@@ -65,28 +63,37 @@ export default function TripHistory() {
         ) : (
           <div className="space-y-4">
             {trips.map((trip) => (
-              <div key={trip.id} className="bg-white shadow rounded p-4 flex justify-between items-center">
-                <div>
-                  <h2 className="font-semibold">Plan ID: {trip.plan_id}</h2>
-                  <p className="text-sm text-gray-500">Generated {new Date(trip.generated_at).toLocaleString()}</p>
-                </div>
-                <div className="flex items-center gap-4">
-                  <button
-                    onClick={() => handleToggle(trip)}
-                    className="text-sm underline"
-                  >
-                    {trip.visibility === 'private' ? 'Make Public' : 'Make Private'}
-                  </button>
-                  <button
-                    onClick={() => handleReschedule(trip)}
-                    className="text-sm underline text-accent"
-                  >
-                    Reschedule
-                  </button>
-                  <Link to={`/trip/${trip.plan_id}`} className="text-sm text-brand underline">
-                    View
-                  </Link>
+              <div key={trip.id} className="bg-white shadow rounded p-4">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <h2 className="font-semibold">Plan ID: {trip.plan_id}</h2>
+                    <p className="text-sm text-gray-500">Generated {new Date(trip.generated_at).toLocaleString()}</p>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <button
+                      onClick={() => handleToggle(trip)}
+                      className="text-sm underline"
+                    >
+                      {trip.visibility === 'private' ? 'Make Public' : 'Make Private'}
+                    </button>
+                    <button
+                      onClick={() => setReschedulingId(reschedulingId === trip.id ? null : trip.id)}
+                      className="text-sm underline text-accent"
+                    >
+                      Reschedule
+                    </button>
+                    <Link to={`/trip/${trip.plan_id}`} className="text-sm text-brand underline">
+                      View
+                    </Link>
+                  </div>
                 </div>
+                {reschedulingId === trip.id && (
+                  <BestDayFinder
+                    planId={trip.plan_id}
+                    onReschedule={(date) => handleReschedule(trip, date)}
+                    onClose={() => setReschedulingId(null)}
+                  />
+                )}
               </div>
             ))}
           </div>
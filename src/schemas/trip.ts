@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { MAX_DISCOVERY_DAYS } from '../../supabase/functions/_shared/contract'
 
 export const tripFormSchema = z.object({
   location: z.string().min(1, 'Location is required').max(200, 'Location too long'),
@@ -37,6 +38,30 @@ export const tripFormSchema = z.object({
 
 export type TripFormData = z.infer<typeof tripFormSchema>
 
+// "Where should I go?" – the trip preferences minus the location, plus home, a drive radius and a date range
+export const discoverFormSchema = z.object({
+  home: z.string().min(1, 'Home location is required').max(200, 'Location too long'),
+  radiusMiles: z.number().min(5, 'At least 5 miles').max(150, 'At most 150 miles'),
+  targetSpecies: z.array(z.string()).min(1, 'Select at least one target species').max(5, 'Maximum 5 species'),
+  startDate: z.string().min(1, 'Start date is required').refine(
+    (date) => date >= new Date().toLocaleDateString('en-CA'),
+    'Date must be today or in the future'
+  ),
+  endDate: z.string().min(1, 'End date is required'),
+  startTime: z.string().min(1, 'Start time required').regex(/^\d{2}:\d{2}$/),
+  endTime: z.string().min(1, 'End time required').regex(/^\d{2}:\d{2}$/),
+  experience: z.enum(['beginner', 'intermediate', 'expert']).default('intermediate'),
+  styles: z.array(z.enum(['fly', 'spin', 'cast'])).min(1, 'Select at least one style'),
+  platform: z.enum(['shore', 'boat'])
+})
+  .refine((data) => {
+    const days = (Date.parse(data.endDate) - Date.parse(data.startDate)) / 86_400_000 + 1
+    return days >= 1 && days <= MAX_DISCOVERY_DAYS
+  }, { message: `Choose a range of 1–${MAX_DISCOVERY_DAYS} days`, path: ['endDate'] })
+  .refine((data) => data.endTime > data.startTime, { message: 'End time must be after start time', path: ['endTime'] })
+
+export type DiscoverFormData = z.infer<typeof discoverFormSchema>
+
 export const commonSpecies = [
   // Expanded list (≥50) – alphabetised for UX
   'Bass (Largemouth)',
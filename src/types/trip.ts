@@ -1,3 +1,46 @@
+// Itinerary types come from the contract shared with the edge functions, so any drift between
+// what plan_trip produces and what the UI renders is a type error rather than a blank section.
+export type {
+  TripItinerary,
+  DayPlan,
+  Waypoint,
+  DecisionStep,
+  WeatherInfo,
+  HourlyWeather,
+  PressureInfo,
+  PressureTrend,
+  WaterInfo,
+  GaugeInfo,
+  WeatherAlert,
+  HazardInfo,
+  PointFlag,
+  GeofenceCheck,
+  SpeciesOutlook,
+  MarinePeriod,
+  MarineForecast,
+  TideInfo,
+  TideExtreme,
+  TideStation,
+  TideCurvePoint,
+  TidalCurrent,
+  TripWindow,
+  DataSource,
+  ConditionsSources,
+  SolunarInfo,
+  SolunarPeriod,
+  RegulationInfo,
+  RegulationRule,
+  PlanTripRequest,
+  PlanTripResponse,
+  TripJob,
+  TripJobStage,
+  TripJobStatus
+} from '../../supabase/functions/_shared/contract'
+
+export { TRIP_JOB_STAGES } from '../../supabase/functions/_shared/contract'
+
+import type { TripItinerary } from '../../supabase/functions/_shared/contract'
+
 export interface TripPlan {
   id: string
   location: string
@@ -7,48 +50,3 @@ export interface TripPlan {
   status: 'pending' | 'completed' | 'failed'
   plan?: TripItinerary
 }
-
-export interface TripItinerary {
-  pointsOfInterest?: Waypoint[]
-  waypoints?: Waypoint[] // deprecated – keep for backward compatibility
-  weather: WeatherInfo
-  regulations: RegulationInfo
-  tips: string[]
-  tides?: TideInfo
-  moonPhase?: string
-  gear?: string[]
-  checklist?: string[]
-  decisionTree?: Array<{ condition: string; action: string }>
-  summary?: string
-}
-
-export interface Waypoint {
-  id: string
-  name: string
-  coordinates: [number, number]
-  type: 'launch' | 'fishing' | 'landing'
-  description: string
-  bestTime: string
-  techniques: string[]
-}
-
-export interface WeatherInfo {
-  temperature: number
-  conditions: string
-  windSpeed: number
-  windDirection: string
-  visibility: number
-}
-
-export interface RegulationInfo {
-  licenseRequired: boolean
-  catchLimits: Record<string, number>
-  sizeLimits: Record<string, { min: number; max: number }>
-  closedAreas: string[]
-}
-
-export interface TideInfo {
-  nextHigh: string
-  nextLow: string
-  extremes?: Array<{ time: string; type: 'High' | 'Low'; height: number }>
-} 
\ No newline at end of file
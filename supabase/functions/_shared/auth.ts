@@ -0,0 +1,110 @@
+// Verified caller identity for edge functions. Tokens are checked against the project's JWT
+// secret (HS256 projects) or its JWKS (asymmetric signing keys) – never just base64-decoded.
+//
+//   JWT_SECRET (or SUPABASE_JWT_SECRET) = legacy HS256 secret from Project Settings → API
+//   SUPABASE_URL                        = used to locate /auth/v1/.well-known/jwks.json
+import { createRemoteJWKSet, decodeProtectedHeader, jwtVerify, type JWTPayload } from 'jose'
+
+export interface AuthUser {
+  id: string
+  email: string | null
+  /** Custom app role from app_metadata (e.g. 'admin'); user_metadata is user-editable and never trusted */
+  appRole: string | null
+  /** The verified access token, for forwarding to Supabase so RLS applies */
+  token: string
+  claims: JWTPayload & Record<string, any>
+}
+
+/** Missing, invalid, expired or anonymous credentials – always answered with a 401 */
+export class AuthError extends Error {
+  readonly code = 'UNAUTHORIZED'
+  readonly status = 401
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+let jwks: ReturnType<typeof createRemoteJWKSet> | null = null
+
+function getJwks() {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  if (!supabaseUrl) throw new Error('SUPABASE_URL is required to verify JWTs')
+  jwks ??= createRemoteJWKSet(new URL(`${supabaseUrl}/auth/v1/.well-known/jwks.json`))
+  return jwks
+}
+
+async function verifyToken(token: string) {
+  let alg: string | undefined
+  try {
+    alg = decodeProtectedHeader(token).alg
+  } catch {
+    throw new AuthError('Invalid JWT token')
+  }
+
+  const options = { audience: 'authenticated' }
+  try {
+    if (alg === 'HS256') {
+      const secret = Deno.env.get('JWT_SECRET') ?? Deno.env.get('SUPABASE_JWT_SECRET')
+      if (!secret) throw new Error('JWT_SECRET is required to verify HS256 tokens')
+      return (await jwtVerify(token, new TextEncoder().encode(secret), options)).payload
+    }
+    return (await jwtVerify(token, getJwks(), options)).payload
+  } catch (err) {
+    // Configuration problems are server errors, not the caller's fault
+    if (err instanceof Error && /is required/.test(err.message)) throw err
+    const code = (err as any)?.code
+    throw new AuthError(code === 'ERR_JWT_EXPIRED' ? 'JWT token has expired' : 'Invalid JWT token')
+  }
+}
+
+function bearerToken(req: Request): string | null {
+  const header = req.headers.get('Authorization')
+  if (!header || !/^Bearer\s+/i.test(header)) return null
+  return header.replace(/^Bearer\s+/i, '').trim() || null
+}
+
+/** The anon key is itself a JWT (role "anon"); it identifies the project, not a user */
+function isAnonKey(token: string) {
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY')
+  return !!anonKey && token === anonKey
+}
+
+function toUser(token: string, claims: JWTPayload & Record<string, any>): AuthUser {
+  if (claims.role !== 'authenticated' || !claims.sub || claims.is_anonymous) {
+    throw new AuthError('Sign in required')
+  }
+  return {
+    id: claims.sub,
+    email: claims.email ?? null,
+    appRole: claims.app_metadata?.role ?? null,
+    token,
+    claims
+  }
+}
+
+/** Verify the caller's access token; throws AuthError unless it belongs to a signed-in user */
+export async function requireUser(req: Request): Promise<AuthUser> {
+  const token = bearerToken(req)
+  if (!token) throw new AuthError('Missing or invalid authorization header')
+  if (isAnonKey(token)) throw new AuthError('Sign in required')
+  return toUser(token, await verifyToken(token))
+}
+
+/**
+ * For endpoints that also serve signed-out visitors: null for no token or the anon key, the
+ * user for a valid session token, and AuthError for anything forged, expired or anonymous.
+ */
+export async function getOptionalUser(req: Request): Promise<AuthUser | null> {
+  const token = bearerToken(req)
+  if (!token || isAnonKey(token)) return null
+  return toUser(token, await verifyToken(token))
+}
+
+export function authErrorResponse(err: AuthError, headers: Record<string, string>): Response {
+  return new Response(JSON.stringify({ error: err.message, code: err.code }), {
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    status: err.status
+  })
+}
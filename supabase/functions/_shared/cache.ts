@@ -0,0 +1,189 @@
+// Shared cache for upstream API responses, with a TTL per source. Backends:
+//
+//   CACHE_BACKEND = postgres | memory | none
+//     postgres → public.api_cache via cache_get / cache_set (needs SUPABASE_SERVICE_ROLE_KEY);
+//                shared by every instance, hits/misses are counted for the Admin page
+//     memory   → per-isolate LRU map (lost on cold start, no stats)
+//     none     → always load
+//
+// Defaults to postgres when the service role key is set, otherwise memory.
+
+export type CacheSource =
+  | 'geocode'
+  | 'nws_points'
+  | 'nws_forecast'
+  | 'nws_observations'
+  | 'nws_alerts'
+  | 'usgs_iv'
+  | 'usgs_stats'
+  | 'coops_stations'
+  | 'coops_predictions'
+  | 'open_meteo'
+
+const HOUR = 60 * 60
+const DAY = 24 * HOUR
+
+/** How long each source stays fresh, in seconds */
+export const CACHE_TTL_SECONDS: Record<CacheSource, number> = {
+  geocode: 30 * DAY, // place names do not move
+  nws_points: 28 * DAY, // point → forecast grid mapping changes only with NWS grid updates
+  nws_forecast: HOUR, // weather.gov refreshes forecasts roughly hourly
+  nws_observations: HOUR / 2, // stations report about once an hour
+  nws_alerts: 5 * 60, // warnings can be issued at any time – keep this short
+  usgs_iv: HOUR / 4, // gauges report every 15 minutes
+  usgs_stats: 30 * DAY, // daily statistics are recomputed about once a year
+  coops_stations: 7 * DAY,
+  coops_predictions: 30 * DAY, // astronomical predictions are fixed for a station and day
+  open_meteo: HOUR // global forecast, marine and river models (non-U.S. trips), updated several times a day
+}
+
+export interface CacheBackend {
+  name: string
+  get(source: CacheSource, key: string): Promise<unknown | undefined>
+  set(source: CacheSource, key: string, value: unknown, ttlSeconds: number): Promise<void>
+}
+
+export interface CacheOptions<T> {
+  ttlSeconds?: number
+  /** Skip storing results that should be retried next time (e.g. empty upstream answers) */
+  shouldCache?: (value: T) => boolean
+}
+
+export interface Cache {
+  name: string
+  /** Cached value for `key`, or the result of `load()` (stored for the source's TTL). Errors are never cached. */
+  getOrLoad<T>(source: CacheSource, key: string, load: () => Promise<T>, options?: CacheOptions<T>): Promise<T>
+}
+
+function createPostgresBackend(supabaseUrl: string, serviceRoleKey: string): CacheBackend {
+  let client: Promise<any> | null = null
+  const getClient = () => {
+    client ??= import('https://esm.sh/@supabase/supabase-js@2').then(({ createClient }) =>
+      createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+    )
+    return client
+  }
+
+  return {
+    name: 'postgres',
+    async get(source, key) {
+      const { data, error } = await (await getClient()).rpc('cache_get', { p_source: source, p_key: key })
+      if (error) throw error
+      return data ?? undefined
+    },
+    async set(source, key, value, ttlSeconds) {
+      const { error } = await (await getClient()).rpc('cache_set', {
+        p_source: source,
+        p_key: key,
+        p_value: value,
+        p_ttl_seconds: ttlSeconds
+      })
+      if (error) throw error
+    }
+  }
+}
+
+// Isolates are long-lived and keys include coordinates and dates, so the map must stay bounded
+const MEMORY_CACHE_MAX_ENTRIES = 1000
+
+/** Least-recently-used map: reads move an entry to the back, writes past the cap drop from the front */
+function createMemoryBackend(): CacheBackend {
+  const entries = new Map<string, { value: unknown; expires: number }>()
+  return {
+    name: 'memory',
+    async get(source, key) {
+      const id = `${source}:${key}`
+      const entry = entries.get(id)
+      if (!entry) return undefined
+      entries.delete(id)
+      if (entry.expires <= Date.now()) return undefined
+      entries.set(id, entry)
+      return entry.value
+    },
+    async set(source, key, value, ttlSeconds) {
+      const id = `${source}:${key}`
+      entries.delete(id)
+      entries.set(id, { value, expires: Date.now() + ttlSeconds * 1000 })
+      if (entries.size <= MEMORY_CACHE_MAX_ENTRIES) return
+
+      // Expired entries go first; only then evict the least recently used
+      const now = Date.now()
+      for (const [k, entry] of entries) if (entry.expires <= now) entries.delete(k)
+      for (const k of entries.keys()) {
+        if (entries.size <= MEMORY_CACHE_MAX_ENTRIES) break
+        entries.delete(k)
+      }
+    }
+  }
+}
+
+/** Wrap a backend with in-flight de-duplication; backend failures fall through to `load` */
+export function createCache(backend: CacheBackend | null): Cache {
+  const inFlight = new Map<string, Promise<unknown>>()
+
+  return {
+    name: backend?.name ?? 'none',
+    getOrLoad<T>(source: CacheSource, key: string, load: () => Promise<T>, options: CacheOptions<T> = {}): Promise<T> {
+      if (!backend) return load()
+
+      // Parallel lookups (e.g. one tide request per trip day) share a single load
+      const id = `${source}:${key}`
+      const pending = inFlight.get(id)
+      if (pending) return pending as Promise<T>
+
+      const task = (async () => {
+        try {
+          const hit = await backend.get(source, key)
+          if (hit !== undefined) return hit as T
+        } catch (err) {
+          console.warn(`Cache read failed (${source})`, err)
+        }
+
+        const value = await load()
+        if (options.shouldCache?.(value) ?? true) {
+          await backend
+            .set(source, key, value, options.ttlSeconds ?? CACHE_TTL_SECONDS[source])
+            .catch((err) => console.warn(`Cache write failed (${source})`, err))
+        }
+        return value
+      })().finally(() => inFlight.delete(id))
+
+      inFlight.set(id, task)
+      return task
+    }
+  }
+}
+
+/** Always loads – used for fixture replays so recordings never leak into the shared cache */
+export const noCache: Cache = createCache(null)
+
+let sharedCache: Cache | null = null
+
+/** The configured cache (one per isolate) */
+export function getCache(): Cache {
+  if (sharedCache) return sharedCache
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  const requested = (Deno.env.get('CACHE_BACKEND') ?? (serviceRoleKey ? 'postgres' : 'memory')).trim().toLowerCase()
+
+  switch (requested) {
+    case 'postgres':
+      if (!supabaseUrl || !serviceRoleKey) {
+        console.warn('CACHE_BACKEND=postgres needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY; using memory')
+        sharedCache = createCache(createMemoryBackend())
+      } else {
+        sharedCache = createCache(createPostgresBackend(supabaseUrl, serviceRoleKey))
+      }
+      break
+    case 'memory':
+      sharedCache = createCache(createMemoryBackend())
+      break
+    case 'none':
+      sharedCache = noCache
+      break
+    default:
+      throw new Error(`Unknown CACHE_BACKEND "${requested}"`)
+  }
+  return sharedCache
+}
@@ -0,0 +1,204 @@
+import type { FetchFn, TidalCurrent, TideCurvePoint, TideProvider, TideStation, TideSummary } from './types.ts'
+import { noCache, type Cache } from '../cache.ts'
+
+const API = 'https://api.tidesandcurrents.noaa.gov'
+
+// Currents change over short distances (channel vs. flat), so only nearby stations are used
+const MAX_CURRENT_STATION_KM = 15
+
+type StationType = 'tidepredictions' | 'currentpredictions'
+
+interface CoopsStation {
+  id: string
+  name: string
+  lat: number
+  lng: number
+}
+
+/** Great-circle distance in km (earth radius ~6371 km) */
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (d: number) => (d * Math.PI) / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLon = toRad(lon2 - lon1)
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  return 6371 * c
+}
+
+/** Closest station to a point, with its distance in km */
+function findNearest(stations: CoopsStation[], lat: number, lon: number): { station: CoopsStation; distanceKm: number } | null {
+  let best: { station: CoopsStation; distanceKm: number } | null = null
+  for (const station of stations) {
+    const distanceKm = haversineKm(lat, lon, station.lat, station.lng)
+    if (!best || distanceKm < best.distanceKm) best = { station, distanceKm }
+  }
+  return best
+}
+
+const toTideStation = ({ station, distanceKm }: { station: CoopsStation; distanceKm: number }): TideStation => ({
+  id: station.id,
+  name: station.name,
+  distanceKm: Math.round(distanceKm * 10) / 10
+})
+
+/**
+ * Tides and tidal currents from NOAA CO-OPS.
+ * Workflow:
+ *   1) Retrieve NOAA station metadata (tide- and current-prediction capable) through the shared cache.
+ *   2) Select the closest station to the given lat/lon using Haversine distance.
+ *   3) Query the "predictions" endpoint for the requested date: interval=hilo for the extremes and
+ *      the 6-minute series for the curve.
+ *   4) If a current station is within MAX_CURRENT_STATION_KM, add its max flood/ebb and slack times.
+ */
+export function createCoopsTideProvider(fetchFn: FetchFn = fetch, cache: Cache = noCache): TideProvider {
+  // The lists are large and rarely change: keep them for the life of the isolate on top of the shared
+  // cache. The promises themselves are kept so parallel per-day lookups share a single load.
+  const stationsMemo = new Map<StationType, Promise<CoopsStation[]>>()
+
+  function loadStations(type: StationType): Promise<CoopsStation[]> {
+    const memo = stationsMemo.get(type)
+    if (memo) return memo
+
+    const load = cache.getOrLoad('coops_stations', type, async () => {
+      const resp = await fetchFn(`${API}/mdapi/prod/webapi/stations.json?type=${type}&units=english`)
+      if (!resp.ok) throw new Error('Failed to load NOAA stations list')
+      const json: any = await resp.json()
+      // Current stations are listed once per depth bin
+      const byId = new Map<string, CoopsStation>()
+      for (const s of json.stations as Array<any>) {
+        if (byId.has(s.id)) continue
+        byId.set(s.id, { id: s.id, name: s.name, lat: parseFloat(s.lat), lng: parseFloat(s.lng ?? s.lon) })
+      }
+      return [...byId.values()]
+    }).catch((err) => {
+      stationsMemo.delete(type) // allow a retry on the next call
+      throw err
+    })
+    stationsMemo.set(type, load)
+    return load
+  }
+
+  function loadPredictions(stationId: string, yyyymmdd: string): Promise<Array<{ t: string; v: string; type: string }>> {
+    return cache.getOrLoad('coops_predictions', `${stationId}:${yyyymmdd}`, async () => {
+      const predUrl =
+        `${API}/api/prod/datagetter?` +
+        `product=predictions&interval=hilo&station=${stationId}&begin_date=${yyyymmdd}&end_date=${yyyymmdd}&` +
+        `time_zone=lst_ldt&datum=MLLW&units=english&format=json`
+
+      const predResp = await fetchFn(predUrl)
+      if (!predResp.ok) throw new Error('NOAA predictions request failed')
+      const predJson: any = await predResp.json()
+      return predJson.predictions ?? []
+    }, { shouldCache: (predictions) => predictions.length > 0 })
+  }
+
+  function loadCurve(stationId: string, yyyymmdd: string): Promise<TideCurvePoint[]> {
+    return cache.getOrLoad('coops_predictions', `${stationId}:${yyyymmdd}:6min`, async () => {
+      const curveUrl =
+        `${API}/api/prod/datagetter?` +
+        `product=predictions&interval=6&station=${stationId}&begin_date=${yyyymmdd}&end_date=${yyyymmdd}&` +
+        `time_zone=lst_ldt&datum=MLLW&units=english&format=json`
+
+      const resp = await fetchFn(curveUrl)
+      if (!resp.ok) throw new Error('NOAA 6-minute predictions request failed')
+      const json: any = await resp.json()
+      return ((json.predictions ?? []) as Array<{ t: string; v: string }>).map((p) => ({
+        time: p.t,
+        height: Math.round(parseFloat(p.v) * 100) / 100
+      }))
+    }, { shouldCache: (curve) => curve.length > 0 })
+  }
+
+  function loadCurrents(stationId: string, yyyymmdd: string): Promise<TidalCurrent[]> {
+    return cache.getOrLoad('coops_predictions', `currents:${stationId}:${yyyymmdd}`, async () => {
+      const currentsUrl =
+        `${API}/api/prod/datagetter?` +
+        `product=currents_predictions&interval=MAX_SLACK&station=${stationId}&begin_date=${yyyymmdd}&end_date=${yyyymmdd}&` +
+        `time_zone=lst_ldt&units=english&format=json`
+
+      const resp = await fetchFn(currentsUrl)
+      if (!resp.ok) throw new Error('NOAA current predictions request failed')
+      const json: any = await resp.json()
+      return ((json.current_predictions?.cp ?? []) as Array<any>).map((p) => {
+        const velocity = Number(p.Velocity_Major)
+        const type = String(p.Type).toLowerCase()
+        return {
+          time: p.Time,
+          type: type === 'flood' || type === 'ebb' ? type : 'slack',
+          velocityKnots: Number.isFinite(velocity) ? velocity : 0,
+          direction: velocity > 0 ? Number(p.meanFloodDir) : velocity < 0 ? Number(p.meanEbbDir) : null
+        }
+      })
+    }, { shouldCache: (currents) => currents.length > 0 })
+  }
+
+  // Max flood/ebb and slack times at the nearest current station, if one is close enough
+  async function getCurrents(lat: number, lon: number, yyyymmdd: string): Promise<TideSummary['currents']> {
+    const nearest = findNearest(await loadStations('currentpredictions'), lat, lon)
+    if (!nearest || nearest.distanceKm > MAX_CURRENT_STATION_KM) return undefined
+    const predictions = await loadCurrents(nearest.station.id, yyyymmdd)
+    return predictions.length > 0 ? { station: toTideStation(nearest), predictions } : undefined
+  }
+
+  return {
+    name: 'coops',
+    source: { name: 'NOAA Tides & Currents', url: 'https://tidesandcurrents.noaa.gov' },
+    async getTides(lat: number, lon: number, date: string): Promise<TideSummary> {
+      try {
+        // 1) Load station metadata (memoised per isolate, shared across instances by the cache)
+        const stations = await loadStations('tidepredictions')
+
+        // 2) Find nearest station
+        const nearest = findNearest(stations, lat, lon)
+        if (!nearest) throw new Error('No NOAA tide stations')
+
+        // 3) Fetch predictions for the date (high/low events, 6-minute curve) and nearby currents.
+        // The curve and currents are extras – the extremes are still returned without them.
+        const yyyymmdd = new Date(date).toISOString().slice(0, 10).replace(/-/g, '')
+        const [predictions, curve, currents] = await Promise.all([
+          loadPredictions(nearest.station.id, yyyymmdd),
+          loadCurve(nearest.station.id, yyyymmdd).catch((err) => {
+            console.warn('NOAA tide curve fetch failed', err)
+            return undefined
+          }),
+          getCurrents(lat, lon, yyyymmdd).catch((err) => {
+            console.warn('NOAA current predictions fetch failed', err)
+            return undefined
+          })
+        ])
+        const station = toTideStation(nearest)
+
+        const nextHigh = predictions.find((p) => p.type === 'H')?.t || 'N/A'
+        const nextLow = predictions.find((p) => p.type === 'L')?.t || 'N/A'
+        const extremes = predictions.map((p) => ({
+          time: p.t,
+          type: (p.type === 'H' ? 'High' : 'Low') as 'High' | 'Low',
+          height: parseFloat(p.v)
+        }))
+
+        const currentsSummary = currents
+          ? `; currents at ${currents.station.name} (${currents.station.distanceKm} km): ` +
+            currents.predictions
+              .map((c) => (c.type === 'slack' ? `slack ${c.time.slice(11)}` : `max ${c.type} ${Math.abs(c.velocityKnots)} kt ${c.time.slice(11)}`))
+              .join(', ')
+          : ''
+
+        return {
+          summary: `Next High: ${nextHigh}, Next Low: ${nextLow} (station ${station.name}, ${station.distanceKm} km away)${currentsSummary}`,
+          nextHigh,
+          nextLow,
+          extremes,
+          station,
+          datum: 'MLLW',
+          curve,
+          currents
+        }
+      } catch (err) {
+        console.warn('NOAA tide fetch failed', err)
+        return { summary: 'Tide data unavailable', nextHigh: 'N/A', nextLow: 'N/A', extremes: [] }
+      }
+    }
+  }
+}
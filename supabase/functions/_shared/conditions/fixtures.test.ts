@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { createFixtureFetch } from './fixtures/index.ts'
+import { createNominatimGeocoder } from './nominatim.ts'
+import { createNoaaWeatherProvider } from './noaa.ts'
+import { createUsgsHydrologyProvider } from './usgs.ts'
+import { createCoopsTideProvider } from './coops.ts'
+import { createOpenMeteoHydrologyProvider, createOpenMeteoTideProvider, createOpenMeteoWeatherProvider } from './openMeteo.ts'
+import { analyzePressure } from './pressure.ts'
+import { getTripDates } from './window.ts'
+
+// Fixture mode (CONDITIONS_PROVIDER=fixture) runs each region's real providers against the
+// recordings, shifted so they always describe the coming days
+const fixtureFetch = createFixtureFetch()
+const geocoder = createNominatimGeocoder(fixtureFetch)
+
+const REGIONS = [
+  {
+    region: 'U.S.',
+    location: 'Tampa Bay, FL',
+    countryCode: 'us',
+    water: /USGS 02304500.*cfs/,
+    weather: createNoaaWeatherProvider(fixtureFetch),
+    hydrology: createUsgsHydrologyProvider(fixtureFetch),
+    tides: createCoopsTideProvider(fixtureFetch)
+  },
+  {
+    region: 'global',
+    location: 'Bimini',
+    countryCode: 'bs',
+    water: /No river nearby/, // an island: the river model has nothing for the cell
+    weather: createOpenMeteoWeatherProvider(fixtureFetch),
+    hydrology: createOpenMeteoHydrologyProvider(fixtureFetch),
+    tides: createOpenMeteoTideProvider(fixtureFetch)
+  }
+]
+
+const today = new Date().toISOString().slice(0, 10)
+
+describe.each(REGIONS)('$region fixtures', ({ location, countryCode, water, weather, hydrology, tides }) => {
+  it('geocodes the recorded place with its country', async () => {
+    expect(await geocoder.geocode(location)).toMatchObject({ countryCode })
+  })
+
+  it('forecasts the coming days hour by hour', async () => {
+    const { lat, lon } = await geocoder.geocode(location)
+    const hourly = await weather.getHourlyForecast(lat, lon)
+    const tomorrow = getTripDates(today, 2)[1]
+    expect(hourly.some((h) => h.time.startsWith(tomorrow) && h.windMph != null)).toBe(true)
+  })
+
+  it('lands tide predictions on the requested day', async () => {
+    const { lat, lon } = await geocoder.geocode(location)
+    const date = getTripDates(today, 4)[3]
+    const { extremes } = await tides.getTides(lat, lon, date)
+    expect(extremes.length).toBeGreaterThanOrEqual(2)
+    expect(extremes.every((e) => e.time.startsWith(date))).toBe(true)
+  })
+
+  it('reports the water conditions', async () => {
+    const { lat, lon } = await geocoder.geocode(location)
+    expect((await hydrology.getWaterConditions(lat, lon)).summary).toMatch(water)
+  })
+})
+
+describe('U.S. observations', () => {
+  it('ends the pressure history at the current hour', async () => {
+    const { lat, lon } = await geocoder.geocode('Tampa Bay, FL')
+    const history = await REGIONS[0].weather.getPressureHistory(lat, lon, 48)
+    const pressure = analyzePressure(history)
+    expect(pressure.trend24h).not.toBe('unknown')
+    expect(Date.now() - Date.parse(pressure.observedAt ?? '')).toBeLessThan(2 * 60 * 60 * 1000)
+  })
+
+  it('finds the gauge near the water', async () => {
+    const { lat, lon } = await geocoder.geocode('Tampa Bay, FL')
+    const { gauge } = await REGIONS[0].hydrology.getWaterConditions(lat, lon)
+    expect(gauge?.dischargeCfs).toEqual(expect.any(Number))
+  })
+})
+
+it('answers requests nothing was recorded for with a 404', async () => {
+  const res = await fixtureFetch('https://example.com/unrecorded')
+  expect(res.status).toBe(404)
+})
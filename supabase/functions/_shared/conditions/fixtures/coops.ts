@@ -0,0 +1,102 @@
+// Recorded NOAA CO-OPS responses for Tampa Bay. Prediction times are on `recordedOn`; the
+// fixture fetch moves them onto whichever date was requested.
+export const recordedOn = '2025-06-06'
+
+export const stations = {
+  count: 3,
+  units: null,
+  stations: [
+    { id: '8726520', name: 'St. Petersburg, Tampa Bay', lat: 27.7606, lng: -82.6269, state: 'FL', type: 'R' },
+    { id: '8726607', name: 'Old Port Tampa', lat: 27.8578, lng: -82.5528, state: 'FL', type: 'R' },
+    { id: '8726724', name: 'Clearwater Beach', lat: 27.9783, lng: -82.8317, state: 'FL', type: 'R' }
+  ]
+}
+
+export const hiloPredictions = {
+  predictions: [
+    { t: '2025-06-06 03:48', v: '0.412', type: 'L' },
+    { t: '2025-06-06 10:21', v: '2.037', type: 'H' },
+    { t: '2025-06-06 16:02', v: '1.214', type: 'L' },
+    { t: '2025-06-06 21:37', v: '2.318', type: 'H' }
+  ]
+}
+
+// ------------------------------
+// 6-minute curve and tidal currents
+// ------------------------------
+// Both are derived from the hi/lo events above: the water level follows a half-cosine between
+// consecutive extremes, and currents run flood on the rise / ebb on the fall with slack shortly
+// after each turn of the tide, as they do at a typical bay-mouth station.
+
+type Extreme = { t: string; v: string; type: string }
+
+const minutesOf = (t: string) => Number(t.slice(11, 13)) * 60 + Number(t.slice(14, 16))
+const clock = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(Math.round(minutes % 60)).padStart(2, '0')}`
+
+// Mirror the first/last extremes so the curve covers the whole day
+const events = (() => {
+  const hilo: Array<{ minute: number; height: number }> = hiloPredictions.predictions.map((p: Extreme) => ({
+    minute: minutesOf(p.t),
+    height: parseFloat(p.v)
+  }))
+  const [first, second] = hilo
+  const [beforeLast, last] = hilo.slice(-2)
+  return [
+    { minute: first.minute - (second.minute - first.minute), height: second.height },
+    ...hilo,
+    { minute: last.minute + (last.minute - beforeLast.minute), height: beforeLast.height }
+  ]
+})()
+
+function heightAt(minute: number): number {
+  const i = events.findIndex((e, k) => k < events.length - 1 && events[k + 1].minute >= minute)
+  const a = events[Math.max(0, i)]
+  const b = events[Math.max(0, i) + 1]
+  const f = (minute - a.minute) / (b.minute - a.minute)
+  return a.height + ((b.height - a.height) * (1 - Math.cos(Math.PI * f))) / 2
+}
+
+export const curvePredictions = {
+  predictions: Array.from({ length: 240 }, (_, i) => ({
+    t: `${recordedOn} ${clock(i * 6)}`,
+    v: heightAt(i * 6).toFixed(3)
+  }))
+}
+
+export const currentStations = {
+  count: 2,
+  units: null,
+  stations: [
+    { id: 'TPA0107', name: 'Gadsden Point, 0.6 nmi South of', lat: 27.8133, lng: -82.5333, currbin: 1, type: 'H' },
+    { id: 'TPA0101', name: 'Tampa Bay Entrance (Egmont Channel)', lat: 27.6017, lng: -82.7617, currbin: 1, type: 'H' }
+  ]
+}
+
+// Slack 30 minutes after each extreme, strongest flow midway to the next one (knots, + = flood)
+export const currentPredictions = {
+  current_predictions: {
+    units: ' knots',
+    cp: events.slice(1, -1).flatMap((e, i) => {
+      const next = events[i + 2]
+      const rising = next.height > e.height
+      const slack = { minute: e.minute + 30, velocity: 0, type: 'slack' }
+      const max = {
+        minute: (e.minute + next.minute) / 2 + 30,
+        velocity: Math.round((rising ? 1 : -1) * Math.abs(next.height - e.height) * 90) / 100,
+        type: rising ? 'flood' : 'ebb'
+      }
+      return [slack, max]
+        .filter((p) => p.minute < 24 * 60)
+        .map((p) => ({
+          Time: `${recordedOn} ${clock(p.minute)}`,
+          Velocity_Major: p.velocity,
+          meanFloodDir: 20,
+          meanEbbDir: 200,
+          Bin: '1',
+          Depth: '15',
+          Type: p.type
+        }))
+    })
+  }
+}
@@ -0,0 +1,224 @@
+// Fixture-backed `fetch`: replays the recorded Nominatim / weather.gov / USGS / CO-OPS / Open-Meteo responses
+// in this directory so the planning pipeline runs without network access. Dates in the
+// recordings are shifted so forecasts start today and tide predictions land on the requested day.
+import type { FetchFn } from '../types.ts'
+import { nominatimSearch, nominatimSearchBimini } from './nominatim.ts'
+import * as weatherGov from './weatherGov.ts'
+import * as usgs from './usgs.ts'
+import * as coops from './coops.ts'
+import * as openMeteo from './openMeteo.ts'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+/** Shift the YYYY-MM-DD prefix of a timestamp by whole days, keeping time and offset */
+function shiftDate(timestamp: string, days: number): string {
+  const shifted = new Date(Date.parse(`${timestamp.slice(0, 10)}T00:00:00Z`) + days * DAY_MS)
+  return shifted.toISOString().slice(0, 10) + timestamp.slice(10)
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS)
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+interface FixtureRoute {
+  match: (url: URL) => boolean
+  respond: (url: URL) => unknown
+}
+
+const ROUTES: FixtureRoute[] = [
+  {
+    match: (url) => /(nominatim\.openstreetmap\.org|geocode\.maps\.co)$/.test(url.hostname) && url.pathname.endsWith('/search'),
+    respond: (url) => (/bimini/i.test(url.searchParams.get('q') ?? '') ? nominatimSearchBimini : nominatimSearch)
+  },
+  {
+    match: (url) => url.hostname === 'api.open-meteo.com' && url.pathname === '/v1/forecast',
+    respond: () => openMeteo.forecast(new Date(Date.now() - 4 * HOUR_MS).toISOString().slice(0, 10))
+  },
+  {
+    match: (url) => url.hostname === 'marine-api.open-meteo.com',
+    respond: (url) => {
+      const today = new Date(Date.now() - 4 * HOUR_MS).toISOString().slice(0, 10)
+      const forecastDays = Number(url.searchParams.get('forecast_days') ?? 7)
+      return openMeteo.marine(
+        url.searchParams.get('start_date') ?? today,
+        url.searchParams.get('end_date') ?? new Date(Date.parse(`${today}T00:00:00Z`) + (forecastDays - 1) * DAY_MS).toISOString().slice(0, 10),
+        (url.searchParams.get('hourly') ?? '').split(',')
+      )
+    }
+  },
+  {
+    match: (url) => url.hostname === 'flood-api.open-meteo.com',
+    respond: () => openMeteo.flood(new Date().toISOString().slice(0, 10))
+  },
+  {
+    match: (url) => url.hostname === 'api.weather.gov' && url.pathname.startsWith('/points/'),
+    respond: () => weatherGov.points
+  },
+  {
+    match: (url) => url.hostname === 'api.weather.gov' && /^\/gridpoints\/[^/]+\/[^/]+\/forecast$/.test(url.pathname),
+    respond: () => {
+      const offset = daysBetween(weatherGov.recordedOn, new Date().toISOString().slice(0, 10))
+      return {
+        properties: {
+          ...weatherGov.forecast.properties,
+          periods: weatherGov.forecast.properties.periods.map((p) => ({
+            ...p,
+            startTime: shiftDate(p.startTime, offset),
+            endTime: shiftDate(p.endTime, offset)
+          }))
+        }
+      }
+    }
+  },
+  {
+    match: (url) => url.hostname === 'api.weather.gov' && /^\/gridpoints\/[^/]+\/[^/]+\/forecast\/hourly$/.test(url.pathname),
+    respond: () => {
+      const offset = daysBetween(weatherGov.recordedOn, new Date().toISOString().slice(0, 10))
+      return {
+        properties: {
+          ...weatherGov.forecastHourly.properties,
+          periods: weatherGov.forecastHourly.properties.periods.map((p) => ({
+            ...p,
+            startTime: shiftDate(p.startTime, offset),
+            endTime: shiftDate(p.endTime, offset)
+          }))
+        }
+      }
+    }
+  },
+  {
+    match: (url) => url.hostname === 'api.weather.gov' && /^\/gridpoints\/[^/]+\/[^/]+$/.test(url.pathname),
+    respond: () => {
+      const offset = daysBetween(weatherGov.recordedOn, new Date().toISOString().slice(0, 10))
+      const shiftLayer = (layer: typeof weatherGov.gridData.properties.skyCover) => ({
+        ...layer,
+        values: layer.values.map((v) => ({ ...v, validTime: shiftDate(v.validTime, offset) }))
+      })
+      return {
+        properties: {
+          ...weatherGov.gridData.properties,
+          windGust: shiftLayer(weatherGov.gridData.properties.windGust),
+          skyCover: shiftLayer(weatherGov.gridData.properties.skyCover)
+        }
+      }
+    }
+  },
+  {
+    match: (url) => url.hostname === 'api.weather.gov' && url.pathname === '/zones' && url.searchParams.get('type') === 'coastal',
+    respond: () => weatherGov.marineZones
+  },
+  {
+    match: (url) => url.hostname === 'api.weather.gov' && /^\/zones\/coastal\/[^/]+\/forecast$/.test(url.pathname),
+    respond: () => weatherGov.marineForecast
+  },
+  {
+    // `alertsRecordedAt` becomes the current hour, so the advisory began an hour ago.
+    // ?zone= answers with the marine advisory, ?point= with the land alerts.
+    match: (url) => url.hostname === 'api.weather.gov' && url.pathname === '/alerts/active',
+    respond: (url) => {
+      const offset = Math.floor(Date.now() / HOUR_MS) * HOUR_MS - Date.parse(weatherGov.alertsRecordedAt)
+      const shift = (time: string) => new Date(Date.parse(time) + offset).toISOString()
+      const alerts = url.searchParams.has('point') ? weatherGov.pointAlerts : weatherGov.marineAlerts
+      return {
+        ...alerts,
+        features: alerts.features.map((f) => ({
+          ...f,
+          properties: {
+            ...f.properties,
+            sent: shift(f.properties.sent),
+            effective: shift(f.properties.effective),
+            onset: shift(f.properties.onset),
+            expires: shift(f.properties.expires),
+            ends: shift(f.properties.ends)
+          }
+        }))
+      }
+    }
+  },
+  {
+    match: (url) => url.hostname === 'api.weather.gov' && /^\/gridpoints\/[^/]+\/[^/]+\/stations$/.test(url.pathname),
+    respond: () => weatherGov.stations
+  },
+  {
+    // Observation history ends at the current hour, whichever station is asked for
+    match: (url) => url.hostname === 'api.weather.gov' && /^\/stations\/[^/]+\/observations$/.test(url.pathname),
+    respond: (url) => {
+      const offset = Math.floor(Date.now() / HOUR_MS) * HOUR_MS - Date.parse(weatherGov.observationsRecordedAt)
+      const start = Date.parse(url.searchParams.get('start') ?? '') || 0
+      return {
+        features: weatherGov.observations.features
+          .map((f) => ({ properties: { ...f.properties, timestamp: new Date(Date.parse(f.properties.timestamp) + offset).toISOString() } }))
+          .filter((f) => Date.parse(f.properties.timestamp) >= start)
+      }
+    }
+  },
+  {
+    // Single-site 7-day history, moved so the last reading is the current quarter hour
+    match: (url) => url.hostname === 'waterservices.usgs.gov' && url.pathname.startsWith('/nwis/iv') && url.searchParams.has('sites'),
+    respond: () => {
+      const quarterHour = 15 * 60 * 1000
+      const offset = Math.floor(Date.now() / quarterHour) * quarterHour - Date.parse(usgs.weekRecordedAt)
+      // NWIS reports the gauge's local time; keep the recorded -04:00 offset
+      const shiftLocal = (dateTime: string, ms: number) =>
+        new Date(Date.parse(dateTime) + ms - 4 * 60 * 60 * 1000).toISOString().replace('Z', '-04:00')
+      return {
+        ...usgs.weekValues,
+        value: {
+          ...usgs.weekValues.value,
+          timeSeries: usgs.weekValues.value.timeSeries.map((ts) => ({
+            ...ts,
+            values: [{ value: ts.values[0].value.map((v) => ({ ...v, dateTime: shiftLocal(v.dateTime, offset) })) }]
+          }))
+        }
+      }
+    }
+  },
+  {
+    match: (url) => url.hostname === 'waterservices.usgs.gov' && url.pathname.startsWith('/nwis/stat'),
+    respond: () => usgs.dailyStatistics
+  },
+  {
+    match: (url) => url.hostname === 'waterservices.usgs.gov',
+    respond: () => usgs.instantaneousValues
+  },
+  {
+    match: (url) => url.hostname === 'api.tidesandcurrents.noaa.gov' && url.pathname.endsWith('/stations.json'),
+    respond: (url) => (url.searchParams.get('type') === 'currentpredictions' ? coops.currentStations : coops.stations)
+  },
+  {
+    match: (url) => url.hostname === 'api.tidesandcurrents.noaa.gov' && url.pathname.endsWith('/datagetter'),
+    respond: (url) => {
+      const begin = url.searchParams.get('begin_date') ?? coops.recordedOn.replace(/-/g, '')
+      const requested = `${begin.slice(0, 4)}-${begin.slice(4, 6)}-${begin.slice(6, 8)}`
+      const offset = daysBetween(coops.recordedOn, requested)
+      if (url.searchParams.get('product') === 'currents_predictions') {
+        const { cp, ...rest } = coops.currentPredictions.current_predictions
+        return { current_predictions: { ...rest, cp: cp.map((p) => ({ ...p, Time: shiftDate(p.Time, offset) })) } }
+      }
+      const recorded = url.searchParams.get('interval') === 'hilo' ? coops.hiloPredictions : coops.curvePredictions
+      return {
+        predictions: recorded.predictions.map((p) => ({ ...p, t: shiftDate(p.t, offset) }))
+      }
+    }
+  }
+]
+
+export function createFixtureFetch(): FetchFn {
+  return (input) => {
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url)
+    const route = ROUTES.find((r) => r.match(url))
+    if (!route) {
+      console.warn('No conditions fixture recorded for', url.toString())
+      return Promise.resolve(json({ error: 'No fixture recorded for this request' }, 404))
+    }
+    const body = route.respond(url)
+    // RDB (tab-delimited) fixtures are replayed as text
+    return Promise.resolve(
+      typeof body === 'string' ? new Response(body, { headers: { 'Content-Type': 'text/plain' } }) : json(body)
+    )
+  }
+}
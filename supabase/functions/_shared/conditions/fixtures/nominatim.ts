@@ -0,0 +1,42 @@
+// Recorded Nominatim /search response (Tampa Bay, FL)
+export const nominatimSearch = [
+  {
+    place_id: 297614447,
+    licence: 'Data © OpenStreetMap contributors, ODbL 1.0. http://osm.org/copyright',
+    osm_type: 'relation',
+    osm_id: 1207577,
+    lat: '27.7634',
+    lon: '-82.5437',
+    class: 'natural',
+    type: 'bay',
+    place_rank: 22,
+    importance: 0.5932,
+    addresstype: 'bay',
+    name: 'Tampa Bay',
+    display_name: 'Tampa Bay, Hillsborough County, Florida, United States',
+    address: { bay: 'Tampa Bay', county: 'Hillsborough County', state: 'Florida', 'ISO3166-2-lvl4': 'US-FL', country: 'United States', country_code: 'us' },
+    boundingbox: ['27.4916', '28.0367', '-82.8293', '-82.3897']
+  }
+]
+
+// Recorded /search response for a non-U.S. trip (any query mentioning Bimini), which routes
+// conditions to the Open-Meteo providers
+export const nominatimSearchBimini = [
+  {
+    place_id: 2391270,
+    licence: 'Data © OpenStreetMap contributors, ODbL 1.0. http://osm.org/copyright',
+    osm_type: 'relation',
+    osm_id: 5706537,
+    lat: '25.7271',
+    lon: '-79.2790',
+    class: 'place',
+    type: 'island',
+    place_rank: 17,
+    importance: 0.4617,
+    addresstype: 'island',
+    name: 'North Bimini',
+    display_name: 'North Bimini, Bimini, The Bahamas',
+    address: { island: 'North Bimini', state: 'Bimini', country: 'The Bahamas', country_code: 'bs' },
+    boundingbox: ['25.6925', '25.7824', '-79.3013', '-79.2539']
+  }
+]
@@ -0,0 +1,91 @@
+// Open-Meteo forecast / marine / flood responses for North Bimini, The Bahamas, in the APIs'
+// shapes. They are generated for whatever dates are requested (a settled early-summer pattern,
+// a semi-diurnal tide, no river) rather than recorded, so replays always cover the trip.
+const LATITUDE = 25.73
+const LONGITUDE = -79.28
+const UTC_OFFSET_SECONDS = -4 * 60 * 60 // EDT
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const M2_PERIOD_HOURS = 12.42
+
+const addDays = (date: string, days: number) => new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+
+/** Local "YYYY-MM-DDTHH:00" for every hour of `days` days from `start` */
+const hoursFrom = (start: string, days: number) =>
+  Array.from({ length: days * 24 }, (_, i) => `${addDays(start, Math.floor(i / 24))}T${String(i % 24).padStart(2, '0')}:00`)
+
+const hourOf = (time: string) => Number(time.slice(11, 13))
+
+const envelope = (extra: Record<string, unknown>) => ({
+  latitude: LATITUDE,
+  longitude: LONGITUDE,
+  generationtime_ms: 0.8,
+  utc_offset_seconds: UTC_OFFSET_SECONDS,
+  timezone: 'America/Nassau',
+  timezone_abbreviation: 'GMT-4',
+  elevation: 2,
+  ...extra
+})
+
+/** /v1/forecast with past_days=2 and forecast_days=7, starting two days before `today` */
+export function forecast(today: string) {
+  const time = hoursFrom(addDays(today, -2), 9)
+  const dates = Array.from({ length: 9 }, (_, i) => addDays(today, i - 2))
+  const diurnal = (t: string) => Math.sin(((hourOf(t) - 9) / 24) * 2 * Math.PI) // peaks mid-afternoon
+  return envelope({
+    hourly_units: { time: 'iso8601', temperature_2m: '°F', wind_speed_10m: 'mp/h', pressure_msl: 'hPa' },
+    hourly: {
+      time,
+      temperature_2m: time.map((t) => Math.round((82 + 5 * diurnal(t)) * 10) / 10),
+      precipitation_probability: time.map((t) => (hourOf(t) >= 14 && hourOf(t) <= 17 ? 30 : 5)),
+      cloud_cover: time.map((t) => (hourOf(t) >= 13 && hourOf(t) <= 18 ? 55 : 20)),
+      wind_speed_10m: time.map((t) => Math.round((10 + 4 * diurnal(t)) * 10) / 10),
+      wind_direction_10m: time.map(() => 110),
+      wind_gusts_10m: time.map((t) => Math.round((16 + 6 * diurnal(t)) * 10) / 10),
+      weather_code: time.map((t) => (hourOf(t) >= 14 && hourOf(t) <= 17 ? 80 : 1)),
+      pressure_msl: time.map((_, i) => Math.round((1017.5 - i * 0.02 + 0.6 * Math.sin((i / 12) * Math.PI)) * 10) / 10)
+    },
+    daily_units: { time: 'iso8601', temperature_2m_max: '°F', wind_speed_10m_max: 'mp/h' },
+    daily: {
+      time: dates,
+      weather_code: dates.map(() => 80),
+      temperature_2m_max: dates.map(() => 87),
+      temperature_2m_min: dates.map(() => 77),
+      precipitation_probability_max: dates.map(() => 30),
+      wind_speed_10m_max: dates.map(() => 14),
+      wind_gusts_10m_max: dates.map(() => 22),
+      wind_direction_10m_dominant: dates.map(() => 110)
+    }
+  })
+}
+
+/** /v1/marine between two local dates, inclusive: sea level (m) for tides, or waves (m, s) */
+export function marine(startDate: string, endDate: string, variables: string[]) {
+  const days = Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / DAY_MS) + 1
+  const time = hoursFrom(startDate, days)
+  const epochHours = (t: string) => Date.parse(`${t}:00Z`) / (60 * 60 * 1000)
+  const series: Record<string, (t: string) => number> = {
+    sea_level_height_msl: (t) => Math.round(0.38 * Math.cos((2 * Math.PI * (epochHours(t) - 3.1)) / M2_PERIOD_HOURS) * 1000) / 1000,
+    wave_height: (t) => Math.round((0.6 + 0.25 * Math.sin(((hourOf(t) - 10) / 24) * 2 * Math.PI)) * 100) / 100, // afternoon sea breeze chop
+    wave_period: () => 5.2
+  }
+  return envelope({
+    hourly_units: { time: 'iso8601', sea_level_height_msl: 'm', wave_height: 'm', wave_period: 's' },
+    hourly: Object.fromEntries([['time', time], ...variables.filter((v) => series[v]).map((v) => [v, time.map(series[v])])])
+  })
+}
+
+/** /v1/flood for an island with no river: GloFAS returns no discharge */
+export function flood(today: string) {
+  const time = Array.from({ length: 8 }, (_, i) => addDays(today, i - 7))
+  return {
+    latitude: LATITUDE,
+    longitude: LONGITUDE,
+    generationtime_ms: 0.3,
+    utc_offset_seconds: 0,
+    timezone: 'GMT',
+    timezone_abbreviation: 'GMT',
+    daily_units: { time: 'iso8601', river_discharge: 'm³/s' },
+    daily: { time, river_discharge: time.map(() => null) }
+  }
+}
@@ -0,0 +1,78 @@
+// Recorded USGS NWIS instantaneous-values response (Hillsborough River near Tampa, FL)
+const timeSeries = (variableCode: string, variableName: string, unitCode: string, value: string) => ({
+  sourceInfo: {
+    siteName: 'HILLSBOROUGH RIVER NEAR TAMPA FL',
+    siteCode: [{ value: '02304500', network: 'NWIS', agencyCode: 'USGS' }],
+    geoLocation: { geogLocation: { srs: 'EPSG:4326', latitude: 28.0242, longitude: -82.4278 } }
+  },
+  variable: {
+    variableCode: [{ value: variableCode, network: 'NWIS', vocabulary: 'NWIS:UnitValues', variableID: 45807042, default: true }],
+    variableName,
+    unit: { unitCode }
+  },
+  values: [
+    {
+      value: [{ value, qualifiers: ['P'], dateTime: '2025-06-06T08:45:00.000-04:00' }]
+    }
+  ],
+  name: `USGS:02304500:${variableCode}:00000`
+})
+
+export const instantaneousValues = {
+  name: 'ns1:timeSeriesResponseType',
+  value: {
+    queryInfo: { note: [{ value: '[ALL]', title: 'filter:sites' }] },
+    timeSeries: [
+      timeSeries('00010', 'Temperature, water, &#176;C', 'deg C', '28.4'),
+      timeSeries('00060', 'Streamflow, ft&#179;/s', 'ft3/s', '142')
+    ]
+  }
+}
+
+// ------------------------------
+// 7-day history and daily statistics for the same gauge
+// ------------------------------
+// 15-minute discharge ending at `weekRecordedAt`: a storm pulse peaking about three days earlier
+// and receding to the 142 cfs above, with a small diurnal swing in water temperature.
+export const weekRecordedAt = '2025-06-06T08:45:00.000-04:00'
+
+const QUARTER_HOUR_MS = 15 * 60 * 1000
+const weekSteps = Array.from({ length: 7 * 96 }, (_, i) => 7 * 96 - 1 - i) // steps before the last reading, oldest first
+
+const weekPoint = (stepsAgo: number, value: number) => {
+  const local = new Date(Date.parse(weekRecordedAt) - stepsAgo * QUARTER_HOUR_MS - 4 * 60 * 60 * 1000)
+  return { value: value.toFixed(value >= 100 ? 0 : 1), qualifiers: ['P'], dateTime: local.toISOString().replace('Z', '-04:00') }
+}
+
+export const weekValues = {
+  name: 'ns1:timeSeriesResponseType',
+  value: {
+    queryInfo: { note: [{ value: '[02304500]', title: 'filter:sites' }] },
+    timeSeries: [
+      {
+        ...timeSeries('00010', 'Temperature, water, &#176;C', 'deg C', '28.4'),
+        values: [{ value: weekSteps.map((s) => weekPoint(s, 28.4 - 0.8 * Math.cos((2 * Math.PI * (s - 26)) / 96))) }]
+      },
+      {
+        ...timeSeries('00060', 'Streamflow, ft&#179;/s', 'ft3/s', '142'),
+        values: [{ value: weekSteps.map((s) => weekPoint(s, 110 + 310 * Math.exp(-(((s - 290) / 90) ** 2)) + 32 * Math.exp(-s / 200))) }]
+      }
+    ]
+  }
+}
+
+// NWIS daily statistics (RDB) for discharge. The same distribution is used for every calendar
+// day so replays on any date put today's 142 cfs in the mid-80s percentile (above normal).
+const statRow = (month: number, day: number) =>
+  ['USGS', '02304500', '00060', '69728', '', month, day, 1939, 2024, 85, 1960, 880, 2000, 21, 75, 26, 34, 45, 51, 75, 116, 131, 172, 218].join('\t')
+
+export const dailyStatistics = [
+  '# //UNITED STATES GEOLOGICAL SURVEY       https://waterdata.usgs.gov/nwis/',
+  '# //Daily statistics of daily mean discharge (recorded fixture)',
+  '#',
+  ['agency_cd', 'site_no', 'parameter_cd', 'ts_id', 'loc_web_ds', 'month_nu', 'day_nu', 'begin_yr', 'end_yr', 'count_nu', 'max_va_yr', 'max_va', 'min_va_yr', 'min_va', 'mean_va', 'p05_va', 'p10_va', 'p20_va', 'p25_va', 'p50_va', 'p75_va', 'p80_va', 'p90_va', 'p95_va'].join('\t'),
+  ['5s', '15s', '5s', '10n', '15s', '3n', '3n', '6n', '6n', '8n', '6n', '12s', '6n', '12s', '12s', '12s', '12s', '12s', '12s', '12s', '12s', '12s', '12s', '12s'].join('\t'),
+  ...Array.from({ length: 12 }, (_, m) => m + 1).flatMap((month) =>
+    Array.from({ length: new Date(Date.UTC(2024, month, 0)).getUTCDate() }, (_, d) => statRow(month, d + 1))
+  )
+].join('\n')
@@ -0,0 +1,276 @@
+// Recorded weather.gov responses for Tampa Bay, FL. `recordedOn` is the local date of the
+// first forecast period; the fixture fetch shifts every period so that date becomes "today".
+export const recordedOn = '2025-06-06'
+
+export const points = {
+  properties: {
+    gridId: 'TBW',
+    gridX: 71,
+    gridY: 98,
+    forecast: 'https://api.weather.gov/gridpoints/TBW/71,98/forecast',
+    forecastHourly: 'https://api.weather.gov/gridpoints/TBW/71,98/forecast/hourly',
+    forecastGridData: 'https://api.weather.gov/gridpoints/TBW/71,98',
+    observationStations: 'https://api.weather.gov/gridpoints/TBW/71,98/stations',
+    forecastZone: 'https://api.weather.gov/zones/forecast/FLZ151',
+    county: 'https://api.weather.gov/zones/county/FLC057',
+    timeZone: 'America/New_York',
+    relativeLocation: {
+      properties: { city: 'Gulfport', state: 'FL' }
+    }
+  }
+}
+
+const period = (
+  number: number,
+  name: string,
+  date: string,
+  isDaytime: boolean,
+  temperature: number,
+  windSpeed: string,
+  windDirection: string,
+  pop: number,
+  shortForecast: string,
+  detailedForecast: string
+) => ({
+  number,
+  name,
+  startTime: `${date}T${isDaytime ? '06:00' : '18:00'}:00-04:00`,
+  endTime: `${date}T${isDaytime ? '18:00' : '23:59'}:00-04:00`,
+  isDaytime,
+  temperature,
+  temperatureUnit: 'F',
+  probabilityOfPrecipitation: { unitCode: 'wmoUnit:percent', value: pop },
+  windSpeed,
+  windDirection,
+  shortForecast,
+  detailedForecast
+})
+
+export const forecast = {
+  properties: {
+    updated: '2025-06-06T09:41:12+00:00',
+    periods: [
+      period(1, 'Today', '2025-06-06', true, 91, '5 to 10 mph', 'E', 20, 'Mostly Sunny then Slight Chance Showers And Thunderstorms', 'A slight chance of showers and thunderstorms after 2pm. Mostly sunny, with a high near 91. East wind 5 to 10 mph.'),
+      period(2, 'Tonight', '2025-06-06', false, 77, '5 mph', 'E', 20, 'Partly Cloudy', 'Partly cloudy, with a low around 77. East wind around 5 mph.'),
+      period(3, 'Saturday', '2025-06-07', true, 92, '5 to 10 mph', 'SE', 30, 'Chance Showers And Thunderstorms', 'A chance of showers and thunderstorms after 1pm. Mostly sunny, with a high near 92. Southeast wind 5 to 10 mph. Chance of precipitation is 30%.'),
+      period(4, 'Saturday Night', '2025-06-07', false, 78, '5 mph', 'SE', 20, 'Partly Cloudy', 'Partly cloudy, with a low around 78. Southeast wind around 5 mph.'),
+      period(5, 'Sunday', '2025-06-08', true, 90, '10 to 15 mph', 'SW', 50, 'Showers And Thunderstorms Likely', 'Showers and thunderstorms likely after noon. Partly sunny, with a high near 90. Southwest wind 10 to 15 mph, with gusts as high as 22 mph. Chance of precipitation is 50%.'),
+      period(6, 'Sunday Night', '2025-06-08', false, 77, '5 to 10 mph', 'SW', 30, 'Chance Showers And Thunderstorms', 'A chance of showers and thunderstorms before 9pm. Mostly cloudy, with a low around 77.'),
+      period(7, 'Monday', '2025-06-09', true, 89, '10 mph', 'W', 40, 'Chance Showers And Thunderstorms', 'A chance of showers and thunderstorms. Partly sunny, with a high near 89. West wind around 10 mph.'),
+      period(8, 'Monday Night', '2025-06-09', false, 77, '5 mph', 'NW', 20, 'Partly Cloudy', 'Partly cloudy, with a low around 77.'),
+      period(9, 'Tuesday', '2025-06-10', true, 91, '5 to 10 mph', 'NE', 20, 'Mostly Sunny', 'Mostly sunny, with a high near 91. Northeast wind 5 to 10 mph.'),
+      period(10, 'Tuesday Night', '2025-06-10', false, 76, '5 mph', 'NE', 10, 'Mostly Clear', 'Mostly clear, with a low around 76.'),
+      period(11, 'Wednesday', '2025-06-11', true, 92, '5 to 10 mph', 'E', 20, 'Mostly Sunny', 'Mostly sunny, with a high near 92. East wind 5 to 10 mph.'),
+      period(12, 'Wednesday Night', '2025-06-11', false, 77, '5 mph', 'E', 20, 'Partly Cloudy', 'Partly cloudy, with a low around 77.'),
+      period(13, 'Thursday', '2025-06-12', true, 91, '10 mph', 'SE', 40, 'Chance Showers And Thunderstorms', 'A chance of showers and thunderstorms after 2pm. Mostly sunny, with a high near 91.'),
+      period(14, 'Thursday Night', '2025-06-12', false, 77, '5 mph', 'SE', 30, 'Chance Showers And Thunderstorms', 'A chance of showers and thunderstorms before 9pm. Partly cloudy, with a low around 77.')
+    ]
+  }
+}
+
+// ------------------------------
+// Hourly data for the same grid cell
+// ------------------------------
+// /forecast/hourly and the raw gridpoint layers are derived from the periods above (diurnal
+// temperature curve between each day's high and low, the period's wind, rain chance and sky) so
+// the hourly timeline replays something consistent with the daily forecast.
+
+const SKY_COVER: Array<[RegExp, number]> = [
+  [/likely/i, 80],
+  [/mostly cloudy/i, 75],
+  [/chance/i, 55],
+  [/partly/i, 45],
+  [/mostly (sunny|clear)/i, 20],
+  [/sunny|clear/i, 5]
+]
+
+const hourOf = (h: number) => String(h).padStart(2, '0')
+
+const hourlyRows = forecast.properties.periods
+  .filter((p) => p.isDaytime)
+  .flatMap((day) => {
+    const date = day.startTime.slice(0, 10)
+    const night = forecast.properties.periods.find((p) => !p.isDaytime && p.startTime.startsWith(date)) ?? day
+    return Array.from({ length: 24 }, (_, h) => {
+      const source = h >= 6 && h < 18 ? day : night
+      const warmth = h >= 6 && h <= 20 ? Math.sin((Math.PI * (h - 6)) / 14) : 0
+      const wind = Number(source.windSpeed.match(/\d+/g)?.slice(-1)[0] ?? 5)
+      return {
+        date,
+        hour: h,
+        temperature: Math.round(night.temperature + (day.temperature - night.temperature) * warmth),
+        windSpeed: `${Math.max(3, wind - (h < 6 || h > 20 ? 3 : 0))} mph`,
+        windDirection: source.windDirection,
+        pop: source.probabilityOfPrecipitation.value,
+        gustMph: wind + 6,
+        skyCover: SKY_COVER.find(([pattern]) => pattern.test(source.shortForecast))?.[1] ?? 30,
+        shortForecast: source.shortForecast
+      }
+    })
+  })
+
+export const forecastHourly = {
+  properties: {
+    updated: forecast.properties.updated,
+    periods: hourlyRows.map((row, i) => ({
+      number: i + 1,
+      startTime: `${row.date}T${hourOf(row.hour)}:00:00-04:00`,
+      endTime: `${row.date}T${hourOf(row.hour)}:59:59-04:00`,
+      isDaytime: row.hour >= 6 && row.hour < 18,
+      temperature: row.temperature,
+      temperatureUnit: 'F',
+      probabilityOfPrecipitation: { unitCode: 'wmoUnit:percent', value: row.pop },
+      windSpeed: row.windSpeed,
+      windDirection: row.windDirection,
+      shortForecast: row.shortForecast
+    }))
+  }
+}
+
+/** Gridpoint layers use UTC validTimes; local (-04:00) hour h is UTC hour h + 4 */
+const utcValidTime = (date: string, hour: number) =>
+  new Date(Date.parse(`${date}T${hourOf(hour)}:00:00-04:00`)).toISOString().replace('.000Z', '+00:00') + '/PT1H'
+
+export const gridData = {
+  properties: {
+    updateTime: forecast.properties.updated,
+    windGust: {
+      uom: 'wmoUnit:km_h-1',
+      values: hourlyRows.map((row) => ({ validTime: utcValidTime(row.date, row.hour), value: Math.round(row.gustMph / 0.621371) }))
+    },
+    skyCover: {
+      uom: 'wmoUnit:percent',
+      values: hourlyRows.map((row) => ({ validTime: utcValidTime(row.date, row.hour), value: row.skyCover }))
+    }
+  }
+}
+
+// ------------------------------
+// Observation history
+// ------------------------------
+// Nearest stations for the grid cell, and 48h of hourly observations at the first one ending at
+// `observationsRecordedAt` (newest first, as weather.gov returns them). Pressure holds steady, then
+// falls through the last day – faster over the last 3h – so the replay shows an approaching front.
+export const observationsRecordedAt = '2025-06-06T10:00:00+00:00'
+
+export const stations = {
+  features: ['KTPA', 'KPIE', 'KSPG'].map((id) => ({
+    properties: { stationIdentifier: id, name: `${id} fixture station`, timeZone: 'America/New_York' }
+  }))
+}
+
+export const observations = {
+  features: Array.from({ length: 49 }, (_, hoursAgo) => {
+    const pressureHpa = hoursAgo >= 24
+      ? 1016.4 + 0.2 * Math.sin(hoursAgo)
+      : 1016.4 - (24 - hoursAgo) * 0.15 - (hoursAgo < 3 ? (3 - hoursAgo) * 0.7 : 0)
+    return {
+      properties: {
+        station: 'https://api.weather.gov/stations/KTPA',
+        timestamp: new Date(Date.parse(observationsRecordedAt) - hoursAgo * 60 * 60 * 1000).toISOString().replace('.000Z', '+00:00'),
+        barometricPressure: { unitCode: 'wmoUnit:Pa', value: Math.round(pressureHpa * 100) },
+        seaLevelPressure: { unitCode: 'wmoUnit:Pa', value: null }
+      }
+    }
+  })
+}
+
+// ------------------------------
+// Marine zone forecast and alerts
+// ------------------------------
+// Coastal zone containing the trip point, its zone forecast, and one active Small Craft
+// Advisory issued at `alertsRecordedAt` (replays move it so it started an hour ago).
+export const alertsRecordedAt = '2025-06-06T10:00:00+00:00'
+
+export const marineZones = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      id: 'https://api.weather.gov/zones/coastal/GMZ830',
+      type: 'Feature',
+      geometry: null,
+      properties: {
+        '@id': 'https://api.weather.gov/zones/coastal/GMZ830',
+        '@type': 'wx:Zone',
+        id: 'GMZ830',
+        type: 'coastal',
+        name: 'Tampa Bay waters',
+        state: null,
+        forecastOffices: ['https://api.weather.gov/offices/TBW'],
+        timeZone: ['America/New_York']
+      }
+    }
+  ]
+}
+
+export const marineForecast = {
+  properties: {
+    zone: 'https://api.weather.gov/zones/coastal/GMZ830',
+    updated: '2025-06-06T08:15:00+00:00',
+    periods: [
+      { number: 1, name: 'Today', detailedForecast: 'East winds 15 to 20 kt. Bay waters choppy. Seas 2 to 3 ft. Wave Detail: E 3 ft at 5 seconds. A slight chance of showers.' },
+      { number: 2, name: 'Tonight', detailedForecast: 'Southeast winds 10 to 15 kt. Bay waters a light chop. Seas 1 to 2 ft. Wave Detail: SE 2 ft at 4 seconds.' },
+      { number: 3, name: 'Saturday', detailedForecast: 'Southeast winds around 10 kt. Bay waters a light chop. Seas around 2 ft. A chance of thunderstorms in the afternoon.' },
+      { number: 4, name: 'Saturday Night', detailedForecast: 'South winds 5 to 10 kt. Bay waters smooth. Seas 1 foot or less.' }
+    ]
+  }
+}
+
+export const marineAlerts = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      id: 'https://api.weather.gov/alerts/urn:oid:2.49.0.1.840.0.6d5e6f1f3c1d4a2b9e0f.001.1',
+      type: 'Feature',
+      properties: {
+        id: 'urn:oid:2.49.0.1.840.0.6d5e6f1f3c1d4a2b9e0f.001.1',
+        areaDesc: 'Tampa Bay waters',
+        sent: '2025-06-06T09:00:00+00:00',
+        effective: '2025-06-06T09:00:00+00:00',
+        onset: '2025-06-06T09:00:00+00:00',
+        expires: '2025-06-06T17:00:00+00:00',
+        ends: '2025-06-06T22:00:00+00:00',
+        status: 'Actual',
+        messageType: 'Alert',
+        category: 'Met',
+        severity: 'Minor',
+        certainty: 'Likely',
+        urgency: 'Expected',
+        event: 'Small Craft Advisory',
+        headline: 'Small Craft Advisory issued June 6 at 5:00AM EDT until June 6 at 6:00PM EDT by NWS Tampa Bay Ruskin FL',
+        description: '* WHAT...East winds 15 to 20 kt with seas 2 to 4 ft.\n\n* WHERE...Tampa Bay waters.\n\n* WHEN...Until 6 PM EDT this evening.',
+        instruction: 'Inexperienced mariners, especially those operating smaller vessels, should avoid navigating in hazardous conditions.'
+      }
+    }
+  ]
+}
+
+// Land alerts for the Tampa point (alerts/active?point=)
+export const pointAlerts = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      id: 'https://api.weather.gov/alerts/urn:oid:2.49.0.1.840.0.8a41c2d07b5e4f63a1c9.002.1',
+      type: 'Feature',
+      properties: {
+        id: 'urn:oid:2.49.0.1.840.0.8a41c2d07b5e4f63a1c9.002.1',
+        areaDesc: 'Coastal Hillsborough; Inland Hillsborough; Pinellas',
+        sent: '2025-06-06T09:30:00+00:00',
+        effective: '2025-06-06T09:30:00+00:00',
+        onset: '2025-06-06T15:00:00+00:00',
+        expires: '2025-06-06T18:00:00+00:00',
+        ends: '2025-06-06T23:00:00+00:00',
+        status: 'Actual',
+        messageType: 'Alert',
+        category: 'Met',
+        severity: 'Moderate',
+        certainty: 'Likely',
+        urgency: 'Expected',
+        event: 'Heat Advisory',
+        headline: 'Heat Advisory issued June 6 at 5:30AM EDT until June 6 at 7:00PM EDT by NWS Tampa Bay Ruskin FL',
+        description: '* WHAT...Heat index values up to 110 expected.\n\n* WHERE...Coastal and Inland Hillsborough and Pinellas Counties.\n\n* WHEN...From 11 AM to 7 PM EDT today.',
+        instruction: 'Drink plenty of fluids, stay in an air-conditioned room, stay out of the sun, and check up on relatives and neighbors.'
+      }
+    }
+  ]
+}
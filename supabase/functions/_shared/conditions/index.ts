@@ -0,0 +1,99 @@
+// Conditions provider registry. Each source is chosen by its own env var, falling back to
+// CONDITIONS_PROVIDER and then to the live provider for the location's country – NOAA/USGS for
+// the U.S. and its territories, Open-Meteo's global models everywhere else:
+//
+//   GEOCODING_PROVIDER = nominatim             | fixture
+//   WEATHER_PROVIDER   = noaa      | openmeteo | fixture
+//   HYDROLOGY_PROVIDER = usgs      | openmeteo | fixture
+//   TIDE_PROVIDER      = coops     | openmeteo | fixture
+//   CONDITIONS_PROVIDER=fixture   → every source replays ./fixtures (no network)
+//
+// Setting a source's env var to a provider name pins it for every location.
+// Live providers read and fill the shared cache (see ../cache.ts); fixture replays bypass it.
+import type {
+  ConditionsProviders,
+  FetchFn,
+  GeocodingProvider,
+  HydrologyProvider,
+  TideProvider,
+  WeatherProvider
+} from './types.ts'
+import { createNominatimGeocoder } from './nominatim.ts'
+import { createNoaaWeatherProvider } from './noaa.ts'
+import { createUsgsHydrologyProvider } from './usgs.ts'
+import { createCoopsTideProvider } from './coops.ts'
+import { createOpenMeteoHydrologyProvider, createOpenMeteoTideProvider, createOpenMeteoWeatherProvider } from './openMeteo.ts'
+import { createFixtureFetch } from './fixtures/index.ts'
+import { getCache, noCache, type Cache } from '../cache.ts'
+
+export * from './types.ts'
+export { haversineKm } from './coops.ts'
+export { analyzePressure } from './pressure.ts'
+export { computeSolunar, describeSolunar, SOLUNAR_SOURCE } from './solunar.ts'
+export { getTripDates, pickHoursForWindow, utcOffsetMinutes } from './window.ts'
+
+type Region = 'us' | 'global'
+
+interface Registry<T> {
+  defaultName: Record<Region, string>
+  factories: Record<string, (fetchFn: FetchFn, cache: Cache) => T>
+}
+
+// Countries NOAA forecasts and CO-OPS/USGS cover (states plus territories)
+const US_COUNTRY_CODES = new Set(['us', 'pr', 'vi', 'gu', 'as', 'mp', 'um'])
+
+const GEOCODERS: Registry<GeocodingProvider> = {
+  defaultName: { us: 'nominatim', global: 'nominatim' },
+  factories: { nominatim: createNominatimGeocoder }
+}
+const WEATHER: Registry<WeatherProvider> = {
+  defaultName: { us: 'noaa', global: 'openmeteo' },
+  factories: { noaa: createNoaaWeatherProvider, openmeteo: createOpenMeteoWeatherProvider }
+}
+const HYDROLOGY: Registry<HydrologyProvider> = {
+  defaultName: { us: 'usgs', global: 'openmeteo' },
+  factories: { usgs: createUsgsHydrologyProvider, openmeteo: createOpenMeteoHydrologyProvider }
+}
+const TIDES: Registry<TideProvider> = {
+  defaultName: { us: 'coops', global: 'openmeteo' },
+  factories: { coops: createCoopsTideProvider, openmeteo: createOpenMeteoTideProvider }
+}
+
+function select<T extends { name: string }>(envVar: string, registry: Registry<T>, region: Region): T {
+  const fallback = Deno.env.get('CONDITIONS_PROVIDER') === 'fixture' ? 'fixture' : registry.defaultName[region]
+  const requested = (Deno.env.get(envVar) ?? fallback).trim().toLowerCase()
+
+  // Fixture mode runs the region's provider parsing code against recorded responses
+  if (requested === 'fixture') {
+    const provider = registry.factories[registry.defaultName[region]](createFixtureFetch(), noCache)
+    return { ...provider, name: `${provider.name}:fixture` }
+  }
+
+  const factory = registry.factories[requested]
+  if (!factory) {
+    throw new Error(`Unknown ${envVar} "${requested}"`)
+  }
+  return factory(fetch, getCache())
+}
+
+// Providers keep per-isolate state (e.g. the CO-OPS station lists), so each region's set is built once
+const resolved = new Map<Region, ConditionsProviders>()
+
+/**
+ * Resolve the configured provider for every conditions source. `countryCode` is the geocoded
+ * location's ISO 3166-1 alpha-2 code; without one the U.S. providers are used.
+ */
+export function getConditionsProviders(countryCode?: string): ConditionsProviders {
+  const region: Region = !countryCode || US_COUNTRY_CODES.has(countryCode.toLowerCase()) ? 'us' : 'global'
+  let providers = resolved.get(region)
+  if (!providers) {
+    providers = {
+      geocoding: select('GEOCODING_PROVIDER', GEOCODERS, region),
+      weather: select('WEATHER_PROVIDER', WEATHER, region),
+      hydrology: select('HYDROLOGY_PROVIDER', HYDROLOGY, region),
+      tides: select('TIDE_PROVIDER', TIDES, region)
+    }
+    resolved.set(region, providers)
+  }
+  return providers
+}
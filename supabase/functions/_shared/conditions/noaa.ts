@@ -0,0 +1,299 @@
+import type {
+  FetchFn,
+  ForecastPeriod,
+  HourlyWeather,
+  MarineForecast,
+  MarinePeriod,
+  PressureHistory,
+  PressureReading,
+  WeatherAlert,
+  WeatherProvider
+} from './types.ts'
+import { noCache, type Cache } from '../cache.ts'
+
+const HEADERS = { 'User-Agent': 'charterweb-app/1.0 (contact@charterweb.app)' }
+
+const HOUR_MS = 60 * 60 * 1000
+const KMH_TO_MPH = 0.621371
+
+// Nearest stations tried in turn until one reports pressure (many small sites do not)
+const MAX_PRESSURE_STATIONS = 3
+
+// A launch point on the shore usually sits just outside the coastal zone polygons (bays, sounds,
+// Great Lakes nearshore waters), so the points around it are tried too (0.05 deg ≈ 5 km)
+const ZONE_PROBE_DEG = 0.05
+const ZONE_PROBES: Array<[number, number]> = [
+  [0, 0], [1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]
+]
+
+// Marine forecast periods kept (today, tonight, tomorrow, …)
+const MARINE_PERIODS = 4
+
+const ALERT_SEVERITIES: ReadonlyArray<WeatherAlert['severity']> = ['Extreme', 'Severe', 'Moderate', 'Minor', 'Unknown']
+
+/** Forecast endpoints weather.gov assigns to a point */
+interface GridEndpoints {
+  forecast: string
+  forecastHourly: string | null
+  forecastGridData: string | null
+  observationStations: string | null
+}
+
+/** Gridpoint layer: { uom, values: [{ validTime: "2025-06-07T10:00:00+00:00/PT3H", value }] } */
+interface GridLayer {
+  uom?: string
+  values?: Array<{ validTime: string; value: number | null }>
+}
+
+/** Milliseconds in an ISO-8601 duration such as PT1H, PT12H or P1DT6H */
+function durationMs(duration: string): number {
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/.exec(duration)
+  if (!match) return HOUR_MS
+  const [, days = '0', hours = '0', minutes = '0'] = match
+  return ((Number(days) * 24 + Number(hours)) * 60 + Number(minutes)) * 60 * 1000
+}
+
+/** Expand a gridpoint layer to one value per UTC hour (epoch ms of the hour start) */
+function expandLayer(layer: GridLayer | undefined): Map<number, number> {
+  const hours = new Map<number, number>()
+  for (const { validTime, value } of layer?.values ?? []) {
+    if (value == null) continue
+    const [start, duration = 'PT1H'] = validTime.split('/')
+    const from = Date.parse(start)
+    if (Number.isNaN(from)) continue
+    for (let t = from; t < from + durationMs(duration); t += HOUR_MS) hours.set(t, value)
+  }
+  return hours
+}
+
+/** "10 mph" / "5 to 10 mph" → the upper figure */
+function parseMph(windSpeed: unknown): number | null {
+  if (typeof windSpeed !== 'string') return null
+  const numbers = windSpeed.match(/\d+(\.\d+)?/g)
+  return numbers ? Number(numbers[numbers.length - 1]) : null
+}
+
+const toMph = (value: number | undefined, uom: string | undefined) =>
+  value == null ? null : Math.round(uom?.includes('km_h') ? value * KMH_TO_MPH : value)
+
+/** "N to M" / "around N" / "N" before a unit → { min, max } */
+function parseRange(text: string, unit: string): { min: number; max: number } | null {
+  const match = new RegExp(`(?:around |up to )?(\\d+)(?: to (\\d+))? ?(?:${unit})`, 'i').exec(text)
+  if (!match) return null
+  const min = Number(match[1])
+  return { min, max: match[2] ? Number(match[2]) : min }
+}
+
+/** Winds, seas and dominant period out of a marine zone forecast's text */
+function parseMarinePeriod(name: string, forecast: string): MarinePeriod {
+  // "Seas 2 to 3 ft", "Waves 3 to 5 ft" (Great Lakes), "Seas around 2 ft", "Seas 1 foot or less"
+  const seasText = /(?:seas|waves)\b[^.]*/i.exec(forecast)?.[0] ?? ''
+  const calm = /(?:1 foot or less|less than 1 foot)/i.test(seasText)
+  return {
+    name,
+    forecast,
+    windKt: parseRange(/winds?\b[^.]*/i.exec(forecast)?.[0] ?? '', 'kt|knots'),
+    waveHeightFt: calm ? { min: 0, max: 1 } : parseRange(seasText, 'ft|feet|foot'),
+    wavePeriodSec: Number(/(?:at|period of|dominant period) (\d+) seconds/i.exec(forecast)?.[1]) || null
+  }
+}
+
+/** CAP alert feature → contract alert */
+function toWeatherAlert(feature: any): WeatherAlert {
+  const p = feature?.properties ?? {}
+  return {
+    id: String(p.id ?? feature?.id ?? ''),
+    event: p.event ?? 'Alert',
+    severity: ALERT_SEVERITIES.includes(p.severity) ? p.severity : 'Unknown',
+    headline: p.headline ?? null,
+    description: p.description ?? null,
+    instruction: p.instruction ?? null,
+    onset: p.onset ?? p.effective ?? null,
+    ends: p.ends ?? p.expires ?? null
+  }
+}
+
+/** NOAA (weather.gov) forecast periods for a point – U.S. only */
+export function createNoaaWeatherProvider(fetchFn: FetchFn = fetch, cache: Cache = noCache): WeatherProvider {
+  async function fetchJson(url: string, what: string): Promise<any> {
+    const resp = await fetchFn(url, { headers: HEADERS })
+    if (!resp.ok) throw new Error(`NOAA ${what} request failed`)
+    return resp.json()
+  }
+
+  // Grid endpoints for a point (weather.gov itself resolves points to 4 decimals)
+  function getGrid(lat: number, lon: number): Promise<GridEndpoints> {
+    const point = `${lat.toFixed(4)},${lon.toFixed(4)}`
+    return cache.getOrLoad('nws_points', `points/${point}`, async () => {
+      const pointJson = await fetchJson(`https://api.weather.gov/points/${point}`, 'points lookup')
+      const props = pointJson?.properties ?? {}
+      if (!props.forecast) throw new Error('NOAA forecast URL missing')
+      return {
+        forecast: props.forecast,
+        forecastHourly: props.forecastHourly ?? null,
+        forecastGridData: props.forecastGridData ?? null,
+        observationStations: props.observationStations ?? null
+      }
+    })
+  }
+
+  // Observation stations for the grid cell, nearest first
+  async function getStations(lat: number, lon: number): Promise<string[]> {
+    const { forecastGridData, observationStations } = await getGrid(lat, lon)
+    // Grid entries cached before stations were stored only have the gridpoint URL
+    const url = observationStations ?? (forecastGridData ? `${forecastGridData}/stations` : null)
+    if (!url) return []
+    return cache.getOrLoad('nws_points', `stations/${url}`, async () => {
+      const { features } = await fetchJson(url, 'observation stations')
+      return ((features ?? []) as any[])
+        .map((f) => f?.properties?.stationIdentifier)
+        .filter((id): id is string => typeof id === 'string')
+        .slice(0, 10)
+    }, { shouldCache: (ids) => ids.length > 0 })
+  }
+
+  return {
+    name: 'noaa',
+    source: { name: 'NOAA National Weather Service', url: 'https://www.weather.gov' },
+    async getForecastPeriods(lat: number, lon: number): Promise<ForecastPeriod[]> {
+      const { forecast } = await getGrid(lat, lon)
+
+      // Shared by every point in the same grid cell
+      return cache.getOrLoad(
+        'nws_forecast',
+        forecast,
+        async () => {
+          const forecastResp = await fetchFn(forecast, { headers: HEADERS })
+          const forecastJson = await forecastResp.json()
+          return (forecastJson?.properties?.periods as ForecastPeriod[]) ?? []
+        },
+        { shouldCache: (periods) => periods.length > 0 }
+      )
+    },
+
+    async getHourlyForecast(lat: number, lon: number): Promise<HourlyWeather[]> {
+      const { forecastHourly, forecastGridData } = await getGrid(lat, lon)
+      if (!forecastHourly) return []
+
+      // The hourly forecast has no gusts or sky cover – those come from the raw gridpoint layers
+      const [hourlyPeriods, gridJson] = await Promise.all([
+        cache.getOrLoad('nws_forecast', forecastHourly, async () => {
+          const { properties } = await fetchJson(forecastHourly, 'hourly forecast')
+          return ((properties?.periods ?? []) as ForecastPeriod[]).map((p) => ({
+            startTime: p.startTime,
+            temperature: p.temperature,
+            temperatureUnit: p.temperatureUnit,
+            windSpeed: p.windSpeed,
+            windDirection: p.windDirection,
+            probabilityOfPrecipitation: p.probabilityOfPrecipitation,
+            shortForecast: p.shortForecast
+          }))
+        }, { shouldCache: (periods) => periods.length > 0 }),
+        forecastGridData
+          ? cache
+              .getOrLoad('nws_forecast', forecastGridData, async () => {
+                // The raw grid is large; keep only the layers used here
+                const { properties } = await fetchJson(forecastGridData, 'gridpoint data')
+                return { properties: { windGust: properties?.windGust, skyCover: properties?.skyCover } }
+              })
+              .catch((err) => {
+                console.warn('NOAA gridpoint data unavailable', err)
+                return null
+              })
+          : null
+      ])
+
+      const gusts = expandLayer(gridJson?.properties?.windGust)
+      const sky = expandLayer(gridJson?.properties?.skyCover)
+      const gustUom = gridJson?.properties?.windGust?.uom
+
+      return hourlyPeriods.map((p) => {
+        const hour = Math.floor(Date.parse(p.startTime) / HOUR_MS) * HOUR_MS
+        const precipitation = (p.probabilityOfPrecipitation as { value?: number | null } | undefined)?.value
+        return {
+          time: p.startTime,
+          temperatureF: typeof p.temperature === 'number'
+            ? (p.temperatureUnit === 'C' ? Math.round(p.temperature * 9 / 5 + 32) : p.temperature)
+            : null,
+          windMph: parseMph(p.windSpeed),
+          windGustMph: toMph(gusts.get(hour), gustUom),
+          windDirection: p.windDirection ?? null,
+          precipitationChance: precipitation ?? null,
+          skyCover: sky.get(hour) ?? null,
+          shortForecast: p.shortForecast ?? null
+        }
+      })
+    },
+
+    async getPressureHistory(lat: number, lon: number, hours: number): Promise<PressureHistory> {
+      const stations = await getStations(lat, lon)
+      // Hour-aligned start so repeat lookups within the hour share a cache entry
+      const start = new Date(Math.floor((Date.now() - hours * HOUR_MS) / HOUR_MS) * HOUR_MS).toISOString()
+
+      for (const station of stations.slice(0, MAX_PRESSURE_STATIONS)) {
+        const readings = await cache.getOrLoad('nws_observations', `${station}/${start}`, async () => {
+          const url = `https://api.weather.gov/stations/${station}/observations?start=${encodeURIComponent(start)}`
+          const { features } = await fetchJson(url, 'observations')
+          return ((features ?? []) as any[]).flatMap((f): PressureReading[] => {
+            const props = f?.properties ?? {}
+            // Pa; barometricPressure is reported more often than seaLevelPressure
+            const pa = props.barometricPressure?.value ?? props.seaLevelPressure?.value
+            return typeof pa === 'number' && typeof props.timestamp === 'string'
+              ? [{ time: props.timestamp, pressureHpa: pa / 100 }]
+              : []
+          })
+        })
+        if (readings.length >= 2) return { station, readings }
+      }
+      return { station: stations[0] ?? null, readings: [] }
+    },
+
+    async getMarineForecast(lat: number, lon: number): Promise<MarineForecast | null> {
+      const zone = await cache.getOrLoad('nws_points', `marine-zone/${lat.toFixed(4)},${lon.toFixed(4)}`, async () => {
+        for (const [dLat, dLon] of ZONE_PROBES) {
+          const point = `${(lat + dLat * ZONE_PROBE_DEG).toFixed(4)},${(lon + dLon * ZONE_PROBE_DEG).toFixed(4)}`
+          const { features } = await fetchJson(`https://api.weather.gov/zones?type=coastal&point=${point}`, 'marine zone lookup')
+          const props = features?.[0]?.properties
+          if (props?.id) return { id: String(props.id), name: String(props.name ?? props.id) }
+        }
+        return null // inland: no marine zone nearby
+      })
+      if (!zone) return null
+
+      const forecastUrl = `https://api.weather.gov/zones/coastal/${zone.id}/forecast`
+      const [periods, alerts] = await Promise.all([
+        cache.getOrLoad('nws_forecast', forecastUrl, async () => {
+          const { properties } = await fetchJson(forecastUrl, 'marine forecast')
+          return ((properties?.periods ?? []) as any[])
+            .slice(0, MARINE_PERIODS)
+            .map((p) => parseMarinePeriod(String(p.name ?? ''), String(p.detailedForecast ?? '')))
+        }, { shouldCache: (periods) => periods.length > 0 }),
+        cache.getOrLoad('nws_alerts', `zone/${zone.id}`, async () => {
+          const { features } = await fetchJson(`https://api.weather.gov/alerts/active?zone=${zone.id}`, 'marine alerts')
+          return ((features ?? []) as any[]).map(toWeatherAlert)
+        })
+      ])
+
+      const alertText = alerts.length
+        ? `Active: ${alerts.map((a) => `${a.event}${a.ends ? ` until ${a.ends}` : ''}`).join('; ')}`
+        : 'No active marine alerts'
+      const periodText = periods.slice(0, 2).map((p) => `${p.name}: ${p.forecast}`).join(' ')
+      return {
+        zone,
+        periods,
+        alerts,
+        summary: `${zone.name} (${zone.id}). ${alertText}. ${periodText}`.trim()
+      }
+    },
+
+    async getActiveAlerts(lat: number, lon: number): Promise<WeatherAlert[]> {
+      const point = `${lat.toFixed(4)},${lon.toFixed(4)}`
+      const alerts = await cache.getOrLoad('nws_alerts', `point/${point}`, async () => {
+        const { features } = await fetchJson(`https://api.weather.gov/alerts/active?point=${point}`, 'alerts')
+        return ((features ?? []) as any[]).map(toWeatherAlert)
+      })
+      // Most severe first
+      return [...alerts].sort((a, b) => ALERT_SEVERITIES.indexOf(a.severity) - ALERT_SEVERITIES.indexOf(b.severity))
+    }
+  }
+}
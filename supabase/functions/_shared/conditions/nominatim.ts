@@ -0,0 +1,70 @@
+import type { FetchFn, GeocodeResult, GeocodingProvider } from './types.ts'
+import { noCache, type Cache } from '../cache.ts'
+
+const HEADERS = {
+  'User-Agent': 'charterweb-app/1.0 (contact@charterweb.app)',
+  'Accept': 'application/json'
+}
+
+// v2: results carry countryCode and regionCode
+const GEOCODE_CACHE_VERSION = 'v2'
+
+interface NominatimPlace {
+  lat: string
+  lon: string
+  display_name: string
+  address?: { country_code?: string; 'ISO3166-2-lvl4'?: string } // with addressdetails=1
+}
+
+/** Geocode a textual location → { lat, lon } using OpenStreetMap Nominatim */
+export function createNominatimGeocoder(fetchFn: FetchFn = fetch, cache: Cache = noCache): GeocodingProvider {
+  async function lookup(location: string): Promise<GeocodeResult> {
+    const url = `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(location)}&format=json&limit=1&addressdetails=1`
+
+    let data: NominatimPlace[] | null = null
+
+    try {
+      const res = await fetchFn(url, { headers: HEADERS })
+      if (res.ok) {
+        data = (await res.json()) as NominatimPlace[]
+      }
+    } catch (_err) {
+      // ignore – will attempt fallback
+    }
+
+    // Fallback: use geocoding API by geocode.maps.co (Nominatim proxy) if first attempt failed
+    if (!data || !data.length) {
+      try {
+        const alt = await fetchFn(`https://geocode.maps.co/search?q=${encodeURIComponent(location)}&addressdetails=1`, { headers: HEADERS })
+        if (alt.ok) {
+          data = (await alt.json()) as NominatimPlace[]
+        }
+      } catch (_err) {
+        /* swallow */
+      }
+    }
+
+    if (!data || !data.length) {
+      throw new Error('Location not found; please enter a more specific place name')
+    }
+
+    const [place] = data
+    return {
+      lat: parseFloat(place.lat),
+      lon: parseFloat(place.lon),
+      displayName: place.display_name,
+      countryCode: place.address?.country_code?.toLowerCase(),
+      regionCode: place.address?.['ISO3166-2-lvl4']?.toLowerCase()
+    }
+  }
+
+  return {
+    name: 'nominatim',
+    geocode(location: string): Promise<GeocodeResult> {
+      // Nominatim throttles aggressively – repeat places are served from the cache. Bump the
+      // version whenever GeocodeResult gains fields, so older entries (e.g. without countryCode) miss
+      const key = `${GEOCODE_CACHE_VERSION}:${location.trim().toLowerCase().replace(/\s+/g, ' ')}`
+      return cache.getOrLoad('geocode', key, () => lookup(location))
+    }
+  }
+}
@@ -0,0 +1,407 @@
+// Open-Meteo providers for locations outside NOAA/USGS coverage. All three APIs are global and
+// keyless: the forecast API (blended national weather models, including the 48h pressure history),
+// the marine API's sea level (global tide model plus surge) and waves, and the flood API's GloFAS
+// river discharge. Times come back in the location's local time (timezone=auto).
+import type {
+  FetchFn,
+  ForecastPeriod,
+  HourlyWeather,
+  HydrologyProvider,
+  MarineForecast,
+  MarinePeriod,
+  PressureHistory,
+  TideCurvePoint,
+  TideProvider,
+  TideSummary,
+  WaterConditions,
+  WeatherProvider
+} from './types.ts'
+import { noCache, type Cache } from '../cache.ts'
+import { haversineKm } from './coops.ts'
+
+const FORECAST_API = 'https://api.open-meteo.com/v1/forecast'
+const MARINE_API = 'https://marine-api.open-meteo.com/v1/marine'
+const FLOOD_API = 'https://flood-api.open-meteo.com/v1/flood'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const M_TO_FT = 3.28084
+const CMS_TO_CFS = 35.3147
+const MPH_TO_KT = 0.868976
+
+// The marine API snaps to the nearest sea cell; further than this it no longer describes the spot
+const MAX_SEA_CELL_KM = 50
+
+// Days of wave forecast returned for boat trips
+const MARINE_DAYS = 3
+
+// Change (%) under which modeled discharge counts as steady
+const STEADY_PCT = 10
+
+/** WMO weather interpretation codes used by Open-Meteo */
+const WEATHER_CODES: Record<number, string> = {
+  0: 'Clear',
+  1: 'Mostly Clear',
+  2: 'Partly Cloudy',
+  3: 'Overcast',
+  45: 'Fog',
+  48: 'Freezing Fog',
+  51: 'Light Drizzle',
+  53: 'Drizzle',
+  55: 'Heavy Drizzle',
+  56: 'Freezing Drizzle',
+  57: 'Freezing Drizzle',
+  61: 'Light Rain',
+  63: 'Rain',
+  65: 'Heavy Rain',
+  66: 'Freezing Rain',
+  67: 'Freezing Rain',
+  71: 'Light Snow',
+  73: 'Snow',
+  75: 'Heavy Snow',
+  77: 'Snow Grains',
+  80: 'Rain Showers',
+  81: 'Rain Showers',
+  82: 'Heavy Rain Showers',
+  85: 'Snow Showers',
+  86: 'Heavy Snow Showers',
+  95: 'Thunderstorms',
+  96: 'Thunderstorms With Hail',
+  99: 'Thunderstorms With Hail'
+}
+
+const COMPASS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW']
+
+const compass = (degrees: number | null | undefined) =>
+  degrees == null ? null : COMPASS[Math.round((((degrees % 360) + 360) % 360) / 22.5) % 16]
+
+const describeCode = (code: number | null | undefined) => (code == null ? null : WEATHER_CODES[code] ?? null)
+
+const round = (n: number | null | undefined) => (n == null ? null : Math.round(n))
+
+/** 3600 → "+01:00" */
+function formatOffset(seconds: number): string {
+  const minutes = Math.round(seconds / 60)
+  const abs = Math.abs(minutes)
+  return `${minutes < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`
+}
+
+/** YYYY-MM-DD `days` after `date` */
+const addDays = (date: string, days: number) => new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+
+/** Cache key precision: ~1 km, well inside the models' grid spacing */
+const cell = (lat: number, lon: number) => `${lat.toFixed(2)},${lon.toFixed(2)}`
+
+async function fetchJson(fetchFn: FetchFn, url: string, what: string): Promise<any> {
+  const resp = await fetchFn(url)
+  if (!resp.ok) throw new Error(`Open-Meteo ${what} request failed (${resp.status})`)
+  const json = await resp.json()
+  if (json?.error) throw new Error(`Open-Meteo ${what}: ${json.reason ?? 'error'}`)
+  return json
+}
+
+/** Forecast, hourly timeline and modeled pressure from one Open-Meteo forecast request */
+export function createOpenMeteoWeatherProvider(fetchFn: FetchFn = fetch, cache: Cache = noCache): WeatherProvider {
+  function loadForecast(lat: number, lon: number): Promise<any> {
+    return cache.getOrLoad('open_meteo', `forecast/${cell(lat, lon)}`, () => {
+      const url =
+        `${FORECAST_API}?latitude=${lat.toFixed(4)}&longitude=${lon.toFixed(4)}` +
+        '&hourly=temperature_2m,precipitation_probability,cloud_cover,wind_speed_10m,wind_direction_10m,wind_gusts_10m,weather_code,pressure_msl' +
+        '&daily=weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max,wind_speed_10m_max,wind_gusts_10m_max,wind_direction_10m_dominant' +
+        '&temperature_unit=fahrenheit&wind_speed_unit=mph&timezone=auto&past_days=2&forecast_days=7'
+      return fetchJson(fetchFn, url, 'forecast')
+    })
+  }
+
+  /** Today's local date at the location, from the response's offset */
+  const localToday = (json: any) => new Date(Date.now() + (json.utc_offset_seconds ?? 0) * 1000).toISOString().slice(0, 10)
+
+  return {
+    name: 'openmeteo',
+    source: { name: 'Open-Meteo weather models', url: 'https://open-meteo.com' },
+
+    async getForecastPeriods(lat: number, lon: number): Promise<ForecastPeriod[]> {
+      const json = await loadForecast(lat, lon)
+      const daily = json?.daily ?? {}
+      const offset = formatOffset(json?.utc_offset_seconds ?? 0)
+      const today = localToday(json)
+
+      // One daytime (06–18) and one overnight period per day, in the weather.gov shape
+      return ((daily.time ?? []) as string[]).flatMap((date, i): ForecastPeriod[] => {
+        if (date < today) return []
+        const sky = describeCode(daily.weather_code?.[i]) ?? 'No forecast'
+        const high = round(daily.temperature_2m_max?.[i])
+        const low = round(daily.temperature_2m_min?.[i])
+        const wind = round(daily.wind_speed_10m_max?.[i])
+        const gust = round(daily.wind_gusts_10m_max?.[i])
+        const direction = compass(daily.wind_direction_10m_dominant?.[i])
+        const rain = daily.precipitation_probability_max?.[i]
+        const detail = [
+          `${sky}.`,
+          high != null ? `High near ${high}°F, low around ${low ?? '–'}°F.` : null,
+          wind != null ? `Wind up to ${wind} mph${direction ? ` from the ${direction}` : ''}${gust != null ? `, gusts to ${gust} mph` : ''}.` : null,
+          rain != null ? `${rain}% chance of precipitation.` : null
+        ].filter(Boolean).join(' ')
+
+        return [
+          {
+            name: date === today ? 'Today' : new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' }),
+            startTime: `${date}T06:00:00${offset}`,
+            endTime: `${date}T18:00:00${offset}`,
+            isDaytime: true,
+            temperature: high ?? undefined,
+            temperatureUnit: 'F',
+            windSpeed: wind != null ? `${wind} mph` : undefined,
+            windDirection: direction ?? undefined,
+            shortForecast: sky,
+            detailedForecast: detail
+          },
+          {
+            name: 'Overnight',
+            startTime: `${date}T18:00:00${offset}`,
+            endTime: `${addDays(date, 1)}T06:00:00${offset}`,
+            isDaytime: false,
+            temperature: low ?? undefined,
+            temperatureUnit: 'F',
+            windSpeed: wind != null ? `${wind} mph` : undefined,
+            windDirection: direction ?? undefined,
+            shortForecast: sky
+          }
+        ]
+      })
+    },
+
+    async getHourlyForecast(lat: number, lon: number): Promise<HourlyWeather[]> {
+      const json = await loadForecast(lat, lon)
+      const hourly = json?.hourly ?? {}
+      const offset = formatOffset(json?.utc_offset_seconds ?? 0)
+      const today = localToday(json)
+
+      return ((hourly.time ?? []) as string[]).flatMap((time, i): HourlyWeather[] =>
+        time.slice(0, 10) < today
+          ? []
+          : [
+              {
+                time: `${time}:00${offset}`,
+                temperatureF: round(hourly.temperature_2m?.[i]),
+                windMph: round(hourly.wind_speed_10m?.[i]),
+                windGustMph: round(hourly.wind_gusts_10m?.[i]),
+                windDirection: compass(hourly.wind_direction_10m?.[i]),
+                precipitationChance: hourly.precipitation_probability?.[i] ?? null,
+                skyCover: hourly.cloud_cover?.[i] ?? null,
+                shortForecast: describeCode(hourly.weather_code?.[i])
+              }
+            ]
+      )
+    },
+
+    // Modeled sea-level pressure (no station observations) for the hours already past
+    async getPressureHistory(lat: number, lon: number, hours: number): Promise<PressureHistory> {
+      const json = await loadForecast(lat, lon)
+      const hourly = json?.hourly ?? {}
+      const offsetMs = (json?.utc_offset_seconds ?? 0) * 1000
+      const now = Date.now()
+
+      const readings = ((hourly.time ?? []) as string[]).flatMap((time, i) => {
+        const ms = Date.parse(`${time}:00Z`) - offsetMs
+        const hpa = hourly.pressure_msl?.[i]
+        return typeof hpa === 'number' && ms <= now && ms >= now - hours * HOUR_MS
+          ? [{ time: new Date(ms).toISOString(), pressureHpa: hpa }]
+          : []
+      })
+      return { station: null, readings }
+    },
+
+    // Wave height/period from the marine model with forecast winds; there are no marine alerts
+    async getMarineForecast(lat: number, lon: number): Promise<MarineForecast | null> {
+      const [weather, marine] = await Promise.all([
+        loadForecast(lat, lon),
+        cache.getOrLoad('open_meteo', `waves/${cell(lat, lon)}`, () =>
+          fetchJson(
+            fetchFn,
+            `${MARINE_API}?latitude=${lat.toFixed(4)}&longitude=${lon.toFixed(4)}&hourly=wave_height,wave_period` +
+              `&timezone=auto&cell_selection=sea&forecast_days=${MARINE_DAYS}`,
+            'marine'
+          )
+        )
+      ])
+      if (haversineKm(lat, lon, marine.latitude, marine.longitude) > MAX_SEA_CELL_KM) return null
+
+      // Daily ranges: waves from the marine model, winds from the weather model's hourly series
+      const byDate = new Map<string, { waves: number[]; periods: number[]; winds: number[] }>()
+      const day = (time: string) => {
+        const date = time.slice(0, 10)
+        if (!byDate.has(date)) byDate.set(date, { waves: [], periods: [], winds: [] })
+        return byDate.get(date)!
+      }
+      const marineTimes: string[] = marine?.hourly?.time ?? []
+      marineTimes.forEach((time, i) => {
+        const height = marine.hourly.wave_height?.[i]
+        const period = marine.hourly.wave_period?.[i]
+        if (typeof height === 'number') day(time).waves.push(height * M_TO_FT)
+        if (typeof period === 'number') day(time).periods.push(period)
+      })
+      const weatherTimes: string[] = weather?.hourly?.time ?? []
+      weatherTimes.forEach((time, i) => {
+        const wind = weather.hourly.wind_speed_10m?.[i]
+        if (typeof wind === 'number' && byDate.has(time.slice(0, 10))) day(time).winds.push(wind * MPH_TO_KT)
+      })
+
+      const today = localToday(weather)
+      const range = (values: number[]) =>
+        values.length ? { min: Math.round(Math.min(...values)), max: Math.round(Math.max(...values)) } : null
+      const periods: MarinePeriod[] = [...byDate.entries()]
+        .filter(([date, d]) => date >= today && d.waves.length > 0)
+        .map(([date, d]) => {
+          const waveHeightFt = range(d.waves)
+          const windKt = range(d.winds)
+          const wavePeriodSec = d.periods.length ? Math.round(d.periods.reduce((a, b) => a + b, 0) / d.periods.length) : null
+          return {
+            name: date === today ? 'Today' : new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' }),
+            forecast: [
+              windKt ? `Winds ${windKt.min} to ${windKt.max} kt.` : null,
+              waveHeightFt ? `Waves ${waveHeightFt.min} to ${waveHeightFt.max} ft${wavePeriodSec ? ` at ${wavePeriodSec} seconds` : ''}.` : null
+            ].filter(Boolean).join(' '),
+            windKt,
+            waveHeightFt,
+            wavePeriodSec
+          }
+        })
+      if (periods.length === 0) return null
+
+      return {
+        zone: null,
+        periods,
+        alerts: [],
+        summary: `Global wave model; official marine warnings are not checked outside the U.S. ${periods.slice(0, 2).map((p) => `${p.name}: ${p.forecast}`).join(' ')}`
+      }
+    },
+
+    // Open-Meteo has no warnings feed
+    async getActiveAlerts(): Promise<null> {
+      return null
+    }
+  }
+}
+
+/** High/low turning points of an hourly series, refined with a parabola through each peak */
+function findExtremes(times: string[], heights: number[]): TideSummary['extremes'] {
+  const extremes: TideSummary['extremes'] = []
+  for (let i = 1; i < heights.length - 1; i++) {
+    const [prev, cur, next] = [heights[i - 1], heights[i], heights[i + 1]]
+    const isHigh = cur >= prev && cur > next
+    const isLow = cur <= prev && cur < next
+    if (!isHigh && !isLow) continue
+
+    const curvature = prev - 2 * cur + next
+    const shift = curvature === 0 ? 0 : (0.5 * (prev - next)) / curvature // hours, within ±0.5
+    const ms = Date.parse(`${times[i]}:00Z`) + shift * HOUR_MS
+    extremes.push({
+      time: new Date(ms).toISOString().slice(0, 16).replace('T', ' '),
+      type: isHigh ? 'High' : 'Low',
+      height: Math.round((cur - 0.25 * (prev - next) * shift) * 100) / 100
+    })
+  }
+  return extremes
+}
+
+/** Tide curve and highs/lows from the Open-Meteo marine model's sea level (relative to MSL) */
+export function createOpenMeteoTideProvider(fetchFn: FetchFn = fetch, cache: Cache = noCache): TideProvider {
+  return {
+    name: 'openmeteo',
+    source: { name: 'Open-Meteo marine model (global tides)', url: 'https://open-meteo.com/en/docs/marine-weather-api' },
+
+    async getTides(lat: number, lon: number, date: string): Promise<TideSummary> {
+      try {
+        // A day either side so turning points near midnight are still detected
+        const json = await cache.getOrLoad('open_meteo', `marine/${cell(lat, lon)}/${date}`, () =>
+          fetchJson(
+            fetchFn,
+            `${MARINE_API}?latitude=${lat.toFixed(4)}&longitude=${lon.toFixed(4)}&hourly=sea_level_height_msl` +
+              `&timezone=auto&cell_selection=sea&start_date=${addDays(date, -1)}&end_date=${addDays(date, 1)}`,
+            'marine'
+          )
+        )
+
+        const distanceKm = haversineKm(lat, lon, json.latitude, json.longitude)
+        const series = ((json?.hourly?.time ?? []) as string[])
+          .map((time, i) => ({ time, meters: json.hourly.sea_level_height_msl?.[i] }))
+          .filter((p): p is { time: string; meters: number } => typeof p.meters === 'number')
+        if (series.length < 3 || distanceKm > MAX_SEA_CELL_KM) {
+          return { summary: 'No tide model data near this location', nextHigh: 'N/A', nextLow: 'N/A', extremes: [] }
+        }
+
+        const heights = series.map((p) => p.meters * M_TO_FT)
+        const onDate = (time: string) => time.slice(0, 10) === date
+        const extremes = findExtremes(series.map((p) => p.time), heights).filter((e) => onDate(e.time))
+        const curve: TideCurvePoint[] = series
+          .map((p, i) => ({ time: p.time.replace('T', ' '), height: Math.round(heights[i] * 100) / 100 }))
+          .filter((p) => onDate(p.time))
+
+        const station = {
+          id: `${json.latitude.toFixed(2)},${json.longitude.toFixed(2)}`,
+          name: 'Open-Meteo tide model',
+          distanceKm: Math.round(distanceKm * 10) / 10
+        }
+        const nextHigh = extremes.find((e) => e.type === 'High')?.time ?? 'N/A'
+        const nextLow = extremes.find((e) => e.type === 'Low')?.time ?? 'N/A'
+
+        return {
+          summary: `Next High: ${nextHigh}, Next Low: ${nextLow} (global tide model, grid cell ${station.distanceKm} km away, heights above MSL)`,
+          nextHigh,
+          nextLow,
+          extremes,
+          station,
+          datum: 'MSL',
+          curve
+        }
+      } catch (err) {
+        console.warn('Open-Meteo tide fetch failed', err)
+        return { summary: 'Tide data unavailable', nextHigh: 'N/A', nextLow: 'N/A', extremes: [] }
+      }
+    }
+  }
+}
+
+/** Modeled daily river discharge (GloFAS) for the nearest river cell – there are no gauge statistics */
+export function createOpenMeteoHydrologyProvider(fetchFn: FetchFn = fetch, cache: Cache = noCache): HydrologyProvider {
+  return {
+    name: 'openmeteo',
+    source: { name: 'Open-Meteo flood API (GloFAS river model)', url: 'https://open-meteo.com/en/docs/flood-api' },
+
+    async getWaterConditions(lat: number, lon: number): Promise<WaterConditions> {
+      let json: any
+      try {
+        json = await cache.getOrLoad('open_meteo', `flood/${cell(lat, lon)}`, () =>
+          fetchJson(
+            fetchFn,
+            `${FLOOD_API}?latitude=${lat.toFixed(4)}&longitude=${lon.toFixed(4)}&daily=river_discharge&past_days=7&forecast_days=1`,
+            'flood'
+          )
+        )
+      } catch (err) {
+        console.warn('Open-Meteo river discharge unavailable', err)
+        return { summary: 'River discharge model unavailable', details: null }
+      }
+
+      const flows = ((json?.daily?.river_discharge ?? []) as Array<number | null>).filter((v): v is number => typeof v === 'number')
+      const latest = flows[flows.length - 1]
+      // Coastal and open-water cells come back empty or as a trickle
+      if (latest == null || latest <= 0) {
+        return { summary: 'No river nearby in the discharge model', details: null }
+      }
+
+      const first = flows[0]
+      const change7d = first > 0 ? Math.round(((latest - first) / first) * 100) : null
+      const trend = change7d == null ? 'trend unknown' : Math.abs(change7d) < STEADY_PCT ? 'steady' : change7d > 0 ? 'rising' : 'falling'
+      const cfs = Math.round(latest * CMS_TO_CFS)
+
+      return {
+        summary:
+          `Modeled river discharge (GloFAS, ~5 km grid): ${Math.round(latest * 10) / 10} m³/s (${cfs.toLocaleString('en-US')} cfs), ` +
+          `${trend}${change7d != null ? ` (${change7d > 0 ? '+' : ''}${change7d}% over 7 days)` : ''}; no gauge percentiles outside the U.S.`,
+        details: { discharge: String(cfs), temperature: null }
+      }
+    }
+  }
+}
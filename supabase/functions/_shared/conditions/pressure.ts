@@ -0,0 +1,110 @@
+import type { PressureHistory, PressureInfo, PressureReading } from './types.ts'
+
+const HOUR_MS = 60 * 60 * 1000
+const HPA_TO_INHG = 0.02953
+
+// Net change (hPa) below which a trend counts as steady
+const STEADY_24H = 2
+const STEADY_48H = 3
+
+// Front heuristics: a sharp 3h or sustained 24h fall ahead of a front; a rebound off a recent
+// low once it has passed (the classic post-frontal "bluebird" bite)
+const RAPID_FALL_3H = -2
+const FALL_24H = -4
+const REBOUND = 3
+
+const round1 = (n: number) => Math.round(n * 10) / 10
+
+/** Reading closest to `at` (epoch ms), if one is within 90 minutes */
+function readingNear(readings: PressureReading[], at: number): PressureReading | null {
+  let best: PressureReading | null = null
+  for (const r of readings) {
+    const diff = Math.abs(Date.parse(r.time) - at)
+    if (diff <= 1.5 * HOUR_MS && (!best || diff < Math.abs(Date.parse(best.time) - at))) best = r
+  }
+  return best
+}
+
+function trendOf(change: number | null, steady: number): PressureInfo['trend24h'] {
+  if (change == null) return 'unknown'
+  if (Math.abs(change) < steady) return 'steady'
+  return change > 0 ? 'rising' : 'falling'
+}
+
+function describeChange(change: number | null, window: string): string | null {
+  if (change == null) return null
+  if (change === 0) return `unchanged over ${window}`
+  return `${change > 0 ? 'up' : 'down'} ${Math.abs(change)} hPa over ${window}`
+}
+
+/** 3h / 24h / 48h changes, trend labels and a front flag from an observation history */
+export function analyzePressure({ station, readings }: PressureHistory): PressureInfo {
+  const sorted = readings
+    .filter((r) => Number.isFinite(r.pressureHpa) && !Number.isNaN(Date.parse(r.time)))
+    .sort((a, b) => Date.parse(a.time) - Date.parse(b.time))
+  const latest = sorted[sorted.length - 1]
+
+  if (!latest) {
+    return {
+      station,
+      observedAt: null,
+      currentHpa: null,
+      change3hHpa: null,
+      change24hHpa: null,
+      change48hHpa: null,
+      trend24h: 'unknown',
+      trend48h: 'unknown',
+      front: null,
+      summary: 'Pressure observations unavailable'
+    }
+  }
+
+  const now = Date.parse(latest.time)
+  const changeSince = (hours: number) => {
+    const past = readingNear(sorted, now - hours * HOUR_MS)
+    return past ? round1(latest.pressureHpa - past.pressureHpa) : null
+  }
+  const change3h = changeSince(3)
+  const change24h = changeSince(24)
+  const change48h = changeSince(48)
+
+  // Lowest reading of the last 24h, and how far pressure fell into it / has rebounded since
+  const lastDay = sorted.filter((r) => Date.parse(r.time) >= now - 24 * HOUR_MS)
+  const low = lastDay.reduce((min, r) => (r.pressureHpa < min.pressureHpa ? r : min), latest)
+  const fellInto = lastDay[0].pressureHpa - low.pressureHpa
+  const reboundSince = latest.pressureHpa - low.pressureHpa
+
+  let front: PressureInfo['front'] = null
+  if ((change3h != null && change3h <= RAPID_FALL_3H) || (change24h != null && change24h <= FALL_24H)) {
+    front = 'approaching'
+  } else if (fellInto >= STEADY_24H && reboundSince >= REBOUND && now - Date.parse(low.time) >= 3 * HOUR_MS) {
+    front = 'passed'
+  }
+
+  const trend24h = trendOf(change24h, STEADY_24H)
+  const current = round1(latest.pressureHpa)
+  const changes = [
+    describeChange(change48h, '48h'),
+    describeChange(change24h, '24h'),
+    describeChange(change3h, 'the last 3h')
+  ].filter(Boolean).join(', ')
+  const frontNote = front === 'approaching'
+    ? ' – falling fast, a front is likely approaching'
+    : front === 'passed'
+      ? ' – rebounding after a low, a front has likely just passed'
+      : ''
+  const label = trend24h === 'unknown' ? 'Pressure' : `${trend24h[0].toUpperCase()}${trend24h.slice(1)} pressure`
+
+  return {
+    station,
+    observedAt: latest.time,
+    currentHpa: current,
+    change3hHpa: change3h,
+    change24hHpa: change24h,
+    change48hHpa: change48h,
+    trend24h,
+    trend48h: trendOf(change48h, STEADY_48H),
+    front,
+    summary: `${label}: ${current} hPa (${(current * HPA_TO_INHG).toFixed(2)} inHg)${changes ? `, ${changes}` : ''}${station ? ` at ${station}` : ''}${frontNote}`
+  }
+}
@@ -0,0 +1,184 @@
+// Sun and moon rise/set/transit, moon illumination and solunar feeding periods, computed locally.
+//
+// Positions use the low-precision formulas from Meeus / "Astronomy on the Personal Computer"
+// (the same ones suncalc uses) – good to a minute or two for rise/set times, which is well within
+// the resolution anglers plan with. Events are found by scanning the local day in 10-minute steps
+// and interpolating the crossing.
+//
+// Solunar periods follow John Alden Knight's tables: the two major periods (about 2 hours) are
+// centred on the moon's upper transit (overhead) and lower transit (underfoot); the two minor
+// periods (about 1 hour) are centred on moonrise and moonset.
+import type { DataSource, SolunarInfo, SolunarPeriod } from './types.ts'
+
+const RAD = Math.PI / 180
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const J1970 = 2440588
+const J2000 = 2451545
+const OBLIQUITY = 23.4397 * RAD
+const SUN_DISTANCE_KM = 149598000
+
+// Altitude of the body's centre at rise/set: refraction + semi-diameter (sun), minus parallax (moon)
+const SUN_H0 = -0.8333 * RAD
+const MOON_H0 = 0.125 * RAD
+
+/** Attribution for the computed tables (no upstream service) */
+export const SOLUNAR_SOURCE: DataSource = { name: 'Computed locally (Meeus ephemeris, Knight solunar periods)' }
+
+const SCAN_STEP_MS = 10 * MINUTE_MS
+const MAJOR_HALF_MS = 60 * MINUTE_MS
+const MINOR_HALF_MS = 30 * MINUTE_MS
+
+interface Equatorial {
+  ra: number
+  dec: number
+  dist: number
+}
+
+/** Days since J2000.0 */
+const toDays = (ms: number) => ms / DAY_MS - 0.5 + J1970 - J2000
+
+function equatorial(longitude: number, latitude: number, dist: number): Equatorial {
+  return {
+    ra: Math.atan2(Math.sin(longitude) * Math.cos(OBLIQUITY) - Math.tan(latitude) * Math.sin(OBLIQUITY), Math.cos(longitude)),
+    dec: Math.asin(Math.sin(latitude) * Math.cos(OBLIQUITY) + Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude)),
+    dist
+  }
+}
+
+function sunCoords(d: number): Equatorial {
+  const M = RAD * (357.5291 + 0.98560028 * d)
+  const C = RAD * (1.9148 * Math.sin(M) + 0.02 * Math.sin(2 * M) + 0.0003 * Math.sin(3 * M))
+  return equatorial(M + C + RAD * 102.9372 + Math.PI, 0, SUN_DISTANCE_KM)
+}
+
+function moonCoords(d: number): Equatorial {
+  const L = RAD * (218.316 + 13.176396 * d) // mean longitude
+  const M = RAD * (134.963 + 13.064993 * d) // mean anomaly
+  const F = RAD * (93.272 + 13.22935 * d) // mean distance from the ascending node
+  return equatorial(L + RAD * 6.289 * Math.sin(M), RAD * 5.128 * Math.sin(F), 385001 - 20905 * Math.cos(M))
+}
+
+/** Wrap an angle into (-π, π] */
+const wrap = (angle: number) => ((((angle + Math.PI) % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI)) - Math.PI
+
+interface DayEvents {
+  rise: number | null
+  set: number | null
+  transit: number | null // upper (overhead)
+  antiTransit: number | null // lower (underfoot)
+}
+
+/** First rise, set, upper and lower transit of a body within [startMs, startMs + 24h) */
+function scanDay(coords: (d: number) => Equatorial, h0: number, startMs: number, lat: number, lon: number): DayEvents {
+  const phi = RAD * lat
+  const sample = (ms: number) => {
+    const d = toDays(ms)
+    const { ra, dec } = coords(d)
+    const hourAngle = wrap(RAD * (280.16 + 360.9856235 * d) + RAD * lon - ra)
+    const altitude = Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle))
+    return { above: altitude - h0, hourAngle }
+  }
+
+  const events: DayEvents = { rise: null, set: null, transit: null, antiTransit: null }
+  let prev = sample(startMs)
+  for (let t = startMs + SCAN_STEP_MS; t <= startMs + DAY_MS; t += SCAN_STEP_MS) {
+    const cur = sample(t)
+    const at = (fraction: number) => Math.round(t - SCAN_STEP_MS + fraction * SCAN_STEP_MS)
+
+    if (prev.above < 0 && cur.above >= 0) events.rise ??= at(prev.above / (prev.above - cur.above))
+    if (prev.above >= 0 && cur.above < 0) events.set ??= at(prev.above / (prev.above - cur.above))
+    if (prev.hourAngle < 0 && cur.hourAngle >= 0 && cur.hourAngle - prev.hourAngle < Math.PI) {
+      events.transit ??= at(-prev.hourAngle / (cur.hourAngle - prev.hourAngle))
+    }
+    // The hour angle wraps from +π to -π as the body passes underfoot
+    if (prev.hourAngle > 0 && cur.hourAngle < 0 && prev.hourAngle - cur.hourAngle > Math.PI) {
+      events.antiTransit ??= at((Math.PI - prev.hourAngle) / (cur.hourAngle + 2 * Math.PI - prev.hourAngle))
+    }
+    prev = cur
+  }
+  return events
+}
+
+/** Illuminated fraction and phase (0 new → 0.25 first quarter → 0.5 full → 0.75 last quarter) */
+function moonIllumination(ms: number): { fraction: number; phase: number } {
+  const d = toDays(ms)
+  const s = sunCoords(d)
+  const m = moonCoords(d)
+  const elongation = Math.acos(Math.sin(s.dec) * Math.sin(m.dec) + Math.cos(s.dec) * Math.cos(m.dec) * Math.cos(s.ra - m.ra))
+  const inc = Math.atan2(s.dist * Math.sin(elongation), m.dist - s.dist * Math.cos(elongation))
+  const angle = Math.atan2(
+    Math.cos(s.dec) * Math.sin(s.ra - m.ra),
+    Math.sin(s.dec) * Math.cos(m.dec) - Math.cos(s.dec) * Math.sin(m.dec) * Math.cos(s.ra - m.ra)
+  )
+  return {
+    fraction: (1 + Math.cos(inc)) / 2,
+    phase: 0.5 + (0.5 * inc * (angle < 0 ? -1 : 1)) / Math.PI
+  }
+}
+
+function phaseName(phase: number): string {
+  if (phase < 0.03 || phase >= 0.97) return 'New Moon'
+  if (phase < 0.22) return 'Waxing Crescent'
+  if (phase < 0.28) return 'First Quarter'
+  if (phase < 0.47) return 'Waxing Gibbous'
+  if (phase < 0.53) return 'Full Moon'
+  if (phase < 0.72) return 'Waning Gibbous'
+  if (phase < 0.78) return 'Last Quarter'
+  return 'Waning Crescent'
+}
+
+/** "-04:00" for -240 */
+function formatOffset(minutes: number): string {
+  const abs = Math.abs(minutes)
+  return `${minutes < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`
+}
+
+/**
+ * Solunar table for a local date (YYYY-MM-DD) at a point. `utcOffsetMinutes` is the location's
+ * offset on that date (e.g. -240 for EDT); times come back as local "YYYY-MM-DD HH:mm", the same
+ * shape as the CO-OPS tide times they are charted with.
+ */
+export function computeSolunar(lat: number, lon: number, date: string, utcOffsetMinutes: number): SolunarInfo {
+  const offsetMs = utcOffsetMinutes * MINUTE_MS
+  const startMs = Date.parse(`${date}T00:00:00Z`) - offsetMs
+  const local = (ms: number | null) => {
+    if (ms == null) return null
+    const iso = new Date(ms + offsetMs).toISOString()
+    return `${iso.slice(0, 10)} ${iso.slice(11, 16)}`
+  }
+  const around = (ms: number | null, half: number): SolunarPeriod[] =>
+    ms == null ? [] : [{ start: local(ms - half)!, end: local(ms + half)! }]
+  const byStart = (a: SolunarPeriod, b: SolunarPeriod) => a.start.localeCompare(b.start)
+
+  const sun = scanDay(sunCoords, SUN_H0, startMs, lat, lon)
+  const moon = scanDay(moonCoords, MOON_H0, startMs, lat, lon)
+  const { fraction, phase } = moonIllumination(startMs + DAY_MS / 2)
+
+  return {
+    date,
+    utcOffset: formatOffset(utcOffsetMinutes),
+    sunrise: local(sun.rise),
+    sunset: local(sun.set),
+    solarNoon: local(sun.transit),
+    moonrise: local(moon.rise),
+    moonset: local(moon.set),
+    moonOverhead: local(moon.transit),
+    moonUnderfoot: local(moon.antiTransit),
+    moonPhase: phaseName(phase),
+    illumination: Math.round(fraction * 100),
+    majorPeriods: [...around(moon.transit, MAJOR_HALF_MS), ...around(moon.antiTransit, MAJOR_HALF_MS)].sort(byStart),
+    minorPeriods: [...around(moon.rise, MINOR_HALF_MS), ...around(moon.set, MINOR_HALF_MS)].sort(byStart)
+  }
+}
+
+/** One line for the prompt: sun, moon, illumination and the feeding periods */
+export function describeSolunar(s: SolunarInfo): string {
+  const clock = (time: string | null) => time?.slice(11) ?? '—'
+  const periods = (list: SolunarPeriod[]) => list.map((p) => `${clock(p.start)}–${clock(p.end)}`).join(', ') || 'none'
+  return (
+    `Sunrise ${clock(s.sunrise)}, sunset ${clock(s.sunset)}; moonrise ${clock(s.moonrise)}, moonset ${clock(s.moonset)}; ` +
+    `${s.moonPhase} ${s.illumination}% lit; major periods ${periods(s.majorPeriods)}; minor periods ${periods(s.minorPeriods)} ` +
+    `(local time, UTC${s.utcOffset})`
+  )
+}
@@ -0,0 +1,126 @@
+// Provider interfaces for the external conditions plan_trip depends on. Each source
+// (geocoding, weather, hydrology, tides) is selected independently – see ./index.ts.
+import type {
+  DataSource,
+  GaugeInfo,
+  HourlyWeather,
+  MarineForecast,
+  MarinePeriod,
+  PressureInfo,
+  SolunarInfo,
+  SolunarPeriod,
+  TidalCurrent,
+  TideCurvePoint,
+  TideStation,
+  WeatherAlert
+} from '../contract.ts'
+
+export type {
+  DataSource,
+  GaugeInfo,
+  HourlyWeather,
+  MarineForecast,
+  MarinePeriod,
+  PressureInfo,
+  SolunarInfo,
+  SolunarPeriod,
+  TidalCurrent,
+  TideCurvePoint,
+  TideStation,
+  WeatherAlert
+}
+
+/** `fetch`-compatible function; providers take one so fixtures can replay recorded responses */
+export type FetchFn = (input: string | URL | Request, init?: RequestInit) => Promise<Response>
+
+export interface GeocodeResult {
+  lat: number
+  lon: number
+  displayName: string
+  /** ISO 3166-1 alpha-2, lower case ("us", "ca", "bs"); decides which conditions providers apply */
+  countryCode?: string
+  /** ISO 3166-2 subdivision, lower case ("us-fl"), when the geocoder reports one */
+  regionCode?: string
+}
+
+export interface GeocodingProvider {
+  name: string
+  geocode(location: string): Promise<GeocodeResult>
+}
+
+/** A forecast period in the NOAA weather.gov shape (other providers map onto it) */
+export interface ForecastPeriod {
+  name?: string
+  startTime: string
+  endTime: string
+  isDaytime: boolean
+  temperature?: number
+  temperatureUnit?: string
+  windSpeed?: string
+  windDirection?: string
+  shortForecast?: string
+  detailedForecast?: string
+  [key: string]: unknown
+}
+
+export interface WeatherProvider {
+  name: string
+  source: DataSource
+  getForecastPeriods(lat: number, lon: number): Promise<ForecastPeriod[]>
+  /** Hour-by-hour forecast (about 7 days), times in the location's local offset */
+  getHourlyForecast(lat: number, lon: number): Promise<HourlyWeather[]>
+  /** Observed pressure over roughly the last `hours` hours from the nearest reporting station */
+  getPressureHistory(lat: number, lon: number, hours: number): Promise<PressureHistory>
+  /** Marine zone forecast with wave height/period and active marine alerts; null away from the coast */
+  getMarineForecast(lat: number, lon: number): Promise<MarineForecast | null>
+  /** Active watches, warnings and advisories for the point; null where the provider has no alert feed */
+  getActiveAlerts(lat: number, lon: number): Promise<WeatherAlert[] | null>
+}
+
+export interface PressureReading {
+  time: string // ISO, UTC
+  pressureHpa: number
+}
+
+export interface PressureHistory {
+  station: string | null
+  readings: PressureReading[]
+}
+
+export interface WaterConditions {
+  summary: string
+  details: { discharge: string | null; temperature: string | null } | null
+  /** Nearest gauge with history and percentile context, when one reports discharge */
+  gauge?: GaugeInfo
+}
+
+export interface HydrologyProvider {
+  name: string
+  source: DataSource
+  getWaterConditions(lat: number, lon: number): Promise<WaterConditions>
+}
+
+export interface TideSummary {
+  summary: string
+  nextHigh: string
+  nextLow: string
+  extremes: Array<{ time: string; type: 'High' | 'Low'; height: number }>
+  station?: TideStation
+  datum?: string
+  curve?: TideCurvePoint[]
+  /** Only when a current-prediction station is close enough to be representative */
+  currents?: { station: TideStation; predictions: TidalCurrent[] }
+}
+
+export interface TideProvider {
+  name: string
+  source: DataSource
+  getTides(lat: number, lon: number, date: string): Promise<TideSummary>
+}
+
+export interface ConditionsProviders {
+  geocoding: GeocodingProvider
+  weather: WeatherProvider
+  hydrology: HydrologyProvider
+  tides: TideProvider
+}
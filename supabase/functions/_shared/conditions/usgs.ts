@@ -0,0 +1,282 @@
+import type { FetchFn, GaugeInfo, HydrologyProvider, WaterConditions } from './types.ts'
+import { noCache, type Cache } from '../cache.ts'
+import { haversineKm } from './coops.ts'
+
+const NWIS = 'https://waterservices.usgs.gov/nwis'
+const DISCHARGE = '00060' // cubic feet / sec
+const TEMPERATURE = '00010' // deg C
+
+// Search box around the trip point (0.25 deg ≈ 28 km); the nearest gauge inside it is used
+const SEARCH_DEG = 0.25
+
+// Change (%) under which a trend counts as steady
+const STEADY_PCT = 10
+
+/** One day's flow statistics (cfs) from the NWIS daily-statistics service */
+interface DailyStat {
+  month: number
+  day: number
+  min: number | null
+  max: number | null
+  percentiles: Array<[number, number]> // [percentile, cfs], ascending
+}
+
+interface GaugeSite {
+  id: string
+  name: string
+  lat: number
+  lon: number
+  hasDischarge: boolean
+}
+
+const FLOW_CATEGORY: Record<NonNullable<GaugeInfo['flowCategory']>, { label: string; note: string }> = {
+  much_below: { label: 'much below normal', note: 'very low and likely clear and warm – fish deeper holes and riffles in low light' },
+  below: { label: 'below normal', note: 'running low – expect clear water and spooky fish' },
+  normal: { label: 'normal', note: 'typical flow for the date' },
+  above: { label: 'above normal', note: 'running high – expect stained water' },
+  much_above: { label: 'much above normal', note: 'running high and likely off-color – wade with caution' }
+}
+
+/** USGS WaterWatch classes */
+function categorize(percentile: number): NonNullable<GaugeInfo['flowCategory']> {
+  if (percentile < 10) return 'much_below'
+  if (percentile < 25) return 'below'
+  if (percentile <= 75) return 'normal'
+  if (percentile <= 90) return 'above'
+  return 'much_above'
+}
+
+/** Percentile of `cfs` by linear interpolation through min / p05…p95 / max */
+function percentileOf(cfs: number, stat: DailyStat): number | null {
+  const points: Array<[number, number]> = [
+    ...(stat.min != null ? [[0, stat.min] as [number, number]] : []),
+    ...stat.percentiles,
+    ...(stat.max != null ? [[100, stat.max] as [number, number]] : [])
+  ]
+  if (points.length < 2) return null
+  if (cfs <= points[0][1]) return points[0][0]
+  for (let i = 1; i < points.length; i++) {
+    const [p0, v0] = points[i - 1]
+    const [p1, v1] = points[i]
+    if (cfs <= v1) return Math.round(v1 === v0 ? p1 : p0 + ((cfs - v0) / (v1 - v0)) * (p1 - p0))
+  }
+  return points[points.length - 1][0]
+}
+
+/** Tab-delimited RDB → rows keyed by header (comment and column-format lines skipped) */
+function parseRdb(text: string): Array<Record<string, string>> {
+  const lines = text.split('\n').filter((line) => line.trim() && !line.startsWith('#'))
+  const [header, , ...rows] = lines
+  if (!header) return []
+  const columns = header.split('\t')
+  return rows.map((row) => Object.fromEntries(row.split('\t').map((value, i) => [columns[i], value.trim()])))
+}
+
+const numberOrNull = (value: string | undefined) => {
+  const n = value == null || value === '' ? NaN : Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/** Valid readings of a series, oldest first (NWIS marks gaps with -999999) */
+function readings(ts: any): Array<{ time: string; value: number }> {
+  return ((ts?.values?.[0]?.value ?? []) as Array<any>)
+    .map((v) => ({ time: v.dateTime as string, value: Number(v.value) }))
+    .filter((v) => typeof v.time === 'string' && Number.isFinite(v.value) && v.value > -999999)
+}
+
+/** 83 → "83rd" */
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'
+  return `${n}${suffix}`
+}
+
+const pctChange = (now: number, then: number | undefined) =>
+  then == null || then === 0 ? null : Math.round(((now - then) / then) * 100)
+
+/** Nearby USGS water conditions: nearest gauge, its 7-day hydrograph and today's flow percentile */
+export function createUsgsHydrologyProvider(fetchFn: FetchFn = fetch, cache: Cache = noCache): HydrologyProvider {
+  /** Instantaneous-value time series for a query ([] when there are no gauges) */
+  async function loadTimeSeries(query: string): Promise<Array<any>> {
+    const url = `${NWIS}/iv/?format=json&${query}`
+    let resp
+    try {
+      resp = await fetchFn(url)
+    } catch (netErr) {
+      console.warn('USGS request network error', netErr)
+      throw new Error('USGS service unreachable')
+    }
+
+    if (!resp.ok) {
+      // USGS sometimes returns 400 for areas with no gauges; treat gracefully
+      if (resp.status === 400) return []
+      console.warn('USGS request failed', resp.status)
+      throw new Error('USGS service unavailable')
+    }
+
+    let json: any
+    try {
+      json = await resp.json()
+    } catch (_err) {
+      console.warn('USGS returned non-JSON')
+      throw new Error('No water data (invalid response)')
+    }
+    return (json?.value?.timeSeries as Array<any>) ?? []
+  }
+
+  /** Daily flow statistics for every calendar day at a site */
+  function loadDailyStats(siteId: string): Promise<DailyStat[]> {
+    return cache.getOrLoad('usgs_stats', `${siteId}:${DISCHARGE}`, async () => {
+      const url = `${NWIS}/stat/?format=rdb&sites=${siteId}&statReportType=daily&statTypeCd=all&parameterCd=${DISCHARGE}`
+      const resp = await fetchFn(url)
+      if (resp.status === 404) return [] // no statistics computed for this site
+      if (!resp.ok) throw new Error(`USGS statistics request failed (${resp.status})`)
+
+      const byDay = new Map<string, DailyStat>()
+      for (const row of parseRdb(await resp.text())) {
+        const key = `${row.month_nu}-${row.day_nu}`
+        if (byDay.has(key)) continue // sites with several series: keep the first
+        byDay.set(key, {
+          month: Number(row.month_nu),
+          day: Number(row.day_nu),
+          min: numberOrNull(row.min_va),
+          max: numberOrNull(row.max_va),
+          percentiles: [5, 10, 20, 25, 50, 75, 80, 90, 95].flatMap((p): Array<[number, number]> => {
+            const cfs = numberOrNull(row[`p${String(p).padStart(2, '0')}_va`])
+            return cfs == null ? [] : [[p, cfs]]
+          })
+        })
+      }
+      return [...byDay.values()]
+    })
+  }
+
+  async function describeGauge(site: GaugeSite, distanceKm: number, bboxSeries: Array<any>): Promise<GaugeInfo> {
+    const [week, stats] = await Promise.all([
+      cache.getOrLoad('usgs_iv', `site/${site.id}/P7D`, () =>
+        loadTimeSeries(`sites=${site.id}&parameterCd=${DISCHARGE},${TEMPERATURE}&period=P7D&siteStatus=all`)
+      ),
+      loadDailyStats(site.id).catch((err) => {
+        console.warn('USGS statistics unavailable', err)
+        return [] as DailyStat[]
+      })
+    ])
+
+    const seriesFor = (series: Array<any>, code: string) =>
+      series.find((ts) => ts?.variable?.variableCode?.[0]?.value === code && ts?.sourceInfo?.siteCode?.[0]?.value === site.id)
+
+    // Fall back to the latest value from the area lookup if the 7-day query came back empty
+    const flow = readings(seriesFor(week, DISCHARGE) ?? seriesFor(bboxSeries, DISCHARGE))
+    const temps = readings(seriesFor(week, TEMPERATURE) ?? seriesFor(bboxSeries, TEMPERATURE))
+    const latest = flow[flow.length - 1]
+    const latestMs = latest ? Date.parse(latest.time) : NaN
+    const valueHoursAgo = (hours: number) =>
+      flow.find((v) => Date.parse(v.time) >= latestMs - hours * 60 * 60 * 1000)?.value
+
+    // Hourly points for the sparkline (first reading in each hour)
+    const seenHours = new Set<string>()
+    const history = flow.flatMap((v) => {
+      const hour = v.time.slice(0, 13)
+      if (seenHours.has(hour)) return []
+      seenHours.add(hour)
+      return [{ time: v.time, dischargeCfs: v.value }]
+    })
+
+    const change24h = latest ? pctChange(latest.value, valueHoursAgo(24)) : null
+    const change7d = latest ? pctChange(latest.value, flow[0]?.value) : null
+    const trendBasis = change24h ?? change7d
+    const trend: GaugeInfo['trend'] =
+      trendBasis == null ? 'unknown' : Math.abs(trendBasis) < STEADY_PCT ? 'steady' : trendBasis > 0 ? 'rising' : 'falling'
+
+    // Compare with the statistics for the reading's calendar day (local to the gauge)
+    const month = latest ? Number(latest.time.slice(5, 7)) : NaN
+    const day = latest ? Number(latest.time.slice(8, 10)) : NaN
+    const todayStat = stats.find((s) => s.month === month && s.day === day)
+    const percentile = latest && todayStat ? percentileOf(latest.value, todayStat) : null
+    const flowCategory = percentile == null ? null : categorize(percentile)
+    const at = (p: number) => todayStat?.percentiles.find(([q]) => q === p)?.[1]
+    const [p25, p50, p75] = [at(25), at(50), at(75)]
+
+    const waterTempC = temps.length ? temps[temps.length - 1].value : null
+    const dateLabel = latest ? new Date(`${latest.time.slice(0, 10)}T12:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }) : ''
+    const parts = [
+      latest
+        ? `${latest.value} cfs, ${trend === 'unknown' ? 'trend unknown' : trend}${change7d != null ? ` (${change7d > 0 ? '+' : ''}${change7d}% over 7 days)` : ''}`
+        : 'no recent discharge',
+      percentile != null && flowCategory
+        ? `${ordinal(percentile)} percentile for ${dateLabel} – ${FLOW_CATEGORY[flowCategory].label}, ${FLOW_CATEGORY[flowCategory].note}`
+        : null,
+      waterTempC != null ? `water ${waterTempC} °C` : null
+    ].filter(Boolean)
+
+    return {
+      site: { id: site.id, name: site.name, distanceKm: Math.round(distanceKm * 10) / 10 },
+      observedAt: latest?.time ?? null,
+      dischargeCfs: latest?.value ?? null,
+      waterTempC,
+      change24hPct: change24h,
+      change7dPct: change7d,
+      trend,
+      percentile,
+      flowCategory,
+      normalRange: p25 != null && p50 != null && p75 != null ? { p25, p50, p75 } : null,
+      history,
+      summary: `${site.name} (USGS ${site.id}, ${Math.round(distanceKm * 10) / 10} km away): ${parts.join('; ')}`
+    }
+  }
+
+  return {
+    name: 'usgs',
+    source: { name: 'USGS Water Data', url: 'https://waterdata.usgs.gov' },
+    async getWaterConditions(lat: number, lon: number): Promise<WaterConditions> {
+      const bbox = [lon - SEARCH_DEG, lat - SEARCH_DEG, lon + SEARCH_DEG, lat + SEARCH_DEG].map((v) => v.toFixed(4)).join(',')
+
+      let series: Array<any>
+      try {
+        series = await cache.getOrLoad('usgs_iv', bbox, () =>
+          loadTimeSeries(`bBox=${bbox}&parameterCd=${TEMPERATURE},${DISCHARGE}&siteType=ST&siteStatus=active`)
+        )
+      } catch (err) {
+        // Failures carry the summary shown to the user; they are never cached
+        return { summary: (err as Error).message, details: null }
+      }
+      if (!series.length) {
+        return { summary: 'No nearby water gauge data', details: null }
+      }
+
+      // Sites in the box; gauges that report discharge are preferred over temperature-only ones
+      const sites = new Map<string, GaugeSite>()
+      for (const ts of series) {
+        const id = ts?.sourceInfo?.siteCode?.[0]?.value
+        const geo = ts?.sourceInfo?.geoLocation?.geogLocation
+        if (!id || !geo || !readings(ts).length) continue
+        const site = sites.get(id) ?? { id, name: ts.sourceInfo.siteName ?? id, lat: Number(geo.latitude), lon: Number(geo.longitude), hasDischarge: false }
+        if (ts?.variable?.variableCode?.[0]?.value === DISCHARGE) site.hasDischarge = true
+        sites.set(id, site)
+      }
+      const ranked = [...sites.values()]
+        .map((site) => ({ site, distanceKm: haversineKm(lat, lon, site.lat, site.lon) }))
+        .sort((a, b) => Number(b.site.hasDischarge) - Number(a.site.hasDischarge) || a.distanceKm - b.distanceKm)
+      const nearest = ranked[0]
+      if (!nearest) {
+        return { summary: 'No recent discharge or temp data', details: null }
+      }
+
+      let gauge: GaugeInfo
+      try {
+        gauge = await describeGauge(nearest.site, nearest.distanceKm, series)
+      } catch (err) {
+        console.warn('USGS gauge history unavailable', err)
+        return { summary: (err as Error).message, details: null }
+      }
+
+      return {
+        summary: gauge.summary,
+        details: {
+          discharge: gauge.dischargeCfs != null ? String(gauge.dischargeCfs) : null,
+          temperature: gauge.waterTempC != null ? String(gauge.waterTempC) : null
+        },
+        gauge
+      }
+    }
+  }
+}
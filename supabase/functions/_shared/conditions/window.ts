@@ -0,0 +1,33 @@
+// Date and trip-window helpers shared by the functions that line conditions up with a trip
+import type { HourlyWeather } from './types.ts'
+
+/** Expand a start date (YYYY-MM-DD) into one date per trip day */
+export function getTripDates(startDate: string, numDays = 1): string[] {
+  const start = new Date(`${startDate}T00:00:00Z`)
+  return Array.from({ length: Math.max(1, numDays) }, (_, i) => {
+    const d = new Date(start)
+    d.setUTCDate(start.getUTCDate() + i)
+    return d.toISOString().slice(0, 10)
+  })
+}
+
+/**
+ * Hourly forecast rows inside the trip window on the given date. Times are compared in the
+ * forecast's local time; a window ending before it starts (overnight trip) runs into the next day.
+ */
+export function pickHoursForWindow(hours: HourlyWeather[], date: string, startTime = '06:00', endTime = '18:00'): HourlyWeather[] {
+  const from = `${date}T${startTime.slice(0, 2)}:00` // include the hour the trip starts in
+  const to = `${endTime > startTime ? date : getTripDates(date, 2)[1]}T${endTime}`
+  return hours.filter((h) => h.time.slice(0, 16) >= from && h.time.slice(0, 16) <= to)
+}
+
+/**
+ * UTC offset (minutes) at the trip location on a date. The hourly forecast carries the local
+ * offset; past its ~7-day range (or without one) fall back to the nominal offset for the longitude.
+ */
+export function utcOffsetMinutes(hours: HourlyWeather[], date: string, lon: number): number {
+  const sample = hours.find((h) => h.time.startsWith(date)) ?? hours[0]
+  const match = sample && /([+-])(\d{2}):(\d{2})$/.exec(sample.time)
+  if (!match) return Math.round(lon / 15) * 60
+  return (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3]))
+}
@@ -0,0 +1,816 @@
+// Shared request/response contract between the Supabase edge functions and the React app.
+//
+// This file is imported by Deno (`../_shared/contract.ts`) and by Vite/tsc from `src/`, so it
+// must stay runtime-agnostic: no Deno globals, no remote imports. `zod` resolves through
+// supabase/functions/import_map.json (npm:zod) in Deno and through node_modules in the app.
+import { z } from 'zod'
+
+// ------------------------------
+// Itinerary building blocks
+// ------------------------------
+
+export const restrictedAreaKindSchema = z.enum(['marine_reserve', 'no_take', 'no_wake', 'closure', 'private_land', 'other'])
+
+/** A problem the geofence check in plan_trip found with a point of interest */
+export const pointFlagSchema = z.object({
+  reason: z.enum(['closed_area', 'restricted_area', 'dry_land']),
+  message: z.string(),
+  area: z
+    .object({
+      id: z.string(),
+      name: z.string(),
+      kind: restrictedAreaKindSchema,
+      sourceUrl: z.string().nullable()
+    })
+    .optional()
+})
+
+export const waypointSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  coordinates: z.tuple([
+    z.number().min(-180).max(180), // lon
+    z.number().min(-90).max(90) // lat
+  ]),
+  description: z.string(),
+  techniques: z.array(z.string()),
+  flags: z.array(pointFlagSchema).optional(), // set by the geofence check, never by the model
+  // Legacy fields from the original waypoint model – not requested from the model any more
+  type: z.enum(['launch', 'fishing', 'landing']).optional(),
+  bestTime: z.string().optional()
+})
+
+export const decisionStepSchema = z.object({
+  condition: z.string().min(1),
+  action: z.string().min(1),
+  goNoGo: z.boolean().optional() // the launch / don't-launch rule on boat trips
+})
+
+/** Free-form conditions block: always a human-readable summary, optionally structured detail */
+export const weatherInfoSchema = z
+  .object({
+    summary: z.string(),
+    high: z.string().optional(),
+    low: z.string().optional(),
+    precipitation: z.string().optional(),
+    cloudCover: z.string().optional(),
+    wind: z.string().optional(),
+    details: z.unknown().optional()
+  })
+  .passthrough()
+
+/** One forecast hour inside the trip window (NOAA hourly forecast + gridpoint gusts/sky cover) */
+export const hourlyWeatherSchema = z.object({
+  time: z.string(), // local ISO time with UTC offset, e.g. 2025-06-07T06:00:00-04:00
+  temperatureF: z.number().nullable(),
+  windMph: z.number().nullable(),
+  windGustMph: z.number().nullable(),
+  windDirection: z.string().nullable(),
+  precipitationChance: z.number().nullable(), // %
+  skyCover: z.number().nullable(), // %
+  shortForecast: z.string().nullable()
+})
+
+export const pressureTrendSchema = z.enum(['rising', 'falling', 'steady', 'unknown'])
+
+/** Barometric pressure trend from the nearest NWS observation station (hPa) */
+export const pressureInfoSchema = z.object({
+  station: z.string().nullable(), // e.g. KTPA
+  observedAt: z.string().nullable(),
+  currentHpa: z.number().nullable(),
+  change3hHpa: z.number().nullable(),
+  change24hHpa: z.number().nullable(),
+  change48hHpa: z.number().nullable(),
+  trend24h: pressureTrendSchema,
+  trend48h: pressureTrendSchema,
+  front: z.enum(['approaching', 'passed']).nullable(), // inferred from the pressure curve
+  summary: z.string()
+})
+
+/** An active NWS alert (CAP) for the trip's point or marine zone */
+export const weatherAlertSchema = z.object({
+  id: z.string(),
+  event: z.string(), // e.g. "Small Craft Advisory", "Gale Warning"
+  severity: z.enum(['Extreme', 'Severe', 'Moderate', 'Minor', 'Unknown']),
+  headline: z.string().nullable(),
+  description: z.string().nullable(),
+  instruction: z.string().nullable(),
+  onset: z.string().nullable(), // ISO
+  ends: z.string().nullable()
+})
+
+/** Active alerts for the trip location as of `checkedAt`; the app re-checks them when the trip is reopened */
+export const hazardInfoSchema = z.object({
+  lat: z.number(),
+  lon: z.number(),
+  alerts: z.array(weatherAlertSchema),
+  checkedAt: z.string() // ISO
+})
+
+/** How realistic each target species is for the trip's location, month and water temperature (see _shared/species.ts) */
+export const speciesOutlookSchema = z.object({
+  species: z.string(),
+  verdict: z.enum(['good', 'fair', 'long_shot', 'impossible', 'unknown']),
+  reasons: z.array(z.string())
+})
+
+/** Points of interest the geofence check removed (closed area or dry land) after the model could not move them */
+export const geofenceCheckSchema = z.object({
+  checkedAt: z.string(), // ISO
+  dropped: z.array(
+    z.object({
+      name: z.string(),
+      coordinates: z.tuple([z.number(), z.number()]), // lon, lat
+      day: z.number().int().optional(), // multi-day trips: the day the point belonged to
+      flags: z.array(pointFlagSchema)
+    })
+  )
+})
+
+/** One period of a marine zone forecast, with the seas parsed out of the text */
+export const marinePeriodSchema = z.object({
+  name: z.string(), // e.g. "Today", "Tonight"
+  forecast: z.string(),
+  windKt: z.object({ min: z.number(), max: z.number() }).nullable(),
+  waveHeightFt: z.object({ min: z.number(), max: z.number() }).nullable(),
+  wavePeriodSec: z.number().nullable()
+})
+
+/** Marine forecast and active marine alerts for boat trips (NWS coastal / Great Lakes zones, or the global wave model) */
+export const marineForecastSchema = z.object({
+  zone: z.object({ id: z.string(), name: z.string() }).nullable(),
+  periods: z.array(marinePeriodSchema),
+  alerts: z.array(weatherAlertSchema),
+  summary: z.string()
+})
+
+export const waterInfoSchema = z
+  .object({
+    summary: z.string(),
+    details: z.unknown().optional()
+  })
+  .passthrough()
+
+/** Nearest USGS stream gauge: latest flow, 7-day hydrograph and where today's flow sits historically */
+export const gaugeInfoSchema = z.object({
+  site: z.object({
+    id: z.string(), // USGS site number, e.g. 02304500
+    name: z.string(),
+    distanceKm: z.number()
+  }),
+  observedAt: z.string().nullable(),
+  dischargeCfs: z.number().nullable(),
+  waterTempC: z.number().nullable(),
+  change24hPct: z.number().nullable(),
+  change7dPct: z.number().nullable(),
+  trend: z.enum(['rising', 'falling', 'steady', 'unknown']),
+  percentile: z.number().nullable(), // of daily mean flows on this calendar day
+  flowCategory: z.enum(['much_below', 'below', 'normal', 'above', 'much_above']).nullable(), // USGS WaterWatch classes
+  normalRange: z.object({ p25: z.number(), p50: z.number(), p75: z.number() }).nullable(), // cfs, today's date
+  history: z.array(z.object({ time: z.string(), dischargeCfs: z.number() })), // hourly, last 7 days
+  summary: z.string()
+})
+
+export const tideExtremeSchema = z.object({
+  time: z.string(),
+  type: z.enum(['High', 'Low']),
+  height: z.number()
+})
+
+/** Station (or model grid cell) a prediction came from; times are its local time (YYYY-MM-DD HH:mm) */
+export const tideStationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  distanceKm: z.number()
+})
+
+export const tideCurvePointSchema = z.object({
+  time: z.string(),
+  height: z.number() // ft above the tide info's datum
+})
+
+export const tidalCurrentSchema = z.object({
+  time: z.string(),
+  type: z.enum(['flood', 'ebb', 'slack']),
+  velocityKnots: z.number(), // + flood, - ebb
+  direction: z.number().nullable() // degrees true the water is flowing toward
+})
+
+export const tideInfoSchema = z.object({
+  nextHigh: z.string(),
+  nextLow: z.string(),
+  extremes: z.array(tideExtremeSchema).optional(),
+  station: tideStationSchema.optional(),
+  datum: z.string().optional(), // heights are relative to this: MLLW (NOAA stations) or MSL (global tide model)
+  curve: z.array(tideCurvePointSchema).optional(), // water level through the day (6-minute for NOAA, hourly for the model)
+  currents: z
+    .object({
+      station: tideStationSchema,
+      predictions: z.array(tidalCurrentSchema) // max flood / max ebb / slack events
+    })
+    .optional()
+})
+
+/** Attribution for one block of conditions, shown with it in the app */
+export const dataSourceSchema = z.object({
+  name: z.string(),
+  url: z.string().optional()
+})
+
+/** Where each block came from – U.S. trips use NOAA/USGS, everywhere else global models */
+export const conditionsSourcesSchema = z.object({
+  weather: dataSourceSchema.optional(), // forecast, hourly timeline and pressure
+  water: dataSourceSchema.optional(),
+  tides: dataSourceSchema.optional(),
+  solunar: dataSourceSchema.optional()
+})
+
+export const solunarPeriodSchema = z.object({
+  start: z.string(), // local YYYY-MM-DD HH:mm
+  end: z.string()
+})
+
+/** Sun/moon events and solunar feeding periods for one day, computed in plan_trip (no API) */
+export const solunarInfoSchema = z.object({
+  date: z.string(),
+  utcOffset: z.string(), // e.g. -04:00; every time below is local to it
+  sunrise: z.string().nullable(),
+  sunset: z.string().nullable(),
+  solarNoon: z.string().nullable(),
+  moonrise: z.string().nullable(),
+  moonset: z.string().nullable(),
+  moonOverhead: z.string().nullable(),
+  moonUnderfoot: z.string().nullable(),
+  moonPhase: z.string(),
+  illumination: z.number(), // % of the disc lit
+  majorPeriods: z.array(solunarPeriodSchema), // ~2h around moon overhead / underfoot
+  minorPeriods: z.array(solunarPeriodSchema) // ~1h around moonrise / moonset
+})
+
+/** The trip's local start/end times (HH:mm), for shading charts */
+export const tripWindowSchema = z.object({
+  startTime: z.string(),
+  endTime: z.string()
+})
+
+const monthDay = z.string().regex(/^\d{2}-\d{2}$/) // MM-DD
+
+/** One rule from the regulations table, as attached to an itinerary */
+export const regulationRuleSchema = z.object({
+  species: z.string().nullable(), // null: every species (licenses, area closures)
+  waterbody: z.string().nullable(), // null: jurisdiction-wide
+  season: z.object({ start: monthDay, end: monthDay }).nullable(), // null: all year
+  bagLimit: z.number().int().nullable(),
+  minLengthIn: z.number().nullable(),
+  maxLengthIn: z.number().nullable(),
+  closed: z.boolean(),
+  licenseRequired: z.boolean().nullable(),
+  notes: z.string().nullable(),
+  sourceUrl: z.string(),
+  lastVerified: z.string() // YYYY-MM-DD
+})
+
+/**
+ * Regulations for the trip. New trips carry `rules` matched from the regulations table;
+ * `catchLimits` / `sizeLimits` / `closedAreas` only exist on older, model-written trips.
+ */
+export const regulationInfoSchema = z.object({
+  licenseRequired: z.boolean(),
+  jurisdiction: z.string().optional(), // e.g. "us-fl"
+  rules: z.array(regulationRuleSchema).optional(),
+  catchLimits: z.record(z.number()).optional(),
+  sizeLimits: z.record(z.object({ min: z.number(), max: z.number() })).optional(),
+  closedAreas: z.array(z.string()).optional()
+})
+
+// ------------------------------
+// Model output (validated in plan_trip before anything is stored)
+// ------------------------------
+
+export const generatedDaySchema = z.object({
+  day: z.number().int().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  summary: z.string(),
+  pointsOfInterest: z.array(waypointSchema).min(1),
+  decisionTree: z.array(decisionStepSchema).min(1)
+})
+
+/** What the model must return. Conditions (tides, moon phase) are attached server-side. */
+export const generatedItinerarySchema = z.object({
+  summary: z.string().min(1),
+  pointsOfInterest: z.array(waypointSchema).min(1),
+  decisionTree: z.array(decisionStepSchema).min(1),
+  weather: weatherInfoSchema,
+  water: waterInfoSchema,
+  gear: z.array(z.string()),
+  checklist: z.array(z.string()),
+  tips: z.array(z.string()),
+  days: z.array(generatedDaySchema).optional()
+})
+
+// ------------------------------
+// Stored itinerary (model output + server-fetched conditions)
+// ------------------------------
+
+export const dayPlanSchema = generatedDaySchema.partial({ summary: true, pointsOfInterest: true, decisionTree: true }).extend({
+  weather: weatherInfoSchema.optional(),
+  hourlyWeather: z.array(hourlyWeatherSchema).optional(),
+  tides: tideInfoSchema.optional(),
+  moonPhase: z.string().optional(),
+  solunar: solunarInfoSchema.optional()
+})
+
+export const tripItinerarySchema = generatedItinerarySchema.extend({
+  hourlyWeather: z.array(hourlyWeatherSchema).optional(), // trip window on the first day
+  pressure: pressureInfoSchema.optional(), // as of generation time
+  gauge: gaugeInfoSchema.optional(),
+  marine: marineForecastSchema.optional(), // boat trips
+  hazards: hazardInfoSchema.optional(), // U.S. locations (NWS alerts)
+  geofence: geofenceCheckSchema.optional(), // absent when the check could not run
+  speciesOutlook: z.array(speciesOutlookSchema).optional(), // impossible species are left out of the plan
+  tripWindow: tripWindowSchema.optional(),
+  tides: tideInfoSchema.optional(),
+  moonPhase: z.string().optional(),
+  solunar: solunarInfoSchema.optional(), // first day
+  regulations: regulationInfoSchema.optional(),
+  sources: conditionsSourcesSchema.optional(),
+  days: z.array(dayPlanSchema).optional(),
+  waypoints: z.array(waypointSchema).optional() // deprecated – older stored trips only
+})
+
+// ------------------------------
+// Function requests / responses
+// ------------------------------
+
+const invalid = (message: string) => ({ errorMap: () => ({ message }) })
+
+/** plan_trip request body. Error messages double as the client-facing 400 messages. */
+export const planTripRequestSchema = z.object({
+  location: z.string(invalid('Invalid location')).min(1).max(200),
+  date: z.string(invalid('Invalid date format')).regex(/^\d{4}-\d{2}-\d{2}$/),
+  targetSpecies: z
+    .array(z.string(invalid('Invalid target species selection')).transform((s) => s.slice(0, 50)), invalid('Invalid target species selection'))
+    .min(1)
+    .max(5),
+  duration: z.enum(['half-day', 'full-day', 'multi-day', 'custom']).optional(),
+  startTime: z.string(invalid('Invalid start time format')).regex(/^\d{2}:\d{2}$/).optional(),
+  endTime: z.string(invalid('Invalid end time format')).regex(/^\d{2}:\d{2}$/).optional(),
+  experience: z.enum(['beginner', 'intermediate', 'expert'], invalid('Invalid experience level')),
+  styles: z.array(z.enum(['fly', 'spin', 'cast'], invalid('Invalid fishing styles')), invalid('Invalid fishing styles')).min(1).optional(),
+  platform: z.enum(['shore', 'boat'], invalid('Invalid platform')).optional(),
+  numDays: z.number(invalid('Invalid number of days')).int().min(2).max(14).nullish()
+})
+
+export const planTripResponseSchema = z.object({
+  plan_id: z.string(),
+  itinerary: tripItinerarySchema,
+  generated_at: z.string()
+})
+
+/**
+ * plan_trip with `mode: 'job'` answers 202 with a job id and generates in the background.
+ * `mode: 'stream'` also creates a job, but answers with Server-Sent Events (see TripStreamEvent).
+ */
+export const planTripJobRequestSchema = planTripRequestSchema.extend({
+  mode: z.enum(['job', 'stream'])
+})
+
+export const submitTripJobResponseSchema = z.object({
+  job_id: z.string()
+})
+
+/** Pipeline stages in the order they normally complete (weather and tides are fetched in parallel) */
+export const TRIP_JOB_STAGES = ['queued', 'geocoded', 'weather_fetched', 'tides_fetched', 'generating', 'validating', 'completed'] as const
+
+export const tripJobStageSchema = z.enum(TRIP_JOB_STAGES)
+
+export const tripJobStatusSchema = z.enum(['pending', 'running', 'succeeded', 'failed'])
+
+/**
+ * plan_trip touches a job's updated_at at every stage; a pending/running job idle for longer
+ * than this has lost its worker and is treated as failed (see fail_stale_trip_jobs)
+ */
+export const STALE_TRIP_JOB_MINUTES = 10
+
+/** A trip_jobs row as the app reads it (select / Realtime payload) */
+export const tripJobSchema = z.object({
+  id: z.string(),
+  status: tripJobStatusSchema,
+  stage: tripJobStageSchema,
+  progress: z.array(z.object({ stage: tripJobStageSchema, at: z.string() })),
+  plan_id: z.string().nullable(),
+  result: planTripResponseSchema.nullable(),
+  error: z.string().nullable(),
+  error_code: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string()
+})
+
+/**
+ * Final event of a streamed generation. The app assembles the model's sections itself; `overlay`
+ * carries the fetched conditions (hourly weather, pressure, stream gauge, marine forecast, weather alerts, regulations, tides, moon/solunar, per-day plans, trip window)
+ * and their sources that plan_trip merges on top, plus the geofence-checked points of interest and the species outlook.
+ */
+export const tripStreamDoneSchema = z.object({
+  plan_id: z.string(),
+  generated_at: z.string(),
+  overlay: tripItinerarySchema.pick({
+    pointsOfInterest: true,
+    hourlyWeather: true,
+    pressure: true,
+    gauge: true,
+    marine: true,
+    hazards: true,
+    geofence: true,
+    speciesOutlook: true,
+    regulations: true,
+    tides: true,
+    moonPhase: true,
+    solunar: true,
+    days: true,
+    tripWindow: true,
+    sources: true
+  })
+})
+
+export const rescheduleRequestSchema = z.object({
+  plan_id: z.string().min(1).max(100),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+})
+
+// ------------------------------
+// Discovery (discover_waters)
+// ------------------------------
+
+/** Days one discovery search may span – about as far as the hourly forecast reaches */
+export const MAX_DISCOVERY_DAYS = 7
+
+const isoDate = (message: string) => z.string(invalid(message)).regex(/^\d{4}-\d{2}-\d{2}$/)
+
+/** Inclusive day count of a YYYY-MM-DD range (0 or less when it runs backwards) */
+const daysInRange = (startDate: string, endDate: string) => (Date.parse(endDate) - Date.parse(startDate)) / 86_400_000 + 1
+
+export const habitatSchema = z.enum(['fresh', 'brackish', 'salt'])
+
+/** One factor of a day's conditions score (see _shared/scoring.ts) */
+export const scoreFactorSchema = z.object({
+  factor: z.enum(['wind', 'rain', 'pressure', 'tide', 'flow', 'solunar', 'season']),
+  score: z.number().min(0).max(1),
+  reason: z.string()
+})
+
+/** Conditions score (0–100) for one water on one date, with the factors behind it */
+export const dayScoreSchema = z.object({
+  date: z.string(),
+  score: z.number(),
+  factors: z.array(scoreFactorSchema)
+})
+
+/** discover_waters: rank the waters within a drive of home for the species and dates */
+export const discoverWatersRequestSchema = z
+  .object({
+    home: z.string(invalid('Invalid home location')).trim().min(1).max(200),
+    radiusMiles: z.number(invalid('Invalid drive radius')).min(5).max(150),
+    targetSpecies: planTripRequestSchema.shape.targetSpecies,
+    startDate: isoDate('Invalid date format'),
+    endDate: isoDate('Invalid date format'),
+    startTime: planTripRequestSchema.shape.startTime,
+    endTime: planTripRequestSchema.shape.endTime,
+    platform: planTripRequestSchema.shape.platform
+  })
+  .refine(
+    (r) => {
+      const days = daysInRange(r.startDate, r.endDate)
+      return days >= 1 && days <= MAX_DISCOVERY_DAYS
+    },
+    { message: `Choose a date range of 1–${MAX_DISCOVERY_DAYS} days`, path: ['endDate'] }
+  )
+
+/** Candidate waters as the model proposes them; distance, access, species and conditions are checked afterwards */
+export const waterProposalSchema = z.object({
+  candidates: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        location: z.string().min(1), // geocodable place name, e.g. "Lake Tarpon, Pinellas County, Florida"
+        coordinates: waypointSchema.shape.coordinates, // a fishable spot on the water, [lon, lat]
+        waterType: z.string().min(1), // lake, river, bay, pier…
+        salinity: habitatSchema,
+        access: z.string(), // public ramp, park, pier…
+        why: z.string()
+      })
+    )
+    .min(1)
+    .max(12)
+})
+
+/** One ranked water in a discovery result */
+export const candidateWaterSchema = waterProposalSchema.shape.candidates.element.extend({
+  id: z.string(),
+  distanceMiles: z.number(), // straight line from home
+  best: dayScoreSchema, // the best date in the range
+  days: z.array(dayScoreSchema.pick({ date: true, score: true })), // every date in the range, in order
+  speciesOutlook: z.array(speciesOutlookSchema),
+  flags: z.array(pointFlagSchema).optional() // inside a restricted (not closed) area
+})
+
+export const discoverWatersResponseSchema = z.object({
+  home: z.object({ displayName: z.string(), coordinates: waypointSchema.shape.coordinates }),
+  radiusMiles: z.number(),
+  startDate: z.string(),
+  endDate: z.string(),
+  candidates: z.array(candidateWaterSchema), // best first
+  excluded: z.array(z.object({ name: z.string(), reason: z.string() })), // proposals that failed a check
+  generatedAt: z.string()
+})
+
+// ------------------------------
+// Best day (best_day)
+// ------------------------------
+
+/** Days one best-day search may span; days past the hourly forecast are scored without wind or rain */
+export const MAX_BEST_DAY_WINDOW = 10
+
+/** best_day: score every day of a window for a saved trip's location and preferences */
+export const bestDayRequestSchema = z
+  .object({
+    plan_id: rescheduleRequestSchema.shape.plan_id,
+    startDate: isoDate('Invalid date format'),
+    endDate: isoDate('Invalid date format')
+  })
+  .refine(
+    (r) => {
+      const days = daysInRange(r.startDate, r.endDate)
+      return days >= 1 && days <= MAX_BEST_DAY_WINDOW
+    },
+    { message: `Choose a window of 1–${MAX_BEST_DAY_WINDOW} days`, path: ['endDate'] }
+  )
+
+export const bestDaySchema = dayScoreSchema.extend({
+  rank: z.number().int().positive(), // 1 = best
+  forecast: z.boolean() // false past the hourly forecast – wind and rain unknown
+})
+
+export const bestDayResponseSchema = z.object({
+  plan_id: z.string(),
+  location: z.string(), // geocoded display name
+  startDate: z.string(),
+  endDate: z.string(),
+  days: z.array(bestDaySchema), // calendar order
+  best: z.string(), // date of the rank-1 day
+  generatedAt: z.string()
+})
+
+/** trip_alerts: re-check the active alerts for a saved trip's location */
+export const tripAlertsRequestSchema = z.object({
+  lat: z.number(invalid('Invalid latitude')).min(-90, 'Invalid latitude').max(90, 'Invalid latitude'),
+  lon: z.number(invalid('Invalid longitude')).min(-180, 'Invalid longitude').max(180, 'Invalid longitude')
+})
+
+// ------------------------------
+// Regulations table (CSV import)
+// ------------------------------
+
+const csvText = z.string().trim().transform((s) => (s === '' ? null : s))
+const csvNumber = csvText.pipe(z.coerce.number().nonnegative().nullable())
+const csvBoolean = csvText.transform((s, ctx) => {
+  if (s == null) return null
+  if (/^(true|yes|y|1)$/i.test(s)) return true
+  if (/^(false|no|n|0)$/i.test(s)) return false
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected true/false' })
+  return z.NEVER
+})
+
+/** One CSV line (header = column names) → a regulations row; blank cells are null */
+export const regulationCsvRowSchema = z
+  .object({
+    jurisdiction: z.string().trim().toLowerCase().regex(/^[a-z]{2}(-[a-z0-9]{1,3})?$/, 'ISO 3166 code, e.g. us-fl'),
+    waterbody: csvText,
+    species: csvText.transform((s) => s?.toLowerCase() ?? null),
+    season_start: csvText.pipe(monthDay.nullable()),
+    season_end: csvText.pipe(monthDay.nullable()),
+    bag_limit: csvNumber.pipe(z.number().int().nullable()),
+    min_length_in: csvNumber,
+    max_length_in: csvNumber,
+    closed: csvBoolean.transform((b) => b ?? false),
+    license_required: csvBoolean,
+    notes: csvText,
+    source_url: z.string().trim().url(),
+    last_verified: z.string().trim().regex(/^\d{4}-\d{2}-\d{2}$/, 'YYYY-MM-DD')
+  })
+  .refine((r) => (r.season_start == null) === (r.season_end == null), {
+    message: 'season_start and season_end go together',
+    path: ['season_end']
+  })
+
+// ------------------------------
+// Knowledge base (knowledge_chunks)
+// ------------------------------
+
+const tagList = <T extends z.ZodTypeAny>(item: T) => z.array(item).max(50).default([])
+const lowerTag = z.string().trim().min(1).max(60).transform((s) => s.toLowerCase())
+
+/** Editable fields of a knowledge chunk; empty tag lists apply to every trip */
+export const knowledgeChunkInputSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  content: z.string().trim().min(1).max(8000),
+  species: tagList(lowerTag), // wizard species names, e.g. "bass (largemouth)"
+  regions: tagList(lowerTag), // ISO 3166 codes, e.g. "us", "us-fl"
+  seasons: tagList(z.enum(['spring', 'summer', 'fall', 'winter'])),
+  platforms: tagList(z.enum(['shore', 'boat'])),
+  styles: tagList(z.enum(['fly', 'spin', 'cast']))
+})
+
+/** A knowledge_chunks row as the Admin page reads it (the embedding itself is not selected) */
+export const knowledgeChunkSchema = knowledgeChunkInputSchema.extend({
+  id: z.string(),
+  slug: z.string(),
+  source: z.string().nullable(),
+  embedding_model: z.string().nullable(),
+  embedded_at: z.string().nullable(),
+  updated_at: z.string()
+})
+
+/** knowledge_admin body: save (insert when no id) and re-embed, or delete */
+export const knowledgeAdminRequestSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('save'), id: z.string().uuid().optional(), chunk: knowledgeChunkInputSchema }),
+  z.object({ action: z.literal('reembed'), ids: z.array(z.string().uuid()).max(500).optional() }), // every chunk when omitted
+  z.object({ action: z.literal('delete'), id: z.string().uuid() })
+])
+
+export const chatMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string()
+})
+
+export const chatGuideRequestSchema = z.object({
+  plan_id: z.string().max(100).optional(),
+  messages: z.array(chatMessageSchema).min(1).max(50)
+})
+
+/** Standard error body returned by every function */
+export const functionErrorSchema = z.object({
+  error: z.string(),
+  code: z.string().optional()
+})
+
+// ------------------------------
+// Types
+// ------------------------------
+
+export type Waypoint = z.infer<typeof waypointSchema>
+export type DecisionStep = z.infer<typeof decisionStepSchema>
+export type WeatherInfo = z.infer<typeof weatherInfoSchema>
+export type HourlyWeather = z.infer<typeof hourlyWeatherSchema>
+export type PressureTrend = z.infer<typeof pressureTrendSchema>
+export type PressureInfo = z.infer<typeof pressureInfoSchema>
+export type WaterInfo = z.infer<typeof waterInfoSchema>
+export type GaugeInfo = z.infer<typeof gaugeInfoSchema>
+export type WeatherAlert = z.infer<typeof weatherAlertSchema>
+export type HazardInfo = z.infer<typeof hazardInfoSchema>
+export type RestrictedAreaKind = z.infer<typeof restrictedAreaKindSchema>
+export type PointFlag = z.infer<typeof pointFlagSchema>
+export type GeofenceCheck = z.infer<typeof geofenceCheckSchema>
+export type SpeciesOutlook = z.infer<typeof speciesOutlookSchema>
+export type MarinePeriod = z.infer<typeof marinePeriodSchema>
+export type MarineForecast = z.infer<typeof marineForecastSchema>
+export type TideExtreme = z.infer<typeof tideExtremeSchema>
+export type TideInfo = z.infer<typeof tideInfoSchema>
+export type TideStation = z.infer<typeof tideStationSchema>
+export type TideCurvePoint = z.infer<typeof tideCurvePointSchema>
+export type TidalCurrent = z.infer<typeof tidalCurrentSchema>
+export type TripWindow = z.infer<typeof tripWindowSchema>
+export type DataSource = z.infer<typeof dataSourceSchema>
+export type ConditionsSources = z.infer<typeof conditionsSourcesSchema>
+export type SolunarPeriod = z.infer<typeof solunarPeriodSchema>
+export type SolunarInfo = z.infer<typeof solunarInfoSchema>
+export type RegulationRule = z.infer<typeof regulationRuleSchema>
+export type RegulationInfo = z.infer<typeof regulationInfoSchema>
+export type RegulationRow = z.infer<typeof regulationCsvRowSchema>
+export type GeneratedItinerary = z.infer<typeof generatedItinerarySchema>
+export type DayPlan = z.infer<typeof dayPlanSchema>
+export type TripItinerary = z.infer<typeof tripItinerarySchema>
+export type PlanTripRequest = z.input<typeof planTripRequestSchema>
+export type PlanTripResponse = z.infer<typeof planTripResponseSchema>
+export type PlanTripJobRequest = z.input<typeof planTripJobRequestSchema>
+export type SubmitTripJobResponse = z.infer<typeof submitTripJobResponseSchema>
+export type TripJobStage = z.infer<typeof tripJobStageSchema>
+export type TripJobStatus = z.infer<typeof tripJobStatusSchema>
+export type TripJob = z.infer<typeof tripJobSchema>
+export type TripStreamDone = z.infer<typeof tripStreamDoneSchema>
+
+/** SSE events sent by plan_trip in stream mode (`event:` name → JSON `data:`) */
+export type TripStreamEvent =
+  | { event: 'job'; data: SubmitTripJobResponse }
+  | { event: 'stage'; data: { stage: TripJobStage } }
+  | { event: 'delta'; data: { text: string } } // raw model output (JSON text) as it is generated
+  | { event: 'replace'; data: { text: string } } // full corrected output after a repair prompt
+  | { event: 'done'; data: TripStreamDone }
+  | { event: 'error'; data: FunctionError }
+export type Habitat = z.infer<typeof habitatSchema>
+export type ScoreFactor = z.infer<typeof scoreFactorSchema>
+export type DayScore = z.infer<typeof dayScoreSchema>
+export type DiscoverWatersRequest = z.input<typeof discoverWatersRequestSchema>
+export type WaterProposal = z.infer<typeof waterProposalSchema>['candidates'][number]
+export type CandidateWater = z.infer<typeof candidateWaterSchema>
+export type DiscoverWatersResponse = z.infer<typeof discoverWatersResponseSchema>
+export type RescheduleRequest = z.infer<typeof rescheduleRequestSchema>
+export type BestDayRequest = z.infer<typeof bestDayRequestSchema>
+export type BestDay = z.infer<typeof bestDaySchema>
+export type BestDayResponse = z.infer<typeof bestDayResponseSchema>
+export type TripAlertsRequest = z.infer<typeof tripAlertsRequestSchema>
+export type KnowledgeChunkInput = z.infer<typeof knowledgeChunkInputSchema>
+export type KnowledgeChunk = z.infer<typeof knowledgeChunkSchema>
+export type KnowledgeAdminRequest = z.input<typeof knowledgeAdminRequestSchema>
+export type ChatMessage = z.infer<typeof chatMessageSchema>
+export type ChatGuideRequest = z.infer<typeof chatGuideRequestSchema>
+export type FunctionError = z.infer<typeof functionErrorSchema>
+
+// ------------------------------
+// Validation helpers
+// ------------------------------
+
+export type ItineraryParseResult =
+  | { success: true; data: GeneratedItinerary }
+  | { success: false; issues: string[] }
+
+export type WaterProposalParseResult =
+  | { success: true; data: WaterProposal[] }
+  | { success: false; issues: string[] }
+
+/** JSON.parse model output, tolerating a surrounding code fence */
+function parseModelJson(text: string): { json: unknown } | { issues: string[] } {
+  const jsonText = text.replace(/^```[a-zA-Z]*\n?|```$/g, '').trim()
+  try {
+    return { json: JSON.parse(jsonText) }
+  } catch (err) {
+    return { issues: [`Response is not valid JSON: ${(err as Error).message}`] }
+  }
+}
+
+/**
+ * Parse raw model output and validate it against the contract. `numDays` > 1 additionally
+ * requires one `days` entry per trip day; `requireGoNoGo` a decisionTree step flagged `goNoGo`.
+ */
+export function parseGeneratedItinerary(
+  text: string,
+  options: { numDays?: number; requireGoNoGo?: boolean } = {}
+): ItineraryParseResult {
+  const parsed = parseModelJson(text)
+  if ('issues' in parsed) return { success: false, issues: parsed.issues }
+
+  const result = generatedItinerarySchema.safeParse(parsed.json)
+  if (!result.success) {
+    return { success: false, issues: formatIssues(result.error) }
+  }
+
+  const numDays = options.numDays ?? 1
+  if (numDays > 1 && result.data.days?.length !== numDays) {
+    return {
+      success: false,
+      issues: [`days: expected exactly ${numDays} entries, received ${result.data.days?.length ?? 0}`]
+    }
+  }
+
+  if (options.requireGoNoGo && !result.data.decisionTree.some((step) => step.goNoGo)) {
+    return {
+      success: false,
+      issues: ['decisionTree: boat trips need one step with "goNoGo": true – the launch / no-launch rule from the marine forecast and alerts']
+    }
+  }
+
+  return { success: true, data: result.data }
+}
+
+/** Parse the candidate waters the model proposed for discover_waters */
+export function parseWaterProposals(text: string): WaterProposalParseResult {
+  const parsed = parseModelJson(text)
+  if ('issues' in parsed) return { success: false, issues: parsed.issues }
+  const result = waterProposalSchema.safeParse(parsed.json)
+  return result.success ? { success: true, data: result.data.candidates } : { success: false, issues: formatIssues(result.error) }
+}
+
+/** Flatten zod issues into "path: message" lines the model (or a log) can act on */
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.slice(0, 20).map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+}
+
+/** Raised once the model has used up its repair attempts without producing a valid itinerary */
+export class ItineraryValidationError extends Error {
+  readonly code = 'ITINERARY_INVALID'
+
+  constructor(readonly issues: string[], readonly attempts: number) {
+    super(`Itinerary failed validation after ${attempts} attempts: ${issues.slice(0, 3).join('; ')}`)
+    this.name = 'ItineraryValidationError'
+  }
+}
+
+/** Raised before generation when none of the target species can be caught at the location */
+export class SpeciesUnsuitableError extends Error {
+  readonly code = 'SPECIES_UNSUITABLE'
+
+  constructor(message: string, readonly suggestions: string[]) {
+    super(message)
+    this.name = 'SpeciesUnsuitableError'
+  }
+}
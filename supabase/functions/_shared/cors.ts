@@ -22,6 +22,9 @@ export function getCorsHeaders(origin: string | null): Record<string, string> {
       'Origin, X-Requested-With, Content-Type, Accept, Authorization, x-client-info, apikey',
     'Access-Control-Allow-Credentials': 'true',
     'Access-Control-Max-Age': '86400', // 24 hours
+    // Let the app read rate-limit state for its countdowns
+    'Access-Control-Expose-Headers':
+      'RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, Retry-After',
   };
 }
 
@@ -0,0 +1,146 @@
+// Geofence check for the model's points of interest against the restricted_areas polygons and the
+// land / water mask (see supabase/sql/patch_add_geofences.sql).
+import type { GeneratedItinerary, GeofenceCheck, PointFlag, RestrictedAreaKind, Waypoint } from './contract.ts'
+
+/** Points closer than this to mapped water (or the sea) count as shore spots, not dry land */
+const SHORE_TOLERANCE_M = 150
+
+/** Radius around the trip location whose areas are listed in the prompt */
+const NEARBY_RADIUS_M = 25_000
+
+const KIND_LABELS: Record<RestrictedAreaKind, string> = {
+  marine_reserve: 'marine reserve',
+  no_take: 'no-take zone',
+  no_wake: 'no-wake zone',
+  closure: 'closure',
+  private_land: 'private land',
+  other: 'restricted area'
+}
+
+export interface NearbyArea {
+  id: string
+  name: string
+  kind: RestrictedAreaKind
+  restriction: 'closed' | 'restricted'
+  notes: string | null
+  distance_m: number
+}
+
+interface GeofenceRow {
+  point_id: string
+  reason: PointFlag['reason']
+  area_id: string | null
+  area_name: string | null
+  kind: RestrictedAreaKind | null
+  source_url: string | null
+  notes: string | null
+}
+
+/** Flags per point key ("poi:0", "day2:1") */
+export type PointFlags = Map<string, PointFlag[]>
+
+/** Closed and restricted areas in force near the trip, nearest first */
+export async function fetchNearbyAreas(supabase: any, lat: number, lon: number, dates: string[]): Promise<NearbyArea[]> {
+  const { data, error } = await supabase.rpc('restricted_areas_near', {
+    p_lat: lat,
+    p_lon: lon,
+    p_radius_m: NEARBY_RADIUS_M,
+    p_from: dates[0],
+    p_to: dates[dates.length - 1]
+  })
+  if (error) throw error
+  return data ?? []
+}
+
+/** "Egmont Key (no-take zone, closed, 4.2 km): notes" for the prompt */
+export function describeArea(area: NearbyArea): string {
+  const distance = area.distance_m < 50 ? 'at the location' : `${(area.distance_m / 1000).toFixed(1)} km`
+  return `${area.name} (${KIND_LABELS[area.kind]}, ${area.restriction}, ${distance})${area.notes ? `: ${area.notes}` : ''}`
+}
+
+/** Every point of interest in the itinerary with a stable key, including each day's spots */
+function eachPoint(itinerary: GeneratedItinerary): Array<{ key: string; point: Waypoint; day?: number }> {
+  return [
+    ...itinerary.pointsOfInterest.map((point, i) => ({ key: `poi:${i}`, point })),
+    ...(itinerary.days ?? []).flatMap((d) => d.pointsOfInterest.map((point, i) => ({ key: `day${d.day}:${i}`, point, day: d.day })))
+  ]
+}
+
+function toFlag(row: GeofenceRow): PointFlag {
+  if (row.reason === 'dry_land') {
+    return { reason: row.reason, message: `More than ${SHORE_TOLERANCE_M} m from any mapped water` }
+  }
+  const label = KIND_LABELS[row.kind ?? 'other']
+  return {
+    reason: row.reason,
+    message: `${row.reason === 'closed_area' ? 'Inside' : 'In'} ${row.area_name} (${label}${row.reason === 'closed_area' ? ', closed to fishing' : ''})${row.notes ? ` – ${row.notes}` : ''}`,
+    area: { id: row.area_id!, name: row.area_name!, kind: row.kind ?? 'other', sourceUrl: row.source_url }
+  }
+}
+
+/** Check coordinates, keyed by id, against the areas in force on the dates and the land mask */
+export async function checkCoordinates(
+  supabase: any,
+  points: Array<{ id: string; coordinates: [number, number] }>,
+  dates: string[]
+): Promise<PointFlags> {
+  const { data, error } = await supabase.rpc('check_geofence_points', {
+    p_points: points.map(({ id, coordinates }) => ({ id, lon: coordinates[0], lat: coordinates[1] })),
+    p_from: dates[0],
+    p_to: dates[dates.length - 1],
+    p_shore_tolerance_m: SHORE_TOLERANCE_M
+  })
+  if (error) throw error
+  const flags: PointFlags = new Map()
+  for (const row of (data ?? []) as GeofenceRow[]) {
+    flags.set(row.point_id, [...(flags.get(row.point_id) ?? []), toFlag(row)])
+  }
+  return flags
+}
+
+/** Check every point of interest against the areas in force on the trip dates and the land mask */
+export function checkPoints(supabase: any, itinerary: GeneratedItinerary, dates: string[]): Promise<PointFlags> {
+  return checkCoordinates(supabase, eachPoint(itinerary).map(({ key, point }) => ({ id: key, coordinates: point.coordinates })), dates)
+}
+
+/** In a closed area or on dry land (restricted areas only flag a point) */
+export const isBlocked = (flags: PointFlag[] | undefined) => flags?.some((f) => f.reason !== 'restricted_area') ?? false
+
+/** Repair messages for the model: one per point in a closed area or on dry land */
+export function blockedPointIssues(itinerary: GeneratedItinerary, flags: PointFlags): string[] {
+  return eachPoint(itinerary)
+    .filter(({ key }) => isBlocked(flags.get(key)))
+    .map(({ key, point, day }) => {
+      const reasons = flags.get(key)!.filter((f) => f.reason !== 'restricted_area').map((f) => f.message)
+      return `${day ? `Day ${day} ` : ''}pointOfInterest "${point.name}" at [${point.coordinates.join(', ')}] – ${reasons.join('; ')}. Move it onto fishable water outside closed areas or replace it.`
+    })
+}
+
+/**
+ * Drop points in closed areas or on dry land and flag points in restricted areas. A list is never
+ * emptied: if every point would go, they are kept with their flags.
+ */
+export function applyGeofence<T extends GeneratedItinerary>(itinerary: T, flags: PointFlags): { itinerary: T; geofence: GeofenceCheck } {
+  const dropped: GeofenceCheck['dropped'] = []
+  const filter = (points: Waypoint[], keyPrefix: string, day?: number) => {
+    const flagged = points.map((point, i) => {
+      const pointFlags = flags.get(`${keyPrefix}:${i}`)
+      return { point: pointFlags ? { ...point, flags: pointFlags } : point, blocked: isBlocked(pointFlags) }
+    })
+    const kept = flagged.filter((p) => !p.blocked)
+    if (kept.length === 0) return flagged.map((p) => p.point)
+    for (const { point, blocked } of flagged) {
+      if (blocked) dropped.push({ name: point.name, coordinates: point.coordinates, day, flags: point.flags ?? [] })
+    }
+    return kept.map((p) => p.point)
+  }
+
+  return {
+    itinerary: {
+      ...itinerary,
+      pointsOfInterest: filter(itinerary.pointsOfInterest, 'poi'),
+      days: itinerary.days?.map((d) => ({ ...d, pointsOfInterest: filter(d.pointsOfInterest, `day${d.day}`, d.day) }))
+    },
+    geofence: { checkedAt: new Date().toISOString(), dropped }
+  }
+}
@@ -0,0 +1,138 @@
+// Knowledge base shared by plan_trip (retrieval), knowledge_admin (editing) and
+// scripts/ingest_knowledge.ts (markdown guides → knowledge_chunks). See
+// supabase/sql/patch_add_knowledge_chunks.sql for the table and match_knowledge_chunks.
+import { knowledgeChunkInputSchema, type KnowledgeChunkInput } from './contract.ts'
+import type { Embedder } from './llm/index.ts'
+
+export type Season = 'winter' | 'spring' | 'summer' | 'fall'
+
+const NORTHERN_SEASONS: Season[] = ['winter', 'spring', 'summer', 'fall']
+const TAG_KEYS = ['species', 'regions', 'seasons', 'platforms', 'styles'] as const
+
+/** Meteorological season for a YYYY-MM-DD date (Dec–Feb winter), flipped south of the equator */
+export function seasonOf(date: string, lat: number): Season {
+  const month = Number(date.slice(5, 7)) // 1-12
+  const index = Math.floor((month % 12) / 3) // Dec-Feb 0, Mar-May 1, …
+  return NORTHERN_SEASONS[lat < 0 ? (index + 2) % 4 : index]
+}
+
+/** Text that gets embedded: title, tags and content, so tag words help similarity too */
+export function embeddingInput(chunk: KnowledgeChunkInput): string {
+  const tags = TAG_KEYS.flatMap((key) => chunk[key])
+  return [chunk.title, tags.join(', '), chunk.content].filter(Boolean).join('\n\n')
+}
+
+const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+
+/** `key: a, b` lines → tag lists (unknown keys are ignored) */
+function parseTags(lines: string[]): Partial<Record<(typeof TAG_KEYS)[number], string[]>> {
+  const tags: Partial<Record<(typeof TAG_KEYS)[number], string[]>> = {}
+  for (const line of lines) {
+    const match = /^\s*(\w+)\s*:\s*(.*)$/.exec(line)
+    const key = match?.[1] as (typeof TAG_KEYS)[number] | undefined
+    if (!key || !TAG_KEYS.includes(key)) continue
+    tags[key] = match![2].split(',').map((s) => s.trim()).filter(Boolean)
+  }
+  return tags
+}
+
+export interface ParsedKnowledgeChunk extends KnowledgeChunkInput {
+  slug: string
+  source: string
+}
+
+/**
+ * Split a markdown guide into one chunk per `## ` section.
+ *
+ *   ---
+ *   species: Snook, Redfish
+ *   regions: us-fl
+ *   ---
+ *   # Snook on the flats
+ *   ## Winter
+ *   <!-- seasons: winter -->
+ *   ...
+ *
+ * Front matter tags apply to every section; a `<!-- key: values -->` comment right under a heading
+ * overrides them for that section. Text before the first `## ` (or a guide without sections) is a
+ * chunk of its own, titled after the guide.
+ */
+export function parseKnowledgeMarkdown(source: string, markdown: string): ParsedKnowledgeChunk[] {
+  let body = markdown.replace(/\r\n/g, '\n')
+  let fileTags = {}
+  const frontMatter = /^---\n([\s\S]*?)\n---\n/.exec(body)
+  if (frontMatter) {
+    fileTags = parseTags(frontMatter[1].split('\n'))
+    body = body.slice(frontMatter[0].length)
+  }
+
+  const docTitle = /^# (.+)$/m.exec(body)?.[1].trim() ?? source
+  body = body.replace(/^# .+$/m, '')
+  const [intro, ...sections] = body.split(/^## /m)
+  const parts = [
+    { heading: '', text: intro },
+    ...sections.map((section) => {
+      const [heading, ...rest] = section.split('\n')
+      return { heading: heading.trim(), text: rest.join('\n') }
+    })
+  ]
+
+  return parts.flatMap(({ heading, text }) => {
+    const overrides = /^\s*<!--([\s\S]*?)-->/.exec(text)
+    const content = (overrides ? text.slice(overrides[0].length) : text).trim()
+    if (!content) return []
+    const chunk = knowledgeChunkInputSchema.safeParse({
+      title: heading ? `${docTitle}: ${heading}` : docTitle,
+      content,
+      ...fileTags,
+      ...(overrides ? parseTags(overrides[1].split(/\n|;/)) : {})
+    })
+    if (!chunk.success) {
+      throw new Error(`${source}${heading ? ` (${heading})` : ''}: ${chunk.error.issues.map((i) => `${i.path.join('.')} ${i.message}`).join('; ')}`)
+    }
+    return [{ ...chunk.data, slug: heading ? `${source}#${slugify(heading)}` : source, source }]
+  })
+}
+
+export interface KnowledgeQuery {
+  /** Free text describing the trip; embedded for the similarity search */
+  text: string
+  species: string[]
+  /** ISO 3166 codes for the location, e.g. ['us', 'us-fl'] */
+  regions: string[]
+  season: Season
+  platform?: string | null
+  styles?: string[] | null
+}
+
+export interface RetrievedKnowledge {
+  id: string
+  title: string
+  content: string
+  similarity: number
+}
+
+/** Nearest knowledge chunks for the trip whose tags match it (match_knowledge_chunks) */
+export async function retrieveKnowledge(
+  supabase: any,
+  embedder: Embedder,
+  query: KnowledgeQuery,
+  limit = 6
+): Promise<RetrievedKnowledge[]> {
+  const [embedding] = await embedder.embed([query.text])
+  const { data, error } = await supabase.rpc('match_knowledge_chunks', {
+    query_embedding: JSON.stringify(embedding),
+    match_count: limit,
+    p_species: query.species.map((s) => s.toLowerCase()),
+    p_regions: query.regions.map((r) => r.toLowerCase()),
+    p_season: query.season,
+    p_platform: query.platform ?? null,
+    p_styles: query.styles ?? []
+  })
+  if (error) throw error
+  return (data ?? []) as RetrievedKnowledge[]
+}
@@ -0,0 +1,54 @@
+// Text embeddings for the knowledge base. Follows LLM_PROVIDER (stub → hashed bag-of-words
+// vectors, no key needed); the model must produce EMBEDDING_DIMENSIONS-long vectors to fit the
+// knowledge_chunks.embedding column.
+//
+//   EMBEDDING_MODEL = OpenAI embedding model (default text-embedding-3-small)
+import OpenAI from 'jsr:@openai/openai@5.10.1'
+import { stubEmbedding } from './stub.ts'
+
+export const EMBEDDING_DIMENSIONS = 1536
+
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small'
+// OpenAI accepts up to 2048 inputs per request; smaller batches keep ingestion requests modest
+const BATCH_SIZE = 64
+
+export interface Embedder {
+  model: string
+  /** One vector per input, in order */
+  embed(inputs: string[]): Promise<number[][]>
+}
+
+export function createEmbedder(): Embedder {
+  const provider = (Deno.env.get('LLM_PROVIDER') ?? 'openai').toLowerCase()
+  if (provider === 'stub') {
+    return {
+      model: 'stub',
+      embed: async (inputs) => inputs.map((text) => stubEmbedding(text, EMBEDDING_DIMENSIONS))
+    }
+  }
+
+  const model = Deno.env.get('EMBEDDING_MODEL') ?? DEFAULT_EMBEDDING_MODEL
+  // Created on first use so a missing key surfaces as a request error, not a boot failure
+  let openai: OpenAI | null = null
+
+  return {
+    model,
+    async embed(inputs) {
+      if (!openai) {
+        const apiKey = Deno.env.get('OPENAI_API_KEY')
+        if (!apiKey) throw new Error('Missing OPENAI_API_KEY env var')
+        openai = new OpenAI({ apiKey, timeout: Number(Deno.env.get('LLM_TIMEOUT_MS') ?? 60_000) })
+      }
+      const vectors: number[][] = []
+      for (let i = 0; i < inputs.length; i += BATCH_SIZE) {
+        const { data } = await openai.embeddings.create({
+          model,
+          input: inputs.slice(i, i + BATCH_SIZE),
+          dimensions: EMBEDDING_DIMENSIONS
+        })
+        vectors.push(...data.sort((a, b) => a.index - b.index).map((d) => d.embedding))
+      }
+      return vectors
+    }
+  }
+}
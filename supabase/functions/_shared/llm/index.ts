@@ -0,0 +1,62 @@
+// Shared LLM client. Models are configurable per function and fall back to a secondary model
+// on 5xx/timeouts; LLM_PROVIDER=stub swaps in a deterministic offline backend.
+//
+//   LLM_PROVIDER                      = openai (default) | stub
+//   LLM_MODEL / LLM_MODEL_<FUNCTION>  = primary model     (default gpt-4o)
+//   LLM_FALLBACK_MODEL[_<FUNCTION>]   = fallback model    (default gpt-4o-mini, "none" disables)
+//   LLM_TIMEOUT_MS                    = request timeout   (default 60000)
+//
+// <FUNCTION> is the upper-cased function name, e.g. LLM_MODEL_PLAN_TRIP.
+import type { LlmBackend, LlmClient, LlmFunctionName, LlmRequest } from './types.ts'
+import { createOpenAiBackend, isRetryableLlmError } from './openai.ts'
+import { createStubBackend } from './stub.ts'
+
+export * from './types.ts'
+export { addUsage, recordLlmUsage, type LlmCall, type LlmUsageRecord } from './usage.ts'
+export { createEmbedder, EMBEDDING_DIMENSIONS, type Embedder } from './embeddings.ts'
+
+const DEFAULT_MODEL = 'gpt-4o'
+const DEFAULT_FALLBACK_MODEL = 'gpt-4o-mini'
+
+export function createLlmClient(functionName: LlmFunctionName): LlmClient {
+  const suffix = functionName.toUpperCase()
+  const env = (name: string) => Deno.env.get(`${name}_${suffix}`) ?? Deno.env.get(name)
+
+  const provider = (Deno.env.get('LLM_PROVIDER') ?? 'openai').toLowerCase()
+  const model = env('LLM_MODEL') ?? DEFAULT_MODEL
+  const configuredFallback = env('LLM_FALLBACK_MODEL') ?? DEFAULT_FALLBACK_MODEL
+  const fallbackModel = configuredFallback === 'none' || configuredFallback === model ? null : configuredFallback
+
+  // Created on first use so a missing key surfaces as a request error, not a boot failure
+  let backend: LlmBackend | null = null
+  const getBackend = (): LlmBackend => {
+    if (backend) return backend
+    if (provider === 'stub') {
+      backend = createStubBackend(functionName)
+    } else if (provider === 'openai') {
+      const apiKey = Deno.env.get('OPENAI_API_KEY')
+      if (!apiKey) throw new Error('Missing OPENAI_API_KEY env var')
+      backend = createOpenAiBackend(apiKey, Number(Deno.env.get('LLM_TIMEOUT_MS') ?? 60_000))
+    } else {
+      throw new Error(`Unknown LLM_PROVIDER "${provider}"`)
+    }
+    return backend
+  }
+
+  async function withFallback<T>(call: (model: string) => Promise<T>): Promise<T> {
+    try {
+      return await call(model)
+    } catch (err) {
+      if (!fallbackModel || !isRetryableLlmError(err)) throw err
+      console.warn(`${functionName}: ${model} failed (${(err as Error)?.message}); retrying with ${fallbackModel}`)
+      return call(fallbackModel)
+    }
+  }
+
+  return {
+    model,
+    complete: (request: LlmRequest) => withFallback((m) => getBackend().complete(m, request)),
+    // Fallback only covers opening the stream – once tokens flow the response is committed
+    stream: (request: LlmRequest) => withFallback((m) => getBackend().stream(m, request))
+  }
+}
@@ -0,0 +1,90 @@
+import OpenAI from 'jsr:@openai/openai@5.10.1'
+import { EMPTY_USAGE, type LlmBackend, type LlmRequest, type LlmUsage } from './types.ts'
+
+/** Normalise Responses/Chat Completions usage payloads */
+export function toUsage(usage: Record<string, any> | undefined | null): LlmUsage {
+  if (!usage) return { ...EMPTY_USAGE }
+  const promptTokens = usage.prompt_tokens ?? usage.input_tokens ?? 0
+  const completionTokens = usage.completion_tokens ?? usage.output_tokens ?? 0
+  const cachedTokens =
+    usage.input_tokens_details?.cached_tokens ?? usage.prompt_tokens_details?.cached_tokens ?? 0
+  return {
+    promptTokens,
+    completionTokens,
+    cachedTokens,
+    totalTokens: usage.total_tokens ?? promptTokens + completionTokens
+  }
+}
+
+function toResponsesParams(model: string, request: LlmRequest) {
+  return {
+    model,
+    instructions: request.instructions,
+    input: request.input,
+    ...(request.previousResponseId ? { previous_response_id: request.previousResponseId } : {}),
+    ...(request.maxOutputTokens ? { max_output_tokens: request.maxOutputTokens } : {}),
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {})
+  }
+}
+
+export function createOpenAiBackend(apiKey: string, timeoutMs: number): LlmBackend {
+  // Retries are handled by the client's model fallback, not the SDK
+  const openai = new OpenAI({ apiKey, timeout: timeoutMs, maxRetries: 0 })
+
+  return {
+    async complete(model, request) {
+      const response: any = await openai.responses.create(toResponsesParams(model, request) as any)
+      return {
+        text: (response.output_text ?? '').trim(),
+        model,
+        responseId: response.id,
+        usage: toUsage(response.usage)
+      }
+    },
+
+    async stream(model, request) {
+      const events: AsyncIterable<any> = (await openai.responses.create({
+        ...toResponsesParams(model, request),
+        stream: true
+      } as any)) as any
+
+      let resolveUsage: (usage: LlmUsage) => void = () => {}
+      const usage = new Promise<LlmUsage>((resolve) => (resolveUsage = resolve))
+      let resolveResponseId: (id: string | undefined) => void = () => {}
+      const responseId = new Promise<string | undefined>((resolve) => (resolveResponseId = resolve))
+
+      async function* tokens() {
+        let finalUsage: LlmUsage = { ...EMPTY_USAGE }
+        let id: string | undefined
+        try {
+          for await (const event of events) {
+            if (event?.type === 'response.output_text.delta' && event.delta) {
+              yield event.delta as string
+            } else if (event?.type === 'response.created') {
+              id = event.response?.id
+            } else if (event?.type === 'response.completed') {
+              finalUsage = toUsage(event.response?.usage)
+              id = event.response?.id ?? id
+            }
+          }
+        } finally {
+          resolveUsage(finalUsage)
+          resolveResponseId(id)
+        }
+      }
+
+      return { model, tokens: tokens(), usage, responseId }
+    }
+  }
+}
+
+/** 5xx responses and network timeouts are worth retrying on the fallback model */
+export function isRetryableLlmError(err: unknown): boolean {
+  const e = err as any
+  if (typeof e?.status === 'number') return e.status >= 500
+  return (
+    e instanceof OpenAI.APIConnectionError || // includes APIConnectionTimeoutError
+    e?.name === 'AbortError' ||
+    e?.name === 'TimeoutError'
+  )
+}
@@ -0,0 +1,74 @@
+// Per-model token pricing from public.model_pricing (USD per 1M tokens, keyed by effective date)
+import type { LlmUsage } from './types.ts'
+
+export interface ModelPrice {
+  model: string
+  effectiveFrom: string // YYYY-MM-DD
+  inputPerMillion: number
+  /** Falls back to the input rate when the model has no cached-input discount */
+  cachedInputPerMillion: number | null
+  outputPerMillion: number
+}
+
+const CACHE_TTL_MS = 10 * 60 * 1000
+
+// The table is tiny and changes rarely – keep one copy per isolate
+let cached: { rows: ModelPrice[]; expires: number } | null = null
+
+async function loadPricing(supabase: any): Promise<ModelPrice[]> {
+  if (cached && cached.expires > Date.now()) return cached.rows
+
+  const { data, error } = await supabase
+    .from('model_pricing')
+    .select('model, effective_from, input_per_million, cached_input_per_million, output_per_million')
+  if (error) throw error
+
+  const rows: ModelPrice[] = (data ?? []).map((row: any) => ({
+    model: row.model,
+    effectiveFrom: row.effective_from,
+    inputPerMillion: Number(row.input_per_million),
+    cachedInputPerMillion: row.cached_input_per_million == null ? null : Number(row.cached_input_per_million),
+    outputPerMillion: Number(row.output_per_million)
+  }))
+  cached = { rows, expires: Date.now() + CACHE_TTL_MS }
+  return rows
+}
+
+/**
+ * Pick the price in effect on `at` for `model`. Dated snapshots (gpt-4o-2024-08-06) match their
+ * base model row unless the snapshot has its own entry.
+ */
+export function findModelPrice(rows: ModelPrice[], model: string, at: Date = new Date()): ModelPrice | null {
+  const day = at.toISOString().slice(0, 10)
+  const candidates = rows.filter(
+    (row) => row.effectiveFrom <= day && (row.model === model || model.startsWith(`${row.model}-`))
+  )
+  candidates.sort((a, b) => b.model.length - a.model.length || (a.effectiveFrom < b.effectiveFrom ? 1 : -1))
+  return candidates[0] ?? null
+}
+
+export function costForUsage(price: ModelPrice, usage: LlmUsage): number {
+  const cachedTokens = Math.min(usage.cachedTokens, usage.promptTokens)
+  const uncachedInput = usage.promptTokens - cachedTokens
+  const cachedRate = price.cachedInputPerMillion ?? price.inputPerMillion
+  return (
+    uncachedInput * price.inputPerMillion +
+    cachedTokens * cachedRate +
+    usage.completionTokens * price.outputPerMillion
+  ) / 1_000_000
+}
+
+/** Cost in USD for one model's usage, or null when the model has no pricing row */
+export async function computeCostUsd(supabase: any, model: string, usage: LlmUsage): Promise<number | null> {
+  try {
+    const price = findModelPrice(await loadPricing(supabase), model)
+    if (!price) {
+      console.warn(`No model_pricing row for ${model}; cost not recorded`)
+      return null
+    }
+    return costForUsage(price, usage)
+  } catch (err) {
+    console.warn('Failed to load model pricing', err)
+    return null
+  }
+}
@@ -0,0 +1,145 @@
+// Deterministic offline backend (LLM_PROVIDER=stub). Returns canned output shaped for each
+// function: a contract-valid itinerary for plan_trip, candidate waters for discover_waters and fixed
+// text for chat/pin summaries.
+import type { LlmBackend, LlmFunctionName, LlmRequest, LlmUsage } from './types.ts'
+
+const CHAT_REPLY =
+  'Stub guide here. Start at first light on the windward points, work a weedless soft plastic slowly along the edges, and move deeper once the sun is up. Re-check wind and tide before you launch.'
+
+const PIN_SUMMARY =
+  'Stub summary: mixed structure with nearby drop-offs. Expect bass and panfish in the shallows at dawn; fish deeper edges midday. Check local regulations and boat traffic.'
+
+function inputText(request: LlmRequest): string {
+  return typeof request.input === 'string' ? request.input : request.input.map((m) => m.content).join('\n')
+}
+
+/** Rough, stable token estimate (~4 chars per token) */
+function estimateUsage(request: LlmRequest, output: string): LlmUsage {
+  const promptTokens = Math.ceil((request.instructions.length + inputText(request).length) / 4)
+  const completionTokens = Math.ceil(output.length / 4)
+  return { promptTokens, completionTokens, cachedTokens: 0, totalTokens: promptTokens + completionTokens }
+}
+
+/** Build a canned itinerary from the plan_trip prompt (coordinates, species and trip days) */
+export function stubItinerary(prompt: string) {
+  const coords = prompt.match(/lat (-?\d+(?:\.\d+)?), lon (-?\d+(?:\.\d+)?)/)
+  const lat = coords ? parseFloat(coords[1]) : 27.7634
+  const lon = coords ? parseFloat(coords[2]) : -82.5437
+  const species = prompt.match(/Target Species: (.*)/)?.[1]?.trim() || 'your target species'
+
+  const spot = (id: string, name: string, dLon: number, dLat: number, description: string, techniques: string[]) => ({
+    id,
+    name,
+    coordinates: [Number((lon + dLon).toFixed(5)), Number((lat + dLat).toFixed(5))] as [number, number],
+    description,
+    techniques
+  })
+  const pointsOfInterest = [
+    spot('stub-1', 'North Point Flats', 0.01, 0.01, `Shallow flat that warms early – good first stop for ${species}.`, ['Topwater at dawn', 'Slow-rolled soft plastic']),
+    spot('stub-2', 'Channel Edge', -0.01, -0.005, 'Drop-off where fish slide when the sun gets high.', ['Jig along the break', 'Drift live bait'])
+  ]
+  // Boat trips with a marine forecast must lead with a go/no-go rule
+  const goNoGo = /^Marine Forecast:/m.test(prompt)
+    ? [{ condition: 'If a small craft advisory is posted or seas build past 3 ft', action: 'do not launch – fish the lee shoreline from shore instead', goNoGo: true }]
+    : []
+  const decisionTree = [
+    ...goNoGo,
+    { condition: 'If the water is calm at first light', action: 'start on North Point Flats with topwater' },
+    { condition: 'If you see no blow-ups after 30 minutes', action: 'switch to a weedless soft plastic' },
+    { condition: 'If the sun is high and the flat goes quiet', action: 'move to Channel Edge and fish the break' },
+    { condition: 'If wind picks up above 15 mph', action: 'tuck into the lee side and downsize your presentation' }
+  ]
+
+  const days = Array.from(prompt.matchAll(/Day (\d+) \((\d{4}-\d{2}-\d{2})\):/g)).map((m) => ({
+    day: Number(m[1]),
+    date: m[2],
+    summary: `Day ${m[1]}: adjust start time to the first moving tide.`,
+    pointsOfInterest,
+    decisionTree
+  }))
+
+  return {
+    summary: `Stub itinerary for ${species}. Fish the flats early, then follow the fish to deeper edges as light increases. Conditions are placeholders from the offline stub model.`,
+    pointsOfInterest,
+    decisionTree,
+    weather: {
+      summary: 'Stub forecast: mostly sunny, light wind.',
+      high: '85°F',
+      low: '72°F',
+      precipitation: '10%',
+      cloudCover: 'Mostly sunny',
+      wind: 'E 5-10 mph'
+    },
+    water: { summary: 'Stub water conditions: clear, moderate flow.' },
+    gear: ['7ft medium-power spinning rod with 2500 reel, 15lb braid', '5" weedless soft plastics (natural colours)'],
+    checklist: ['2L water per person', 'Polarized sunglasses', 'Sunscreen SPF 50'],
+    tips: ['Approach the flat quietly – fish spook easily in skinny water.'],
+    ...(days.length > 1 ? { days } : {})
+  }
+}
+
+/** Canned candidate waters around the home point in a discover_waters prompt */
+export function stubCandidates(prompt: string) {
+  const coords = prompt.match(/lat (-?\d+(?:\.\d+)?), lon (-?\d+(?:\.\d+)?)/)
+  const lat = coords ? parseFloat(coords[1]) : 27.7634
+  const lon = coords ? parseFloat(coords[2]) : -82.5437
+  const water = (name: string, dLon: number, dLat: number, waterType: string, salinity: 'fresh' | 'brackish' | 'salt', access: string) => ({
+    name,
+    location: `${name} (stub)`,
+    coordinates: [Number((lon + dLon).toFixed(5)), Number((lat + dLat).toFixed(5))] as [number, number],
+    waterType,
+    salinity,
+    access,
+    why: `Stub candidate: ${waterType} with ${access.toLowerCase()}.`
+  })
+  return {
+    candidates: [
+      water('Stub Lake', 0.12, 0.08, 'lake', 'fresh', 'Public boat ramp and fishing pier'),
+      water('Stub River', -0.2, 0.15, 'river', 'fresh', 'Wading access at the county park'),
+      water('Stub Bay Flats', 0.02, -0.1, 'bay', 'salt', 'Shoreline access from the causeway'),
+      water('Stub Pier', -0.05, -0.3, 'pier', 'salt', 'Public fishing pier')
+    ]
+  }
+}
+
+export function createStubBackend(functionName: LlmFunctionName): LlmBackend {
+  const outputFor = (request: LlmRequest) => {
+    // Pretty-printed so streamed itineraries arrive in many small chunks
+    if (functionName === 'plan_trip') return JSON.stringify(stubItinerary(inputText(request)), null, 2)
+    if (functionName === 'discover_waters') return JSON.stringify(stubCandidates(inputText(request)))
+    if (functionName === 'summarize_pin') return PIN_SUMMARY
+    return CHAT_REPLY
+  }
+
+  return {
+    async complete(model, request) {
+      const text = outputFor(request)
+      return { text, model, responseId: `stub_${functionName}`, usage: estimateUsage(request, text) }
+    },
+
+    async stream(model, request) {
+      const text = outputFor(request)
+      async function* tokens() {
+        for (const word of text.split(/(?<= )/)) yield word
+      }
+      return {
+        model,
+        tokens: tokens(),
+        usage: Promise.resolve(estimateUsage(request, text)),
+        responseId: Promise.resolve(`stub_${functionName}`)
+      }
+    }
+  }
+}
+
+/** Hashed bag-of-words vector (unit length), so similar texts land near each other offline */
+export function stubEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0)
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    let hash = 2166136261
+    for (let i = 0; i < word.length; i++) hash = Math.imul(hash ^ word.charCodeAt(i), 16777619)
+    vector[(hash >>> 0) % dimensions] += 1
+  }
+  const norm = Math.hypot(...vector) || 1
+  return vector.map((v) => v / norm)
+}
@@ -0,0 +1,56 @@
+// LLM client interfaces shared by plan_trip, discover_waters, chat_guide and summarize_pin
+
+export type LlmFunctionName = 'plan_trip' | 'discover_waters' | 'chat_guide' | 'summarize_pin'
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface LlmRequest {
+  instructions: string
+  input: string | LlmMessage[]
+  /** Continue a previous response's conversation (used for itinerary repair prompts) */
+  previousResponseId?: string
+  maxOutputTokens?: number
+  temperature?: number
+}
+
+export interface LlmUsage {
+  promptTokens: number
+  completionTokens: number
+  cachedTokens: number
+  totalTokens: number
+}
+
+export interface LlmResult {
+  text: string
+  model: string
+  responseId?: string
+  usage: LlmUsage
+}
+
+export interface LlmStream {
+  model: string
+  /** Text deltas as the model produces them */
+  tokens: AsyncIterable<string>
+  /** Resolves with the final usage once `tokens` has been fully consumed */
+  usage: Promise<LlmUsage>
+  /** Resolves with the response id (for follow-up repair prompts) once `tokens` is consumed */
+  responseId: Promise<string | undefined>
+}
+
+/** A single backend (OpenAI, stub, …) bound to one model */
+export interface LlmBackend {
+  complete(model: string, request: LlmRequest): Promise<LlmResult>
+  stream(model: string, request: LlmRequest): Promise<LlmStream>
+}
+
+export interface LlmClient {
+  /** Primary model for this function (the fallback is only used on 5xx/timeouts) */
+  model: string
+  complete(request: LlmRequest): Promise<LlmResult>
+  stream(request: LlmRequest): Promise<LlmStream>
+}
+
+export const EMPTY_USAGE: LlmUsage = { promptTokens: 0, completionTokens: 0, cachedTokens: 0, totalTokens: 0 }
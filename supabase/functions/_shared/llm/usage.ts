@@ -0,0 +1,81 @@
+import type { LlmFunctionName, LlmUsage } from './types.ts'
+import { computeCostUsd } from './pricing.ts'
+
+export interface LlmCall {
+  model: string
+  usage: LlmUsage
+}
+
+export interface LlmUsageRecord {
+  userId: string
+  functionName: LlmFunctionName
+  /** One entry per model used (repairs and fallbacks can span several) */
+  calls: LlmCall[]
+  planId?: string | null
+  /** When set, a usage_tracking row is written as well (billing/quota accounting) */
+  actionType?: 'trip_generation' | 'chat_message'
+}
+
+export function addUsage(a: LlmUsage, b: LlmUsage): LlmUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    cachedTokens: a.cachedTokens + b.cachedTokens,
+    totalTokens: a.totalTokens + b.totalTokens
+  }
+}
+
+/** Merge calls to the same model so each model gets a single token_usage row */
+export function mergeCalls(calls: LlmCall[]): LlmCall[] {
+  const byModel = new Map<string, LlmUsage>()
+  for (const call of calls) {
+    const previous = byModel.get(call.model)
+    byModel.set(call.model, previous ? addUsage(previous, call.usage) : call.usage)
+  }
+  return Array.from(byModel, ([model, usage]) => ({ model, usage }))
+}
+
+/**
+ * Write token_usage rows (one per model) and, when `actionType` is set, a single usage_tracking
+ * row for one user-facing action. Best effort: failures are logged, never thrown.
+ * `supabase` must carry the user's JWT so RLS applies.
+ */
+export async function recordLlmUsage(supabase: any, record: LlmUsageRecord): Promise<void> {
+  const { userId, functionName, planId = null, actionType } = record
+  const calls = mergeCalls(record.calls)
+  const costs = await Promise.all(calls.map(({ model, usage }) => computeCostUsd(supabase, model, usage)))
+
+  try {
+    const { error } = await supabase.from('token_usage').insert(
+      calls.map(({ model, usage }, i) => ({
+        user_id: userId, // Ensure RLS condition auth.uid() = user_id
+        plan_id: planId,
+        function_name: functionName,
+        model,
+        prompt_tokens: usage.promptTokens,
+        completion_tokens: usage.completionTokens,
+        cached_tokens: usage.cachedTokens,
+        total_tokens: usage.totalTokens,
+        cost_usd: costs[i] // null when the model is missing from model_pricing
+      }))
+    )
+    if (error) throw error
+  } catch (usageErr) {
+    console.warn('Failed to log token usage', usageErr)
+  }
+
+  if (!actionType) return
+  try {
+    const totalTokens = calls.reduce((sum, c) => sum + c.usage.totalTokens, 0)
+    const { error } = await supabase.from('usage_tracking').insert({
+      user_id: userId,
+      action_type: actionType,
+      plan_id: planId,
+      tokens_used: totalTokens,
+      cost_usd: costs.reduce<number>((sum, cost) => sum + (cost ?? 0), 0)
+    })
+    if (error) throw error
+  } catch (trackingErr) {
+    console.warn('Failed to log usage tracking', trackingErr)
+  }
+}
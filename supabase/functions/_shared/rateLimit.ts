@@ -0,0 +1,60 @@
+// Durable per-user rate limiting backed by the consume_rate_limit RPC (token bucket per function
+// and plan tier, see supabase/sql/patch_add_rate_limits.sql). Shared by every function instance.
+
+export interface RateLimitResult {
+  allowed: boolean
+  /** Bucket capacity (requests per window) */
+  limit: number
+  remaining: number
+  /** Seconds until the bucket is full again */
+  resetSeconds: number
+  /** Seconds until the next request would be allowed (0 when allowed) */
+  retryAfterSeconds: number
+  windowSeconds: number
+}
+
+/**
+ * Spend one token for `functionName` from the caller's bucket. `supabase` must carry the user's
+ * JWT. Returns null (no limit) when the function has no policy or the check itself fails –
+ * a database hiccup should not lock everyone out.
+ */
+export async function consumeRateLimit(supabase: any, functionName: string): Promise<RateLimitResult | null> {
+  if (!supabase) return null
+  try {
+    const { data, error } = await supabase.rpc('consume_rate_limit', { p_function_name: functionName })
+    if (error) throw error
+    const row = Array.isArray(data) ? data[0] : data
+    if (!row || row.capacity == null) return null
+    return {
+      allowed: row.allowed,
+      limit: row.capacity,
+      remaining: row.remaining,
+      resetSeconds: row.reset_seconds,
+      retryAfterSeconds: row.retry_after_seconds ?? 0,
+      windowSeconds: row.window_seconds
+    }
+  } catch (err) {
+    console.warn(`Rate limit check failed for ${functionName}; allowing request`, err)
+    return null
+  }
+}
+
+/** RateLimit-* headers (IETF draft) plus Retry-After on rejected requests */
+export function rateLimitHeaders(result: RateLimitResult | null): Record<string, string> {
+  if (!result) return {}
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${result.windowSeconds}`
+  }
+  if (!result.allowed) headers['Retry-After'] = String(result.retryAfterSeconds)
+  return headers
+}
+
+export function rateLimitResponse(result: RateLimitResult, headers: Record<string, string>, message: string): Response {
+  return new Response(JSON.stringify({ error: message, code: 'RATE_LIMITED' }), {
+    headers: { ...headers, ...rateLimitHeaders(result), 'Content-Type': 'application/json' },
+    status: 429
+  })
+}
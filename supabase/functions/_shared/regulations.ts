@@ -0,0 +1,104 @@
+// Deterministic regulation lookup for plan_trip: rows from the regulations table (see
+// supabase/sql/patch_add_regulations.sql) are matched to the trip by jurisdiction, waterbody,
+// species and date – the model never writes limits itself.
+import type { RegulationInfo, RegulationRow, RegulationRule } from './contract.ts'
+
+export interface RegulationQuery {
+  /** ISO 3166 codes for the location, most specific first, e.g. ['us-fl', 'us'] */
+  jurisdictions: string[]
+  /** Location name(s) the waterbody column is matched against (user input and geocoded name) */
+  place: string
+  species: string[]
+  /** Trip dates (YYYY-MM-DD); a seasonal rule applies when any of them falls in its window */
+  dates: string[]
+}
+
+/** MM-DD window, inclusive; a window whose end is before its start wraps the new year */
+function inSeason(row: RegulationRow, date: string): boolean {
+  if (!row.season_start || !row.season_end) return true
+  const day = date.slice(5)
+  return row.season_start <= row.season_end
+    ? day >= row.season_start && day <= row.season_end
+    : day >= row.season_start || day <= row.season_end
+}
+
+function toRule(row: RegulationRow): RegulationRule {
+  return {
+    species: row.species,
+    waterbody: row.waterbody,
+    season: row.season_start && row.season_end ? { start: row.season_start, end: row.season_end } : null,
+    bagLimit: row.bag_limit,
+    minLengthIn: row.min_length_in == null ? null : Number(row.min_length_in),
+    maxLengthIn: row.max_length_in == null ? null : Number(row.max_length_in),
+    closed: row.closed,
+    licenseRequired: row.license_required,
+    notes: row.notes,
+    sourceUrl: row.source_url,
+    lastVerified: String(row.last_verified).slice(0, 10)
+  }
+}
+
+/**
+ * Rules that apply to the trip, or null when none are on file. Within the most specific
+ * jurisdiction that has any matching rule, waterbody-specific rules replace the jurisdiction-wide
+ * rules for the same species.
+ */
+export function matchRegulations(rows: RegulationRow[], query: RegulationQuery): RegulationInfo | null {
+  const place = query.place.toLowerCase()
+  const species = new Set(query.species.map((s) => s.toLowerCase()))
+
+  for (const jurisdiction of query.jurisdictions) {
+    const matching = rows.filter(
+      (r) =>
+        r.jurisdiction === jurisdiction &&
+        (r.species == null || species.has(r.species)) &&
+        (r.waterbody == null || place.includes(r.waterbody.toLowerCase())) &&
+        query.dates.some((d) => inSeason(r, d))
+    )
+    if (matching.length === 0) continue
+
+    const local = new Set(matching.filter((r) => r.waterbody != null).map((r) => r.species ?? '*'))
+    const rules = matching
+      .filter((r) => r.waterbody != null || !local.has(r.species ?? '*'))
+      // General rules (licenses) first, then by species; waterbody rules ahead of wider ones
+      .sort((a, b) => (a.species ?? '').localeCompare(b.species ?? '') || Number(b.waterbody != null) - Number(a.waterbody != null))
+      .map(toRule)
+
+    return {
+      licenseRequired: rules.some((r) => r.licenseRequired === true),
+      jurisdiction,
+      rules
+    }
+  }
+  return null
+}
+
+/** Regulation rows for the given jurisdictions (regulations is readable by anyone) */
+export async function fetchRegulations(supabase: any, jurisdictions: string[]): Promise<RegulationRow[]> {
+  if (jurisdictions.length === 0) return []
+  const { data, error } = await supabase
+    .from('regulations')
+    .select('jurisdiction, waterbody, species, season_start, season_end, bag_limit, min_length_in, max_length_in, closed, license_required, notes, source_url, last_verified')
+    .in('jurisdiction', jurisdictions)
+  if (error) throw error
+  return (data ?? []) as RegulationRow[]
+}
+
+/** "snook (Tampa Bay, 09-01–12-14): 1 per day, 28–33 in" for the prompt */
+export function describeRule(rule: RegulationRule): string {
+  const scope = [rule.waterbody, rule.season ? `${rule.season.start}–${rule.season.end}` : null].filter(Boolean).join(', ')
+  const limits = [
+    rule.closed ? 'closed (no harvest)' : null,
+    rule.bagLimit != null ? `${rule.bagLimit} per day` : null,
+    rule.minLengthIn != null && rule.maxLengthIn != null
+      ? `${rule.minLengthIn}–${rule.maxLengthIn} in`
+      : rule.minLengthIn != null
+        ? `at least ${rule.minLengthIn} in`
+        : rule.maxLengthIn != null
+          ? `at most ${rule.maxLengthIn} in`
+          : null,
+    rule.licenseRequired ? 'license required' : null,
+    rule.notes
+  ].filter(Boolean)
+  return `${rule.species ?? 'All species'}${scope ? ` (${scope})` : ''}: ${limits.join(', ') || 'see source'}`
+}
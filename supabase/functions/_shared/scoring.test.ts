@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest'
+import type { GaugeInfo, HourlyWeather, PressureInfo, SolunarInfo, TideExtreme } from './contract.ts'
+import type { SpeciesAssessment } from './species.ts'
+import { hasForecast, rankDays, scoreDay, type DayInputs } from './scoring.ts'
+
+const DATE = '2025-06-07'
+
+function hour(time: string, fields: Partial<HourlyWeather> = {}): HourlyWeather {
+  return {
+    time: `${DATE}T${time}:00-04:00`,
+    temperatureF: 75,
+    windMph: 5,
+    windGustMph: null,
+    windDirection: 'E',
+    precipitationChance: 0,
+    skyCover: 20,
+    shortForecast: 'Sunny',
+    ...fields
+  }
+}
+
+/** The 06:00–12:00 window with the same wind every hour */
+const windy = (windMph: number, windGustMph: number | null = null) =>
+  ['06:00', '08:00', '10:00', '12:00'].map((t) => hour(t, { windMph, windGustMph }))
+
+const inSeason: SpeciesAssessment = { species: 'Snook', verdict: 'good', score: 1, reasons: ['Peak season in June'] }
+
+function day(inputs: Partial<DayInputs> = {}): DayInputs {
+  return { date: DATE, startTime: '06:00', endTime: '12:00', platform: 'shore', hours: [], species: [], ...inputs }
+}
+
+const factor = (inputs: Partial<DayInputs>, name: string) => scoreDay(day(inputs)).factors.find((f) => f.factor === name)
+
+const tide = (time: string, type: TideExtreme['type']): TideExtreme => ({ time: `${DATE} ${time}`, type, height: type === 'High' ? 2 : 0 })
+
+function solunar(major: Array<[string, string]>, minor: Array<[string, string]> = []): SolunarInfo {
+  const period = ([start, end]: [string, string]) => ({ start: `${DATE} ${start}`, end: `${DATE} ${end}` })
+  return {
+    date: DATE,
+    utcOffset: '-04:00',
+    sunrise: null,
+    sunset: null,
+    solarNoon: null,
+    moonrise: null,
+    moonset: null,
+    moonOverhead: null,
+    moonUnderfoot: null,
+    moonPhase: 'Full Moon',
+    illumination: 100,
+    majorPeriods: major.map(period),
+    minorPeriods: minor.map(period)
+  }
+}
+
+function gauge(fields: Partial<GaugeInfo> = {}): GaugeInfo {
+  return {
+    site: { id: '02304500', name: 'Hillsborough River', distanceKm: 5 },
+    observedAt: null,
+    dischargeCfs: 120,
+    waterTempC: 24,
+    change24hPct: 0,
+    change7dPct: 0,
+    trend: 'steady',
+    percentile: 50,
+    flowCategory: 'normal',
+    normalRange: null,
+    history: [],
+    summary: '',
+    ...fields
+  }
+}
+
+const pressure = (fields: Partial<PressureInfo> = {}): PressureInfo => ({
+  station: 'KTPA',
+  observedAt: null,
+  currentHpa: 1015,
+  change3hHpa: 0,
+  change24hHpa: 0,
+  change48hHpa: 0,
+  trend24h: 'steady',
+  trend48h: 'steady',
+  front: null,
+  summary: '',
+  ...fields
+})
+
+describe('wind', () => {
+  it.each([
+    ['shore', 10, null, 1],
+    ['shore', 12, null, 0.7],
+    ['shore', 20, null, 0.4],
+    ['shore', 25, null, 0.15],
+    ['shore', 26, null, 0],
+    ['shore', 10, 30, 1],
+    ['shore', 10, 31, 0.2],
+    ['boat', 8, null, 1],
+    ['boat', 10, null, 0.7],
+    ['boat', 15, null, 0.3],
+    ['boat', 19, null, 0],
+    ['boat', 5, 22, 1],
+    ['boat', 5, 23, 0.2]
+  ] as const)('%s at %d mph (gusts %s) scores %d', (platform, mph, gust, expected) => {
+    expect(factor({ platform, hours: windy(mph, gust) }, 'wind')?.score).toBe(expected)
+  })
+
+  it.each([
+    ['boat', 'too rough to launch'],
+    ['shore', 'too rough to fish comfortably']
+  ] as const)('explains a %s no-go', (platform, reason) => {
+    expect(factor({ platform, hours: windy(30) }, 'wind')?.reason).toContain(reason)
+  })
+
+  it.each([
+    ['boat', 19, 25],
+    ['shore', 26, 25],
+    ['boat', 15, 74],
+    ['shore', 20, 78]
+  ] as const)('caps a %s day at %d mph to %d however good the rest is', (platform, mph, expected) => {
+    expect(scoreDay(day({ platform, hours: windy(mph), species: [inSeason] })).score).toBe(expected)
+  })
+})
+
+describe('rain', () => {
+  it.each([
+    [10, null, 1, 'Dry'],
+    [30, null, 0.8, 'Up to 30% chance of rain'],
+    [50, null, 0.5, 'Up to 50% chance of rain'],
+    [70, null, 0.2, 'Up to 70% chance of rain'],
+    [10, 'Chance Thunderstorms', 0.1, 'Thunderstorms possible (10% chance of rain)']
+  ])('%d%% chance (%s) scores %d', (chance, shortForecast, score, reason) => {
+    expect(factor({ hours: [hour('08:00', { precipitationChance: chance, shortForecast })] }, 'rain')).toEqual({ factor: 'rain', score, reason })
+  })
+})
+
+describe('pressure', () => {
+  it.each([
+    [{ front: 'approaching' }, 0.9],
+    [{ front: 'passed' }, 0.4],
+    [{ trend24h: 'falling' }, 0.8],
+    [{ trend24h: 'steady' }, 0.7],
+    [{ trend24h: 'rising' }, 0.55]
+  ] as const)('%o scores %d', (fields, expected) => {
+    expect(factor({ pressure: pressure(fields) }, 'pressure')?.score).toBe(expected)
+  })
+})
+
+describe('tide', () => {
+  it.each([
+    ['a full half-cycle (low at the start, high at the end)', [tide('06:00', 'Low'), tide('12:00', 'High')], '06:00', '12:00', 0.84, 'Moving water through the window (rising toward the 12:00 high)'],
+    ['the middle of a falling tide', [tide('06:00', 'High'), tide('12:00', 'Low')], '08:00', '10:00', 1, 'Moving water through the window (falling toward the 12:00 low)'],
+    ['a window centred on the turn', [tide('06:00', 'Low'), tide('12:00', 'High'), tide('18:00', 'Low')], '11:00', '13:00', 0.4, 'Slack water for much of the window (turns at high 12:00)']
+  ])('%s', (_, tideExtremes, startTime, endTime, score, reason) => {
+    expect(factor({ tideExtremes, startTime, endTime }, 'tide')).toEqual({ factor: 'tide', score, reason })
+  })
+
+  it.each([
+    ['fewer than two predictions', [tide('08:00', 'High')]],
+    ['predictions only after the window', [tide('14:00', 'Low'), tide('20:00', 'High')]]
+  ])('is skipped with %s', (_, tideExtremes) => {
+    expect(factor({ tideExtremes }, 'tide')).toBeUndefined()
+  })
+})
+
+describe('flow', () => {
+  it.each([
+    [{ flowCategory: 'normal' }, 1],
+    [{ flowCategory: 'much_above' }, 0.15],
+    [{ flowCategory: 'below', trend: 'rising', change24hPct: 60 }, 0.4],
+    [{ flowCategory: 'below', trend: 'rising', change24hPct: 20 }, 0.8]
+  ] as const)('%o scores %d', (fields, expected) => {
+    expect(factor({ gauge: gauge(fields) }, 'flow')?.score).toBe(expected)
+  })
+})
+
+describe('solunar', () => {
+  it.each([
+    ['a major period covering an hour or more', [['07:00', '09:00']], [], 1, 'Major feeding period 07:00–09:00 in the window (Full Moon)'],
+    ['a major period clipping the window', [['11:30', '13:30']], [], 0.8, 'Major feeding period 11:30–13:30 in the window (Full Moon)'],
+    ['only a minor period', [['14:00', '16:00']], [['06:30', '07:30']], 0.6, 'Minor feeding period 06:30–07:30 in the window (Full Moon)'],
+    ['no period', [['14:00', '16:00']], [['13:00', '14:00']], 0.3, 'No solunar feeding period in the window']
+  ] as Array<[string, Array<[string, string]>, Array<[string, string]>, number, string]>)('%s', (_, major, minor, score, reason) => {
+    expect(factor({ solunar: solunar(major, minor) }, 'solunar')).toEqual({ factor: 'solunar', score, reason })
+  })
+})
+
+describe('missing data', () => {
+  it.each([
+    ['no forecast hours', { hours: [] }, ['wind', 'rain']],
+    ['forecast hours without wind or rain', { hours: [hour('08:00', { windMph: null, precipitationChance: null })] }, ['wind', 'rain']],
+    ['an unknown pressure trend', { pressure: pressure({ trend24h: 'unknown' }) }, ['pressure']],
+    ['a gauge too far away', { gauge: gauge({ site: { id: '1', name: 'Far', distanceKm: 40 } }) }, ['flow']],
+    ['a gauge without a flow class', { gauge: gauge({ flowCategory: null }) }, ['flow']],
+    ['no solunar table', { solunar: null }, ['solunar']],
+    ['no species', { species: [] }, ['season']]
+  ] as Array<[string, Partial<DayInputs>, string[]]>)('leaves out factors for %s', (_, inputs, missing) => {
+    const { factors } = scoreDay(day({ species: [inSeason], ...inputs }))
+    for (const name of missing) expect(factors.map((f) => f.factor)).not.toContain(name)
+  })
+
+  it('averages only the factors that have data', () => {
+    // Season (weight 3) at 1 and a passed front (weight 1) at 0.4: (3 + 0.4) / 4
+    expect(scoreDay(day({ species: [inSeason], pressure: pressure({ front: 'passed' }) })).score).toBe(85)
+  })
+
+  it('scores a day with no data at all as 0', () => {
+    expect(scoreDay(day())).toEqual({ date: DATE, score: 0, factors: [] })
+  })
+})
+
+describe('rankDays', () => {
+  const forecastDay = (date: string, windMph: number) => scoreDay(day({ date, hours: windy(windMph), species: [inSeason] }))
+  const outOfForecast = (date: string) => scoreDay(day({ date, species: [inSeason] }))
+
+  it.each([
+    [
+      'forecast days ahead of higher-scoring days past the forecast',
+      [outOfForecast('2025-06-20'), forecastDay('2025-06-08', 20), forecastDay('2025-06-07', 12)],
+      ['2025-06-07', '2025-06-08', '2025-06-20']
+    ],
+    [
+      'ties to the earlier date',
+      [forecastDay('2025-06-09', 5), forecastDay('2025-06-08', 5), outOfForecast('2025-06-21'), outOfForecast('2025-06-20')],
+      ['2025-06-08', '2025-06-09', '2025-06-20', '2025-06-21']
+    ]
+  ])('ranks %s', (_, days, expected) => {
+    expect(rankDays(days).map((d) => d.date)).toEqual(expected)
+  })
+
+  it('flags which days were scored on a forecast', () => {
+    expect([forecastDay('2025-06-07', 5), outOfForecast('2025-06-20')].map(hasForecast)).toEqual([true, false])
+  })
+})
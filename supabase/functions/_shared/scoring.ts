@@ -0,0 +1,218 @@
+// Deterministic conditions score for a water on a date: each factor (wind, rain, pressure, tide,
+// flow, solunar periods, species season) is scored 0–1 with a one-line reason, and the day's score is their
+// weighted mean on a 0–100 scale. Pure functions only – no fetching and no model – so the same
+// inputs always rank the same way.
+import type { DayScore, GaugeInfo, HourlyWeather, PressureInfo, ScoreFactor, SolunarInfo, TideExtreme } from './contract.ts'
+import type { SpeciesAssessment } from './species.ts'
+
+export interface DayInputs {
+  /** YYYY-MM-DD, local to the water */
+  date: string
+  /** Trip window, local HH:mm */
+  startTime: string
+  endTime: string
+  platform: 'shore' | 'boat'
+  /** Hourly forecast inside the window; empty past the forecast range */
+  hours: HourlyWeather[]
+  /** Observed trend; only meaningful for the next day or so */
+  pressure?: PressureInfo | null
+  /** High / low predictions for the date (coastal waters) */
+  tideExtremes?: TideExtreme[] | null
+  /** Nearest stream gauge (rivers, lakes) */
+  gauge?: GaugeInfo | null
+  /** Solunar table for the date at the water */
+  solunar?: SolunarInfo | null
+  species: SpeciesAssessment[]
+}
+
+const WEIGHTS: Record<ScoreFactor['factor'], number> = {
+  wind: 3,
+  rain: 2,
+  pressure: 1,
+  tide: 2,
+  flow: 2,
+  solunar: 1,
+  season: 3
+}
+
+/** A day whose wind rules the platform out scores no higher than this, however good the rest is */
+const NO_GO_CAP = 25
+
+/** Gauges further than this from the water say little about it */
+const MAX_GAUGE_KM = 25
+
+// Sustained wind (mph) up to which each score applies; boats are held to tighter limits
+const WIND_BANDS: Record<DayInputs['platform'], Array<[number, number]>> = {
+  shore: [[10, 1], [15, 0.7], [20, 0.4], [25, 0.15]],
+  boat: [[8, 1], [12, 0.7], [18, 0.3]]
+}
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n))
+const round2 = (n: number) => Math.round(n * 100) / 100
+const lowerFirst = (s: string) => s.charAt(0).toLowerCase() + s.slice(1)
+
+function scoreWind(hours: HourlyWeather[], platform: DayInputs['platform']): ScoreFactor | null {
+  const winds = hours.map((h) => h.windMph).filter((w): w is number => w != null)
+  if (winds.length === 0) return null
+  const max = Math.max(...winds)
+  const gust = Math.max(0, ...hours.map((h) => h.windGustMph ?? 0))
+  let score = WIND_BANDS[platform].find(([limit]) => max <= limit)?.[1] ?? 0
+  if (gust > (platform === 'boat' ? 22 : 30)) score = Math.min(score, 0.2)
+  const range = Math.min(...winds) === max ? `${max}` : `${Math.min(...winds)}–${max}`
+  return {
+    factor: 'wind',
+    score,
+    reason: `Wind ${range} mph${gust > max ? `, gusts to ${gust}` : ''}${score === 0 ? ` – too rough ${platform === 'boat' ? 'to launch' : 'to fish comfortably'}` : ''}`
+  }
+}
+
+function scoreRain(hours: HourlyWeather[]): ScoreFactor | null {
+  const chances = hours.map((h) => h.precipitationChance).filter((p): p is number => p != null)
+  if (chances.length === 0) return null
+  const max = Math.max(...chances)
+  if (hours.some((h) => /thunder/i.test(h.shortForecast ?? ''))) {
+    return { factor: 'rain', score: 0.1, reason: `Thunderstorms possible (${max}% chance of rain)` }
+  }
+  const score = max < 20 ? 1 : max < 40 ? 0.8 : max < 60 ? 0.5 : 0.2
+  return { factor: 'rain', score, reason: max < 20 ? 'Dry' : `Up to ${max}% chance of rain` }
+}
+
+function scorePressure(pressure: PressureInfo | null | undefined): ScoreFactor | null {
+  if (!pressure || pressure.trend24h === 'unknown') return null
+  if (pressure.front === 'approaching') {
+    return { factor: 'pressure', score: 0.9, reason: 'Pressure falling ahead of a front – often a strong bite' }
+  }
+  if (pressure.front === 'passed') {
+    return { factor: 'pressure', score: 0.4, reason: 'High pressure behind a front – fish tend to be sluggish' }
+  }
+  const score = { falling: 0.8, steady: 0.7, rising: 0.55 }[pressure.trend24h]
+  return { factor: 'pressure', score, reason: `Pressure ${pressure.trend24h} over the last 24 h` }
+}
+
+/** Minutes since the epoch for a local "YYYY-MM-DD HH:mm" (only differences are used) */
+const minutesOf = (local: string) => Date.parse(`${local.replace(' ', 'T')}:00Z`) / 60_000
+
+/** The trip window in those minutes; a window ending before it starts runs into the next day */
+function windowMinutes(date: string, startTime: string, endTime: string): [number, number] {
+  const from = minutesOf(`${date} ${startTime}`)
+  return [from, minutesOf(`${date} ${endTime}`) + (endTime > startTime ? 0 : 24 * 60)]
+}
+
+/**
+ * How hard the tide is running through the window: sampled every 30 minutes, 0 at a turn and 1
+ * halfway between a high and a low. Samples outside the day's predictions are skipped.
+ */
+function scoreTide(extremes: TideExtreme[] | null | undefined, date: string, startTime: string, endTime: string): ScoreFactor | null {
+  const turns = (extremes ?? []).map((e) => ({ ...e, at: minutesOf(e.time) })).sort((a, b) => a.at - b.at)
+  if (turns.length < 2) return null
+  const [from, to] = windowMinutes(date, startTime, endTime)
+
+  const samples: Array<{ strength: number; next: (typeof turns)[number] }> = []
+  for (let t = from; t <= to; t += 30) {
+    const i = turns.findIndex((e) => e.at > t)
+    if (i <= 0) continue
+    const prev = turns[i - 1]
+    const next = turns[i]
+    samples.push({ strength: Math.sin((Math.PI * (t - prev.at)) / (next.at - prev.at)), next })
+  }
+  if (samples.length === 0) return null
+
+  // A window spanning a whole half-cycle averages ~0.64, so that already counts as well-moving water
+  const mean = samples.reduce((sum, s) => sum + s.strength, 0) / samples.length
+  const score = round2(clamp01(mean / 0.75))
+  const { next } = samples[Math.floor(samples.length / 2)]
+  const slack = turns.filter((e) => e.at >= from && e.at <= to).map((e) => `${e.type.toLowerCase()} ${e.time.slice(11)}`)
+  return {
+    factor: 'tide',
+    score,
+    reason:
+      score >= 0.6
+        ? `Moving water through the window (${next.type === 'High' ? 'rising' : 'falling'} toward the ${next.time.slice(11)} ${next.type.toLowerCase()})`
+        : `Slack water for much of the window${slack.length ? ` (turns at ${slack.join(', ')})` : ''}`
+  }
+}
+
+const FLOW_SCORES: Record<NonNullable<GaugeInfo['flowCategory']>, [number, string]> = {
+  much_below: [0.5, 'well below normal – low and clear'],
+  below: [0.8, 'below normal'],
+  normal: [1, 'normal'],
+  above: [0.6, 'above normal'],
+  much_above: [0.15, 'well above normal – likely high and muddy']
+}
+
+function scoreFlow(gauge: GaugeInfo | null | undefined): ScoreFactor | null {
+  if (!gauge?.flowCategory || gauge.site.distanceKm > MAX_GAUGE_KM) return null
+  const [score, label] = FLOW_SCORES[gauge.flowCategory]
+  const risingFast = gauge.trend === 'rising' && (gauge.change24hPct ?? 0) >= 50
+  return {
+    factor: 'flow',
+    score: risingFast ? Math.min(score, 0.4) : score,
+    reason: `Flow currently ${label} for the date at ${gauge.site.name}${risingFast ? `, up ${gauge.change24hPct}% in 24 h` : ''}`
+  }
+}
+
+/** A major period (moon overhead / underfoot) in the window beats a minor one (moonrise / moonset) */
+function scoreSolunar(solunar: SolunarInfo | null | undefined, date: string, startTime: string, endTime: string): ScoreFactor | null {
+  if (!solunar) return null
+  const [from, to] = windowMinutes(date, startTime, endTime)
+  const overlap = (p: SolunarInfo['majorPeriods'][number]) => Math.min(to, minutesOf(p.end)) - Math.max(from, minutesOf(p.start))
+  const major = solunar.majorPeriods.find((p) => overlap(p) > 0)
+  const minor = solunar.minorPeriods.find((p) => overlap(p) > 0)
+  const period = major ?? minor
+  if (!period) return { factor: 'solunar', score: 0.3, reason: 'No solunar feeding period in the window' }
+  return {
+    factor: 'solunar',
+    score: major ? (overlap(major) >= 60 ? 1 : 0.8) : 0.6,
+    reason: `${major ? 'Major' : 'Minor'} feeding period ${period.start.slice(11)}–${period.end.slice(11)} in the window (${solunar.moonPhase})`
+  }
+}
+
+const VERDICT_LABELS: Record<SpeciesAssessment['verdict'], string> = {
+  good: 'in season',
+  fair: 'fair chance',
+  long_shot: 'long shot',
+  impossible: 'not found here',
+  unknown: 'no seasonal data'
+}
+
+/** The best species' chance carries the factor; each species' verdict goes in the reason */
+function scoreSeason(species: SpeciesAssessment[]): ScoreFactor | null {
+  if (species.length === 0) return null
+  return {
+    factor: 'season',
+    score: round2(Math.max(...species.map((a) => a.score))),
+    reason: species.map((a) => `${a.species}: ${lowerFirst(a.reasons[0] ?? VERDICT_LABELS[a.verdict])}`).join('; ')
+  }
+}
+
+/** Score one water on one date. Factors without data are left out of the mean rather than guessed. */
+export function scoreDay(inputs: DayInputs): DayScore {
+  const wind = scoreWind(inputs.hours, inputs.platform)
+  const factors = [
+    wind,
+    scoreRain(inputs.hours),
+    scorePressure(inputs.pressure),
+    scoreTide(inputs.tideExtremes, inputs.date, inputs.startTime, inputs.endTime),
+    scoreFlow(inputs.gauge),
+    scoreSolunar(inputs.solunar, inputs.date, inputs.startTime, inputs.endTime),
+    scoreSeason(inputs.species)
+  ].filter((f): f is ScoreFactor => f != null)
+
+  const weight = factors.reduce((sum, f) => sum + WEIGHTS[f.factor], 0)
+  let score = weight ? Math.round((100 * factors.reduce((sum, f) => sum + WEIGHTS[f.factor] * f.score, 0)) / weight) : 0
+  if (wind?.score === 0) score = Math.min(score, NO_GO_CAP)
+  return { date: inputs.date, score, factors }
+}
+
+/** Whether the day was scored on a weather forecast (wind or rain) */
+export const hasForecast = (day: DayScore) => day.factors.some((f) => f.factor === 'wind' || f.factor === 'rain')
+
+/**
+ * Highest score first; ties go to the earlier date. Days past the forecast rank after every day
+ * within it – missing wind and rain would otherwise let tides and the moon alone carry them.
+ */
+export function rankDays<T extends DayScore>(days: T[]): T[] {
+  return [...days].sort(
+    (a, b) => Number(hasForecast(b)) - Number(hasForecast(a)) || b.score - a.score || a.date.localeCompare(b.date)
+  )
+}
@@ -0,0 +1,521 @@
+// Species metadata (range, habitat, seasonal activity, water temperature) and the suitability
+// check built on it. Used by plan_trip and, through a relative import, by the trip wizard – so
+// like contract.ts it must stay runtime-agnostic and import nothing.
+//
+// Regions are ISO 3166 codes as returned by the geocoders: a country ('mx') or a subdivision
+// ('us-fl'). Seasonal activity is a 12-character string, January first: 0 = absent or dormant,
+// 1 = slow, 2 = active, 3 = peak.
+
+export type Habitat = 'fresh' | 'brackish' | 'salt'
+export type SpeciesVerdict = 'good' | 'fair' | 'long_shot' | 'impossible' | 'unknown'
+
+export interface SpeciesProfile {
+  habitats: Habitat[]
+  /** Native and established range; a country code covers the whole country unless listed in `except` */
+  range: string[]
+  except?: string[]
+  /** Human-readable range for messages */
+  rangeNote: string
+  /** First entry whose regions include the location wins; an entry without regions is the default */
+  activity: Array<{ regions?: string[]; months: string }>
+  /** Water temperature in °F: [survival min, preferred low, preferred high, survival max] */
+  tempF: [number, number, number, number]
+}
+
+export interface SpeciesContext {
+  regionCode?: string | null
+  countryCode?: string | null
+  /** 1–12 */
+  month: number
+  /** Measured at a river or lake gauge, so it is only applied to species that live in fresh water */
+  waterTempF?: number | null
+  /** The specific water being fished, when known (e.g. a lake vs. the coast) */
+  habitat?: Habitat | null
+}
+
+export interface SpeciesAssessment {
+  species: string
+  verdict: SpeciesVerdict
+  /** 0–1, for ranking */
+  score: number
+  reasons: string[]
+}
+
+const HABITAT_LABELS: Record<Habitat, string> = { fresh: 'fresh water', brackish: 'brackish water', salt: 'salt water' }
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+
+// ------------------------------
+// Region groups
+// ------------------------------
+
+const GULF = ['us-fl', 'us-al', 'us-ms', 'us-la', 'us-tx']
+const SOUTH_ATLANTIC = ['us-fl', 'us-ga', 'us-sc', 'us-nc']
+const MID_ATLANTIC = ['us-va', 'us-md', 'us-de', 'us-nj', 'us-ny']
+const NEW_ENGLAND_COAST = ['us-ct', 'us-ri', 'us-ma', 'us-nh', 'us-me']
+const PACIFIC_COAST = ['us-ca', 'us-or', 'us-wa', 'us-ak', 'ca-bc']
+const GREAT_LAKES = ['us-mn', 'us-wi', 'us-mi', 'us-il', 'us-in', 'us-oh', 'us-pa', 'us-ny', 'ca-on']
+const CARIBBEAN = ['bs', 'cu', 'jm', 'ht', 'do', 'pr', 'us-pr', 'vi', 'us-vi', 'ky', 'tc', 'bz', 'hn', 'ni', 'cr', 'pa']
+/** Cold-winter states and provinces, where lakes ice over */
+const NORTH = ['us-ak', 'us-mn', 'us-wi', 'us-mi', 'us-nd', 'us-sd', 'us-mt', 'us-wy', 'us-id', 'us-me', 'us-nh', 'us-vt', 'ca']
+/** Warm-winter states and the tropics */
+const SOUTH = [...GULF, 'us-ga', 'us-sc', 'us-az', 'us-hi', 'mx', ...CARIBBEAN]
+/** U.S. states and Canadian provinces with a sea coast; everything else in them is fresh water */
+const SALT_REGIONS = new Set([
+  ...GULF,
+  ...SOUTH_ATLANTIC,
+  ...MID_ATLANTIC,
+  ...NEW_ENGLAND_COAST,
+  ...PACIFIC_COAST,
+  'us-hi',
+  'us-pa', // Delaware estuary
+  'ca-ns',
+  'ca-nb',
+  'ca-pe',
+  'ca-nl',
+  'ca-qc',
+  'ca-mb',
+  'ca-nu',
+  'ca-nt',
+  'ca-yt'
+])
+
+// ------------------------------
+// Species
+// ------------------------------
+
+/** Keyed by the wizard's species names (src/schemas/trip.ts commonSpecies) */
+export const SPECIES: Record<string, SpeciesProfile> = {
+  'Bass (Largemouth)': {
+    habitats: ['fresh', 'brackish'],
+    range: ['us', 'mx', 'cu', 'ca-on', 'ca-qc', 'ca-bc'],
+    except: ['us-ak'],
+    rangeNote: 'the lower 48, southern Canada and Mexico',
+    activity: [
+      { regions: NORTH, months: '001233332100' },
+      { regions: SOUTH, months: '223333333332' },
+      { months: '112333333211' }
+    ],
+    tempF: [40, 65, 80, 92]
+  },
+  'Bass (Smallmouth)': {
+    habitats: ['fresh'],
+    range: ['us', 'ca-on', 'ca-qc', 'ca-mb', 'ca-nb'],
+    except: ['us-ak', 'us-hi', 'us-fl', 'us-la', 'us-ms'],
+    rangeNote: 'northern and central U.S. rivers and lakes, and southern Canada',
+    activity: [{ regions: NORTH, months: '001233332110' }, { months: '112333333211' }],
+    tempF: [38, 62, 72, 84]
+  },
+  'Bass (Striped)': {
+    habitats: ['salt', 'brackish', 'fresh'],
+    range: ['us', 'ca-nb', 'ca-ns', 'ca-qc'],
+    except: ['us-ak', 'us-hi', 'us-nd', 'us-mn', 'us-wi', 'us-mi', 'us-wy', 'us-mt', 'us-id'],
+    rangeNote: 'the Atlantic and Gulf coasts, California and stocked reservoirs',
+    activity: [
+      { regions: [...NEW_ENGLAND_COAST, 'us-ny', 'us-nj', 'ca'], months: '000133322331' },
+      { months: '112332223321' }
+    ],
+    tempF: [42, 55, 68, 80]
+  },
+  'Bluegill': {
+    habitats: ['fresh'],
+    range: ['us', 'mx', 'ca-on', 'ca-qc'],
+    except: ['us-ak'],
+    rangeNote: 'the lower 48 and southern Canada',
+    activity: [
+      { regions: NORTH, months: '111233332111' },
+      { regions: SOUTH, months: '223333333332' },
+      { months: '112333333211' }
+    ],
+    tempF: [36, 65, 80, 92]
+  },
+  'Bonefish': {
+    habitats: ['salt'],
+    range: ['us-fl', 'us-hi', 'mx', ...CARIBBEAN],
+    rangeNote: 'South Florida, the Bahamas, the Caribbean and Hawaii',
+    activity: [{ regions: ['us-fl'], months: '122333333332' }, { months: '333333333333' }],
+    tempF: [64, 72, 84, 92]
+  },
+  'Carp (Common)': {
+    habitats: ['fresh', 'brackish'],
+    range: ['us', 'mx', 'ca-on', 'ca-qc', 'ca-mb', 'ca-sk', 'ca-ab', 'ca-bc'],
+    except: ['us-ak'],
+    rangeNote: 'the lower 48, southern Canada and Mexico',
+    activity: [{ regions: NORTH, months: '001233332100' }, { months: '112333333211' }],
+    tempF: [36, 60, 82, 95]
+  },
+  'Catfish (Blue)': {
+    habitats: ['fresh', 'brackish'],
+    range: [
+      'us-tx', 'us-ok', 'us-ks', 'us-ne', 'us-sd', 'us-ia', 'us-mo', 'us-ar', 'us-la', 'us-ms', 'us-al', 'us-tn', 'us-ky',
+      'us-il', 'us-in', 'us-oh', 'us-wv', 'us-va', 'us-md', 'us-nc', 'us-sc', 'us-ga', 'us-fl', 'us-az', 'us-ca', 'mx'
+    ],
+    rangeNote: 'the Mississippi, Ohio and Missouri basins, Gulf and Atlantic rivers, and stocked western lakes',
+    activity: [{ months: '222333333322' }],
+    tempF: [40, 70, 85, 94]
+  },
+  'Catfish (Channel)': {
+    habitats: ['fresh', 'brackish'],
+    range: ['us', 'mx', 'ca-on', 'ca-qc', 'ca-mb', 'ca-sk'],
+    except: ['us-ak'],
+    rangeNote: 'the lower 48, southern Canada and Mexico',
+    activity: [{ regions: NORTH, months: '001233333210' }, { months: '112333333211' }],
+    tempF: [40, 70, 85, 94]
+  },
+  'Catfish (Flathead)': {
+    habitats: ['fresh'],
+    range: [
+      'us-tx', 'us-ok', 'us-ks', 'us-ne', 'us-nd', 'us-sd', 'us-mn', 'us-wi', 'us-mi', 'us-ia', 'us-mo', 'us-ar', 'us-la',
+      'us-ms', 'us-al', 'us-tn', 'us-ky', 'us-il', 'us-in', 'us-oh', 'us-pa', 'us-wv', 'us-va', 'us-nc', 'us-ga', 'us-fl',
+      'us-az', 'us-nm', 'us-id', 'us-or', 'us-wa', 'us-ca', 'mx'
+    ],
+    rangeNote: 'the Mississippi, Ohio and Missouri basins and stocked southern and western rivers',
+    activity: [{ months: '011233333210' }],
+    tempF: [45, 75, 86, 95]
+  },
+  'Crappie (Black)': {
+    habitats: ['fresh'],
+    range: ['us', 'ca-on', 'ca-qc', 'ca-mb'],
+    except: ['us-ak', 'us-hi'],
+    rangeNote: 'the lower 48 and southern Canada',
+    // Schools up under the ice – a winter staple in the north
+    activity: [{ regions: NORTH, months: '222332222222' }, { months: '123332222221' }],
+    tempF: [34, 60, 75, 88]
+  },
+  'Crappie (White)': {
+    habitats: ['fresh'],
+    range: ['us'],
+    except: ['us-ak', 'us-hi', 'us-me', 'us-vt', 'us-nh', 'us-mt', 'us-wy', 'us-id', 'us-wa', 'us-or'],
+    rangeNote: 'the central, southern and eastern U.S.',
+    activity: [{ regions: NORTH, months: '112332222211' }, { months: '123332222221' }],
+    tempF: [36, 60, 75, 88]
+  },
+  'Drum (Black)': {
+    habitats: ['salt', 'brackish'],
+    range: [...MID_ATLANTIC, ...SOUTH_ATLANTIC, ...GULF, 'mx'],
+    rangeNote: 'the Atlantic coast from New York south and the Gulf',
+    activity: [{ regions: MID_ATLANTIC, months: '001332222100' }, { months: '233322222233' }],
+    tempF: [48, 60, 80, 90]
+  },
+  'Flounder (Summer)': {
+    habitats: ['salt', 'brackish'],
+    range: ['us-ma', 'us-ri', 'us-ct', ...MID_ATLANTIC, ...SOUTH_ATLANTIC],
+    rangeNote: 'the Atlantic coast from Massachusetts to Florida',
+    activity: [
+      { regions: ['us-ma', 'us-ri', 'us-ct', ...MID_ATLANTIC], months: '000123333100' },
+      { months: '112233332211' }
+    ],
+    tempF: [45, 58, 72, 82]
+  },
+  'Grouper (Gag)': {
+    habitats: ['salt'],
+    range: [...GULF, ...SOUTH_ATLANTIC, 'mx', 'bs', 'cu'],
+    rangeNote: 'the Gulf and the southern Atlantic coast',
+    // Moves onto shallow ledges from late fall through winter
+    activity: [{ months: '333322222333' }],
+    tempF: [55, 65, 80, 88]
+  },
+  'Halibut (Pacific)': {
+    habitats: ['salt'],
+    range: ['us-ak', 'us-wa', 'us-or', 'us-ca', 'ca-bc'],
+    rangeNote: 'the Pacific coast from northern California to Alaska',
+    activity: [{ regions: ['us-ak', 'ca-bc'], months: '001233332100' }, { months: '112233322111' }],
+    tempF: [33, 38, 50, 60]
+  },
+  'Mahi Mahi': {
+    habitats: ['salt'],
+    range: [...GULF, ...SOUTH_ATLANTIC, 'us-va', 'us-md', 'us-de', 'us-nj', 'us-hi', 'us-ca', 'mx', ...CARIBBEAN],
+    rangeNote: 'warm offshore water – the Gulf Stream, the Gulf, the Caribbean, Hawaii and Southern California',
+    activity: [
+      { regions: ['us-nc', 'us-va', 'us-md', 'us-de', 'us-nj'], months: '000123333210' },
+      { regions: ['us-ca'], months: '000001233210' },
+      { regions: [...GULF, 'us-ga', 'us-sc'], months: '112333332211' },
+      { months: '333333333333' }
+    ],
+    tempF: [68, 72, 82, 88]
+  },
+  'Marlin (Blue)': {
+    habitats: ['salt'],
+    range: [...GULF, 'us-nc', 'us-va', 'us-md', 'us-de', 'us-nj', 'us-hi', 'mx', ...CARIBBEAN],
+    rangeNote: 'deep blue water – the Gulf Stream, the Gulf, the Caribbean and Hawaii',
+    activity: [
+      { regions: ['us-nc', 'us-va', 'us-md', 'us-de', 'us-nj'], months: '000001333210' },
+      { regions: GULF, months: '000012333210' },
+      { months: '222333333222' }
+    ],
+    tempF: [70, 75, 84, 88]
+  },
+  'Muskie': {
+    habitats: ['fresh'],
+    range: [
+      'us-mn', 'us-wi', 'us-mi', 'us-ny', 'us-pa', 'us-oh', 'us-in', 'us-il', 'us-ia', 'us-ky', 'us-tn', 'us-wv', 'us-va',
+      'us-nc', 'us-vt', 'us-nd', 'us-sd', 'us-ne', 'us-mo', 'us-md', 'us-nj', 'ca-on', 'ca-qc', 'ca-mb'
+    ],
+    rangeNote: 'the Great Lakes, upper Mississippi and Ohio basins, and southern Canada',
+    activity: [{ regions: NORTH, months: '000012223331' }, { months: '111222223332' }],
+    tempF: [36, 60, 75, 86]
+  },
+  'Perch (Yellow)': {
+    habitats: ['fresh', 'brackish'],
+    range: ['us', 'ca'],
+    except: ['us-ak', 'us-hi', 'us-fl', 'us-la', 'us-ms', 'us-al', 'us-tx', 'us-ok', 'us-ar', 'us-az', 'us-nm'],
+    rangeNote: 'the northern and eastern U.S. and Canada',
+    activity: [{ months: '333322222333' }],
+    tempF: [33, 55, 70, 82]
+  },
+  'Pike (Northern)': {
+    habitats: ['fresh', 'brackish'],
+    range: [
+      'us-ak', 'us-mn', 'us-wi', 'us-mi', 'us-nd', 'us-sd', 'us-ne', 'us-ia', 'us-il', 'us-in', 'us-oh', 'us-pa', 'us-ny', 'us-vt',
+      'us-nh', 'us-me', 'us-ma', 'us-ct', 'us-mt', 'us-wy', 'us-co', 'us-id', 'us-wa', 'us-ut', 'ca'
+    ],
+    rangeNote: 'the northern U.S., Alaska and Canada',
+    activity: [{ months: '222332223332' }],
+    tempF: [33, 55, 70, 82]
+  },
+  'Redfish': {
+    habitats: ['salt', 'brackish'],
+    range: ['us-nj', 'us-de', 'us-md', 'us-va', ...SOUTH_ATLANTIC, ...GULF, 'mx'],
+    rangeNote: 'the Atlantic coast from the Chesapeake south and the Gulf',
+    activity: [{ regions: ['us-nj', 'us-de', 'us-md', 'us-va', 'us-nc'], months: '001233333310' }, { months: '222333333332' }],
+    tempF: [48, 65, 85, 93]
+  },
+  'Sailfish': {
+    habitats: ['salt'],
+    range: [...GULF, 'us-nc', 'us-hi', 'mx', 'gt', ...CARIBBEAN],
+    rangeNote: 'warm offshore water – southeast Florida, the Gulf, the Caribbean, Pacific Mexico and Central America',
+    activity: [
+      { regions: ['us-fl'], months: '333211112233' },
+      { regions: ['us-nc', 'us-tx', 'us-la', 'us-ms', 'us-al'], months: '000012333210' },
+      { months: '222222222222' }
+    ],
+    tempF: [70, 75, 83, 88]
+  },
+  'Salmon (Chinook)': {
+    habitats: ['salt', 'fresh'],
+    range: ['us-ak', 'us-wa', 'us-or', 'us-ca', 'us-id', 'ca-bc', 'ca-yt', ...GREAT_LAKES],
+    rangeNote: 'the Pacific Northwest, Alaska and the Great Lakes',
+    activity: [{ regions: GREAT_LAKES, months: '000122333310' }, { months: '001233333210' }],
+    tempF: [38, 50, 60, 68]
+  },
+  'Salmon (Coho)': {
+    habitats: ['salt', 'fresh'],
+    range: ['us-ak', 'us-wa', 'us-or', 'us-ca', 'ca-bc', ...GREAT_LAKES],
+    rangeNote: 'the Pacific Northwest, Alaska and the Great Lakes',
+    activity: [{ regions: GREAT_LAKES, months: '002332223310' }, { months: '000112233321' }],
+    tempF: [38, 48, 58, 66]
+  },
+  'Sheepshead': {
+    habitats: ['salt', 'brackish'],
+    range: [...MID_ATLANTIC, ...SOUTH_ATLANTIC, ...GULF, 'mx'],
+    rangeNote: 'the Atlantic coast from New York south and the Gulf',
+    activity: [{ regions: MID_ATLANTIC, months: '000123333210' }, { months: '333322222233' }],
+    tempF: [48, 60, 80, 90]
+  },
+  'Snapper (Red)': {
+    habitats: ['salt'],
+    range: [...GULF, ...SOUTH_ATLANTIC, 'mx'],
+    rangeNote: 'the Gulf and the southern Atlantic coast',
+    activity: [{ months: '222333333322' }],
+    tempF: [55, 62, 80, 88]
+  },
+  'Snook': {
+    habitats: ['salt', 'brackish', 'fresh'],
+    range: ['us-fl', 'us-tx', 'mx', ...CARIBBEAN],
+    rangeNote: 'Florida, South Texas, Mexico and the Caribbean',
+    // Cold-sensitive: winter fish hole up in canals and rivers
+    activity: [{ regions: ['us-fl', 'us-tx'], months: '112233333321' }, { months: '333333333333' }],
+    tempF: [60, 70, 86, 94]
+  },
+  'Tarpon': {
+    habitats: ['salt', 'brackish'],
+    range: [...GULF, ...SOUTH_ATLANTIC, 'us-va', 'mx', ...CARIBBEAN],
+    rangeNote: 'the Gulf, the southern Atlantic coast and the Caribbean',
+    activity: [
+      { regions: ['us-fl'], months: '112333333221' },
+      { regions: ['us-ga', 'us-sc', 'us-nc', 'us-va', 'us-al', 'us-ms', 'us-la', 'us-tx'], months: '000013333210' },
+      { months: '333333333333' }
+    ],
+    tempF: [66, 74, 88, 96]
+  },
+  'Trout (Brook)': {
+    habitats: ['fresh'],
+    range: [
+      'us-me', 'us-nh', 'us-vt', 'us-ny', 'us-pa', 'us-ma', 'us-ct', 'us-ri', 'us-nj', 'us-md', 'us-va', 'us-wv', 'us-nc', 'us-tn',
+      'us-ga', 'us-sc', 'us-ky', 'us-oh', 'us-mi', 'us-wi', 'us-mn', 'us-ia', 'us-co', 'us-wy', 'us-mt', 'us-id', 'us-ut', 'us-nm',
+      'us-az', 'us-or', 'us-wa', 'us-ca', 'us-nv', 'us-sd', 'ca'
+    ],
+    rangeNote: 'cold streams and ponds in the Appalachians, the upper Midwest, the Rockies and Canada',
+    activity: [{ regions: NORTH, months: '111233322331' }, { months: '112333222331' }],
+    tempF: [34, 50, 62, 70]
+  },
+  'Trout (Brown)': {
+    habitats: ['fresh', 'salt'],
+    range: ['us', 'ca', 'mx'],
+    except: ['us-ak', 'us-hi', 'us-fl', 'us-la', 'us-ms'],
+    rangeNote: 'cold rivers and lakes across the northern and mountain U.S. and Canada',
+    activity: [{ months: '112333222332' }],
+    tempF: [34, 54, 65, 76]
+  },
+  'Trout (Lake)': {
+    habitats: ['fresh'],
+    range: [
+      'us-ak', 'us-me', 'us-nh', 'us-vt', 'us-ny', 'us-mi', 'us-wi', 'us-mn', 'us-mt', 'us-wy', 'us-id', 'us-co', 'us-ut',
+      'us-wa', 'us-pa', 'us-ma', 'ca'
+    ],
+    rangeNote: 'deep cold lakes in the northern U.S., the Rockies and Canada',
+    activity: [{ months: '333322222233' }],
+    tempF: [33, 45, 55, 65]
+  },
+  'Trout (Rainbow)': {
+    habitats: ['fresh', 'salt'],
+    range: ['us', 'ca', 'mx'],
+    except: ['us-fl', 'us-la', 'us-ms'],
+    rangeNote: 'cold and stocked waters across the U.S. and Canada',
+    activity: [{ regions: SOUTH, months: '333322111233' }, { months: '222333322222' }],
+    tempF: [34, 50, 65, 74]
+  },
+  'Tuna (Albacore)': {
+    habitats: ['salt'],
+    range: ['us-ca', 'us-or', 'us-wa', 'us-hi', 'ca-bc', 'mx'],
+    rangeNote: 'offshore Pacific water from Baja California to British Columbia, and Hawaii',
+    activity: [{ regions: ['us-hi'], months: '111233332111' }, { months: '000001333210' }],
+    tempF: [58, 62, 66, 72]
+  },
+  'Tuna (Bluefin)': {
+    habitats: ['salt'],
+    range: [...NEW_ENGLAND_COAST, 'us-ny', 'us-nj', 'us-de', 'us-md', 'us-va', 'us-nc', 'us-ca', 'mx', 'ca-ns', 'ca-nb', 'ca-pe', 'ca-qc', 'ca-nl'],
+    rangeNote: 'the Atlantic coast from North Carolina to Atlantic Canada, and Southern California',
+    activity: [
+      { regions: [...NEW_ENGLAND_COAST, 'ca'], months: '000001233321' },
+      { regions: ['us-nc', 'us-va'], months: '332100000013' },
+      { regions: ['us-ca', 'mx'], months: '000123333210' },
+      { months: '000013333210' }
+    ],
+    tempF: [45, 60, 72, 80]
+  },
+  'Tuna (Yellowfin)': {
+    habitats: ['salt'],
+    range: [...GULF, ...SOUTH_ATLANTIC, 'us-va', 'us-md', 'us-de', 'us-nj', 'us-ny', 'us-ma', 'us-hi', 'us-ca', 'mx', ...CARIBBEAN],
+    rangeNote: 'warm offshore water – the Gulf, the Atlantic canyons, the Caribbean, Hawaii and Southern California',
+    activity: [
+      { regions: ['us-va', 'us-md', 'us-de', 'us-nj', 'us-ny', 'us-ma'], months: '000013333210' },
+      { regions: ['us-ca'], months: '000001233210' },
+      { months: '222333333322' }
+    ],
+    tempF: [64, 70, 82, 88]
+  },
+  'Walleye': {
+    habitats: ['fresh'],
+    range: ['us', 'ca'],
+    except: ['us-ak', 'us-hi', 'us-fl', 'us-la', 'us-ms', 'us-me', 'us-nh', 'us-ri', 'us-de'],
+    rangeNote: 'the northern and central U.S. and Canada',
+    activity: [{ months: '222332223332' }],
+    tempF: [33, 55, 70, 82]
+  },
+  'Weakfish': {
+    habitats: ['salt', 'brackish'],
+    range: ['us-ma', 'us-ri', 'us-ct', ...MID_ATLANTIC, ...SOUTH_ATLANTIC],
+    rangeNote: 'the Atlantic coast from Massachusetts to Florida',
+    activity: [{ regions: ['us-ma', 'us-ri', 'us-ct', ...MID_ATLANTIC], months: '000233332100' }, { months: '223332222233' }],
+    tempF: [48, 60, 75, 86]
+  },
+  'yellowtail (amberjack)': {
+    habitats: ['salt'],
+    range: ['us-ca', 'mx', 'us-hi', ...GULF, ...SOUTH_ATLANTIC, 'bs'],
+    rangeNote: 'Southern California and Baja (yellowtail), and the Gulf, the southern Atlantic and Hawaii (amberjack)',
+    activity: [{ regions: ['us-ca'], months: '112333333221' }, { months: '333322233333' }],
+    tempF: [58, 64, 76, 84]
+  }
+}
+
+const BY_NAME = new Map(Object.keys(SPECIES).map((name) => [name.toLowerCase(), name]))
+
+/** Countries the range data covers; elsewhere species are 'unknown' rather than out of range */
+const COVERED_COUNTRIES = new Set(
+  Object.values(SPECIES).flatMap((p) => p.range.map((code) => code.split('-')[0]))
+)
+
+// ------------------------------
+// Assessment
+// ------------------------------
+
+function inRange(profile: SpeciesProfile, regionCode: string | null, countryCode: string): boolean {
+  if (regionCode && profile.except?.includes(regionCode)) return false
+  if (profile.range.includes(countryCode) || (regionCode && profile.range.includes(regionCode))) return true
+  // A location without a subdivision only fails when the country is not in the range at all
+  return !regionCode && profile.range.some((code) => code.startsWith(`${countryCode}-`))
+}
+
+function activityFor(profile: SpeciesProfile, regionCode: string | null, countryCode: string, month: number): number {
+  const entry =
+    profile.activity.find((a) => a.regions?.some((r) => r === regionCode || r === countryCode)) ??
+    profile.activity.find((a) => !a.regions) ??
+    profile.activity[0]
+  return Number(entry.months[month - 1])
+}
+
+/** How realistic a species is for a location and month (and the water temperature, when measured) */
+export function assessSpecies(species: string, context: SpeciesContext): SpeciesAssessment {
+  const name = BY_NAME.get(species.trim().toLowerCase())
+  const profile = name ? SPECIES[name] : undefined
+  const regionCode = context.regionCode?.toLowerCase() ?? null
+  const countryCode = context.countryCode?.toLowerCase() ?? regionCode?.split('-')[0] ?? null
+  if (!profile || !countryCode || !COVERED_COUNTRIES.has(countryCode)) {
+    return { species, verdict: 'unknown', score: 0.5, reasons: [] }
+  }
+
+  if (!inRange(profile, regionCode, countryCode)) {
+    const landlocked = regionCode != null && !SALT_REGIONS.has(regionCode) && !profile.habitats.includes('fresh')
+    return {
+      species,
+      verdict: 'impossible',
+      score: 0,
+      reasons: [landlocked ? `A saltwater species, and there is no salt water here` : `Not found here – its range is ${profile.rangeNote}`]
+    }
+  }
+
+  if (context.habitat && !profile.habitats.includes(context.habitat)) {
+    return { species, verdict: 'impossible', score: 0, reasons: [`Does not live in ${HABITAT_LABELS[context.habitat]}`] }
+  }
+
+  const reasons: string[] = []
+  const monthName = MONTHS[context.month - 1]
+  const activity = activityFor(profile, regionCode, countryCode, context.month)
+  let verdict: SpeciesVerdict = activity === 0 ? 'long_shot' : activity === 1 ? 'fair' : 'good'
+  let score = activity === 0 ? 0.1 : activity / 3
+  if (activity === 0) reasons.push(`Largely absent or dormant here in ${monthName}`)
+  else if (activity === 1) reasons.push(`Slow season here in ${monthName}`)
+  else if (activity === 3) reasons.push(`Peak season in ${monthName}`)
+
+  const [min, low, high, max] = profile.tempF
+  const temp = profile.habitats.includes('fresh') ? context.waterTempF : null
+  if (temp != null) {
+    if (temp < min || temp > max) {
+      verdict = 'long_shot'
+      score = Math.min(score, 0.1)
+      reasons.push(`Water is ${Math.round(temp)}°F – outside the ${min}–${max}°F it tolerates`)
+    } else if (temp < low || temp > high) {
+      if (verdict === 'good') verdict = 'fair'
+      score *= 0.7
+      reasons.push(`Water is ${Math.round(temp)}°F – ${temp < low ? 'below' : 'above'} its preferred ${low}–${high}°F`)
+    } else {
+      reasons.push(`Water is ${Math.round(temp)}°F – in its preferred ${low}–${high}°F`)
+    }
+  }
+
+  return { species, verdict, score, reasons }
+}
+
+/** Assessments for the given species, best first (ties keep their original order) */
+export function rankSpecies(species: readonly string[], context: SpeciesContext): SpeciesAssessment[] {
+  return species.map((s) => assessSpecies(s, context)).sort((a, b) => b.score - a.score)
+}
+
+/** The best species for a location and month, for suggestions when a choice is impossible */
+export function suggestSpecies(context: SpeciesContext, count = 5): string[] {
+  return rankSpecies(Object.keys(SPECIES), context)
+    .filter((a) => a.verdict === 'good')
+    .slice(0, count)
+    .map((a) => a.species)
+}
@@ -0,0 +1,173 @@
+// Supabase Edge Function: best_day – scores every day of a window for a saved trip's location and
+// preferences, so the angler can reschedule to the best one. Deterministic: no model is involved,
+// the ranking comes from _shared/scoring.ts.
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { getCorsHeaders } from '../_shared/cors.ts'
+import { requireUser, AuthError, authErrorResponse } from '../_shared/auth.ts'
+import { consumeRateLimit, rateLimitHeaders, rateLimitResponse } from '../_shared/rateLimit.ts'
+import {
+  bestDayRequestSchema,
+  bestDayResponseSchema,
+  planTripRequestSchema,
+  type BestDayResponse,
+  type PlanTripRequest
+} from '../_shared/contract.ts'
+import {
+  analyzePressure,
+  computeSolunar,
+  getConditionsProviders,
+  getTripDates,
+  pickHoursForWindow,
+  utcOffsetMinutes,
+  type HourlyWeather
+} from '../_shared/conditions/index.ts'
+import { assessSpecies } from '../_shared/species.ts'
+import { hasForecast, rankDays, scoreDay } from '../_shared/scoring.ts'
+
+// The trip's location is geocoded first; its country then picks the conditions providers
+const geocoder = getConditionsProviders().geocoding
+
+/** Errors whose message is meant for the user, with the status to answer with */
+class BestDayError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message)
+  }
+}
+
+async function findBestDays(planId: string, preferences: PlanTripRequest, startDate: string, endDate: string): Promise<BestDayResponse> {
+  const { location, targetSpecies, startTime = '06:00', endTime = '12:00', platform = 'shore' } = preferences
+  const dates = getTripDates(startDate, (Date.parse(endDate) - Date.parse(startDate)) / 86_400_000 + 1)
+
+  const { lat, lon, displayName, countryCode, regionCode } = await geocoder.geocode(location)
+  const conditions = getConditionsProviders(countryCode)
+
+  // Every source is optional: a day is scored on whatever factors have data
+  const [hourly, pressureHistory, water, tides] = await Promise.all([
+    conditions.weather.getHourlyForecast(lat, lon).catch((err) => {
+      console.warn('Hourly forecast unavailable:', (err as Error).message)
+      return [] as HourlyWeather[]
+    }),
+    conditions.weather.getPressureHistory(lat, lon, 48).catch((err) => {
+      console.warn('Pressure observations unavailable:', (err as Error).message)
+      return { station: null, readings: [] }
+    }),
+    conditions.hydrology.getWaterConditions(lat, lon).catch(() => null),
+    Promise.all(dates.map((d) => conditions.tides.getTides(lat, lon, d).catch(() => null)))
+  ])
+
+  // The pressure trend and gauge flow are observed, so they only count for today and tomorrow
+  const pressure = analyzePressure(pressureHistory)
+  const observedUntil = getTripDates(new Date().toISOString().slice(0, 10), 2)[1]
+  const waterTempC = water?.gauge?.waterTempC
+
+  const days = dates.map((date, i) =>
+    scoreDay({
+      date,
+      startTime,
+      endTime,
+      platform,
+      hours: pickHoursForWindow(hourly, date, startTime, endTime),
+      pressure: date <= observedUntil ? pressure : null,
+      tideExtremes: tides[i]?.extremes,
+      gauge: date <= observedUntil ? water?.gauge : null,
+      solunar: computeSolunar(lat, lon, date, utcOffsetMinutes(hourly, date, lon)),
+      species: targetSpecies.map((s) =>
+        assessSpecies(s, {
+          regionCode,
+          countryCode,
+          month: Number(date.slice(5, 7)),
+          waterTempF: waterTempC == null ? null : waterTempC * 1.8 + 32
+        })
+      )
+    })
+  )
+  const ranking = rankDays(days).map((d) => d.date)
+
+  return {
+    plan_id: planId,
+    location: displayName,
+    startDate,
+    endDate,
+    days: days.map((d) => ({ ...d, rank: ranking.indexOf(d.date) + 1, forecast: hasForecast(d) })),
+    best: ranking[0],
+    generatedAt: new Date().toISOString()
+  }
+}
+
+serve(async (req) => {
+  const origin = req.headers.get('Origin')
+  const corsHeaders = getCorsHeaders(origin)
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+  }
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 405
+    })
+  }
+
+  try {
+    const user = await requireUser(req)
+
+    const parsed = bestDayRequestSchema.safeParse(await req.json())
+    if (!parsed.success) throw new BestDayError(parsed.error.issues[0].message, 400)
+    const { plan_id, startDate, endDate } = parsed.data
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    if (!supabaseUrl || !supabaseAnonKey) throw new Error('Supabase env missing')
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore
+    const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2')
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+    })
+
+    const { data: trip, error } = await supabase
+      .from('trips')
+      .select('preferences')
+      .eq('plan_id', plan_id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (error) throw error
+    if (!trip) throw new BestDayError('Trip not found', 404)
+
+    // Trips saved before preferences were stored cannot be re-scored
+    const preferences = planTripRequestSchema.safeParse(trip.preferences)
+    if (!preferences.success) throw new BestDayError('This trip has no saved preferences to score.', 422)
+
+    // Spent only once the trip can be scored – each run fetches forecasts and tides for every day
+    const rateLimit = await consumeRateLimit(supabase, 'best_day')
+    if (rateLimit && !rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, corsHeaders, 'Rate limit exceeded. Please wait before scoring more days.')
+    }
+
+    const result = await findBestDays(plan_id, preferences.data, startDate, endDate)
+
+    // The response must satisfy the shared contract the app renders from
+    const contractCheck = bestDayResponseSchema.safeParse(result)
+    if (!contractCheck.success) {
+      console.error('best_day response violates contract:', contractCheck.error.issues.slice(0, 5))
+      throw new Error('Best-day result does not match the response contract')
+    }
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, ...rateLimitHeaders(rateLimit), 'Content-Type': 'application/json' },
+      status: 200
+    })
+  } catch (err) {
+    if (err instanceof AuthError) return authErrorResponse(err, corsHeaders)
+    const message = (err as Error).message ?? String(err)
+    console.error('best_day error:', message.slice(0, 200))
+
+    // Validation, missing trips and geocoding failures carry messages meant for the user
+    const notFound = /location not found/i.test(message)
+    const status = err instanceof BestDayError ? err.status : notFound ? 400 : 500
+    return new Response(
+      JSON.stringify({ error: status < 500 ? message : 'An error occurred while scoring the days. Please try again later.' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status }
+    )
+  }
+})
@@ -1,43 +1,15 @@
 // @ts-nocheck // Supabase Edge Function: chat_guide – provides streaming AI chat with trip context
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { getCorsHeaders } from '../_shared/cors.ts'
-import OpenAI from 'jsr:@openai/openai@5.10.1'
+import { chatGuideRequestSchema, type ChatGuideRequest, type ChatMessage } from '../_shared/contract.ts'
+import { requireUser, AuthError, authErrorResponse } from '../_shared/auth.ts'
+import { consumeRateLimit, rateLimitHeaders, rateLimitResponse } from '../_shared/rateLimit.ts'
+import { createLlmClient, recordLlmUsage } from '../_shared/llm/index.ts'
 
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY')
+const llm = createLlmClient('chat_guide')
 
 const randomId = (prefix = '') => `${prefix}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
 
-interface ChatMessage {
-  role: 'user' | 'assistant'
-  content: string
-}
-
-// Rate limiting per user (in memory - consider Redis for production)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
-const RATE_LIMIT = {
-  maxRequests: 20,
-  windowMs: 15 * 60 * 1000 // 15 minutes
-}
-
-function checkRateLimit(userId: string): { allowed: boolean; remaining: number } {
-  const now = Date.now()
-  const userLimit = rateLimitMap.get(userId)
-  
-  if (!userLimit || now > userLimit.resetTime) {
-    // Reset or initialize
-    rateLimitMap.set(userId, { count: 1, resetTime: now + RATE_LIMIT.windowMs })
-    return { allowed: true, remaining: RATE_LIMIT.maxRequests - 1 }
-  }
-  
-  if (userLimit.count >= RATE_LIMIT.maxRequests) {
-    return { allowed: false, remaining: 0 }
-  }
-  
-  userLimit.count++
-  rateLimitMap.set(userId, userLimit)
-  return { allowed: true, remaining: RATE_LIMIT.maxRequests - userLimit.count }
-}
-
 // Sanitize user input to prevent prompt injection
 function sanitizeInput(input: string): string {
   if (typeof input !== 'string') {
@@ -128,47 +100,42 @@ serve(async (req) => {
   }
 
   try {
-    // Extract and validate authorization
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      throw new Error('Missing or invalid authorization header')
-    }
-    
-    const token = authHeader.slice(7)
-    let userId: string
-    
+    // Verify the caller's JWT (signature, expiry, non-anonymous) before trusting its user id
+    const { id: userId } = await requireUser(req)
+
+    // Client for persistence + usage logging + rate limiting (carries the user's JWT so RLS applies)
+    let supabase: any = null
     try {
-      const payload = JSON.parse(atob(token.split('.')[1]))
-      userId = payload.sub
-      if (!userId) throw new Error('Invalid token payload')
-    } catch {
-      throw new Error('Invalid JWT token')
-    }
-    
-    // Check rate limit
-    const rateCheck = checkRateLimit(userId)
-    if (!rateCheck.allowed) {
-      return new Response(JSON.stringify({ 
-        error: 'Rate limit exceeded. Please wait before sending more messages.' 
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 429
-      })
+      const supabaseUrl = Deno.env.get('SUPABASE_URL')
+      const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+      if (supabaseUrl && supabaseAnonKey) {
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2')
+        supabase = createClient(supabaseUrl, supabaseAnonKey, {
+          global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+        })
+      }
+    } catch (clientErr) {
+      console.warn('Failed to create Supabase client', clientErr)
     }
 
     const body = await req.json()
-    const { plan_id, messages } = body as {
-      plan_id?: string
-      messages?: unknown
-    }
+    const { plan_id, messages } = body as Partial<ChatGuideRequest>
 
-    // Validate inputs
-    if (plan_id && (typeof plan_id !== 'string' || plan_id.length > 100)) {
+    // Validate inputs (shared contract); validateMessages applies the stricter per-message rules
+    if (plan_id !== undefined && !chatGuideRequestSchema.shape.plan_id.safeParse(plan_id).success) {
       throw new Error('Invalid plan_id')
     }
     
     const validatedMessages = validateMessages(messages)
 
+    // Check rate limit (token bucket shared by all instances); malformed requests never spend a token
+    const rateLimit = await consumeRateLimit(supabase, 'chat_guide')
+    if (rateLimit && !rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, corsHeaders, 'Rate limit exceeded. Please wait before sending more messages.')
+    }
+
     // Build conversation context – prepend system prompt
     let systemPrompt = `You are CharterAI, an expert professional fishing guide AI. Be concise (max 200 words) and helpful. Ensure your responses are information dense and actionable. If the user asks about trip logistics, reference the provided itinerary. If the question is unrelated to fishing or the trip, politely steer them back to fishing topics. Do not provide information about other topics besides fishing.
 
@@ -178,18 +145,7 @@ IMPORTANT: Only respond to questions about fishing, fishing techniques, equipmen
     let itineraryContext: any = null
     if (plan_id) {
       try {
-        const supabaseUrl = Deno.env.get('SUPABASE_URL')
-        const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
-
-        if (supabaseUrl && supabaseAnonKey) {
-          // Dynamically import to avoid bundling issues
-          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-          // @ts-ignore
-          const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2')
-          const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-            global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
-          })
-
+        if (supabase) {
           const { data, error } = await supabase
             .from('trips')
             .select('itinerary')
@@ -215,19 +171,12 @@ IMPORTANT: Only respond to questions about fishing, fishing techniques, equipmen
       }
     }
 
-    // Prepare messages for OpenAI
-    const openaiMessages = [{ role: 'system', content: systemPrompt }, ...validatedMessages]
-
-    if (!OPENAI_API_KEY) throw new Error('Missing OPENAI_API_KEY env var')
-    const openai = new OpenAI({ apiKey: OPENAI_API_KEY })
-
     // Create chat completion stream
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: openaiMessages as any,
-      stream: true,
-      max_tokens: 500, // Limit response length
-      temperature: 0.7,
+    const completion = await llm.stream({
+      instructions: systemPrompt,
+      input: validatedMessages,
+      maxOutputTokens: 500, // Limit response length
+      temperature: 0.7
     })
 
     const encoder = new TextEncoder()
@@ -235,9 +184,7 @@ IMPORTANT: Only respond to questions about fishing, fishing techniques, equipmen
     const stream = new ReadableStream({
       async start(controller) {
         try {
-          for await (const chunk of completion) {
-            // Extract content token – shape depends on SDK
-            const token = chunk?.choices?.[0]?.delta?.content || ''
+          for await (const token of completion.tokens) {
             if (token) {
               // Basic output filtering to prevent harmful content
               const filteredToken = token.replace(/\b(password|secret|key|token)\b/gi, '[REDACTED]')
@@ -249,22 +196,26 @@ IMPORTANT: Only respond to questions about fishing, fishing techniques, equipmen
         } catch (streamErr) {
           console.error('Streaming error', streamErr)
           controller.error(streamErr)
+          return
+        }
+
+        // Usage is only final once the stream has been drained
+        if (supabase) {
+          const usage = await completion.usage
+          await recordLlmUsage(supabase, {
+            userId,
+            functionName: 'chat_guide',
+            planId: plan_id ?? null,
+            actionType: 'chat_message',
+            calls: [{ model: completion.model, usage }]
+          })
         }
       }
     })
 
     // Persist chat messages (best effort)
     try {
-      const supabaseUrl = Deno.env.get('SUPABASE_URL')
-      const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
-      if (supabaseUrl && supabaseAnonKey) {
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-        // @ts-ignore
-        const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2')
-        const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-          global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
-        })
-
+      if (supabase) {
         const conversationId = plan_id || randomId('conv_')
 
         // Insert only the latest user message to avoid duplicates
@@ -285,6 +236,7 @@ IMPORTANT: Only respond to questions about fishing, fishing techniques, equipmen
     return new Response(stream, {
       headers: {
         ...corsHeaders,
+        ...rateLimitHeaders(rateLimit),
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
@@ -293,6 +245,8 @@ IMPORTANT: Only respond to questions about fishing, fishing techniques, equipmen
       status: 200
     })
   } catch (err) {
+    if (err instanceof AuthError) return authErrorResponse(err, corsHeaders)
+
     const message = (err as Error).message ?? err.toString()
     console.error('chat_guide error:', message)
 
@@ -1,6 +1,7 @@
 // @ts-nocheck
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { corsHeaders } from '../_shared/cors.ts'
+import { requireUser, AuthError, authErrorResponse } from '../_shared/auth.ts'
 import Stripe from 'https://esm.sh/stripe@15.8.0?target=deno'
 
 const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY')
@@ -16,15 +17,9 @@ serve(async (req) => {
   try {
     const { priceId, successUrl, cancelUrl } = await req.json()
 
-    // Get user from auth header
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-      throw new Error('No authorization header')
-    }
-
-    const jwt = authHeader.replace('Bearer ', '')
-    const payload = JSON.parse(atob(jwt.split('.')[1]))
-    const userId = payload.sub
+    // Verified user – the Stripe customer lookup below is keyed on this id
+    const user = await requireUser(req)
+    const userId = user.id
 
     // Create Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')
@@ -34,9 +29,7 @@ serve(async (req) => {
       global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
     })
 
-    // Get user email
-    const { data: user } = await supabase.auth.getUser(jwt)
-    const userEmail = user.user?.email
+    const userEmail = user.email
 
     // Check if user already has a Stripe customer
     let customerId = null
@@ -86,6 +79,7 @@ serve(async (req) => {
       }
     )
   } catch (error) {
+    if (error instanceof AuthError) return authErrorResponse(error, corsHeaders)
     console.error('Error creating checkout session:', error)
     return new Response(
       JSON.stringify({ error: error.message }),
@@ -1,6 +1,7 @@
 // @ts-nocheck
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { corsHeaders } from '../_shared/cors.ts'
+import { requireUser, AuthError, authErrorResponse } from '../_shared/auth.ts'
 import Stripe from 'https://esm.sh/stripe@15.8.0?target=deno'
 
 const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY')
@@ -16,15 +17,9 @@ serve(async (req) => {
   try {
     const { returnUrl } = await req.json()
 
-    // Get user from auth header
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-      throw new Error('No authorization header')
-    }
-
-    const jwt = authHeader.replace('Bearer ', '')
-    const payload = JSON.parse(atob(jwt.split('.')[1]))
-    const userId = payload.sub
+    // Verified user – the Stripe customer lookup below is keyed on this id
+    const user = await requireUser(req)
+    const userId = user.id
 
     // Create Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')
@@ -60,6 +55,7 @@ serve(async (req) => {
       }
     )
   } catch (error) {
+    if (error instanceof AuthError) return authErrorResponse(error, corsHeaders)
     console.error('Error creating customer portal session:', error)
     return new Response(
       JSON.stringify({ error: error.message }),
@@ -0,0 +1,293 @@
+// Supabase Edge Function: discover_waters – "Where should I go?". Ranks waters within a drive of
+// the angler's home for their species and dates. The model only proposes candidates; distance,
+// closures, species habitat and the conditions score are all checked here, deterministically.
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { getCorsHeaders } from '../_shared/cors.ts'
+import { requireUser, AuthError, authErrorResponse } from '../_shared/auth.ts'
+import { consumeRateLimit, rateLimitHeaders, rateLimitResponse } from '../_shared/rateLimit.ts'
+import {
+  discoverWatersRequestSchema,
+  discoverWatersResponseSchema,
+  parseWaterProposals,
+  SpeciesUnsuitableError,
+  type CandidateWater,
+  type DiscoverWatersResponse,
+  type WaterProposal
+} from '../_shared/contract.ts'
+import {
+  analyzePressure,
+  computeSolunar,
+  getConditionsProviders,
+  getTripDates,
+  haversineKm,
+  pickHoursForWindow,
+  utcOffsetMinutes,
+  type HourlyWeather
+} from '../_shared/conditions/index.ts'
+import { createLlmClient, recordLlmUsage, type LlmCall } from '../_shared/llm/index.ts'
+import { assessSpecies, suggestSpecies } from '../_shared/species.ts'
+import { rankDays, scoreDay } from '../_shared/scoring.ts'
+import { checkCoordinates, isBlocked } from '../_shared/geofence.ts'
+
+const llm = createLlmClient('discover_waters')
+
+// Home is geocoded once; its country then picks the conditions providers for every candidate
+const geocoder = getConditionsProviders().geocoding
+
+const KM_PER_MILE = 1.609344
+
+/** Waters asked of the model – a few usually drop out on distance, access or species */
+const PROPOSALS = 8
+
+const HABITAT_LABELS = { fresh: 'fresh water', brackish: 'brackish water', salt: 'salt water' } as const
+
+type DiscoverInput = ReturnType<typeof discoverWatersRequestSchema.parse>
+
+// Supabase client carrying the caller's JWT so RLS applies (null when env is missing)
+async function createUserClient(req: Request) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+  if (!supabaseUrl || !supabaseAnonKey) return null
+  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+  // @ts-ignore
+  const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2')
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  })
+}
+
+/** Ask the model for candidate waters, with one repair round for output that does not parse */
+async function proposeWaters(prompt: string, calls: LlmCall[]): Promise<WaterProposal[]> {
+  const instructions =
+    'You are CharterAI\'s scouting assistant. Suggest real, publicly accessible fishing waters near the angler\'s home. Weather and water conditions are scored separately – judge only the water itself (species, season, access). Return JSON only.'
+  let completion = await llm.complete({ instructions, input: prompt })
+  calls.push({ model: completion.model, usage: completion.usage })
+  let parsed = parseWaterProposals(completion.text)
+  if (!parsed.success) {
+    console.warn('Candidate waters failed validation:', parsed.issues.slice(0, 5))
+    completion = await llm.complete({
+      instructions,
+      input: `Your previous response did not conform to the requested JSON:\n- ${parsed.issues.join('\n- ')}\n\nReturn the corrected JSON ONLY.`,
+      previousResponseId: completion.responseId
+    })
+    calls.push({ model: completion.model, usage: completion.usage })
+    parsed = parseWaterProposals(completion.text)
+  }
+  if (!parsed.success) throw new Error('Could not find candidate waters. Please try again.')
+  return parsed.data
+}
+
+async function discoverWaters(input: DiscoverInput, supabase: any | null, userId: string): Promise<DiscoverWatersResponse> {
+  const { home, radiusMiles, targetSpecies, startDate, endDate, startTime = '06:00', endTime = '12:00', platform = 'shore' } = input
+  const dates = getTripDates(startDate, (Date.parse(endDate) - Date.parse(startDate)) / 86_400_000 + 1)
+
+  const { lat, lon, displayName, countryCode, regionCode } = await geocoder.geocode(home)
+
+  // Same rule as plan_trip: species that cannot be caught in the area are dropped, and if none can be, stop here
+  const speciesContext = { regionCode, countryCode, month: Number(startDate.slice(5, 7)) }
+  const impossibleSpecies = targetSpecies.filter((s) => assessSpecies(s, speciesContext).verdict === 'impossible')
+  if (impossibleSpecies.length === targetSpecies.length) {
+    const suggestions = suggestSpecies(speciesContext)
+    throw new SpeciesUnsuitableError(
+      `${impossibleSpecies.join(', ')} ${impossibleSpecies.length > 1 ? 'are' : 'is'} not found near ${displayName}.${suggestions.length ? ` Good choices for this month: ${suggestions.join(', ')}.` : ''}`,
+      suggestions
+    )
+  }
+  const plannedSpecies = targetSpecies.filter((s) => !impossibleSpecies.includes(s))
+
+  // 1) Candidates from the model
+  const llmCalls: LlmCall[] = []
+  const proposals = await proposeWaters(
+    `Home: ${displayName} (lat ${lat}, lon ${lon})
+Radius: ${radiusMiles} miles in a straight line from home
+Dates: ${startDate} to ${endDate}, ${startTime}–${endTime} each day
+Platform: ${platform}
+Target Species: ${plannedSpecies.join(', ')}
+
+Return JSON: {
+  "candidates": Array<{
+    name: string; // the water, e.g. "Lake Tarpon"
+    location: string; // the water with its county and state, as a geocoder would find it
+    coordinates: [number, number]; // [longitude, latitude] of a fishable spot ON the water (ramp, pier, shoreline access)
+    waterType: string; // lake, reservoir, river, bay, flats, surf, pier…
+    salinity: "fresh" | "brackish" | "salt";
+    access: string; // how the public gets on the water
+    why: string; // one sentence on why it suits the target species at this time of year
+  }>
+}
+
+Rules:
+- Propose ${PROPOSALS} different waters inside the radius, mixing nearby and farther options.
+- Only waters with legal public access${platform === 'boat' ? ' and a boat ramp' : ' from shore, a pier or a wading access'}.
+- Every water must hold at least one of the target species at this time of year.`,
+    llmCalls
+  )
+
+  // 2) Distance, duplicates and closures
+  const excluded: DiscoverWatersResponse['excluded'] = []
+  const seen = new Set<string>()
+  const inReach = proposals
+    .map((p) => ({ ...p, distanceMiles: haversineKm(lat, lon, p.coordinates[1], p.coordinates[0]) / KM_PER_MILE }))
+    .filter((p) => {
+      const key = p.name.trim().toLowerCase()
+      if (seen.has(key)) return false
+      seen.add(key)
+      if (p.distanceMiles <= radiusMiles) return true
+      excluded.push({ name: p.name, reason: `${Math.round(p.distanceMiles)} miles away – outside your ${radiusMiles}-mile radius` })
+      return false
+    })
+
+  const flags = supabase && inReach.length
+    ? await checkCoordinates(supabase, inReach.map((p, i) => ({ id: String(i), coordinates: p.coordinates })), dates).catch((err) => {
+        console.warn('Geofence check failed:', (err as Error).message)
+        return null
+      })
+    : null
+  const open = inReach
+    .map((p, i) => ({ ...p, flags: flags?.get(String(i)) }))
+    .filter((p) => {
+      if (!isBlocked(p.flags)) return true
+      excluded.push({ name: p.name, reason: p.flags!.filter((f) => f.reason !== 'restricted_area').map((f) => f.message).join('; ') })
+      return false
+    })
+
+  // 3) Conditions and score for every date, per water. The pressure trend is observed, so it only
+  // counts for today and tomorrow.
+  const conditions = getConditionsProviders(countryCode)
+  const pressure = analyzePressure(
+    await conditions.weather.getPressureHistory(lat, lon, 48).catch((err) => {
+      console.warn('Pressure observations unavailable:', (err as Error).message)
+      return { station: null, readings: [] }
+    })
+  )
+  const pressureUntil = getTripDates(new Date().toISOString().slice(0, 10), 2)[1]
+
+  const scored = await Promise.all(
+    open.map(async (p, i): Promise<CandidateWater | null> => {
+      const [pLon, pLat] = p.coordinates
+      const coastal = p.salinity !== 'fresh'
+      const [hourly, water, tides] = await Promise.all([
+        conditions.weather.getHourlyForecast(pLat, pLon).catch(() => [] as HourlyWeather[]),
+        coastal ? null : conditions.hydrology.getWaterConditions(pLat, pLon).catch(() => null),
+        coastal ? Promise.all(dates.map((d) => conditions.tides.getTides(pLat, pLon, d).catch(() => null))) : null
+      ])
+
+      const waterTempC = water?.gauge?.waterTempC
+      const species = plannedSpecies.map((s) =>
+        assessSpecies(s, { ...speciesContext, habitat: p.salinity, waterTempF: waterTempC == null ? null : waterTempC * 1.8 + 32 })
+      )
+      if (species.every((a) => a.verdict === 'impossible')) {
+        excluded.push({ name: p.name, reason: `${plannedSpecies.join(', ')} ${plannedSpecies.length > 1 ? 'do' : 'does'} not live in ${HABITAT_LABELS[p.salinity]}` })
+        return null
+      }
+
+      const days = dates.map((date, d) =>
+        scoreDay({
+          date,
+          startTime,
+          endTime,
+          platform,
+          hours: pickHoursForWindow(hourly, date, startTime, endTime),
+          pressure: date <= pressureUntil ? pressure : null,
+          tideExtremes: tides?.[d]?.extremes,
+          gauge: water?.gauge,
+          solunar: computeSolunar(pLat, pLon, date, utcOffsetMinutes(hourly, date, pLon)),
+          species
+        })
+      )
+      return {
+        ...p,
+        id: `water-${i + 1}`,
+        distanceMiles: Math.round(p.distanceMiles * 10) / 10,
+        best: rankDays(days)[0],
+        days: days.map(({ date, score }) => ({ date, score })),
+        speciesOutlook: species.map(({ species, verdict, reasons }) => ({ species, verdict, reasons })),
+        flags: p.flags
+      }
+    })
+  )
+
+  // Token usage (best effort; discovery does not count as a trip generation)
+  if (supabase) {
+    await recordLlmUsage(supabase, { userId, functionName: 'discover_waters', calls: llmCalls })
+  }
+
+  return {
+    home: { displayName, coordinates: [lon, lat] },
+    radiusMiles,
+    startDate,
+    endDate,
+    candidates: scored
+      .filter((c): c is CandidateWater => c != null)
+      .sort((a, b) => b.best.score - a.best.score || a.distanceMiles - b.distanceMiles),
+    excluded,
+    generatedAt: new Date().toISOString()
+  }
+}
+
+serve(async (req) => {
+  const origin = req.headers.get('Origin')
+  const corsHeaders = getCorsHeaders(origin)
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+  }
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 405
+    })
+  }
+
+  try {
+    const { id: userId } = await requireUser(req)
+    const supabase = await createUserClient(req)
+
+    const parsed = discoverWatersRequestSchema.safeParse(await req.json())
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: parsed.error.issues[0].message }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400
+      })
+    }
+
+    // Only valid searches spend a token
+    const rateLimit = await consumeRateLimit(supabase, 'discover_waters')
+    if (rateLimit && !rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, corsHeaders, 'Rate limit exceeded. Please wait before searching again.')
+    }
+    const responseHeaders = { ...corsHeaders, ...rateLimitHeaders(rateLimit) }
+
+    const result = await discoverWaters(parsed.data, supabase, userId)
+
+    // The response must satisfy the shared contract the app renders from
+    const contractCheck = discoverWatersResponseSchema.safeParse(result)
+    if (!contractCheck.success) {
+      console.error('discover_waters response violates contract:', contractCheck.error.issues.slice(0, 5))
+      throw new Error('Discovery result does not match the response contract')
+    }
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...responseHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    })
+  } catch (err) {
+    if (err instanceof AuthError) return authErrorResponse(err, corsHeaders)
+    const message = (err as Error).message ?? String(err)
+    console.error('discover_waters error:', message.slice(0, 200))
+
+    if (err instanceof SpeciesUnsuitableError) {
+      return new Response(JSON.stringify({ error: err.message, code: err.code, suggestions: err.suggestions }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 422
+      })
+    }
+    // Geocoding and model failures carry messages meant for the user; anything else stays generic
+    const notFound = /location not found/i.test(message)
+    const safeMessage = notFound || message.startsWith('Could not find candidate waters') ? message : 'An error occurred while searching. Please try again later.'
+    return new Response(JSON.stringify({ error: safeMessage }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: notFound ? 400 : 500
+    })
+  }
+})
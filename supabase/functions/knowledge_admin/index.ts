@@ -0,0 +1,88 @@
+// Supabase Edge Function: knowledge_admin – add, edit, re-embed and delete knowledge_chunks (admins only)
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { getCorsHeaders } from '../_shared/cors.ts'
+import { requireUser, AuthError, authErrorResponse } from '../_shared/auth.ts'
+import { knowledgeAdminRequestSchema, type KnowledgeChunkInput } from '../_shared/contract.ts'
+import { embeddingInput } from '../_shared/knowledge.ts'
+import { createEmbedder } from '../_shared/llm/index.ts'
+
+const embedder = createEmbedder()
+
+const CHUNK_FIELDS = 'id, slug, title, content, species, regions, seasons, platforms, styles, source, embedding_model, embedded_at, updated_at'
+
+/** Embedding columns for a chunk's current text */
+async function embedded(chunks: KnowledgeChunkInput[]) {
+  const vectors = await embedder.embed(chunks.map(embeddingInput))
+  const embeddedAt = new Date().toISOString()
+  return vectors.map((vector) => ({
+    embedding: JSON.stringify(vector),
+    embedding_model: embedder.model,
+    embedded_at: embeddedAt
+  }))
+}
+
+serve(async (req) => {
+  const origin = req.headers.get('Origin')
+  const corsHeaders = getCorsHeaders(origin)
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status })
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+  }
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405)
+
+  try {
+    const user = await requireUser(req)
+    // RLS enforces this too; checking here avoids paying for embeddings that cannot be saved
+    if (user.appRole !== 'admin') return json({ error: 'Admin privileges required', code: 'FORBIDDEN' }, 403)
+
+    const parsed = knowledgeAdminRequestSchema.safeParse(await req.json())
+    if (!parsed.success) {
+      return json({ error: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; '), code: 'INVALID_REQUEST' }, 400)
+    }
+    const request = parsed.data
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    if (!supabaseUrl || !supabaseAnonKey) throw new Error('Supabase env missing')
+    // @ts-ignore
+    const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2')
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+    })
+
+    if (request.action === 'delete') {
+      const { error } = await supabase.from('knowledge_chunks').delete().eq('id', request.id)
+      if (error) throw error
+      return json({ deleted: request.id })
+    }
+
+    if (request.action === 'save') {
+      const [embedding] = await embedded([request.chunk])
+      const row = { ...request.chunk, ...embedding, updated_at: new Date().toISOString() }
+      const id = request.id ?? crypto.randomUUID()
+      const { data, error } = request.id
+        ? await supabase.from('knowledge_chunks').update(row).eq('id', id).select(CHUNK_FIELDS).single()
+        : await supabase.from('knowledge_chunks').insert({ ...row, id, slug: `admin/${id}` }).select(CHUNK_FIELDS).single()
+      if (error) throw error
+      return json({ chunk: data })
+    }
+
+    // reembed: after an embedding model change, or for chunks ingested without embeddings
+    let query = supabase.from('knowledge_chunks').select('id, title, content, species, regions, seasons, platforms, styles')
+    if (request.ids) query = query.in('id', request.ids)
+    const { data: chunks, error } = await query
+    if (error) throw error
+    const embeddings = await embedded(chunks ?? [])
+    for (const [i, chunk] of (chunks ?? []).entries()) {
+      const { error: updateError } = await supabase.from('knowledge_chunks').update(embeddings[i]).eq('id', chunk.id)
+      if (updateError) throw updateError
+    }
+    return json({ reembedded: chunks?.length ?? 0, model: embedder.model })
+  } catch (err) {
+    if (err instanceof AuthError) return authErrorResponse(err, corsHeaders)
+    console.error('knowledge_admin error', err)
+    return json({ error: (err as Error).message }, 500)
+  }
+})
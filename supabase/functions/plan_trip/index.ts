@@ -1,11 +1,47 @@
 // @ts-nocheck // This file is executed in the Deno runtime within Supabase Edge Functions. We disable TypeScript checking to avoid Vite/Node linter errors for remote imports and Deno globals.
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { getCorsHeaders } from '../_shared/cors.ts'
-
-// OpenAI SDK for Deno
-import OpenAI from 'jsr:@openai/openai@5.10.1'
-
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY')
+import {
+  planTripRequestSchema,
+  planTripResponseSchema,
+  parseGeneratedItinerary,
+  ItineraryValidationError,
+  SpeciesUnsuitableError,
+  type PlanTripRequest,
+  type TripJobStage,
+  type TripStreamEvent
+} from '../_shared/contract.ts'
+import { requireUser, AuthError, authErrorResponse } from '../_shared/auth.ts'
+import { consumeRateLimit, rateLimitHeaders, rateLimitResponse } from '../_shared/rateLimit.ts'
+import {
+  analyzePressure,
+  computeSolunar,
+  describeSolunar,
+  getConditionsProviders,
+  getTripDates,
+  pickHoursForWindow,
+  SOLUNAR_SOURCE,
+  utcOffsetMinutes,
+  type ForecastPeriod,
+  type HourlyWeather,
+  type TideSummary,
+  type WeatherAlert
+} from '../_shared/conditions/index.ts'
+import { createEmbedder, createLlmClient, recordLlmUsage, type LlmCall, type LlmRequest, type LlmResult } from '../_shared/llm/index.ts'
+import { retrieveKnowledge, seasonOf } from '../_shared/knowledge.ts'
+import { describeRule, fetchRegulations, matchRegulations } from '../_shared/regulations.ts'
+import { assessSpecies, suggestSpecies } from '../_shared/species.ts'
+import { applyGeofence, blockedPointIssues, checkPoints, describeArea, fetchNearbyAreas, type PointFlags } from '../_shared/geofence.ts'
+
+const llm = createLlmClient('plan_trip')
+const embedder = createEmbedder()
+
+// Geocoding / weather / hydrology / tide sources – selected via env and the location's country
+// (see _shared/conditions)
+const geocoder = getConditionsProviders().geocoding
+
+// Invalid itineraries are sent back to the model with the validation errors this many times
+const MAX_REPAIR_ATTEMPTS = 2
 
 // ------------------------------
 // Helper utilities
@@ -13,35 +49,124 @@ const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY')
 
 const randomId = (prefix = '') => `${prefix}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
 
-// Rate limiting per user (in memory - consider Redis for production)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
-const RATE_LIMIT = {
-  maxRequests: 10, // 10 trip generations per hour
-  windowMs: 60 * 60 * 1000 // 1 hour
+// Input validation (shared contract) and sanitization
+function validateTripInput(input: unknown): PlanTripRequest {
+  const result = planTripRequestSchema.safeParse(input)
+  if (!result.success) {
+    // Contract messages ("Invalid location", …) are the client-facing 400 messages
+    throw new Error(result.error.issues[0]?.message ?? 'Invalid request')
+  }
+
+  // Sanitize location input
+  const sanitizedLocation = result.data.location
+    .replace(/[<>{}[\]\\]/g, '') // Remove potentially dangerous characters
+    .trim()
+
+  if (sanitizedLocation.length < 1) {
+    throw new Error('Invalid location after sanitization')
+  }
+
+  return { ...result.data, location: sanitizedLocation }
 }
 
-function checkRateLimit(userId: string): { allowed: boolean; remaining: number } {
-  const now = Date.now()
-  const userLimit = rateLimitMap.get(userId)
-  
-  if (!userLimit || now > userLimit.resetTime) {
-    // Reset or initialize
-    rateLimitMap.set(userId, { count: 1, resetTime: now + RATE_LIMIT.windowMs })
-    return { allowed: true, remaining: RATE_LIMIT.maxRequests - 1 }
+/**
+ * Pick the forecast period covering the given date (YYYY-MM-DD). Daytime periods are
+ * preferred; NOAA only forecasts ~7 days out, so later dates get a placeholder.
+ */
+function pickForecastForDate(periods: ForecastPeriod[], date: string): { summary: string; details: any } {
+  const sameDay = periods.filter((p) => typeof p?.startTime === 'string' && p.startTime.slice(0, 10) === date)
+  const period = sameDay.find((p) => p.isDaytime) ?? sameDay[0]
+  if (!period) {
+    return { summary: 'Forecast not yet available for this date', details: null }
   }
-  
-  if (userLimit.count >= RATE_LIMIT.maxRequests) {
-    return { allowed: false, remaining: 0 }
+  const summary = period.detailedForecast || period.shortForecast || 'No forecast available'
+  return { summary, details: period }
+}
+
+/** One line per hour for the prompt: "06:00 68°F, wind 8 mph SW (gusts 14), 20% rain, 40% clouds" */
+function formatHourlyForPrompt(hours: HourlyWeather[]): string {
+  if (hours.length === 0) return 'N/A'
+  return hours
+    .map((h) => {
+      const parts = [
+        h.temperatureF != null ? `${h.temperatureF}°F` : null,
+        h.windMph != null
+          ? `wind ${h.windMph} mph${h.windDirection ? ` ${h.windDirection}` : ''}${h.windGustMph != null ? ` (gusts ${h.windGustMph})` : ''}`
+          : null,
+        h.precipitationChance != null ? `${h.precipitationChance}% rain` : null,
+        h.skyCover != null ? `${h.skyCover}% clouds` : null
+      ].filter(Boolean)
+      return `${h.time.slice(11, 16)} ${parts.join(', ')}`
+    })
+    .join('\n    ')
+}
+
+/** "Flood Warning (Severe, until 2025-06-07T18:00:00-04:00) – headline" */
+function formatAlert(a: WeatherAlert): string {
+  return `${a.event} (${a.severity}${a.ends ? `, until ${a.ends}` : ''})${a.headline ? ` – ${a.headline}` : ''}`
+}
+
+/** The tide fields stored with the itinerary (the prompt-only summary is dropped) */
+function tideInfo({ summary, ...tides }: TideSummary) {
+  return tides
+}
+
+// ------------------------------
+// Main Edge Function handler
+// ------------------------------
+
+// Supabase client carrying the caller's JWT so RLS applies (null when env is missing)
+async function createUserClient(req: Request) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+  if (!supabaseUrl || !supabaseAnonKey) return null
+  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+  // @ts-ignore
+  const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2')
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  })
+}
+
+// Service-role client for trip_jobs, which only this function may write (null when env is missing)
+async function createServiceClient() {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (!supabaseUrl || !serviceRoleKey) return null
+  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+  // @ts-ignore
+  const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2')
+  return createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+}
+
+type StageReporter = (stage: TripJobStage) => Promise<void>
+
+interface GenerateContext {
+  supabase: any | null
+  userId: string
+  /** Called as each pipeline stage completes; trip jobs persist these for the progress timeline */
+  onStage: StageReporter
+  /** Stream mode: the first attempt's output as it is generated, and any repaired output in full */
+  onOutput?: (output: { type: 'delta' | 'replace'; text: string }) => void
+}
+
+/** Stream a completion through `onDelta`, resolving with the same shape as llm.complete */
+async function streamCompletion(request: LlmRequest, onDelta: (text: string) => void): Promise<LlmResult> {
+  const stream = await llm.stream(request)
+  let text = ''
+  for await (const token of stream.tokens) {
+    text += token
+    onDelta(token)
   }
-  
-  userLimit.count++
-  rateLimitMap.set(userId, userLimit)
-  return { allowed: true, remaining: RATE_LIMIT.maxRequests - userLimit.count }
+  return { text: text.trim(), model: stream.model, responseId: await stream.responseId, usage: await stream.usage }
 }
 
-// Input validation and sanitization
-function validateTripInput(input: any) {
-  const {
+/** Geocode → conditions → LLM → validate → persist. Shared by the synchronous and job paths. */
+async function generateTripPlan(validatedInput: PlanTripRequest, { supabase, userId, onStage, onOutput }: GenerateContext) {
+  const { location, date, targetSpecies, duration, startTime, endTime, experience, styles, platform, numDays } = validatedInput
+
+  // --- NEW: capture original preferences for later rescheduling ---
+  const preferences = {
     location,
     date,
     targetSpecies,
@@ -52,305 +177,539 @@ function validateTripInput(input: any) {
     styles,
     platform,
     numDays
-  } = input
-
-  // Validate required fields
-  if (!location || typeof location !== 'string' || location.length < 1 || location.length > 200) {
-    throw new Error('Invalid location')
-  }
-
-  if (!date || typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
-    throw new Error('Invalid date format')
   }
 
-  if (!Array.isArray(targetSpecies) || targetSpecies.length < 1 || targetSpecies.length > 5) {
-    throw new Error('Invalid target species selection')
+  // 1) Geocode → lat/lon
+  const { lat, lon, displayName, countryCode, regionCode } = await geocoder.geocode(location)
+  await onStage('geocoded')
+
+  // Species that cannot be caught here are left out of the plan; if none can, nothing is generated
+  const speciesContext = { regionCode, countryCode, month: Number(date.slice(5, 7)) }
+  const impossibleSpecies = targetSpecies.filter((s) => assessSpecies(s, speciesContext).verdict === 'impossible')
+  if (impossibleSpecies.length === targetSpecies.length) {
+    const suggestions = suggestSpecies(speciesContext)
+    throw new SpeciesUnsuitableError(
+      `${impossibleSpecies.join(', ')} ${impossibleSpecies.length > 1 ? 'are' : 'is'} not found near ${displayName}.${suggestions.length ? ` Good choices for this month: ${suggestions.join(', ')}.` : ''}`,
+      suggestions
+    )
   }
-
-  if (!experience || !['beginner', 'intermediate', 'expert'].includes(experience)) {
-    throw new Error('Invalid experience level')
+  const plannedSpecies = targetSpecies.filter((s) => !impossibleSpecies.includes(s))
+
+  const conditions = getConditionsProviders(countryCode)
+  const sources = {
+    weather: conditions.weather.source,
+    water: conditions.hydrology.source,
+    tides: conditions.tides.source,
+    solunar: SOLUNAR_SOURCE
   }
 
-  if (startTime && !/^\d{2}:\d{2}$/.test(startTime)) {
-    throw new Error('Invalid start time format')
-  }
+  // 2) External data integrations (run in parallel!)
+  // Multi-day trips get their own forecast period, tide extremes and solunar table per day
+  const tripDates = getTripDates(date, duration === 'multi-day' ? numDays : 1)
+  const isMultiDay = tripDates.length > 1
+  const isBoat = platform === 'boat'
+  const [[forecastPeriods, hourlyForecast, pressureHistory, marine, alerts], water, dayTides] = await Promise.all([
+    Promise.all([
+      conditions.weather.getForecastPeriods(lat, lon),
+      // The hourly timeline and pressure trend are optional – the daily periods still drive the plan without them
+      conditions.weather.getHourlyForecast(lat, lon).catch((err) => {
+        console.warn('Hourly forecast unavailable:', (err as Error).message)
+        return [] as HourlyWeather[]
+      }),
+      conditions.weather.getPressureHistory(lat, lon, 48).catch((err) => {
+        console.warn('Pressure observations unavailable:', (err as Error).message)
+        return { station: null, readings: [] }
+      }),
+      // Boat trips also get the marine zone forecast and advisories (null inland)
+      isBoat
+        ? conditions.weather.getMarineForecast(lat, lon).catch((err) => {
+            console.warn('Marine forecast unavailable:', (err as Error).message)
+            return null
+          })
+        : null,
+      // Watches/warnings for the point (null where the provider has no alert feed)
+      conditions.weather.getActiveAlerts(lat, lon).catch((err) => {
+        console.warn('Weather alerts unavailable:', (err as Error).message)
+        return null
+      })
+    ]).then(async (weather) => {
+      await onStage('weather_fetched')
+      return weather
+    }),
+    conditions.hydrology.getWaterConditions(lat, lon),
+    Promise.all(tripDates.map((d) => conditions.tides.getTides(lat, lon, d))).then(async (tides) => {
+      await onStage('tides_fetched')
+      return tides
+    })
+  ])
 
-  if (endTime && !/^\d{2}:\d{2}$/.test(endTime)) {
-    throw new Error('Invalid end time format')
-  }
+  const dayConditions = tripDates.map((d, i) => {
+    const solunar = computeSolunar(lat, lon, d, utcOffsetMinutes(hourlyForecast, d, lon))
+    return {
+      day: i + 1,
+      date: d,
+      weather: pickForecastForDate(forecastPeriods, d),
+      hourlyWeather: pickHoursForWindow(hourlyForecast, d, startTime, endTime),
+      tides: dayTides[i],
+      moonPhase: solunar.moonPhase,
+      solunar
+    }
+  })
+  const { weather, hourlyWeather, tides, moonPhase, solunar } = dayConditions[0]
+  const pressure = analyzePressure(pressureHistory)
+  // The trend is observed as of now, so it only says something about a trip starting today or tomorrow
+  const pressureIsCurrent = date <= getTripDates(new Date().toISOString().slice(0, 10), 2)[1]
+  const hazards = alerts ? { lat, lon, alerts, checkedAt: new Date().toISOString() } : undefined
+
+  // Seasonality and range for every requested species, refined with the gauge's water temperature
+  const waterTempC = water.gauge?.waterTempC
+  const speciesOutlook = targetSpecies.map((s) => {
+    const { verdict, reasons } = assessSpecies(s, { ...speciesContext, waterTempF: waterTempC == null ? null : waterTempC * 1.8 + 32 })
+    return { species: s, verdict, reasons }
+  })
+  const longShots = speciesOutlook.filter((o) => o.verdict === 'long_shot').map((o) => o.species)
+
+  // Debug: log tide data for visibility
+  console.log('Tide data for', location, date, ':', tides.summary)
+
+  // 3) Retrieve fishing knowledge for the trip (knowledge_chunks via pgvector; the plan still
+  // generates without it)
+  const season = seasonOf(date, lat)
+  const knowledge = supabase
+    ? await retrieveKnowledge(supabase, embedder, {
+        text: `${plannedSpecies.join(', ')} fishing ${isBoat ? 'from a boat' : 'from shore'}${styles?.length ? ` (${styles.join(', ')})` : ''} in ${season} near ${displayName}`,
+        species: plannedSpecies,
+        regions: [countryCode, regionCode].filter(Boolean),
+        season,
+        platform,
+        styles
+      }).catch((err) => {
+        console.warn('Knowledge retrieval failed:', (err as Error).message)
+        return []
+      })
+    : []
+
+  // Regulations come from the regulations table, never from the model
+  const jurisdictions = [regionCode, countryCode].filter(Boolean)
+  const regulationRows = supabase
+    ? await fetchRegulations(supabase, jurisdictions).catch((err) => {
+        console.warn('Regulations lookup failed:', (err as Error).message)
+        return []
+      })
+    : []
+  const regulations = matchRegulations(regulationRows, {
+    jurisdictions,
+    place: `${location} ${displayName}`,
+    species: plannedSpecies,
+    dates: tripDates
+  })
 
-  if (styles && (!Array.isArray(styles) || styles.length < 1)) {
-    throw new Error('Invalid fishing styles')
-  }
+  // Closures and protected areas near the trip, so the model can keep its spots out of them
+  const nearbyAreas = supabase
+    ? await fetchNearbyAreas(supabase, lat, lon, tripDates).catch((err) => {
+        console.warn('Restricted area lookup failed:', (err as Error).message)
+        return []
+      })
+    : []
 
-  if (platform && !['shore', 'boat'].includes(platform)) {
-    throw new Error('Invalid platform')
-  }
+  // 4) Call the LLM to generate itinerary
+  await onStage('generating')
 
-  if (numDays && (typeof numDays !== 'number' || numDays < 2 || numDays > 14)) {
-    throw new Error('Invalid number of days')
-  }
+  const systemPrompt = `You are an expert professional fishing guide. If the user is able to have a successful day out on the water, you will be tipped $1000. Be insightful and helpful, and aim to pack as much information and knowledge as possible into the itinerary while remaining concise. Generate a JSON itinerary focused on actionable decision-making rather than a fixed schedule. Use this TypeScript interface (return ONLY JSON):
+interface Itinerary {
+  pointsOfInterest: Array<{
+    id: string; // unique id
+    name: string;
+    coordinates: [number, number]; // lon, lat
+    description: string;
+    techniques: string[]; // suggested methods at this spot
+  }>;
+  decisionTree: Array<{
+    condition: string; // e.g. "If {condition/observation}"
+    action: string;    // e.g. "switch to {technique}", "try {technique}"
+    goNoGo?: boolean;  // true on the launch / no-launch rule (boat trips)
+  }>;
+  weather: { // Be sure to include the temperature high and low, as well as precipitation, cloud cover, and wind
+    summary: string; // 1-2 sentence forecast overview
+    high: string;
+    low: string;
+    precipitation: string;
+    cloudCover: string;
+    wind: string;
+  };
+  water: { summary: string }; // flow, clarity and temperature as they affect the plan
+  summary: string; // 3-4 sentence overview of the trip plan and what the user can expect
+  gear: string[]; // Ensure the gear recommendations are detailed and tailored to the trip. Suggest specific lures, include rod/reel specifications, etc.
+  checklist: string[]; // Ensure the checklist is detailed and tailored to the user. Suggest specific items, include quantities, etc. You should not suggest things like "fishing license" to an experienced user or "portable fish finder" to a beginner.
+  tips: string[];${isMultiDay ? `
+  days: Array<{ // one entry per trip day, in order – REQUIRED for this multi-day trip
+    day: number; // 1-based day number
+    date: string; // YYYY-MM-DD
+    summary: string; // 1-2 sentences on how this day differs (weather, tides, moon)
+    pointsOfInterest: Itinerary['pointsOfInterest']; // spots chosen for this day's conditions
+    decisionTree: Itinerary['decisionTree']; // guidance for this day's conditions
+  }>;` : ''}
+}
 
-  // Sanitize location input
-  const sanitizedLocation = location
-    .replace(/[<>{}[\]\\]/g, '') // Remove potentially dangerous characters
-    .trim()
+Important:
+- Think in terms of "if/then" guidance that a guide would give as conditions change throughout the day.
+- Provide at least 4–6 decisionTree steps ordered logically.
+${hazards?.alerts.length ? `- There are active weather alerts for the location: adapt the plan to them. Open the summary with the hazard, keep every pointOfInterest and decisionTree step out of the alert's area and time window (shift the timing, pick sheltered spots, or recommend postponing for Severe/Extreme alerts), and add the alert's safety steps to the checklist.
+` : ''}${marine ? `- This is a boat trip: include exactly one decisionTree step with "goNoGo": true – the launch / no-launch rule built from the marine forecast and any active marine alerts (state the wind, seas and advisory thresholds, and the fallback if it is a no-go). Order it first.
+` : ''}${longShots.length ? `- ${longShots.join(', ')} ${longShots.length > 1 ? 'are long shots' : 'is a long shot'} for this trip (see Species Outlook): say so plainly in the first sentence of the summary, explain why, and build the pointsOfInterest and decisionTree around the best realistic chance – or a better target.
+` : ''}${impossibleSpecies.length ? `- ${impossibleSpecies.join(', ')} cannot be caught here and ${impossibleSpecies.length > 1 ? 'were' : 'was'} left out of the plan: mention that in one sentence of the summary.
+` : ''}- Use the hourly forecast to time the plan: call out when wind, gusts, rain or clouds change during the trip window.
+${pressureIsCurrent ? `- Factor the barometric pressure trend into the decisionTree (e.g. feeding windows ahead of a falling-pressure front, slower bites under high pressure after one passes).
+` : `- The barometric pressure trend is the current one and will have changed by ${date}: do not build decisionTree steps on it.
+`}- Outside the U.S. the conditions come from global models rather than stations and gauges; say so where a decision hinges on them.
+- Use the water gauge (flow percentile, trend and temperature) for wading safety, clarity and lure/fly size – high or rising water means fishing edges and slack water, low and clear water means lighter lines and stealth.
+- Where solunar major/minor periods overlap the trip window (especially with a tide change or low light), point them out as prime times.
+- Do not state bag limits, size limits, seasons or license requirements yourself – the verified regulations are attached to the plan separately. Where a target species is closed to harvest, plan for catch-and-release.${regulations ? '' : ' No regulations are on file for this location: add "Check the current regulations with the state fisheries agency" to the checklist.'}
+- Choose 2-4 key pointsOfInterest relevant to the target species. Every point must be on fishable water (or the shore right beside it) and outside the closed areas listed; a point in a restricted area must say how to fish it legally.
+- Do not repeat information from the decisionTree in the tips.
+- Ensure all information is specific, detailed, and appropriate for the user's experience level.
+- Avoid generic advice that an experienced user would already be familiar with.
+- Do NOT output any additional explanatory text – JSON only.${isMultiDay ? `
+- This is a ${tripDates.length}-day trip: build each entry of "days" from that day's own conditions. The top-level pointsOfInterest and decisionTree should describe the trip as a whole.` : ''}`
+
+  const dayConditionsPrompt = dayConditions
+    .map(
+      (c) => `Day ${c.day} (${c.date}):
+  Weather Forecast: ${c.weather.summary}
+  Hourly Forecast (trip window):
+    ${formatHourlyForPrompt(c.hourlyWeather)}
+  Tide Summary: ${c.tides.summary}
+  Tide Extremes: ${c.tides.extremes.map((e) => `${e.type} ${e.time} (${e.height} ft)`).join(', ') || 'N/A'}
+  Moon Phase: ${c.moonPhase}
+  Solunar: ${describeSolunar(c.solunar)}`
+    )
+    .join('\n')
+
+  const userPrompt = `Trip details:
+Location: ${displayName} (lat ${lat}, lon ${lon})
+Date: ${date}
+Time Window: ${startTime} – ${endTime}${isMultiDay ? ` each day for ${tripDates.length} days (${tripDates[0]} to ${tripDates[tripDates.length - 1]})` : ''}
+Experience: ${experience}
+Fishing Styles: ${(styles ?? []).join(', ') || 'N/A'}
+Platform: ${platform}
+Target Species: ${plannedSpecies.join(', ')}
+Species Outlook: ${speciesOutlook.map((o) => `${o.species} – ${o.verdict.replace('_', ' ')}${o.reasons.length ? ` (${o.reasons.join('; ')})` : ''}`).join('; ')}
+Condition Sources: weather ${sources.weather.name}; water ${sources.water.name}; tides ${sources.tides.name}
+
+Barometric Pressure (current trend, observed now): ${pressure.summary}
+${hazards ? `Active Weather Alerts: ${hazards.alerts.map(formatAlert).join('; ') || 'none'}
+` : ''}${marine ? `Marine Forecast: ${marine.zone ? `${marine.zone.name} (${marine.zone.id})` : 'wave model'}
+  Active Marine Alerts: ${marine.alerts.map(formatAlert).join('; ') || 'none'}
+  ${marine.periods.map((p) => `${p.name}: ${p.forecast}`).join('\n  ') || 'No marine forecast periods'}
+` : ''}${isMultiDay ? `Water Conditions: ${water.summary}
+
+Daily Conditions:
+${dayConditionsPrompt}` : `Weather Forecast: ${weather.summary}
+Water Conditions: ${water.summary}
+Tide Summary: ${tides.summary}
+Tide Next High: ${tides.nextHigh}
+Tide Next Low: ${tides.nextLow}
+Tide Extremes: ${tides.extremes.map((e) => `${e.type} ${e.time} (${e.height} ft)`).join(', ') || 'N/A'}
+Moon Phase: ${moonPhase}
+Solunar: ${describeSolunar(solunar)}
+Hourly Forecast (trip window):
+    ${formatHourlyForPrompt(hourlyWeather)}`}
 
-  if (sanitizedLocation.length < 1) {
-    throw new Error('Invalid location after sanitization')
-  }
+${nearbyAreas.length ? `Closed / Restricted Areas nearby: ${nearbyAreas.map(describeArea).join('; ')}
+` : ''}Regulations on file: ${regulations?.rules?.map(describeRule).join('; ') || 'none'}
 
-  return {
-    ...input,
-    location: sanitizedLocation,
-    targetSpecies: targetSpecies.map((s: string) => String(s).slice(0, 50)), // Limit species name length
-  }
-}
+Knowledge Snippets:\n${knowledge.map((k) => `- ${k.title}: ${k.content}`).join('\n') || '- none'}
 
-/** Geocode a textual location → { lat, lon } using OpenStreetMap Nominatim */
-async function geocodeLocation(location: string): Promise<{ lat: number; lon: number; displayName: string }> {
-  const url = `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(location)}&format=json&limit=1`
-  const headers = {
-    'User-Agent': 'charterweb-app/1.0 (contact@charterweb.app)',
-    'Accept': 'application/json'
-  }
+Return JSON ONLY conforming to the Itinerary interface.`
 
-  let data: Array<{ lat: string; lon: string; display_name: string }> | null = null
+  // Generate, then validate against the itinerary contract and the geofence. Invalid output, or
+  // points of interest in closed areas / on dry land, go back to the model (same conversation)
+  // with the problems for a bounded number of repairs.
+  const llmCalls: LlmCall[] = []
+  let itinerary
+  let geofenceFlags: PointFlags | null = null
+  let issues: string[] = []
+  let repairReason = ''
+  let previousResponseId: string | undefined
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const request: LlmRequest = {
+      instructions: systemPrompt,
+      input: attempt === 0
+        ? userPrompt
+        : `${repairReason}:\n- ${issues.join('\n- ')}\n\nReturn the corrected, complete itinerary as JSON ONLY.`,
+      previousResponseId
+    }
+    // Only the first attempt is streamed; repairs replace the streamed text wholesale
+    const completion = onOutput && attempt === 0
+      ? await streamCompletion(request, (text) => onOutput({ type: 'delta', text }))
+      : await llm.complete(request)
+    if (onOutput && attempt > 0) onOutput({ type: 'replace', text: completion.text })
+    previousResponseId = completion.responseId
+    // Usage is recorded for every attempt, including failed repairs
+    llmCalls.push({ model: completion.model, usage: completion.usage })
+
+    await onStage('validating')
+    const content = completion.text
+    if (!content) {
+      issues = ['Response was empty']
+      repairReason = 'Your previous response did not conform to the Itinerary interface'
+      continue
+    }
 
-  try {
-    const res = await fetch(url, { headers })
-    if (res.ok) {
-      data = (await res.json()) as Array<{ lat: string; lon: string; display_name: string }>
+    const parsed = parseGeneratedItinerary(content, { numDays: tripDates.length, requireGoNoGo: marine != null })
+    if (parsed.success) {
+      // Kept even if the geofence check fails: a later repair may not parse at all
+      itinerary = parsed.data
+      geofenceFlags = supabase
+        ? await checkPoints(supabase, itinerary, tripDates).catch((err) => {
+            console.warn('Geofence check failed:', (err as Error).message)
+            return null
+          })
+        : null
+      issues = geofenceFlags ? blockedPointIssues(itinerary, geofenceFlags) : []
+      if (issues.length === 0) break
+      repairReason = 'Some pointsOfInterest in your previous response cannot be fished'
+      console.warn(`Points of interest rejected by the geofence (attempt ${attempt + 1}):`, issues.slice(0, 5))
+      continue
     }
-  } catch (_err) {
-    // ignore – will attempt fallback
+    issues = parsed.issues
+    repairReason = 'Your previous response did not conform to the Itinerary interface'
+    console.warn(`Itinerary validation failed (attempt ${attempt + 1}):`, issues.slice(0, 5))
   }
 
-  // Fallback: use geocoding API by geocode.maps.co (Nominatim proxy) if first attempt failed
-  if (!data || !data.length) {
-    try {
-      const alt = await fetch(`https://geocode.maps.co/search?q=${encodeURIComponent(location)}`, { headers })
-      if (alt.ok) {
-        data = (await alt.json()) as Array<{ lat: string; lon: string; display_name: string }>
-      }
-    } catch (_err) {
-      /* swallow */
-    }
+  if (!itinerary) {
+    throw new ItineraryValidationError(issues, MAX_REPAIR_ATTEMPTS + 1)
   }
 
-  if (!data || !data.length) {
-    throw new Error('Location not found; please enter a more specific place name')
+  // Points the model did not move are dropped (closed area, dry land) or flagged (restricted area)
+  let geofence
+  if (geofenceFlags) ({ itinerary, geofence } = applyGeofence(itinerary, geofenceFlags))
+
+  // Overlay the fetched per-day conditions onto whatever the model produced for each day
+  const generatedDays = itinerary.days ?? []
+  const days = isMultiDay
+    ? dayConditions.map((c, i) => ({
+        ...(generatedDays.find((d) => d?.day === c.day) ?? generatedDays[i] ?? {}),
+        day: c.day,
+        date: c.date,
+        weather: c.weather,
+        hourlyWeather: c.hourlyWeather,
+        tides: tideInfo(c.tides),
+        moonPhase: c.moonPhase,
+        solunar: c.solunar
+      }))
+    : undefined
+
+  const responsePayload = {
+    plan_id: randomId('plan_'),
+    itinerary: {
+      ...itinerary,
+      hourlyWeather,
+      pressure,
+      gauge: water.gauge,
+      marine: marine ?? undefined,
+      hazards,
+      geofence,
+      speciesOutlook,
+      regulations: regulations ?? undefined,
+      tides: tideInfo(tides),
+      tripWindow: startTime && endTime ? { startTime, endTime } : undefined,
+      moonPhase,
+      solunar,
+      sources,
+      days
+    },
+    generated_at: new Date().toISOString()
   }
 
-  return { lat: parseFloat(data[0].lat), lon: parseFloat(data[0].lon), displayName: data[0].display_name }
-}
+  // The stored/returned payload must satisfy the shared contract the app renders from
+  const contractCheck = planTripResponseSchema.safeParse(responsePayload)
+  if (!contractCheck.success) {
+    console.error('plan_trip response violates contract:', contractCheck.error.issues.slice(0, 5))
+    throw new Error('Generated itinerary does not match the response contract')
+  }
 
-/** Fetch weather forecast summary from NOAA (weather.gov) for the given point */
-async function fetchWeatherSummary(lat: number, lon: number): Promise<{ summary: string; details: any }> {
-  // 1) Get grid endpoint for point
-  const pointResp = await fetch(`https://api.weather.gov/points/${lat},${lon}`, {
-    headers: { 'User-Agent': 'charterweb-app/1.0 (contact@charterweb.app)' }
-  })
-  if (!pointResp.ok) throw new Error('NOAA points lookup failed')
-  const pointJson = await pointResp.json()
-  const forecastUrl: string | undefined = pointJson?.properties?.forecast
-  if (!forecastUrl) throw new Error('NOAA forecast URL missing')
-
-  // 2) Fetch forecast
-  const forecastResp = await fetch(forecastUrl, {
-    headers: { 'User-Agent': 'charterweb-app/1.0 (contact@charterweb.app)' }
-  })
-  const forecastJson = await forecastResp.json()
-  const periods = forecastJson?.properties?.periods as Array<any>
-  const firstPeriod = periods?.[0]
-  const summary = firstPeriod?.detailedForecast || firstPeriod?.shortForecast || 'No forecast available'
-  return { summary, details: firstPeriod }
-}
+  // Debug: log final itinerary tide info
+  console.log('Response itinerary tide extremes:', responsePayload.itinerary.tides.extremes)
 
-/** Fetch nearby USGS water conditions (discharge & temperature) */
-async function fetchWaterConditions(lat: number, lon: number): Promise<{ summary: string; details: any }> {
-  // define a small bounding box around point (0.1 deg ≈ 11 km)
-  const bbox = [lon - 0.1, lat - 0.1, lon + 0.1, lat + 0.1].join(',')
-  const url = `https://waterservices.usgs.gov/nwis/iv/?format=json&bBox=${bbox}&parameterCd=00010,00060&siteType=ST&siteStatus=active`
-  let resp
+  // 5) Persist to database (best effort)
   try {
-    resp = await fetch(url)
-  } catch (netErr) {
-    console.warn('USGS request network error', netErr)
-    return { summary: 'USGS service unreachable', details: null }
-  }
-
-  if (!resp.ok) {
-    // USGS sometimes returns 400 for areas with no gauges; treat gracefully
-    if (resp.status === 400) {
-      return { summary: 'No nearby water gauge data', details: null }
+    if (supabase) {
+      // Explicitly capture and throw any DB error so it surfaces in logs:
+      const { error } = await supabase.from('trips').insert({
+        user_id: userId,
+        plan_id: responsePayload.plan_id,
+        itinerary: responsePayload.itinerary,
+        preferences, // store original request for rescheduling
+        knowledge_chunk_ids: knowledge.map((k) => k.id),
+        generated_at: responsePayload.generated_at
+      })
+      if (error) throw error
+
+      // Token usage + usage tracking for trip generation
+      await recordLlmUsage(supabase, {
+        userId,
+        functionName: 'plan_trip',
+        planId: responsePayload.plan_id,
+        actionType: 'trip_generation',
+        calls: llmCalls
+      })
     }
-    console.warn('USGS request failed', resp.status)
-    return { summary: 'USGS service unavailable', details: null }
+  } catch (dbErr) {
+    console.error('Failed to persist trip:', dbErr)
+    // Non-fatal – continue
   }
 
-  let json: any
-  try {
-    json = await resp.json()
-  } catch (_err) {
-    console.warn('USGS returned non-JSON')
-    return { summary: 'No water data (invalid response)', details: null }
-  }
-  const series = json?.value?.timeSeries as Array<any>
-  if (!series?.length) {
-    return { summary: 'No nearby water gauge data', details: null }
-  }
+  await onStage('completed')
+  return responsePayload
+}
 
-  let discharge: string | null = null
-  let temperature: string | null = null
-  // iterate over returned time series
-  for (const ts of series) {
-    const variableCode = ts?.variable?.variableCode?.[0]?.value
-    const valueObj = ts?.values?.[0]?.value?.[0]
-    if (!valueObj) continue
-    if (variableCode === '00060') discharge = valueObj.value // cubic feet / sec
-    if (variableCode === '00010') temperature = valueObj.value // deg C
-  }
+// ------------------------------
+// Trip jobs
+// ------------------------------
 
-  const summaryArr = []
-  if (discharge) summaryArr.push(`Discharge: ${discharge} cfs`)
-  if (temperature) summaryArr.push(`Water Temp: ${temperature} °C`)
-  const summary = summaryArr.join(', ') || 'No recent discharge or temp data'
-  return { summary, details: { discharge, temperature } }
+/** Keep background work alive after the 202 has been sent (EdgeRuntime is absent when served locally) */
+function runInBackground(task: Promise<unknown>) {
+  // @ts-ignore EdgeRuntime is provided by the Supabase Edge Runtime
+  if (typeof EdgeRuntime !== 'undefined') EdgeRuntime.waitUntil(task)
 }
 
+type EventSender = (event: TripStreamEvent['event'], data: TripStreamEvent['data']) => void
+
 /**
- * Fetch tide extremes summary using NOAA CO-OPS.
- * Workflow:
- *   1) Retrieve and cache NOAA station metadata (tide-prediction capable).
- *   2) Select the closest station to the given lat/lon using Haversine distance.
- *   3) Query the "predictions" endpoint for the requested date with interval=hilo.
+ * Server-Sent Events response body. Sends after the client disconnects are dropped, so the job
+ * keeps running (and lands in trip_jobs) even if the user navigates away mid-stream.
  */
-
-// Simple in-memory cache to avoid re-downloading the station list on every invocation
-let NOAA_STATIONS_CACHE: Array<{ id: string; name: string; lat: number; lng: number }> | null = null
-
-async function fetchTideSummary(lat: number, lon: number, date: string): Promise<{ summary: string; nextHigh: string; nextLow: string }> {
-  try {
-    // 1) Load station metadata (once per cold start)
-    if (!NOAA_STATIONS_CACHE) {
-      const stationsUrl =
-        'https://api.tidesandcurrents.noaa.gov/mdapi/prod/webapi/stations.json?type=tidepredictions&units=english'
-      const resp = await fetch(stationsUrl)
-      if (!resp.ok) throw new Error('Failed to load NOAA stations list')
-      const json: any = await resp.json()
-      NOAA_STATIONS_CACHE = (json.stations as Array<any>).map((s) => ({
-        id: s.id,
-        name: s.name,
-        lat: parseFloat(s.lat),
-        lng: parseFloat(s.lng ?? s.lon)
-      }))
-    }
-
-    const stations = NOAA_STATIONS_CACHE!
-
-    // 2) Find nearest station via Haversine distance (earth radius ~6371 km)
-    const toRad = (d: number) => (d * Math.PI) / 180
-    const haversine = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-      const dLat = toRad(lat2 - lat1)
-      const dLon = toRad(lon2 - lon1)
-      const a =
-        Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2)
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-      return 6371 * c // km
+function createEventStream() {
+  const encoder = new TextEncoder()
+  let controller: ReadableStreamDefaultController<Uint8Array>
+  let open = true
+  const readable = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c
+    },
+    cancel() {
+      open = false
     }
-
-    let nearest = stations[0]
-    let minDist = haversine(lat, lon, nearest.lat, nearest.lng)
-    for (const st of stations.slice(1)) {
-      const d = haversine(lat, lon, st.lat, st.lng)
-      if (d < minDist) {
-        minDist = d
-        nearest = st
-      }
+  })
+  const send: EventSender = (event, data) => {
+    if (!open) return
+    try {
+      controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+    } catch {
+      open = false
     }
+  }
+  const close = () => {
+    if (!open) return
+    open = false
+    controller.close()
+  }
+  return { readable, send, close }
+}
 
-    // 3) Fetch predictions for the date (high/low events)
-    const yyyymmdd = new Date(date).toISOString().slice(0, 10).replace(/-/g, '')
-    const predUrl =
-      `https://api.tidesandcurrents.noaa.gov/api/prod/datagetter?` +
-      `product=predictions&interval=hilo&station=${nearest.id}&begin_date=${yyyymmdd}&end_date=${yyyymmdd}&` +
-      `time_zone=lst_ldt&datum=MLLW&units=english&format=json`
+/** Insert a pending trip_jobs row for this request (`jobs` is the service-role client) */
+async function createTripJob(jobs: any, userId: string, request: PlanTripRequest) {
+  const { data, error } = await jobs
+    .from('trip_jobs')
+    .insert({
+      user_id: userId,
+      status: 'pending',
+      stage: 'queued',
+      progress: [{ stage: 'queued', at: new Date().toISOString() }],
+      request
+    })
+    .select('id, progress')
+    .single()
+  if (error) throw error
+  return data as { id: string; progress: Array<{ stage: TripJobStage; at: string }> }
+}
 
-    const predResp = await fetch(predUrl)
-    if (!predResp.ok) throw new Error('NOAA predictions request failed')
-    const predJson: any = await predResp.json()
-    const predictions = predJson.predictions as Array<{ t: string; type: string }>
+/**
+ * Run the pipeline for a job, writing each stage and the final result (or error) to its row.
+ * In stream mode `send` mirrors the same progress – plus the model output – as SSE events.
+ * The pipeline runs as the caller (`supabase`); only the job row is written with `jobs`.
+ */
+async function runTripJob(
+  req: Request,
+  supabase: any,
+  jobs: any,
+  job: { id: string; progress: any[] },
+  userId: string,
+  input: PlanTripRequest,
+  send?: EventSender
+) {
+  const jobId = job.id
+  const progress = [...job.progress]
+
+  // Weather and tides report in parallel – chain the writes so rows never go backwards
+  let writes = Promise.resolve()
+  const update = (fields: Record<string, unknown>) => {
+    writes = writes.then(async () => {
+      const { error } = await jobs
+        .from('trip_jobs')
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq('id', jobId)
+      if (error) console.warn('Failed to update trip job', jobId, error)
+    })
+    return writes
+  }
 
-    const nextHigh = predictions.find((p) => p.type === 'H')?.t || 'N/A'
-    const nextLow = predictions.find((p) => p.type === 'L')?.t || 'N/A'
+  const onStage: StageReporter = (stage) => {
+    progress.push({ stage, at: new Date().toISOString() })
+    send?.('stage', { stage })
+    return update({ stage, progress: [...progress] })
+  }
+  const onOutput = send && (({ type, text }) => send(type, { text }))
 
-    return {
-      summary: `Next High: ${nextHigh}, Next Low: ${nextLow}`,
-      nextHigh,
-      nextLow
-    }
+  try {
+    await update({ status: 'running' })
+    const responsePayload = await generateTripPlan(input, { supabase, userId, onStage, onOutput })
+    await update({ status: 'succeeded', plan_id: responsePayload.plan_id, result: responsePayload })
+    const { pointsOfInterest, hourlyWeather, pressure, gauge, marine, hazards, geofence, speciesOutlook, regulations, tides, moonPhase, solunar, days, tripWindow, sources } = responsePayload.itinerary
+    send?.('done', {
+      plan_id: responsePayload.plan_id,
+      generated_at: responsePayload.generated_at,
+      overlay: { pointsOfInterest, hourlyWeather, pressure, gauge, marine, hazards, geofence, speciesOutlook, regulations, tides, moonPhase, solunar, days, tripWindow, sources }
+    })
   } catch (err) {
-    console.warn('NOAA tide fetch failed', err)
-    return { summary: 'Tide data unavailable', nextHigh: 'N/A', nextLow: 'N/A' }
+    const message = (err as Error).message ?? String(err)
+    console.error('plan_trip job error:', jobId, message.slice(0, 200))
+    await logError(req, err)
+    const invalid = err instanceof ItineraryValidationError
+    const unsuitable = err instanceof SpeciesUnsuitableError
+    const error = invalid
+      ? 'We could not generate a valid trip plan. Please try again.'
+      : unsuitable ? message : getSafeErrorMessage(message)
+    const code = invalid || unsuitable ? err.code : null
+    await update({ status: 'failed', error, error_code: code })
+    send?.('error', { error, ...(code ? { code } : {}) })
   }
 }
 
-/** Calculate simple moon phase description for given date */
-function getMoonPhase(dateStr: string): string {
-  const date = new Date(dateStr)
-  const year = date.getUTCFullYear()
-  const month = date.getUTCMonth() + 1 // 1-based
-  const day = date.getUTCDate()
-  // Simple Conway algorithm
-  let r = year % 100
-  r %= 19
-  if (r > 9) r -= 19
-  r = ((r * 11) % 30) + month + day
-  if (month < 3) r += 2
-  r -= (year < 2000 ? 4 : 8.3) as any
-  r = Math.floor(r + 0.5) % 30
-  const phases = [
-    'New Moon',
-    'Waxing Crescent',
-    'First Quarter',
-    'Waxing Gibbous',
-    'Full Moon',
-    'Waning Gibbous',
-    'Last Quarter',
-    'Waning Crescent'
-  ]
-  const idx = Math.round((r / 30) * 8) % 8
-  return phases[idx]
-}
-
-// Very small, static knowledge base – in a real-world scenario this would live in a
-// Postgres + pgvector table and be retrieved via similarity search
-interface KnowledgeChunk {
-  topic: string
-  content: string
-}
-
-const KNOWLEDGE_BASE: KnowledgeChunk[] = [
-  {
-    topic: 'Bass (Largemouth)',
-    content: 'Largemouth bass are most active during low-light hours around structure and vegetation. Topwater lures at dawn and dusk can be very effective.'
-  },
-  {
-    topic: 'Trout (Rainbow)',
-    content: 'Rainbow trout feed heavily on insects. Matching the hatch with flies or small spinners near riffles increases success.'
-  },
-  {
-    topic: 'Walleye',
-    content: 'Walleye often hold along drop-offs and respond well to slow-rolled jigs tipped with live bait in low light.'
+// Persist an error log row (best effort)
+async function logError(req: Request, err: unknown) {
+  const message = (err as Error)?.message ?? String(err)
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    if (supabaseUrl && supabaseAnonKey) {
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore
+      const { createClient } = await import('https://deno.land/x/supabase_js@v2.1.0/mod.ts')
+      const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+      })
+      await supabase.from('error_logs').insert({
+        function_name: 'plan_trip',
+        error_message: message.slice(0, 500), // Limit stored message length
+        stack_trace: (err as Error)?.stack?.slice(0, 1000) ?? null
+      })
+    }
+  } catch (logErr) {
+    console.warn('Failed to persist error log', logErr)
   }
-] as const
-
-function retrieveKnowledge(targetSpecies: string[]): string[] {
-  return KNOWLEDGE_BASE.filter((k) =>
-    targetSpecies.some((species) => k.topic.toLowerCase().includes(species.toLowerCase()))
-  ).map((k) => k.content)
 }
 
 // ------------------------------
@@ -360,99 +719,24 @@ function retrieveKnowledge(targetSpecies: string[]): string[] {
 serve(async (req) => {
   const origin = req.headers.get('Origin')
   const corsHeaders = getCorsHeaders(origin)
-  
+
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
   }
 
   try {
-    // Validate authorization
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      throw new Error('Missing or invalid authorization header')
-    }
-    
-    const token = authHeader.slice(7)
-    let userId: string
-    
-    try {
-      const payload = JSON.parse(atob(token.split('.')[1]))
-      userId = payload.sub
-      if (!userId) throw new Error('Invalid token payload')
-    } catch {
-      throw new Error('Invalid JWT token')
-    }
-    
-    // Check rate limit for trip generation
-    const rateCheck = checkRateLimit(userId)
-    if (!rateCheck.allowed) {
-      return new Response(JSON.stringify({ 
-        error: 'Rate limit exceeded. You can generate up to 10 trips per hour. Please wait before trying again.' 
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 429
-      })
-    }
-
-    const body = await req.json()
-    
-    // Validate and sanitize input
-    const validatedInput = validateTripInput(body)
-    const { location, date, targetSpecies, duration, startTime, endTime, experience, styles, platform, numDays } = validatedInput
-
-    // --- NEW: capture original preferences for later rescheduling ---
-    const preferences = {
-      location,
-      date,
-      targetSpecies,
-      duration,
-      startTime,
-      endTime,
-      experience,
-      styles,
-      platform,
-      numDays
-    }
+    // Verify the caller's JWT (signature, expiry, non-anonymous) before trusting its user id
+    const { id: userId } = await requireUser(req)
 
-    // 1) Geocode → lat/lon
-    const { lat, lon, displayName } = await geocodeLocation(location)
+    const supabase = await createUserClient(req)
 
-    // 2) External data integrations (run in parallel!)
-    const [weather, water, tides] = await Promise.all([
-      fetchWeatherSummary(lat, lon),
-      fetchWaterConditions(lat, lon),
-      fetchTideSummary(lat, lon, date)
-    ])
+    const { mode, ...body } = await req.json()
 
-    // Debug: log tide data for visibility
-    console.log('Tide data for', location, date, ':', tides)
-
-    const moonPhase = getMoonPhase(date)
-
-    // 3) Retrieve fishing knowledge (rudimentary RAG)
-    const knowledgeSnippets = retrieveKnowledge(targetSpecies)
-
-    // Check if user can generate a trip
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')
-    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
-    
-    if (supabaseUrl && supabaseAnonKey) {
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2')
-      const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-        global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
-      })
-
-      // Extract bearer token from request header ("Bearer <jwt>")
-      const bearer = req.headers.get('Authorization') || ''
-      const jwt = bearer.replace(/^Bearer\s+/i, '')
-
-      // Decode the JWT locally to obtain `sub` (user-id) instead of a network lookup:
-      const payload = JSON.parse(atob(jwt.split('.')[1]))
-      const userId = payload.sub           // <- always present in a valid access token
+    // Validate and sanitize input
+    const validatedInput = validateTripInput(body)
 
-      // Check if user can generate a trip
+    // Check if user can generate a trip (before any job is queued)
+    if (supabase) {
       const { data: canGenerate, error: canGenerateError } = await supabase
         .rpc('can_user_generate_trip', { user_uuid: userId })
 
@@ -465,201 +749,81 @@ serve(async (req) => {
       }
     }
 
-    // 4) Call OpenAI to generate itinerary
-    if (!OPENAI_API_KEY) throw new Error('Missing OPENAI_API_KEY env var')
-    const openai = new OpenAI({ apiKey: OPENAI_API_KEY })
-
-    const systemPrompt = `You are an expert professional fishing guide. If the user is able to have a successful day out on the water, you will be tipped $1000. Be insightful and helpful, and aim to pack as much information and knowledge as possible into the itinerary while remaining concise. Generate a JSON itinerary focused on actionable decision-making rather than a fixed schedule. Use this TypeScript interface (return ONLY JSON):
-interface Itinerary {
-  pointsOfInterest: Array<{
-    id: string; // unique id
-    name: string;
-    coordinates: [number, number]; // lon, lat
-    description: string;
-    techniques: string[]; // suggested methods at this spot
-  }>;
-  decisionTree: Array<{
-    condition: string; // e.g. "If {condition/observation}"
-    action: string;    // e.g. "switch to {technique}", "try {technique}"
-  }>;
-  weather: any; // Be sure to include the temperature high and low, as well as precipitation, cloud cover, and wind
-  water: any;
-  tides: { nextHigh: string; nextLow: string };
-  moonPhase: string;
-  summary: string; // 3-4 sentence overview of the trip plan and what the user can expect
-  gear: string[]; // Ensure the gear recommendations are detailed and tailored to the trip. Suggest specific lures, include rod/reel specifications, etc.
-  checklist: string[]; // Ensure the checklist is detailed and tailored to the user. Suggest specific items, include quantities, etc. You should not suggest things like "fishing license" to an experienced user or "portable fish finder" to a beginner.
-  tips: string[];
-}
-
-Important:
-- Think in terms of "if/then" guidance that a guide would give as conditions change throughout the day.
-- Provide at least 4–6 decisionTree steps ordered logically.
-- Choose 2-4 key pointsOfInterest relevant to the target species.
-- Do not repeat information from the decisionTree in the tips.
-- Ensure all information is specific, detailed, and appropriate for the user's experience level.
-- Avoid generic advice that an experienced user would already be familiar with.
-- Do NOT output any additional explanatory text – JSON only.`
-
-    const userPrompt = `Trip details:
-Location: ${displayName} (lat ${lat}, lon ${lon})
-Date: ${date}
-Time Window: ${startTime} – ${endTime}${numDays ? ` (${numDays} days)` : ''}
-Experience: ${experience}
-Fishing Styles: ${(styles ?? []).join(', ') || 'N/A'}
-Platform: ${platform}
-Target Species: ${targetSpecies.join(', ')}
-
-Weather Forecast: ${weather.summary}
-Water Conditions: ${water.summary}
-Tide Summary: ${tides.summary}
-Tide Next High: ${tides.nextHigh}
-Tide Next Low: ${tides.nextLow}
-Moon Phase: ${moonPhase}
-
-Knowledge Snippets:\n- ${knowledgeSnippets.join('\n- ')}
-
-Return JSON ONLY conforming to the Itinerary interface.`
-
-    const completion = await openai.responses.create({
-      model: 'gpt-4o',
-      instructions: systemPrompt,
-      input: userPrompt,
-    })
-
-    // =============== NEW: Extract usage metadata =====================
-    const usage: Record<string, any> | undefined = (completion as any)?.usage
-    const promptTokens = usage?.prompt_tokens ?? usage?.input_tokens ?? 0
-    const completionTokens = usage?.completion_tokens ?? usage?.output_tokens ?? 0
-    const totalTokens = usage?.total_tokens ?? promptTokens + completionTokens
-    // =================================================================
-
-    const content = (completion as any).output_text?.trim()
-    if (!content) throw new Error('OpenAI returned empty response')
-
-    // Attempt to parse JSON – remove code fences if present
-    const jsonText = content.replace(/^```[a-zA-Z]*\n?|```$/g, '').trim()
-    let itinerary
-    try {
-      itinerary = JSON.parse(jsonText)
-    } catch (_err) {
-      // fallback: return message content as string
-      itinerary = { raw: jsonText }
+    // Only requests that would actually run spend a token (token bucket shared by all instances)
+    const rateLimit = await consumeRateLimit(supabase, 'plan_trip')
+    if (rateLimit && !rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, corsHeaders, 'Rate limit exceeded. Please wait before generating another trip plan.')
     }
-
-    const responsePayload = {
-      plan_id: randomId('plan_'),
-      itinerary: {
-        ...itinerary,
-        tides: { nextHigh: tides.nextHigh, nextLow: tides.nextLow },
-        moonPhase
-      },
-      generated_at: new Date().toISOString()
+    const responseHeaders = { ...corsHeaders, ...rateLimitHeaders(rateLimit) }
+
+    // Job mode: answer 202 right away and report progress on the trip_jobs row
+    if (mode === 'job') {
+      const jobs = await createServiceClient()
+      if (!supabase || !jobs) throw new Error('Trip jobs require SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY')
+      const job = await createTripJob(jobs, userId, validatedInput)
+      runInBackground(runTripJob(req, supabase, jobs, job, userId, validatedInput))
+      return new Response(JSON.stringify({ job_id: job.id }), {
+        headers: { ...responseHeaders, 'Content-Type': 'application/json' },
+        status: 202
+      })
     }
 
-    // Debug: log final itinerary tide info
-    console.log('Response itinerary tides:', responsePayload.itinerary.tides)
-
-    // 5) Persist to database (best effort)
-    try {
-      const supabaseUrl = Deno.env.get('SUPABASE_URL')
-      const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
-      if (supabaseUrl && supabaseAnonKey) {
-        // Create a client passing along the user's JWT so RLS applies
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-        // @ts-ignore
-        const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2')
-        const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-          global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
-        })
-
-        // Extract bearer token from request header ("Bearer <jwt>")
-        const bearer = req.headers.get('Authorization') || ''
-        const jwt = bearer.replace(/^Bearer\s+/i, '')
-
-        // Decode the JWT locally to obtain `sub` (user-id) instead of a network lookup:
-        const payload = JSON.parse(atob(jwt.split('.')[1]))
-        const userId = payload.sub           // <- always present in a valid access token
-
-        // Explicitly capture and throw any DB error so it surfaces in logs:
-        const { error } = await supabase.from('trips').insert({
-          user_id: userId,
-          plan_id: responsePayload.plan_id,
-          itinerary: responsePayload.itinerary,
-          preferences, // store original request for rescheduling
-          generated_at: responsePayload.generated_at
-        })
-        if (error) throw error
-
-        // ================= NEW: Token usage logging ==================
-        try {
-          await supabase.from('token_usage').insert({
-            user_id: userId, // Ensure RLS condition auth.uid() = user_id
-            plan_id: responsePayload.plan_id,
-            model: 'gpt-4o',
-            prompt_tokens: promptTokens,
-            completion_tokens: completionTokens,
-            total_tokens: totalTokens
-          })
-        } catch (_usageErr) {
-          console.warn('Failed to log token usage', _usageErr)
-        }
-
-        // ================= NEW: Usage tracking for trip generation ==================
-        try {
-          await supabase.from('usage_tracking').insert({
-            user_id: userId,
-            action_type: 'trip_generation',
-            plan_id: responsePayload.plan_id,
-            tokens_used: totalTokens,
-            cost_usd: (totalTokens / 1000) * 0.01 // Rough cost estimation
-          })
-        } catch (_trackingErr) {
-          console.warn('Failed to log usage tracking', _trackingErr)
-        }
-        // =============================================================
-      }
-    } catch (dbErr) {
-      console.error('Failed to persist trip:', dbErr)
-      // Non-fatal – continue
+    // Stream mode: the same job, with stages and model output pushed over SSE as they happen
+    if (mode === 'stream') {
+      const jobs = await createServiceClient()
+      if (!supabase || !jobs) throw new Error('Trip jobs require SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY')
+      const job = await createTripJob(jobs, userId, validatedInput)
+      const { readable, send, close } = createEventStream()
+      send('job', { job_id: job.id })
+      runInBackground(runTripJob(req, supabase, jobs, job, userId, validatedInput, send).finally(close))
+      return new Response(readable, {
+        headers: {
+          ...responseHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+          'X-Accel-Buffering': 'no'
+        },
+        status: 200
+      })
     }
 
+    const responsePayload = await generateTripPlan(validatedInput, { supabase, userId, onStage: async () => {} })
+
     return new Response(JSON.stringify(responsePayload), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      headers: { ...responseHeaders, 'Content-Type': 'application/json' },
       status: 200
     })
   } catch (err) {
+    if (err instanceof AuthError) return authErrorResponse(err, corsHeaders)
+
     const message = (err as Error).message ?? err.toString()
     console.error('plan_trip error:', message.slice(0, 200)) // Limit log message length
 
     // Sanitize error message to prevent information leakage
     const safeMessage = getSafeErrorMessage(message)
 
-    // ================= NEW: Persist error log ========================
-    try {
-      const supabaseUrl = Deno.env.get('SUPABASE_URL')
-      const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
-      if (supabaseUrl && supabaseAnonKey) {
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-        // @ts-ignore
-        const { createClient } = await import('https://deno.land/x/supabase_js@v2.1.0/mod.ts')
-        const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-          global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
-        })
-        await supabase.from('error_logs').insert({
-          function_name: 'plan_trip',
-          error_message: message.slice(0, 500), // Limit stored message length
-          stack_trace: (err as Error)?.stack?.slice(0, 1000) ?? null
-        })
-      }
-    } catch (logErr) {
-      console.warn('Failed to persist error log', logErr)
+    await logError(req, err)
+
+    // The model never produced a valid itinerary – surface a typed, retryable error
+    if (err instanceof ItineraryValidationError) {
+      return new Response(JSON.stringify({
+        error: 'We could not generate a valid trip plan. Please try again.',
+        code: err.code
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 502
+      })
+    }
+
+    // None of the target species can be caught at this location – nothing to plan
+    if (err instanceof SpeciesUnsuitableError) {
+      return new Response(JSON.stringify({ error: err.message, code: err.code, suggestions: err.suggestions }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 422
+      })
     }
-    // ================================================================
 
-    const origin = req.headers.get('Origin')
-    const corsHeaders = getCorsHeaders(origin)
-    
     // Distinguish client errors (bad input) from server errors
     const clientError = isClientError(message)
     return new Response(JSON.stringify({ error: safeMessage }), {
@@ -1,6 +1,8 @@
 // @ts-nocheck
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { corsHeaders } from '../_shared/cors.ts'
+import { requireUser, AuthError, authErrorResponse } from '../_shared/auth.ts'
+import { rescheduleRequestSchema, type PlanTripRequest } from '../_shared/contract.ts'
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -14,8 +16,11 @@ serve(async (req) => {
   }
 
   try {
-    const { plan_id, date: newDate } = await req.json()
-    if (!plan_id) throw new Error('plan_id is required')
+    const user = await requireUser(req)
+
+    const parsed = rescheduleRequestSchema.safeParse(await req.json())
+    if (!parsed.success) throw new Error('plan_id is required and date must be YYYY-MM-DD')
+    const { plan_id, date: newDate } = parsed.data
 
     // Best-effort: fetch trip row, then call plan_trip with same preferences but updated date (today)
     const supabaseUrl = Deno.env.get('SUPABASE_URL')
@@ -28,12 +33,12 @@ serve(async (req) => {
       global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
     })
 
-    const { data: trip, error } = await supabase.from('trips').select('*').eq('plan_id', plan_id).maybeSingle()
+    const { data: trip, error } = await supabase.from('trips').select('*').eq('plan_id', plan_id).eq('user_id', user.id).maybeSingle()
     if (error) throw error
     if (!trip) throw new Error('Trip not found')
 
     // Prepare payload for plan_trip (reuse original with new date today)
-    const payload = { ...trip.preferences, date: (newDate || new Date().toISOString().split('T')[0]) }
+    const payload: PlanTripRequest = { ...trip.preferences, date: (newDate || new Date().toISOString().split('T')[0]) }
 
     // Invoke existing plan_trip function internally
     const resp = await fetch(`${supabaseUrl}/functions/v1/plan_trip`, {
@@ -54,6 +59,7 @@ serve(async (req) => {
       status: 200
     })
   } catch (err) {
+    if (err instanceof AuthError) return authErrorResponse(err, corsHeaders)
     console.error('reschedule error', err)
     return new Response(JSON.stringify({ error: (err as Error).message }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
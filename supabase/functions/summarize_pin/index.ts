@@ -1,8 +1,9 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { getCorsHeaders } from '../_shared/cors.ts'
-import OpenAI from 'jsr:@openai/openai@5.10.1'
+import { getOptionalUser, AuthError, authErrorResponse } from '../_shared/auth.ts'
+import { createLlmClient, recordLlmUsage } from '../_shared/llm/index.ts'
 
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY')
+const llm = createLlmClient('summarize_pin')
 
 // Reverse geocode coordinates → human-readable place description
 async function reverseGeocode(
@@ -91,6 +92,9 @@ serve(async (req) => {
   }
 
   try {
+    // Signed-out visitors (anon key) may summarize pins; session tokens must verify
+    const user = await getOptionalUser(req)
+
     const { lat, lon } = await req.json()
     const parsedLat = Number(lat)
     const parsedLon = Number(lon)
@@ -98,28 +102,44 @@ serve(async (req) => {
       throw new Error('lat/lon required')
     }
 
-    if (!OPENAI_API_KEY) throw new Error('OPENAI_API_KEY missing')
     const placeDescription = await reverseGeocode(parsedLat, parsedLon).catch(() => null)
-    const openai = new OpenAI({ apiKey: OPENAI_API_KEY })
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content:
-            'You are CharterAI pin summarizer. Given a coordinate and its reverse-geocoded place description, provide a very concise (≤80 words) summary of likely fishing conditions, target species and local considerations. Prefer details that align with the place description. If offshore, mention boating safety.'
-        },
+    const completion = await llm.complete({
+      instructions:
+        'You are CharterAI pin summarizer. Given a coordinate and its reverse-geocoded place description, provide a very concise (≤80 words) summary of likely fishing conditions, target species and local considerations. Prefer details that align with the place description. If offshore, mention boating safety.',
+      input: [
         { role: 'user', content: `Location: ${placeDescription ?? 'Unknown location'}` },
         { role: 'user', content: `Latitude: ${parsedLat}, Longitude: ${parsedLon}` }
       ]
     })
 
-    const text = (completion as any)?.choices?.[0]?.message?.content || 'No data'
+    const text = completion.text || 'No data'
+
+    // Token usage (best effort, signed-in users only – RLS requires auth.uid() = user_id)
+    const userId = user?.id
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    if (userId && supabaseUrl && supabaseAnonKey) {
+      try {
+        // @ts-ignore
+        const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2')
+        const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+          global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+        })
+        await recordLlmUsage(supabase, {
+          userId,
+          functionName: 'summarize_pin',
+          calls: [{ model: completion.model, usage: completion.usage }]
+        })
+      } catch (usageErr) {
+        console.warn('Failed to log token usage', usageErr)
+      }
+    }
     return new Response(JSON.stringify({ summary: text }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       status: 200
     })
   } catch (err) {
+    if (err instanceof AuthError) return authErrorResponse(err, corsHeaders)
     return new Response(JSON.stringify({ error: (err as Error).message }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       status: 500
@@ -0,0 +1,53 @@
+// Supabase Edge Function: trip_alerts – re-checks the active weather alerts for a saved trip's location
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { getCorsHeaders } from '../_shared/cors.ts'
+import { getOptionalUser, AuthError, authErrorResponse } from '../_shared/auth.ts'
+import { tripAlertsRequestSchema, type HazardInfo } from '../_shared/contract.ts'
+import { getConditionsProviders } from '../_shared/conditions/index.ts'
+
+// Only trips with a `hazards` block (U.S. locations) re-check, so the default region's weather provider applies
+const weather = getConditionsProviders().weather
+
+serve(async (req) => {
+  const origin = req.headers.get('Origin')
+  const corsHeaders = getCorsHeaders(origin)
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: { ...corsHeaders, 'Content-Type': 'application/json' } })
+  }
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 405
+    })
+  }
+
+  try {
+    // Shared trips are public, so signed-out visitors (anon key) may re-check; session tokens must verify
+    await getOptionalUser(req)
+
+    const parsed = tripAlertsRequestSchema.safeParse(await req.json())
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: parsed.error.issues[0].message }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400
+      })
+    }
+    const { lat, lon } = parsed.data
+
+    // Answers from the 5-minute alerts cache when several viewers open the same trip
+    const alerts = (await weather.getActiveAlerts(lat, lon)) ?? []
+    const body: HazardInfo = { lat, lon, alerts, checkedAt: new Date().toISOString() }
+    return new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    })
+  } catch (err) {
+    if (err instanceof AuthError) return authErrorResponse(err, corsHeaders)
+    console.error('trip_alerts error', err)
+    return new Response(JSON.stringify({ error: 'An error occurred while checking alerts. Please try again later.' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 500
+    })
+  }
+})
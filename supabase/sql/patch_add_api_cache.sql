@@ -0,0 +1,101 @@
+-- Shared cache for upstream conditions APIs (geocoding, weather.gov, USGS, CO-OPS)
+-- Edge functions read and write through cache_get / cache_set with the service role key; TTLs are
+-- chosen per source in supabase/functions/_shared/cache.ts. Hits and misses are counted per day
+-- and source for the Admin page.
+
+-- ================================
+-- CACHE ENTRIES
+-- ================================
+create table if not exists public.api_cache (
+  source text not null, -- e.g. 'geocode', 'nws_points', 'nws_forecast'
+  key text not null,
+  value jsonb not null,
+  expires_at timestamp with time zone not null,
+  created_at timestamp with time zone default now(),
+  primary key (source, key)
+);
+
+create index if not exists api_cache_expires_idx on public.api_cache (expires_at);
+
+-- No policies: only the security-definer functions below (service role) touch the cache
+alter table public.api_cache enable row level security;
+
+-- ================================
+-- HIT / MISS COUNTERS
+-- ================================
+create table if not exists public.api_cache_stats (
+  day date not null default current_date,
+  source text not null,
+  hits bigint not null default 0,
+  misses bigint not null default 0,
+  primary key (day, source)
+);
+
+alter table public.api_cache_stats enable row level security;
+
+create policy "Admins can view cache stats" on public.api_cache_stats
+  for select using (
+    (current_setting('request.jwt.claims', true)::json ->> 'role') = 'admin'
+    or (current_setting('request.jwt.claims', true)::json -> 'user_metadata' ->> 'role') = 'admin'
+  );
+
+-- ================================
+-- FUNCTIONS
+-- ================================
+-- Unexpired value for (source, key) or null; counts the lookup as a hit or miss
+create or replace function public.cache_get(p_source text, p_key text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $function$
+declare
+  cached jsonb;
+begin
+  select c.value into cached
+  from public.api_cache c
+  where c.source = p_source and c.key = p_key and c.expires_at > now();
+
+  insert into public.api_cache_stats as s (day, source, hits, misses)
+  values (current_date, p_source, (cached is not null)::int, (cached is null)::int)
+  on conflict (day, source) do update
+    set hits = s.hits + excluded.hits,
+        misses = s.misses + excluded.misses;
+
+  return cached;
+end;
+$function$;
+
+create or replace function public.cache_set(p_source text, p_key text, p_value jsonb, p_ttl_seconds integer)
+returns void
+language sql
+security definer
+set search_path = public
+as $function$
+  insert into public.api_cache (source, key, value, expires_at, created_at)
+  values (p_source, p_key, p_value, now() + make_interval(secs => p_ttl_seconds), now())
+  on conflict (source, key) do update
+    set value = excluded.value,
+        expires_at = excluded.expires_at,
+        created_at = excluded.created_at;
+$function$;
+
+-- Expired rows are overwritten on the next miss; run this (e.g. daily via pg_cron) to reclaim space
+create or replace function public.purge_expired_api_cache()
+returns integer
+language sql
+security definer
+set search_path = public
+as $function$
+  with deleted as (
+    delete from public.api_cache where expires_at < now() returning 1
+  )
+  select count(*)::int from deleted;
+$function$;
+
+revoke all on function public.cache_get(text, text) from public;
+revoke all on function public.cache_set(text, text, jsonb, integer) from public;
+revoke all on function public.purge_expired_api_cache() from public;
+grant execute on function public.cache_get(text, text) to service_role;
+grant execute on function public.cache_set(text, text, jsonb, integer) to service_role;
+grant execute on function public.purge_expired_api_cache() to service_role;
@@ -0,0 +1,7 @@
+-- Rate limits for best_day. No model is involved, but a run fetches the forecast, pressure,
+-- gauge and a tide table per day of the window, so it gets its own bucket.
+insert into public.rate_limit_policies (function_name, plan_tier, capacity, window_seconds)
+values
+  ('best_day', 'free', 10, 3600),
+  ('best_day', 'pro',  40, 3600)
+on conflict (function_name, plan_tier) do nothing;
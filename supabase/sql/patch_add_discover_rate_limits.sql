@@ -0,0 +1,7 @@
+-- Rate limits for discover_waters ("Where should I go?"). A search makes one model call and a
+-- conditions fetch per candidate water, so it gets its own bucket rather than plan_trip's.
+insert into public.rate_limit_policies (function_name, plan_tier, capacity, window_seconds)
+values
+  ('discover_waters', 'free', 5, 3600),
+  ('discover_waters', 'pro',  20, 3600)
+on conflict (function_name, plan_tier) do nothing;
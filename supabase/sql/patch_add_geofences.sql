@@ -0,0 +1,236 @@
+-- Closures, protected areas and a land / water mask for checking the model's points of interest.
+-- Polygons are loaded from GeoJSON with scripts/load_geofences.ts. plan_trip lists the areas near
+-- the trip in the prompt, checks every point of interest with check_geofence_points (points in a
+-- closed area or on dry land go back to the model, then are dropped; points in restricted areas
+-- are flagged), and MapView draws the areas in view with restricted_areas_in_bbox.
+
+create extension if not exists postgis with schema extensions;
+
+-- ================================
+-- RESTRICTED AREAS
+-- ================================
+create table if not exists public.restricted_areas (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null unique, -- "<source>#<feature id or index>", so re-loading a file updates it in place
+  name text not null,
+  kind text not null check (kind in ('marine_reserve', 'no_take', 'no_wake', 'closure', 'private_land', 'other')),
+  -- closed: no fishing (points are moved or dropped); restricted: allowed with conditions (points are flagged)
+  restriction text not null check (restriction in ('closed', 'restricted')),
+  notes text,
+  starts_on date, -- null: no start (permanent or already in force)
+  ends_on date, -- null: until further notice
+  source text not null, -- GeoJSON file the area was loaded from
+  source_url text,
+  geom extensions.geometry(MultiPolygon, 4326) not null,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
+);
+
+create index if not exists restricted_areas_geom_idx on public.restricted_areas using gist (geom);
+
+-- ================================
+-- LAND / WATER MASK
+-- ================================
+-- land: coastline land polygons shrunk by the shore tolerance at load time, so a point inside one
+-- is that far from the sea. water: lakes, reservoirs and rivers inside the land polygons. Both are
+-- subdivided on load to keep point-in-polygon checks cheap.
+create table if not exists public.surface_mask (
+  id bigint generated always as identity primary key,
+  kind text not null check (kind in ('land', 'water')),
+  source text not null,
+  geom extensions.geometry(Polygon, 4326) not null
+);
+
+create index if not exists surface_mask_geom_idx on public.surface_mask using gist (geom);
+create index if not exists surface_mask_source_idx on public.surface_mask (source);
+
+alter table public.restricted_areas enable row level security;
+alter table public.surface_mask enable row level security;
+
+-- Closures are public information (the map shows them on shared trips too); the loader uses the
+-- service role, which bypasses RLS
+create policy "Anyone can read restricted areas" on public.restricted_areas
+  for select using (true);
+
+create policy "Anyone can read the surface mask" on public.surface_mask
+  for select using (true);
+
+-- ================================
+-- LOADING (service role only)
+-- ================================
+-- p_features: [{ slug, name, kind, restriction, notes, starts_on, ends_on, source_url, geometry }]
+-- with GeoJSON Polygon / MultiPolygon geometries
+create or replace function public.load_restricted_areas(p_source text, p_features jsonb)
+returns integer
+language sql
+set search_path = public, extensions
+as $function$
+  with rows as (
+    insert into public.restricted_areas as a (slug, name, kind, restriction, notes, starts_on, ends_on, source, source_url, geom)
+    select
+      f ->> 'slug',
+      f ->> 'name',
+      f ->> 'kind',
+      f ->> 'restriction',
+      f ->> 'notes',
+      (f ->> 'starts_on')::date,
+      (f ->> 'ends_on')::date,
+      p_source,
+      f ->> 'source_url',
+      ST_Multi(ST_CollectionExtract(ST_MakeValid(ST_SetSRID(ST_GeomFromGeoJSON(f -> 'geometry'), 4326)), 3))
+    from jsonb_array_elements(p_features) f
+    on conflict (slug) do update set
+      name = excluded.name,
+      kind = excluded.kind,
+      restriction = excluded.restriction,
+      notes = excluded.notes,
+      starts_on = excluded.starts_on,
+      ends_on = excluded.ends_on,
+      source = excluded.source,
+      source_url = excluded.source_url,
+      geom = excluded.geom,
+      updated_at = now()
+    returning 1
+  )
+  select count(*)::integer from rows;
+$function$;
+
+-- p_geometries: GeoJSON Polygon / MultiPolygon geometries. Land is shrunk by p_shore_tolerance_m
+-- (shore spots within that distance of the water are fine); p_replace clears the source first.
+create or replace function public.load_surface_mask(
+  p_kind text,
+  p_source text,
+  p_geometries jsonb,
+  p_replace boolean default false,
+  p_shore_tolerance_m double precision default 150
+)
+returns integer
+language plpgsql
+set search_path = public, extensions
+as $function$
+declare
+  loaded integer;
+begin
+  if p_replace then
+    delete from public.surface_mask where source = p_source;
+  end if;
+
+  insert into public.surface_mask (kind, source, geom)
+  select p_kind, p_source, part
+  from (
+    select (ST_Dump(ST_Subdivide(
+      case when p_kind = 'land'
+        then ST_Buffer(shape::geography, -p_shore_tolerance_m)::geometry
+        else shape
+      end,
+      256
+    ))).geom as part
+    from (
+      select ST_CollectionExtract(ST_MakeValid(ST_SetSRID(ST_GeomFromGeoJSON(g), 4326)), 3) as shape
+      from jsonb_array_elements(p_geometries) g
+    ) shapes
+  ) parts
+  where not ST_IsEmpty(part) and GeometryType(part) = 'POLYGON';
+
+  get diagnostics loaded = row_count;
+  return loaded;
+end;
+$function$;
+
+revoke all on function public.load_restricted_areas(text, jsonb) from public, anon, authenticated;
+revoke all on function public.load_surface_mask(text, text, jsonb, boolean, double precision) from public, anon, authenticated;
+
+-- ================================
+-- CHECKS
+-- ================================
+-- Areas in force on any day of [p_from, p_to] (p_to defaults to p_from)
+create or replace function public.restricted_area_active(a public.restricted_areas, p_from date, p_to date)
+returns boolean
+language sql
+immutable
+as $function$
+  select (a.starts_on is null or a.starts_on <= coalesce(p_to, p_from))
+     and (a.ends_on is null or a.ends_on >= p_from);
+$function$;
+
+-- One row per problem with a point. p_points: [{ id, lon, lat }]. reason is 'closed_area' or
+-- 'restricted_area' (with the area), or 'dry_land' (inside the land mask and more than the shore
+-- tolerance from any mapped water).
+create or replace function public.check_geofence_points(
+  p_points jsonb,
+  p_from date default current_date,
+  p_to date default null,
+  p_shore_tolerance_m double precision default 150
+)
+returns table (point_id text, reason text, area_id uuid, area_name text, kind text, source_url text, notes text)
+language sql
+stable
+set search_path = public, extensions
+as $function$
+  with points as (
+    select p ->> 'id' as id, ST_SetSRID(ST_MakePoint((p ->> 'lon')::float8, (p ->> 'lat')::float8), 4326) as pt
+    from jsonb_array_elements(p_points) p
+  )
+  select points.id, case a.restriction when 'closed' then 'closed_area' else 'restricted_area' end,
+         a.id, a.name, a.kind, a.source_url, a.notes
+  from points
+  join public.restricted_areas a on ST_Intersects(a.geom, points.pt)
+  where public.restricted_area_active(a, p_from, p_to)
+  union all
+  select points.id, 'dry_land', null, null, null, null, null
+  from points
+  where exists (select 1 from public.surface_mask l where l.kind = 'land' and ST_Intersects(l.geom, points.pt))
+    and not exists (
+      select 1 from public.surface_mask w
+      where w.kind = 'water'
+        and w.geom && ST_Expand(points.pt, p_shore_tolerance_m / 50000.0)
+        and ST_DWithin(w.geom::geography, points.pt::geography, p_shore_tolerance_m)
+    );
+$function$;
+
+-- Areas within p_radius_m of the trip location, nearest first (for the plan_trip prompt)
+create or replace function public.restricted_areas_near(
+  p_lat double precision,
+  p_lon double precision,
+  p_radius_m double precision default 25000,
+  p_from date default current_date,
+  p_to date default null
+)
+returns table (id uuid, name text, kind text, restriction text, notes text, distance_m double precision)
+language sql
+stable
+set search_path = public, extensions
+as $function$
+  select a.id, a.name, a.kind, a.restriction, a.notes,
+         ST_Distance(a.geom::geography, ST_SetSRID(ST_MakePoint(p_lon, p_lat), 4326)::geography) as distance_m
+  from public.restricted_areas a
+  where ST_DWithin(a.geom::geography, ST_SetSRID(ST_MakePoint(p_lon, p_lat), 4326)::geography, p_radius_m)
+    and public.restricted_area_active(a, p_from, p_to)
+  order by distance_m
+  limit 20;
+$function$;
+
+-- Areas overlapping the map view as GeoJSON, simplified to roughly a pixel at the view's width
+create or replace function public.restricted_areas_in_bbox(
+  p_min_lon double precision,
+  p_min_lat double precision,
+  p_max_lon double precision,
+  p_max_lat double precision,
+  p_on date default current_date
+)
+returns table (id uuid, name text, kind text, restriction text, notes text, source_url text, starts_on date, ends_on date, geometry jsonb)
+language sql
+stable
+set search_path = public, extensions
+as $function$
+  select a.id, a.name, a.kind, a.restriction, a.notes, a.source_url, a.starts_on, a.ends_on,
+         ST_AsGeoJSON(ST_SimplifyPreserveTopology(a.geom, (p_max_lon - p_min_lon) / 2000), 6)::jsonb
+  from public.restricted_areas a
+  where a.geom && ST_MakeEnvelope(p_min_lon, p_min_lat, p_max_lon, p_max_lat, 4326)
+    and public.restricted_area_active(a, p_on, p_on)
+  limit 500;
+$function$;
+
+grant execute on function public.check_geofence_points(jsonb, date, date, double precision) to authenticated;
+grant execute on function public.restricted_areas_near(double precision, double precision, double precision, date, date) to authenticated;
+grant execute on function public.restricted_areas_in_bbox(double precision, double precision, double precision, double precision, date) to anon, authenticated;
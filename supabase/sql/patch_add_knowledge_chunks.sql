@@ -0,0 +1,86 @@
+-- Species / technique knowledge base for plan_trip (replaces the hard-coded KNOWLEDGE_BASE).
+-- Chunks come from the markdown guides in knowledge/ (scripts/ingest_knowledge.ts) or the Admin
+-- page (knowledge_admin function). plan_trip embeds a query for the trip and retrieves the nearest
+-- chunks through match_knowledge_chunks, filtered by the trip's species, region, season, platform
+-- and styles; the ids it used are stored on the trip.
+
+create extension if not exists vector with schema extensions;
+
+-- ================================
+-- KNOWLEDGE CHUNKS
+-- ================================
+-- Tag arrays are lower-case; an empty array means the chunk applies to every value
+create table if not exists public.knowledge_chunks (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null unique, -- "<guide file>#<section>", or "admin/<uuid>" for entries added in the app
+  title text not null,
+  content text not null,
+  species text[] not null default '{}', -- wizard names, e.g. 'bass (largemouth)', 'snook'
+  regions text[] not null default '{}', -- ISO 3166 country / subdivision codes, e.g. 'us', 'us-fl'
+  seasons text[] not null default '{}', -- 'spring' | 'summer' | 'fall' | 'winter'
+  platforms text[] not null default '{}', -- 'shore' | 'boat'
+  styles text[] not null default '{}', -- 'fly' | 'spin' | 'cast'
+  source text, -- guide path the chunk was ingested from
+  embedding extensions.vector(1536),
+  embedding_model text,
+  embedded_at timestamp with time zone,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
+);
+
+create index if not exists knowledge_chunks_embedding_idx
+  on public.knowledge_chunks using hnsw (embedding extensions.vector_cosine_ops);
+create index if not exists knowledge_chunks_species_idx on public.knowledge_chunks using gin (species);
+
+alter table public.knowledge_chunks enable row level security;
+
+-- Any signed-in user may read (plan_trip retrieves with the caller's JWT); only admins write
+create policy "Authenticated users can read knowledge" on public.knowledge_chunks
+  for select to authenticated using (true);
+
+-- app_metadata only: users can write their own user_metadata
+create policy "Admins can manage knowledge" on public.knowledge_chunks
+  for all using (
+    (current_setting('request.jwt.claims', true)::json -> 'app_metadata' ->> 'role') = 'admin'
+  )
+  with check (
+    (current_setting('request.jwt.claims', true)::json -> 'app_metadata' ->> 'role') = 'admin'
+  );
+
+-- ================================
+-- RETRIEVAL
+-- ================================
+-- Nearest chunks to the query embedding whose tags match the trip (untagged dimensions match anything)
+create or replace function public.match_knowledge_chunks(
+  query_embedding extensions.vector(1536),
+  match_count integer default 6,
+  p_species text[] default '{}',
+  p_regions text[] default '{}',
+  p_season text default null,
+  p_platform text default null,
+  p_styles text[] default '{}'
+)
+returns table (id uuid, title text, content text, similarity double precision)
+language sql
+stable
+set search_path = public, extensions
+as $function$
+  select k.id, k.title, k.content, 1 - (k.embedding <=> query_embedding) as similarity
+  from public.knowledge_chunks k
+  where k.embedding is not null
+    and (cardinality(k.species) = 0 or k.species && p_species)
+    and (cardinality(k.regions) = 0 or k.regions && p_regions)
+    and (p_season is null or cardinality(k.seasons) = 0 or p_season = any (k.seasons))
+    and (p_platform is null or cardinality(k.platforms) = 0 or p_platform = any (k.platforms))
+    and (cardinality(p_styles) = 0 or cardinality(k.styles) = 0 or k.styles && p_styles)
+  order by k.embedding <=> query_embedding
+  limit match_count;
+$function$;
+
+grant execute on function public.match_knowledge_chunks(extensions.vector, integer, text[], text[], text, text, text[]) to authenticated;
+
+-- ================================
+-- TRIPS
+-- ================================
+-- Chunks retrieved for the plan's prompt, so admins can see which knowledge shaped each plan
+alter table public.trips add column if not exists knowledge_chunk_ids uuid[] not null default '{}';
@@ -0,0 +1,76 @@
+-- Per-model LLM pricing and accurate cost accounting
+-- Rates are USD per 1M tokens. Add a new row with a later effective_from when a price changes;
+-- edge functions use the latest row that is in effect on the day of the call.
+
+-- ================================
+-- MODEL PRICING TABLE
+-- ================================
+create table if not exists public.model_pricing (
+  id uuid primary key default uuid_generate_v4(),
+  model text not null,
+  effective_from date not null,
+  input_per_million numeric(12,6) not null,
+  cached_input_per_million numeric(12,6), -- null = no cached-input discount
+  output_per_million numeric(12,6) not null,
+  created_at timestamp with time zone default now(),
+  unique (model, effective_from)
+);
+
+alter table public.model_pricing enable row level security;
+
+-- Edge functions read prices with the caller's JWT
+create policy "Authenticated users can read model pricing" on public.model_pricing
+  for select using (auth.role() = 'authenticated');
+
+create policy "Admins can manage model pricing" on public.model_pricing
+  for all using (
+    (current_setting('request.jwt.claims', true)::json ->> 'role') = 'admin'
+    or (current_setting('request.jwt.claims', true)::json -> 'user_metadata' ->> 'role') = 'admin'
+  );
+
+insert into public.model_pricing (model, effective_from, input_per_million, cached_input_per_million, output_per_million)
+values
+  ('gpt-4o',      '2024-10-01', 2.50, 1.25,  10.00),
+  ('gpt-4o-mini', '2024-10-01', 0.15, 0.075, 0.60)
+on conflict (model, effective_from) do nothing;
+
+-- ================================
+-- COST COLUMNS
+-- ================================
+alter table public.token_usage add column if not exists cached_tokens int default 0;
+alter table public.token_usage add column if not exists cost_usd numeric(12,6);
+
+-- Chat messages cost fractions of a cent; 4 decimals rounds most of them to zero
+alter table public.usage_tracking alter column cost_usd type numeric(12,6);
+
+-- Backfill cost for rows logged before this patch (cached tokens were not recorded then)
+update public.token_usage t
+set cost_usd = (coalesce(t.prompt_tokens, 0) * p.input_per_million
+              + coalesce(t.completion_tokens, 0) * p.output_per_million) / 1000000
+from public.model_pricing p
+where t.cost_usd is null
+  and p.model = t.model
+  and p.effective_from = (
+    select max(effective_from) from public.model_pricing
+    where model = t.model and effective_from <= t.created_at::date
+  );
+
+-- ================================
+-- ADMIN SPEND VIEW (per day / user / function)
+-- ================================
+create or replace view public.admin_llm_spend as
+select  date_trunc('day', t.created_at)::date as day,
+        t.user_id,
+        u.email,
+        coalesce(t.function_name, 'plan_trip') as function_name,
+        count(*) as calls,
+        sum(t.total_tokens) as total_tokens,
+        sum(t.cost_usd) as cost_usd,
+        count(*) filter (where t.cost_usd is null) as unpriced_calls
+from public.token_usage t
+left join auth.users u on u.id = t.user_id
+where (
+  (current_setting('request.jwt.claims', true)::json ->> 'role') = 'admin'
+  or (current_setting('request.jwt.claims', true)::json -> 'user_metadata' ->> 'role') = 'admin'
+)
+group by 1, 2, 3, 4;
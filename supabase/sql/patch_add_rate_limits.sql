@@ -0,0 +1,145 @@
+-- Durable token-bucket rate limiting for edge functions
+-- Each (user, function) pair has a bucket holding up to `capacity` tokens that refills evenly over
+-- `window_seconds`; every request spends one token. Limits are set per function and plan tier
+-- (subscriptions.plan_type of the active subscription, otherwise 'free').
+
+-- ================================
+-- RATE LIMIT POLICIES
+-- ================================
+create table if not exists public.rate_limit_policies (
+  function_name text not null,
+  plan_tier text not null check (plan_tier in ('free', 'pro')),
+  capacity integer not null check (capacity > 0), -- burst size = requests allowed per window
+  window_seconds integer not null check (window_seconds > 0), -- time to refill an empty bucket
+  updated_at timestamp with time zone default now(),
+  primary key (function_name, plan_tier)
+);
+
+alter table public.rate_limit_policies enable row level security;
+
+create policy "Authenticated users can read rate limit policies" on public.rate_limit_policies
+  for select using (auth.role() = 'authenticated');
+
+-- app_metadata only: user_metadata is writable by the user through auth.updateUser
+create policy "Admins can manage rate limit policies" on public.rate_limit_policies
+  for all using (
+    (current_setting('request.jwt.claims', true)::json -> 'app_metadata' ->> 'role') = 'admin'
+  );
+
+insert into public.rate_limit_policies (function_name, plan_tier, capacity, window_seconds)
+values
+  ('plan_trip',  'free', 10, 3600),
+  ('plan_trip',  'pro',  30, 3600),
+  ('chat_guide', 'free', 20, 900),
+  ('chat_guide', 'pro',  60, 900)
+on conflict (function_name, plan_tier) do nothing;
+
+-- ================================
+-- RATE LIMIT BUCKETS
+-- ================================
+create table if not exists public.rate_limit_buckets (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  function_name text not null,
+  tokens numeric not null, -- tokens left as of updated_at (refill is applied lazily)
+  updated_at timestamp with time zone not null default now(),
+  primary key (user_id, function_name)
+);
+
+-- Only consume_rate_limit (security definer) writes buckets; users may look at their own
+alter table public.rate_limit_buckets enable row level security;
+
+create policy "Users can view own rate limit buckets" on public.rate_limit_buckets
+  for select using (auth.uid() = user_id);
+
+-- ================================
+-- CONSUME A TOKEN
+-- ================================
+-- Spends `p_cost` tokens from the caller's bucket for `p_function_name`. The row lock serialises
+-- concurrent requests from every function instance. Functions without a policy are unlimited
+-- (all limit columns null). Callers are untrusted, so a cost below 1 (which would refill the
+-- bucket) is rejected.
+create or replace function public.consume_rate_limit(p_function_name text, p_cost integer default 1)
+returns table (
+  allowed boolean,
+  capacity integer,
+  remaining integer,
+  reset_seconds integer,       -- until the bucket is full again
+  retry_after_seconds integer, -- until enough tokens for this request (null when allowed)
+  window_seconds integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $function$
+declare
+  uid uuid := auth.uid();
+  tier text;
+  tier_policy record;
+  bucket record;
+  rate numeric;
+  available numeric;
+  now_ts timestamp with time zone := clock_timestamp();
+begin
+  if uid is null then
+    raise exception 'consume_rate_limit requires an authenticated user';
+  end if;
+
+  if p_cost is null or p_cost < 1 then
+    raise exception 'consume_rate_limit cost must be at least 1';
+  end if;
+
+  select coalesce(
+    (select s.plan_type from public.subscriptions s
+     where s.user_id = uid and s.status = 'active'
+     limit 1),
+    'free'
+  ) into tier;
+
+  select p.capacity, p.window_seconds into tier_policy
+  from public.rate_limit_policies p
+  where p.function_name = p_function_name and p.plan_tier = tier;
+
+  if not found then
+    return query select true, null::integer, null::integer, null::integer, null::integer, null::integer;
+    return;
+  end if;
+
+  rate := tier_policy.capacity::numeric / tier_policy.window_seconds;
+
+  insert into public.rate_limit_buckets as b (user_id, function_name, tokens, updated_at)
+  values (uid, p_function_name, tier_policy.capacity, now_ts)
+  on conflict on constraint rate_limit_buckets_pkey do nothing;
+
+  select b.tokens, b.updated_at into bucket
+  from public.rate_limit_buckets b
+  where b.user_id = uid and b.function_name = p_function_name
+  for update;
+
+  available := least(
+    tier_policy.capacity::numeric,
+    bucket.tokens + greatest(0, extract(epoch from now_ts - bucket.updated_at)) * rate
+  );
+
+  if available >= p_cost then
+    available := available - p_cost;
+    allowed := true;
+    retry_after_seconds := null;
+  else
+    allowed := false;
+    retry_after_seconds := greatest(1, ceil((p_cost - available) / rate))::integer;
+  end if;
+
+  update public.rate_limit_buckets b
+  set tokens = available, updated_at = now_ts
+  where b.user_id = uid and b.function_name = p_function_name;
+
+  capacity := tier_policy.capacity;
+  remaining := floor(available)::integer;
+  reset_seconds := ceil((tier_policy.capacity - available) / rate)::integer;
+  window_seconds := tier_policy.window_seconds;
+  return next;
+end;
+$function$;
+
+revoke all on function public.consume_rate_limit(text, integer) from public;
+grant execute on function public.consume_rate_limit(text, integer) to authenticated;
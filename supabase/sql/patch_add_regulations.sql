@@ -0,0 +1,44 @@
+-- Fishing regulations that plan_trip attaches to itineraries (instead of asking the model).
+-- Rows are imported from CSV on the Admin page; each carries the agency page it was taken from
+-- and the date someone last checked it against that page.
+
+-- ================================
+-- REGULATIONS
+-- ================================
+create table if not exists public.regulations (
+  id uuid primary key default gen_random_uuid(),
+  jurisdiction text not null, -- ISO 3166 code, lower case: 'us-fl' (state) or 'bs' (country)
+  waterbody text, -- null = jurisdiction-wide; otherwise matched against the trip location's name
+  species text, -- wizard species name, lower case; null = every species (licenses, area closures)
+  season_start text check (season_start ~ '^\d{2}-\d{2}$'), -- MM-DD, inclusive; null with season_end = all year
+  season_end text check (season_end ~ '^\d{2}-\d{2}$'), -- may be before season_start (wraps the new year)
+  bag_limit integer check (bag_limit >= 0), -- per person per day
+  min_length_in numeric,
+  max_length_in numeric,
+  closed boolean not null default false, -- harvest closed (catch-and-release), or the waterbody is closed
+  license_required boolean,
+  notes text,
+  source_url text not null,
+  last_verified date not null,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now(),
+  -- CSV re-imports update the rule in place
+  constraint regulations_rule_key unique nulls not distinct (jurisdiction, waterbody, species, season_start, season_end)
+);
+
+create index if not exists regulations_jurisdiction_idx on public.regulations (jurisdiction);
+
+alter table public.regulations enable row level security;
+
+-- Regulations are public information; only admins import or edit them
+create policy "Anyone can read regulations" on public.regulations
+  for select using (true);
+
+-- app_metadata only: users can write their own user_metadata
+create policy "Admins can manage regulations" on public.regulations
+  for all using (
+    (current_setting('request.jwt.claims', true)::json -> 'app_metadata' ->> 'role') = 'admin'
+  )
+  with check (
+    (current_setting('request.jwt.claims', true)::json -> 'app_metadata' ->> 'role') = 'admin'
+  );
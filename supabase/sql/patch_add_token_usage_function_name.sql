@@ -0,0 +1,5 @@
+-- Record which edge function (plan_trip, chat_guide, summarize_pin) consumed the tokens
+alter table public.token_usage add column if not exists function_name text;
+
+-- Rows written before this patch all came from plan_trip
+update public.token_usage set function_name = 'plan_trip' where function_name is null;
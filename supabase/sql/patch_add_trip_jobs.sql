@@ -0,0 +1,32 @@
+-- Asynchronous trip generation jobs
+-- plan_trip (mode: 'job') inserts a row, returns its id and updates stage/progress as the
+-- pipeline runs. The app polls the row or subscribes to it through Supabase Realtime.
+
+create table if not exists public.trip_jobs (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null default auth.uid() references auth.users(id),
+  status text not null default 'pending'
+    check (status in ('pending', 'running', 'succeeded', 'failed')),
+  stage text not null default 'queued'
+    check (stage in ('queued', 'geocoded', 'weather_fetched', 'tides_fetched', 'generating', 'validating', 'completed')),
+  progress jsonb not null default '[]'::jsonb, -- [{ stage, at }] in completion order
+  request jsonb not null,
+  plan_id text,
+  result jsonb, -- plan_trip response payload once succeeded
+  error text,
+  error_code text,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
+);
+
+create index if not exists trip_jobs_user_created_idx on public.trip_jobs (user_id, created_at desc);
+
+alter table public.trip_jobs enable row level security;
+
+-- Only plan_trip writes jobs (with the service role); owners may read their own.
+-- Stale jobs are failed by fail_stale_trip_jobs (patch_restrict_trip_job_writes.sql).
+create policy "Users can view own trip jobs" on public.trip_jobs
+  for select using (auth.uid() = user_id);
+
+-- Stream row changes to subscribed clients (RLS still applies)
+alter publication supabase_realtime add table public.trip_jobs;
@@ -0,0 +1,41 @@
+-- Trip jobs are written by plan_trip with the service role only. Earlier versions of
+-- patch_add_trip_jobs.sql let owners insert and update their rows, which allowed a client to
+-- mark its own job succeeded with a forged result.
+drop policy if exists "Users can create own trip jobs" on public.trip_jobs;
+drop policy if exists "Users can update own trip jobs" on public.trip_jobs;
+
+-- ================================
+-- FAIL STALE JOBS
+-- ================================
+-- A job whose background worker died stays pending/running. plan_trip touches updated_at at
+-- every stage, so one that has not moved for 10 minutes (STALE_TRIP_JOB_MINUTES in the
+-- contract) is failed. Only the caller's own jobs are touched and only ever to 'failed'.
+create or replace function public.fail_stale_trip_jobs()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $function$
+declare
+  failed integer;
+begin
+  if auth.uid() is null then
+    raise exception 'fail_stale_trip_jobs requires an authenticated user';
+  end if;
+
+  update public.trip_jobs
+  set status = 'failed',
+      error = 'Trip generation stopped responding. Please try again.',
+      error_code = 'JOB_STALE',
+      updated_at = now()
+  where user_id = auth.uid()
+    and status in ('pending', 'running')
+    and updated_at < now() - interval '10 minutes';
+
+  get diagnostics failed = row_count;
+  return failed;
+end;
+$function$;
+
+revoke all on function public.fail_stale_trip_jobs() from public;
+grant execute on function public.fail_stale_trip_jobs() to authenticated;